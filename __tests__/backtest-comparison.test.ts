@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { compareBacktestToLive } from '@/lib/analytics-engine';
+import { makeTrade } from './fixtures';
+
+const withR = (values: number[]) => values.map(rFactor => makeTrade({ rFactor }));
+const withWins = (wins: number, total: number) =>
+  Array.from({ length: total }, (_, i) => makeTrade({ rFactor: i < wins ? 1 : -1 }));
+
+describe('compareBacktestToLive', () => {
+  const backtest = withR([2, 1.5, -1, 2.5, 1, -1, 2, 1.8]);
+  const live = withR([-1, 0.5, -1, -0.8, 1, -1, 0.2, -1]);
+
+  it("should run Welch's t-test on R per trade", () => {
+    // Reference: t = -2.639 on 11.48 degrees of freedom, two-tailed p = 0.0223
+    const { expectancyTest, verdict } = compareBacktestToLive(backtest, live);
+    expect(expectancyTest.statistic).toBeCloseTo(-2.639, 3);
+    expect(expectancyTest.pValue).toBeCloseTo(0.0223, 3);
+    expect(expectancyTest.isSignificant).toBe(true);
+    expect(verdict).toBe('degraded');
+  });
+
+  it('should be symmetric when the sides are swapped', () => {
+    const { expectancyTest, verdict } = compareBacktestToLive(live, backtest);
+    expect(expectancyTest.statistic).toBeCloseTo(2.639, 3);
+    expect(verdict).toBe('improved');
+  });
+
+  it('should not call a difference significant at a stricter level', () => {
+    const { expectancyTest, verdict } = compareBacktestToLive(backtest, live, 0.01);
+    expect(expectancyTest.isSignificant).toBe(false);
+    expect(verdict).toBe('consistent');
+  });
+
+  it('should run a two-proportion z-test on win rate', () => {
+    // Reference: 14/20 vs 8/20 wins gives z = -1.907, two-tailed p = 0.0565
+    const { winRateTest } = compareBacktestToLive(withWins(14, 20), withWins(8, 20));
+    expect(winRateTest.statistic).toBeCloseTo(-1.907, 3);
+    expect(winRateTest.pValue).toBeCloseTo(0.0565, 3);
+    expect(winRateTest.isSignificant).toBe(false);
+  });
+
+  it('should skip the tests when there is no variation or too few trades', () => {
+    const flat = compareBacktestToLive(withR([1, 1, 1, 1, 1]), withR([1, 1, 1, 1, 1]));
+    expect(flat.expectancyTest).toEqual({ statistic: 0, pValue: 1, isSignificant: false });
+    expect(flat.winRateTest.pValue).toBe(1);
+
+    const few = compareBacktestToLive(backtest, live.slice(0, 3));
+    expect(few.verdict).toBe('insufficient');
+    expect(compareBacktestToLive(backtest, live.slice(0, 1)).expectancyTest.pValue).toBe(1);
+  });
+});
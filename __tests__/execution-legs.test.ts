@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { TradeExecution } from '@/lib/types';
+import { summarizeExecutions, calculatePnL, parseFormCharges } from '@/lib/trade-utils';
+
+let nextId = 0;
+const leg = (side: 'entry' | 'exit', price: number, quantity: number, fees = 0): TradeExecution => ({
+  id: String(++nextId),
+  side,
+  price,
+  quantity,
+  fees,
+});
+
+describe('summarizeExecutions', () => {
+  it('should realize each exit against the average cost so far', () => {
+    const summary = summarizeExecutions([
+      leg('entry', 100, 10, 1),
+      leg('entry', 110, 10, 1),
+      leg('exit', 120, 10, 1),
+      // Added after a partial exit: the remaining 10 at 105 plus 10 at 100
+      leg('entry', 100, 10),
+      leg('exit', 110, 20, 1),
+    ], 'Buy');
+
+    expect(summary.legs.map(l => l.averageCost)).toEqual([100, 105, 105, 102.5, 102.5]);
+    expect(summary.grossPnL).toBe(300); // (120 - 105) * 10 + (110 - 102.5) * 20
+    expect(summary.fees).toBe(4);
+    expect(summary.realizedPnL).toBe(296);
+    expect(summary.openQuantity).toBe(0);
+    expect(summary.averageEntry).toBeCloseTo(103.333, 3);
+    expect(summary.averageExit).toBeCloseTo(113.333, 3);
+  });
+
+  it('should apply the direction and point value for short positions', () => {
+    const summary = summarizeExecutions([leg('entry', 50, 2), leg('exit', 45, 2)], 'Sell', 10);
+    expect(summary.realizedPnL).toBe(100); // 5 points * 2 * 10
+  });
+
+  it('should ignore exit quantity beyond the open position', () => {
+    const summary = summarizeExecutions([leg('entry', 100, 5), leg('exit', 110, 8)], 'Buy');
+    expect(summary.grossPnL).toBe(50);
+    expect(summary.openQuantity).toBe(0);
+    expect(summary.exitQuantity).toBe(8);
+  });
+
+  it('should charge entry fees to the leg that paid them', () => {
+    const summary = summarizeExecutions([leg('entry', 100, 5, 2)], 'Buy');
+    expect(summary.legs[0].realizedPnL).toBe(-2);
+    expect(summary.openQuantity).toBe(5);
+  });
+});
+
+describe('calculatePnL', () => {
+  it('should use the legs and deduct trade-level fees on top of leg fees', () => {
+    const executions = [leg('entry', 100, 10, 1), leg('exit', 105, 10, 1)];
+    // Single prices are ignored when legs are present
+    expect(calculatePnL(1, 1, 1, 'Buy', 5, executions)).toBe(43); // 50 - 2 leg fees - 5
+  });
+
+  it('should fall back to the single prices without both entry and exit legs', () => {
+    expect(calculatePnL(100, 90, 10, 'Sell', 3, [leg('entry', 100, 10)], 2)).toBe(197);
+  });
+});
+
+describe('parseFormCharges', () => {
+  it('should total the trade-level charges and treat blanks as zero', () => {
+    expect(parseFormCharges({ brokerage: '20', exchangeCharges: '', taxes: '2.5' })).toEqual({
+      brokerage: 20,
+      exchangeCharges: 0,
+      taxes: 2.5,
+      total: 22.5,
+    });
+  });
+
+  it('should ignore values that are not numbers', () => {
+    expect(parseFormCharges({ brokerage: 'abc' }).total).toBe(0);
+  });
+});
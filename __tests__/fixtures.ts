@@ -0,0 +1,36 @@
+import { Trade } from '@/lib/types';
+
+let nextId = 0;
+
+/**
+ * Closed INR trade with only the required fields set; P&L sign follows rFactor unless given
+ */
+export function makeTrade(overrides: Partial<Trade> = {}): Trade {
+  const rFactor = overrides.rFactor ?? 1;
+  const pnl = overrides.pnl ?? rFactor * 100;
+  return {
+    id: `t${++nextId}`,
+    date: '2025-03-10',
+    dayOfWeek: 'Monday',
+    symbol: 'NIFTY',
+    tradeType: 'Intraday',
+    setupName: 'Breakout',
+    position: 'Buy',
+    entryPrice: 100,
+    exitPrice: 100 + rFactor,
+    stopLoss: 99,
+    quantity: 100,
+    fees: 0,
+    pnl,
+    currency: 'INR',
+    pnlBase: pnl,
+    exchangeRate: 1,
+    rFactor,
+    isWin: pnl > 0,
+    confidence: 5,
+    preNotes: '',
+    postNotes: '',
+    ruleFollowed: true,
+    ...overrides,
+  };
+}
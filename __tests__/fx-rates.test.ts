@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Currency, FxRate } from '@/lib/types';
+import { indexFxRates, findFxRate, fxRateRegistry, getFxRateId, parseFxRatesCSV } from '@/lib/fx-rates';
+import { getExchangeRateToBase } from '@/lib/trade-utils';
+
+const fxRate = (from: Currency, to: Currency, date: string, rate: number): FxRate => ({
+  id: getFxRateId(from, to, date),
+  date,
+  from,
+  to,
+  rate,
+  source: 'manual',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+// Deliberately out of order and mixed across pairs
+const rates = [
+  fxRate('USD', 'INR', '2025-03-14', 86.9),
+  fxRate('EUR', 'INR', '2025-03-10', 94.1),
+  fxRate('USD', 'INR', '2025-03-10', 87.2),
+  fxRate('USD', 'INR', '2025-03-12', 87.0),
+];
+
+describe('indexFxRates', () => {
+  it('should group rates by pair sorted by date', () => {
+    const index = indexFxRates(rates);
+    expect(index.get('USDINR')?.map(r => r.date)).toEqual(['2025-03-10', '2025-03-12', '2025-03-14']);
+    expect(index.get('EURINR')).toHaveLength(1);
+  });
+});
+
+describe('findFxRate', () => {
+  const index = indexFxRates(rates);
+
+  it('should use the fixing on the date itself', () => {
+    expect(findFxRate('USD', 'INR', '2025-03-12', index)?.rate).toBe(87.0);
+  });
+
+  it('should reuse the last fixing on days without one', () => {
+    expect(findFxRate('USD', 'INR', '2025-03-13', index)?.rate).toBe(87.0);
+    expect(findFxRate('USD', 'INR', '2025-06-01', index)?.rate).toBe(86.9);
+  });
+
+  it('should not use a later fixing for dates before the first one', () => {
+    expect(findFxRate('USD', 'INR', '2025-03-09', index)).toBeUndefined();
+  });
+
+  it('should return the latest rate without a date', () => {
+    expect(findFxRate('USD', 'INR', undefined, index)?.rate).toBe(86.9);
+  });
+
+  it('should not mix up pairs', () => {
+    expect(findFxRate('GBP', 'INR', '2025-03-14', index)).toBeUndefined();
+    expect(findFxRate('INR', 'USD', '2025-03-14', index)).toBeUndefined();
+  });
+});
+
+describe('getExchangeRateToBase', () => {
+  afterEach(() => fxRateRegistry.set(new Map()));
+
+  it('should fall back to the default rate before the first fixing', () => {
+    fxRateRegistry.set(indexFxRates(rates));
+    expect(getExchangeRateToBase('USD', '2025-03-11')).toBe(87.2);
+    expect(getExchangeRateToBase('USD', '2025-01-01')).toBe(83.5);
+  });
+});
+
+describe('parseFxRatesCSV', () => {
+  it('should read currency and pair rows and invert pairs quoted against the base', () => {
+    const { rates: parsed, errors } = parseFxRatesCSV(
+      'date,pair,rate\n2025-03-14,USD,86.9\n2025-03-14,EUR/INR,94\n2025-03-14,INRGBP,0.01\n2025-03-14,XYZ,1\n14-03-2025,USD,86',
+      'INR',
+      ['INR', 'USD', 'EUR', 'GBP']
+    );
+    expect(parsed.map(r => [r.from, r.to, r.rate])).toEqual([
+      ['USD', 'INR', 86.9],
+      ['EUR', 'INR', 94],
+      ['GBP', 'INR', 100],
+    ]);
+    expect(errors).toHaveLength(2);
+  });
+});
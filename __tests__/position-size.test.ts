@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePositionSize } from '@/lib/trade-utils';
+
+describe('calculatePositionSize', () => {
+  it('should risk the share of equity between entry and stop', () => {
+    // 1% of 100000 = 1000 at 5 per unit
+    expect(calculatePositionSize(100000, 1, 200, 195, 'Buy')).toEqual({
+      quantity: 200,
+      riskAmount: 1000,
+      riskPerUnit: 5,
+      targetPrice: undefined,
+    });
+  });
+
+  it('should round down to whole lots and apply the point value', () => {
+    // 2000 budget, 10 points * 2 per point = 20 per unit, lots of 65
+    const result = calculatePositionSize(200000, 1, 24000, 24010, 'Sell', 65, 2);
+    expect(result?.quantity).toBe(65);
+    expect(result?.riskAmount).toBe(1300);
+  });
+
+  it('should not round down a budget that lands exactly on a lot', () => {
+    expect(calculatePositionSize(1000, 3, 1, 0.9, 'Buy', 0.1)?.quantity).toBe(300);
+  });
+
+  it('should return zero lots when the budget does not cover one', () => {
+    const result = calculatePositionSize(10000, 0.5, 100, 90, 'Buy', 10);
+    expect(result?.quantity).toBe(0);
+    expect(result?.riskPerUnit).toBe(10);
+  });
+
+  it('should place the target at the planned R multiple', () => {
+    expect(calculatePositionSize(100000, 1, 200, 195, 'Buy', 1, 1, 2)?.targetPrice).toBe(210);
+    expect(calculatePositionSize(100000, 1, 200, 205, 'Sell', 1, 1, 1.5)?.targetPrice).toBe(192.5);
+  });
+
+  it('should refuse stops on the wrong side and missing budgets', () => {
+    expect(calculatePositionSize(100000, 1, 200, 205, 'Buy')).toBeNull();
+    expect(calculatePositionSize(100000, 1, 200, 200, 'Sell')).toBeNull();
+    expect(calculatePositionSize(0, 1, 200, 195, 'Buy')).toBeNull();
+    expect(calculatePositionSize(100000, NaN, 200, 195, 'Buy')).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { Account, Trade, TradingPlan } from '@/lib/types';
+import { applyTradingPlan, applyPlanViolations, getPlanImpact, getPlanReadRange, isAffectedByPlanChange } from '@/lib/trading-plan';
+import { makeTrade } from './fixtures';
+
+const account: Account = {
+  id: 'acc',
+  name: 'Main',
+  broker: '',
+  currency: 'INR',
+  startingCapital: 10000,
+  isActive: true,
+  createdAt: '',
+  updatedAt: '',
+};
+
+// Entry 100, stop 99, quantity 100: 100 of initial risk, 1% of the starting capital
+const trade = (overrides: Partial<Trade> = {}) => makeTrade({ accountId: 'acc', ...overrides });
+
+const evaluate = (trades: Trade[], plan: Omit<TradingPlan, 'enabled'>) =>
+  applyTradingPlan(trades, undefined, { enabled: true, ...plan }, [account]);
+
+const violationsOf = (t: Trade) => (t.planViolations || []).map(v => v.violation);
+
+describe('applyTradingPlan', () => {
+  describe('maxRiskPercent', () => {
+    it('should measure risk against equity at the start of the trade day', () => {
+      const loss = trade({ id: 'loss', date: '2025-03-10', pnl: -5000, rFactor: -50 });
+      const sameDay = trade({ id: 'same-day', date: '2025-03-10', entryTime: '15:00', status: 'open' });
+      const nextDay = trade({ id: 'next-day', date: '2025-03-11' });
+      const results = evaluate([loss, sameDay, nextDay], { maxRiskPercent: 1.5 });
+
+      // 100 of 10000 before the loss is booked, 100 of 5000 the day after
+      expect(violationsOf(results[1])).toEqual([]);
+      expect(violationsOf(results[2])).toEqual(['Over_Risked']);
+      expect(results[2].planViolations?.[0].message).toContain('2.00%');
+      expect(results[2].ruleFollowed).toBe(false);
+    });
+
+    it('should report the rule as unchecked when the account is unknown', () => {
+      const [noAccount, deleted] = evaluate(
+        [makeTrade({ accountId: undefined }), makeTrade({ accountId: 'gone' })],
+        { maxRiskPercent: 1 }
+      );
+      expect(violationsOf(noAccount)).toEqual(['Risk_Unchecked']);
+      expect(noAccount.planViolations?.[0].message).toContain('the trade has no account');
+      expect(noAccount.ruleFollowed).toBe(false);
+      expect(deleted.planViolations?.[0].message).toContain('its account no longer exists');
+    });
+  });
+
+  it('should flag trades beyond the daily limit in entry time order', () => {
+    const results = evaluate([
+      trade({ id: 'c', entryTime: '11:00' }),
+      trade({ id: 'a', entryTime: '09:30' }),
+      trade({ id: 'b', entryTime: '10:00' }),
+      trade({ id: 'planned', entryTime: '09:00', status: 'planned' }),
+    ], { maxTradesPerDay: 2 });
+    expect(results.map(violationsOf)).toEqual([['Over_Traded'], [], [], []]);
+  });
+
+  it('should count only losses booked before the entry towards the daily loss limit', () => {
+    const results = evaluate([
+      trade({ id: 'a', entryTime: '09:30', exitTime: '09:45', rFactor: -1 }),
+      trade({ id: 'b', entryTime: '10:00', exitTime: '10:30', rFactor: -1.5 }),
+      trade({ id: 'c', entryTime: '10:15', exitTime: '10:20', rFactor: 0 }),
+      trade({ id: 'd', entryTime: '11:00', exitTime: '11:30' }),
+    ], { maxDailyLossR: 2 });
+    expect(violationsOf(results[2])).toEqual([]);
+    expect(violationsOf(results[3])).toEqual(['Daily_Loss_Exceeded']);
+  });
+
+  it('should compare start times as HH:MM', () => {
+    const [early, onTime] = evaluate(
+      [trade({ entryTime: '9:15' }), trade({ entryTime: '09:30' })],
+      { noTradingBefore: '09:30' }
+    );
+    expect(violationsOf(early)).toEqual(['Before_Start_Time']);
+    expect(violationsOf(onTime)).toEqual([]);
+  });
+
+  it('should flag entries inside the cooldown after a loss, across midnight', () => {
+    const results = evaluate([
+      trade({ id: 'loss', date: '2025-03-10', entryTime: '22:00', exitDate: '2025-03-10', exitTime: '23:30', rFactor: -1 }),
+      trade({ id: 'revenge', date: '2025-03-11', entryTime: '00:30' }),
+      trade({ id: 'patient', date: '2025-03-11', entryTime: '02:00' }),
+    ], { lossCooldownMinutes: 120 });
+    expect(violationsOf(results[1])).toEqual(['Revenge_Trade']);
+    expect(results[1].planViolations?.[0].message).toContain('60 min');
+    expect(violationsOf(results[2])).toEqual([]);
+  });
+
+  it('should only return the requested trades', () => {
+    const trades = [trade({ id: 'a' }), trade({ id: 'b' })];
+    const results = applyTradingPlan(trades, new Set(['b']), { enabled: true, maxTradesPerDay: 1 }, [account]);
+    expect(results.map(t => t.id)).toEqual(['b']);
+  });
+});
+
+describe('applyPlanViolations', () => {
+  it('should keep violations entered by hand and restore ruleFollowed once cleared', () => {
+    const flagged = applyPlanViolations(trade({ ruleViolations: ['FOMO_Entry'] }), [
+      { rule: 'maxTradesPerDay', violation: 'Over_Traded', message: '' },
+    ]);
+    expect(flagged.ruleViolations).toEqual(['FOMO_Entry', 'Over_Traded']);
+    expect(flagged.ruleFollowed).toBe(false);
+
+    const cleared = applyPlanViolations(flagged, []);
+    expect(cleared.ruleViolations).toEqual(['FOMO_Entry']);
+    expect(cleared.planViolations).toBeUndefined();
+    // The manual violation still counts against the rules
+    expect(cleared.ruleFollowed).toBe(false);
+
+    expect(applyPlanViolations(applyPlanViolations(trade(), flagged.planViolations!), []).ruleFollowed).toBe(true);
+  });
+});
+
+describe('getPlanImpact', () => {
+  const plan: TradingPlan = { enabled: true, maxRiskPercent: 1, lossCooldownMinutes: 120 };
+  const backdated = trade({ date: '2025-03-10', exitDate: '2025-03-11' });
+  const impact = getPlanImpact([backdated], plan);
+
+  it('should cover the entry date and the cooldown after the exit', () => {
+    expect(Array.from(impact.dates).sort()).toEqual(['2025-03-10', '2025-03-11', '2025-03-12']);
+  });
+
+  it('should reach every later trade of the account when the risk rule is on', () => {
+    expect(isAffectedByPlanChange(trade({ date: '2025-06-01' }), impact)).toBe(true);
+    expect(isAffectedByPlanChange(trade({ date: '2025-03-09' }), impact)).toBe(false);
+    expect(isAffectedByPlanChange(makeTrade({ accountId: 'other', date: '2025-06-01' }), impact)).toBe(false);
+  });
+
+  it('should only cover the entry date for day rules', () => {
+    const dayOnly = getPlanImpact([backdated], { enabled: true, maxTradesPerDay: 2 });
+    expect(Array.from(dayOnly.dates)).toEqual(['2025-03-10']);
+    expect(dayOnly.equityFrom.size).toBe(0);
+  });
+});
+
+describe('getPlanReadRange', () => {
+  const plan: TradingPlan = { enabled: true, maxTradesPerDay: 2, lossCooldownMinutes: 120 };
+
+  it('should reach back over the cooldown and end at the last affected date', () => {
+    const impact = getPlanImpact([trade({ date: '2025-03-10', exitDate: '2025-03-11' })], plan);
+    expect(getPlanReadRange(impact, plan)).toEqual({ from: '2025-03-09', to: '2025-03-12' });
+  });
+
+  it('should skip the read when no date is affected', () => {
+    expect(getPlanReadRange({ dates: new Set(), equityFrom: new Map() }, plan)).toBeUndefined();
+  });
+});
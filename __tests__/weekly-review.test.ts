@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { WeeklyReviewRecord, ReviewActionItem } from '@/lib/types';
+import { shiftWeekKey, parseWeekKey, findPreviousReview, carryOverActionItems } from '@/lib/weekly-review';
+
+const review = (week: string, actionItems: ReviewActionItem[] = []): WeeklyReviewRecord => ({
+  week,
+  startDate: '',
+  endDate: '',
+  wentWell: '',
+  toImprove: '',
+  actionItems,
+  stats: { totalTrades: 0, winRate: 0, totalPnL: 0, currency: 'INR', bestDay: '', worstDay: '' },
+  createdAt: '',
+  updatedAt: '',
+});
+
+describe('shiftWeekKey', () => {
+  it('should move within a year', () => {
+    expect(shiftWeekKey('2026-W07', 1)).toBe('2026-W08');
+    expect(shiftWeekKey('2026-W07', -6)).toBe('2026-W01');
+  });
+
+  it('should cross into years with 52 and 53 ISO weeks', () => {
+    expect(shiftWeekKey('2025-W52', 1)).toBe('2026-W01');
+    expect(shiftWeekKey('2020-W52', 1)).toBe('2020-W53');
+    expect(shiftWeekKey('2020-W53', 1)).toBe('2021-W01');
+    expect(shiftWeekKey('2021-W01', -1)).toBe('2020-W53');
+  });
+
+  it('should move by a whole year of weeks', () => {
+    expect(shiftWeekKey('2024-W10', -52)).toBe('2023-W10');
+  });
+
+  it('should reject keys that are not ISO weeks', () => {
+    expect(() => parseWeekKey('2026-7')).toThrow('Invalid week');
+  });
+});
+
+describe('findPreviousReview', () => {
+  it('should pick the latest review before the week, skipping gaps', () => {
+    const reviews = [review('2026-W03'), review('2026-W09'), review('2026-W05')];
+    expect(findPreviousReview(reviews, '2026-W08')?.week).toBe('2026-W05');
+    expect(findPreviousReview(reviews, '2026-W03')).toBeUndefined();
+  });
+});
+
+describe('carryOverActionItems', () => {
+  it('should carry unfinished items and keep the week they were first written', () => {
+    const previous = review('2026-W06', [
+      { id: 'a', text: 'Wait for the close', done: false },
+      { id: 'b', text: 'Journal every trade', done: true },
+      { id: 'c', text: 'Cut size after two losses', done: false, carriedFrom: '2026-W04' },
+    ]);
+    expect(carryOverActionItems(previous)).toEqual([
+      { id: 'a', text: 'Wait for the close', done: false, carriedFrom: '2026-W06' },
+      { id: 'c', text: 'Cut size after two losses', done: false, carriedFrom: '2026-W04' },
+    ]);
+  });
+
+  it('should start empty without a previous review', () => {
+    expect(carryOverActionItems(undefined)).toEqual([]);
+  });
+});
@@ -6,6 +6,7 @@ import { ErrorBoundary } from '@/components/error-boundary'
 import { ServiceWorkerRegister } from '@/components/service-worker-register'
 import { ThemeProvider } from '@/lib/theme-context'
 import { HydrationBoundary } from '@/components/hydration-boundary'
+import { Toaster } from '@/components/ui/sonner'
 import './globals.css'
 
 const _geist = Geist({ subsets: ["latin"] });
@@ -63,6 +64,7 @@ export default function RootLayout({
               <ServiceWorkerRegister />
               {children}
             </ErrorBoundary>
+            <Toaster position="bottom-center" />
             <Analytics />
           </ThemeProvider>
         </HydrationBoundary>
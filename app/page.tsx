@@ -7,6 +7,17 @@ import { IdeasProvider } from '@/lib/ideas-context';
 import { GoalsProvider } from '@/lib/goals-context';
 import { FiltersProvider } from '@/lib/filters-context';
 import { TemplatesProvider } from '@/lib/templates-context';
+import { AccountsProvider } from '@/lib/accounts-context';
+import { InstrumentsProvider } from '@/lib/instruments-context';
+import { FxRatesProvider } from '@/lib/fx-rates-context';
+import { TagsProvider } from '@/lib/tags-context';
+import { CustomFieldsProvider } from '@/lib/custom-fields-context';
+import { PlaybookProvider } from '@/lib/playbook-context';
+import { BacktestProvider } from '@/lib/backtest-context';
+import { JournalProvider } from '@/lib/journal-context';
+import { WeeklyReviewProvider } from '@/lib/weekly-review-context';
+import { TradeFormData, TradeIdea } from '@/lib/types';
+import { ideaToTradeFormData } from '@/lib/trade-utils';
 import { HydrationBoundary } from '@/components/hydration-boundary';
 import Sidebar from '@/components/sidebar';
 import MobileNav from '@/components/mobile-nav';
@@ -24,18 +35,41 @@ import GoalsTracker from '@/components/goals-tracker';
 import TradeSearch from '@/components/trade-search';
 import ReportsGenerator from '@/components/reports-generator';
 import EmotionAnalyzer from '@/components/emotion-analyzer';
+import TrashBin from '@/components/trash-bin';
+import Playbook from '@/components/playbook';
+import DailyJournal from '@/components/daily-journal';
 
-type Page = 'dashboard' | 'add-trade' | 'log' | 'analytics' | 'profit-loss' | 'weekly-review' | 'data-utilities' | 'ideas' | 'add-idea' | 'advanced-analytics' | 'goals' | 'search' | 'reports' | 'emotion-analyzer';
+type Page = 'dashboard' | 'add-trade' | 'log' | 'analytics' | 'profit-loss' | 'weekly-review' | 'data-utilities' | 'ideas' | 'add-idea' | 'advanced-analytics' | 'goals' | 'search' | 'reports' | 'emotion-analyzer' | 'trash' | 'playbook' | 'journal';
 
 function AppContent() {
   const [currentPage, setCurrentPage] = useState<Page>('dashboard');
+  // Trade form values handed over from "take this trade" on an idea
+  const [tradePrefill, setTradePrefill] = useState<Partial<TradeFormData>>();
+  // Day opened from the dashboard calendar
+  const [journalDate, setJournalDate] = useState<string>();
+
+  const handlePageChange = (page: Page) => {
+    setTradePrefill(undefined);
+    setJournalDate(undefined);
+    setCurrentPage(page);
+  };
+
+  const handleOpenJournal = (date: string) => {
+    setJournalDate(date);
+    setCurrentPage('journal');
+  };
+
+  const handleTakeTrade = (idea: TradeIdea) => {
+    setTradePrefill(ideaToTradeFormData(idea));
+    setCurrentPage('add-trade');
+  };
 
   const renderPage = () => {
     switch (currentPage) {
       case 'dashboard':
-        return <Dashboard />;
+        return <Dashboard onOpenJournal={handleOpenJournal} />;
       case 'add-trade':
-        return <TradeForm onSuccess={() => setCurrentPage('log')} />;
+        return <TradeForm key={tradePrefill?.ideaIds?.join() || 'new'} prefill={tradePrefill} onSuccess={() => handlePageChange('log')} />;
       case 'log':
         return <TradeLog />;
       case 'analytics':
@@ -47,7 +81,7 @@ function AppContent() {
       case 'data-utilities':
         return <DataUtilities />;
       case 'ideas':
-        return <IdeasList />;
+        return <IdeasList onTakeTrade={handleTakeTrade} />;
       case 'add-idea':
         return <IdeaForm onSuccess={() => setCurrentPage('ideas')} />;
       case 'advanced-analytics':
@@ -60,8 +94,14 @@ function AppContent() {
         return <ReportsGenerator />;
       case 'emotion-analyzer':
         return <EmotionAnalyzer />;
+      case 'trash':
+        return <TrashBin />;
+      case 'playbook':
+        return <Playbook />;
+      case 'journal':
+        return <DailyJournal key={journalDate || 'today'} initialDate={journalDate} />;
       default:
-        return <Dashboard />;
+        return <Dashboard onOpenJournal={handleOpenJournal} />;
     }
   };
 
@@ -69,7 +109,7 @@ function AppContent() {
     <div className="flex h-dvh flex-col md:flex-row bg-background overflow-hidden">
       {/* Desktop Sidebar */}
       <div className="hidden md:block">
-        <Sidebar currentPage={currentPage} onPageChange={setCurrentPage} />
+        <Sidebar currentPage={currentPage} onPageChange={handlePageChange} />
       </div>
       
       <main className="flex-1 overflow-auto pb-16 md:pb-0">
@@ -78,7 +118,7 @@ function AppContent() {
 
       {/* Mobile Navigation */}
       <div className="md:hidden fixed bottom-0 left-0 right-0 z-50">
-        <MobileNav currentPage={currentPage} onPageChange={setCurrentPage} />
+        <MobileNav currentPage={currentPage} onPageChange={handlePageChange} />
       </div>
     </div>
   );
@@ -88,17 +128,35 @@ export default function Home() {
   return (
     <HydrationBoundary>
       <SettingsProvider>
-        <TradeProvider>
-          <IdeasProvider>
-            <GoalsProvider>
-              <FiltersProvider>
-                <TemplatesProvider>
-                  <AppContent />
-                </TemplatesProvider>
-              </FiltersProvider>
-            </GoalsProvider>
-          </IdeasProvider>
-        </TradeProvider>
+        <InstrumentsProvider>
+          <FxRatesProvider>
+            <AccountsProvider>
+              <TradeProvider>
+                <IdeasProvider>
+                  <BacktestProvider>
+                    <JournalProvider>
+                      <WeeklyReviewProvider>
+                        <TagsProvider>
+                          <CustomFieldsProvider>
+                            <PlaybookProvider>
+                              <GoalsProvider>
+                                <FiltersProvider>
+                                  <TemplatesProvider>
+                                    <AppContent />
+                                  </TemplatesProvider>
+                                </FiltersProvider>
+                              </GoalsProvider>
+                            </PlaybookProvider>
+                          </CustomFieldsProvider>
+                        </TagsProvider>
+                      </WeeklyReviewProvider>
+                    </JournalProvider>
+                  </BacktestProvider>
+                </IdeasProvider>
+              </TradeProvider>
+            </AccountsProvider>
+          </FxRatesProvider>
+        </InstrumentsProvider>
       </SettingsProvider>
     </HydrationBoundary>
   );
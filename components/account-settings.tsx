@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { useSettings } from '@/lib/settings-context';
+import { useAccounts } from '@/lib/accounts-context';
+import { useTrades, useTradeAggregate } from '@/lib/trade-context';
+import { getCurrencySymbol, addToEquityLedger, getLedgerEquity } from '@/lib/trade-utils';
+import { Account, Currency, EquityLedger } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2, Wallet } from 'lucide-react';
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export default function AccountSettings() {
+  const { accounts, addAccount, updateAccount, deleteAccount } = useAccounts();
+  const { reduceTrades } = useTrades();
+  const { currencies } = useSettings();
+  // Realized P&L per account, summed while walking the trade store
+  const ledger = useTradeAggregate<EquityLedger>(
+    {},
+    (built, t) => addToEquityLedger(built, t, accounts),
+    () => new Map(),
+    [accounts]
+  );
+  const [name, setName] = useState('');
+  const [broker, setBroker] = useState('');
+  const [currency, setCurrency] = useState<Currency>('INR');
+  const [startingCapital, setStartingCapital] = useState('');
+
+  const handleAddAccount = () => {
+    if (!name.trim()) {
+      alert('Please enter an account name');
+      return;
+    }
+    const capital = parseFloat(startingCapital || '0');
+    if (isNaN(capital) || capital < 0) {
+      alert('Starting capital must be a positive number');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const account: Account = {
+      id: generateId(),
+      name: name.trim(),
+      broker: broker.trim(),
+      currency,
+      startingCapital: capital,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    addAccount(account);
+    setName('');
+    setBroker('');
+    setStartingCapital('');
+  };
+
+  const toggleActive = (account: Account) => {
+    updateAccount(account.id, {
+      ...account,
+      isActive: !account.isActive,
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  const handleDelete = async (account: Account) => {
+    const tradeCount = await reduceTrades({ scope: [account.id], includeOpen: true }, count => count + 1, 0);
+    const message = tradeCount > 0
+      ? `Delete "${account.name}"? Its ${tradeCount} trades will be kept but only shown under "All accounts".`
+      : `Delete "${account.name}"?`;
+    if (window.confirm(message)) {
+      deleteAccount(account.id);
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-primary" />
+          Trading Accounts
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Keep futures, crypto and demo trading apart. Analytics follow the account selected in the sidebar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        {accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No accounts yet. All trades are tracked in a single pool.</p>
+        ) : (
+          <div className="space-y-2">
+            {accounts.map(account => {
+              const balance = getLedgerEquity(account, ledger || new Map());
+              return (
+                <div key={account.id} className="flex items-center justify-between gap-3 p-3 bg-secondary rounded-lg border border-border">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-semibold text-foreground truncate">{account.name}</p>
+                      {!account.isActive && <Badge variant="outline">Inactive</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {account.broker || 'No broker'} · {account.currency} · Balance {getCurrencySymbol(account.currency)}{balance.toFixed(2)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => toggleActive(account)}>
+                      {account.isActive ? 'Deactivate' : 'Activate'}
+                    </Button>
+                    <button onClick={() => handleDelete(account)} className="text-red-400 hover:text-red-300 transition-colors p-1" title="Delete account">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 border-t border-border pt-4">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Account name (e.g., NIFTY Futures)"
+            className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <input
+            type="text"
+            value={broker}
+            onChange={e => setBroker(e.target.value)}
+            placeholder="Broker (e.g., Zerodha)"
+            className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <select
+            value={currency}
+            onChange={e => setCurrency(e.target.value as Currency)}
+            className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {currencies.map(c => (
+              <option key={c.code} value={c.code}>{c.code} ({c.symbol})</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            step="0.01"
+            value={startingCapital}
+            onChange={e => setStartingCapital(e.target.value)}
+            placeholder="Starting capital"
+            className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+        <Button onClick={handleAddAccount} className="bg-primary hover:bg-primary/90">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Account
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useAccounts } from '@/lib/accounts-context';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ChevronsUpDown, Wallet } from 'lucide-react';
+
+/**
+ * Account switcher for the sidebar
+ * Scopes analytics to a single account, a selection of accounts, or all of them
+ */
+export function AccountSwitcher() {
+  const { accounts, accountScope, setAccountScope } = useAccounts();
+
+  const toggleAccount = (id: string) => {
+    if (accountScope === 'all') {
+      // Narrow "all" down to just the clicked account
+      setAccountScope([id]);
+      return;
+    }
+    const next = accountScope.includes(id)
+      ? accountScope.filter(scopeId => scopeId !== id)
+      : [...accountScope, id];
+    setAccountScope(next);
+  };
+
+  const label = (() => {
+    if (accountScope === 'all') return 'All accounts';
+    if (accountScope.length === 1) {
+      return accounts.find(a => a.id === accountScope[0])?.name || '1 account';
+    }
+    return `${accountScope.length} accounts`;
+  })();
+
+  if (accounts.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="w-full flex items-center gap-2 px-3 py-2 rounded-lg border border-sidebar-border bg-sidebar-accent text-sidebar-foreground text-sm hover:bg-sidebar-accent/80 transition-colors">
+          <Wallet className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1 text-left truncate font-medium">{label}</span>
+          <ChevronsUpDown className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-56" align="start">
+        <DropdownMenuLabel>Accounts</DropdownMenuLabel>
+        <DropdownMenuCheckboxItem
+          checked={accountScope === 'all'}
+          onCheckedChange={() => setAccountScope('all')}
+          onSelect={e => e.preventDefault()}
+        >
+          All accounts
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        {accounts.map(account => (
+          <DropdownMenuCheckboxItem
+            key={account.id}
+            checked={accountScope !== 'all' && accountScope.includes(account.id)}
+            onCheckedChange={() => toggleAccount(account.id)}
+            onSelect={e => e.preventDefault()}
+          >
+            <span className={account.isActive ? '' : 'text-muted-foreground'}>
+              {account.name}
+            </span>
+            <span className="ml-auto text-xs text-muted-foreground">{account.currency}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,19 +1,30 @@
 'use client';
 
-import { useMemo } from 'react';
-import { useTrades } from '@/lib/trade-context';
+import { useMemo, useState } from 'react';
+import { useTradeQuery } from '@/lib/trade-context';
 import { useSettings } from '@/lib/settings-context';
+import { useAccounts } from '@/lib/accounts-context';
+import { useTags } from '@/lib/tags-context';
+import { useCustomFields } from '@/lib/custom-fields-context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Trade } from '@/lib/types';
-import { getTradeBasePnL, CURRENCY_SYMBOLS, BASE_CURRENCY, formatCurrency } from '@/lib/trade-utils';
+import { getTradeDisplayPnL, getCurrencySymbol, formatCurrency } from '@/lib/trade-utils';
+import { analyzeOptionStrategyPerformance, analyzeDaysToExpiryPerformance, analyzeTagPerformance, TagPerformance, calculateExpectancyByCustomField, analyzeChecklistCompliance } from '@/lib/analytics-engine';
+import { getTagColor } from '@/lib/tag-utils';
+import { OPTION_STRATEGY_LABELS } from '@/lib/options-utils';
+import { TagBadge } from './tag-input';
+import { BacktestComparison } from './backtest-comparison';
 import {
   LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis,
 } from 'recharts';
 
 const COLORS = ['#10b981', '#ef4444', '#f59e0b', '#3b82f6', '#8b5cf6', '#ec4899'];
 
+// Tag combinations listed before the rest are cut off
+const TAG_COMBINATION_LIMIT = 15;
+
 interface Analytics {
   winRate: number;
   profitFactor: number;
@@ -26,9 +37,14 @@ interface Analytics {
 }
 
 export default function AdvancedAnalytics() {
-  const { trades } = useTrades();
+  const { accountScope } = useAccounts();
+  // Closed trades of the selected accounts - planned and open trades have no realized result yet
+  const { trades } = useTradeQuery({ scope: accountScope });
   const { baseCurrency } = useSettings();
-  const baseCurrencySymbol = CURRENCY_SYMBOLS[baseCurrency];
+  const { tagDefinitions } = useTags();
+  const { customFields } = useCustomFields();
+  const [groupFieldId, setGroupFieldId] = useState('');
+  const baseCurrencySymbol = getCurrencySymbol(baseCurrency);
 
   const analytics = useMemo<Analytics>(() => {
     if (!trades || trades.length === 0) {
@@ -45,12 +61,12 @@ export default function AdvancedAnalytics() {
     }
 
     // Basic statistics
-    const wins = trades.filter(t => getTradeBasePnL(t) > 0);
-    const losses = trades.filter(t => getTradeBasePnL(t) < 0);
+    const wins = trades.filter(t => getTradeDisplayPnL(t, baseCurrency) > 0);
+    const losses = trades.filter(t => getTradeDisplayPnL(t, baseCurrency) < 0);
     const winRate = (wins.length / trades.length) * 100;
 
-    const avgWin = wins.length > 0 ? wins.reduce((sum, t) => sum + getTradeBasePnL(t), 0) / wins.length : 0;
-    const avgLoss = losses.length > 0 ? Math.abs(losses.reduce((sum, t) => sum + getTradeBasePnL(t), 0) / losses.length) : 0;
+    const avgWin = wins.length > 0 ? wins.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0) / wins.length : 0;
+    const avgLoss = losses.length > 0 ? Math.abs(losses.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0) / losses.length) : 0;
     const profitFactor = avgLoss > 0 ? avgWin / avgLoss : 0;
 
     // Best/Worst days (by net P&L)
@@ -58,7 +74,7 @@ export default function AdvancedAnalytics() {
     trades.forEach(trade => {
       const date = new Date(trade.date).toLocaleDateString();
       const current = dailyPnL.get(date) || 0;
-      dailyPnL.set(date, current + getTradeBasePnL(trade));
+      dailyPnL.set(date, current + getTradeDisplayPnL(trade, baseCurrency));
     });
 
     const days = Array.from(dailyPnL.entries()).sort(([, a], [, b]) => b - a);
@@ -74,9 +90,9 @@ export default function AdvancedAnalytics() {
 
       emotions.forEach(emotion => {
         const current = emotionStats.get(emotion) || { wins: 0, losses: 0 };
-        if (getTradeBasePnL(trade) > 0) {
+        if (getTradeDisplayPnL(trade, baseCurrency) > 0) {
           current.wins++;
-        } else if (getTradeBasePnL(trade) < 0) {
+        } else if (getTradeDisplayPnL(trade, baseCurrency) < 0) {
           current.losses++;
         }
         emotionStats.set(emotion, current);
@@ -97,8 +113,8 @@ export default function AdvancedAnalytics() {
       if (trade.session) {
         const current = sessionStats.get(trade.session) || { wins: 0, total: 0, pnl: 0 };
         current.total++;
-        current.pnl += getTradeBasePnL(trade);
-        if (getTradeBasePnL(trade) > 0) current.wins++;
+        current.pnl += getTradeDisplayPnL(trade, baseCurrency);
+        if (getTradeDisplayPnL(trade, baseCurrency) > 0) current.wins++;
         sessionStats.set(trade.session, current);
       }
     });
@@ -119,7 +135,34 @@ export default function AdvancedAnalytics() {
       emotionCorrelation,
       sessionPerformance,
     };
-  }, [trades]);
+  }, [trades, baseCurrency]);
+
+  const optionStrategies = useMemo(() => analyzeOptionStrategyPerformance(trades, baseCurrency), [trades, baseCurrency]);
+  const daysToExpiry = useMemo(() => analyzeDaysToExpiryPerformance(trades, baseCurrency), [trades, baseCurrency]);
+  const tagPerformance = useMemo(() => analyzeTagPerformance(trades, baseCurrency), [trades, baseCurrency]);
+  const checklistCompliance = useMemo(() => analyzeChecklistCompliance(trades), [trades]);
+  const groupField = customFields.find(f => f.id === groupFieldId) || customFields[0];
+  const customFieldGroups = useMemo(
+    () => (groupField ? Array.from(calculateExpectancyByCustomField(trades, groupField, baseCurrency)).sort((a, b) => b[1].expectancyR - a[1].expectancyR) : []),
+    [trades, groupField, baseCurrency]
+  );
+
+  const renderTagRows = (rows: TagPerformance[]) => rows.map(row => (
+    <tr key={row.tag} className="border-b border-border last:border-0">
+      <td className="py-2 pr-3">
+        <div className="flex flex-wrap gap-1">
+          {row.tags.map(tag => (
+            <TagBadge key={tag} tag={tag} color={getTagColor(tag, tagDefinitions)} />
+          ))}
+        </div>
+      </td>
+      <td className="py-2 px-3 text-right">{row.totalTrades}</td>
+      <td className="py-2 px-3 text-right">{row.winRate}%</td>
+      <td className={`py-2 px-3 text-right ${row.expectancy >= 0 ? 'text-green-600' : 'text-red-600'}`}>{row.expectancy}R</td>
+      <td className={`py-2 px-3 text-right font-medium ${row.totalR >= 0 ? 'text-green-600' : 'text-red-600'}`}>{row.totalR}R</td>
+      <td className={`py-2 pl-3 text-right ${row.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(row.totalPnL, baseCurrency)}</td>
+    </tr>
+  ));
 
   if (!trades || trades.length === 0) {
     return (
@@ -149,7 +192,7 @@ export default function AdvancedAnalytics() {
             <div className="mt-2">
               <Progress value={analytics.winRate} className="h-2" />
             </div>
-            <p className="text-xs text-muted-foreground mt-2">{trades.filter(t => getTradeBasePnL(t) > 0).length} wins / {trades.length} trades</p>
+            <p className="text-xs text-muted-foreground mt-2">{trades.filter(t => getTradeDisplayPnL(t, baseCurrency) > 0).length} wins / {trades.length} trades</p>
           </CardContent>
         </Card>
 
@@ -234,7 +277,7 @@ export default function AdvancedAnalytics() {
                 <Tooltip />
                 <Legend />
                 <Bar yAxisId="left" dataKey="winRate" fill="#8b5cf6" name="Win Rate %" />
-                <Bar yAxisId="right" dataKey="pnl" fill="#10b981" name={`P&L (${BASE_CURRENCY})`} />
+                <Bar yAxisId="right" dataKey="pnl" fill="#10b981" name={`P&L (${baseCurrency})`} />
               </BarChart>
             </ResponsiveContainer>
           </CardContent>
@@ -260,6 +303,183 @@ export default function AdvancedAnalytics() {
           </CardContent>
         </Card>
       )}
+
+      {/* Options: strategy type and days to expiry */}
+      {optionStrategies.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Option Strategies</CardTitle>
+              <CardDescription>Expectancy by strategy type</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {optionStrategies.map(item => (
+                <div key={item.strategy} className="flex justify-between items-center gap-2">
+                  <div>
+                    <p className="font-medium">{OPTION_STRATEGY_LABELS[item.strategy]}</p>
+                    <p className="text-xs text-muted-foreground">{item.totalTrades} trades · {item.winRate}% win · {item.avgR}R avg</p>
+                  </div>
+                  <div className="text-right">
+                    <Badge variant={item.expectancy >= 0 ? 'default' : 'destructive'}>{item.expectancy}R</Badge>
+                    <p className={`text-xs mt-1 ${item.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>{baseCurrencySymbol}{item.totalPnL.toFixed(0)}</p>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Days to Expiry</CardTitle>
+              <CardDescription>Performance by DTE at entry</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={daysToExpiry}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="bucket" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="avgR" fill="#3b82f6" name="Avg R" />
+                  <Bar dataKey="expectancy" fill="#10b981" name="Expectancy (R)" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Custom fields: expectancy per value of the chosen field */}
+      {groupField && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <CardTitle>Custom Field Breakdown</CardTitle>
+                <CardDescription>Expectancy grouped by a custom field</CardDescription>
+              </div>
+              <select
+                value={groupField.id}
+                onChange={e => setGroupFieldId(e.target.value)}
+                className="px-3 py-1.5 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {customFields.map(field => (
+                  <option key={field.id} value={field.id}>{field.name}</option>
+                ))}
+              </select>
+            </div>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            {customFieldGroups.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No closed trades have a value for {groupField.name} yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border text-xs text-muted-foreground">
+                    <th className="py-2 pr-3 text-left font-medium">{groupField.name}</th>
+                    <th className="py-2 px-3 text-right font-medium">Trades</th>
+                    <th className="py-2 px-3 text-right font-medium">Win Rate</th>
+                    <th className="py-2 px-3 text-right font-medium">Expectancy</th>
+                    <th className="py-2 pl-3 text-right font-medium">Per Trade</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {customFieldGroups.map(([value, result]) => (
+                    <tr key={value} className="border-b border-border last:border-0">
+                      <td className="py-2 pr-3 font-medium">{value}</td>
+                      <td className="py-2 px-3 text-right">{result.totalTrades}</td>
+                      <td className="py-2 px-3 text-right">{result.winRate}%</td>
+                      <td className={`py-2 px-3 text-right ${result.expectancyR >= 0 ? 'text-green-600' : 'text-red-600'}`}>{result.expectancyR}R</td>
+                      <td className={`py-2 pl-3 text-right ${result.expectancy >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.expectancy, baseCurrency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tags: single tags (parents include their children) and pairs */}
+      {tagPerformance.tags.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Tag Performance</CardTitle>
+            <CardDescription>Win rate, expectancy and total R per tag and tag combination</CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-xs text-muted-foreground">
+                  <th className="py-2 pr-3 text-left font-medium">Tag</th>
+                  <th className="py-2 px-3 text-right font-medium">Trades</th>
+                  <th className="py-2 px-3 text-right font-medium">Win Rate</th>
+                  <th className="py-2 px-3 text-right font-medium">Expectancy</th>
+                  <th className="py-2 px-3 text-right font-medium">Total R</th>
+                  <th className="py-2 pl-3 text-right font-medium">P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {renderTagRows(tagPerformance.tags)}
+                {tagPerformance.combinations.length > 0 && (
+                  <tr>
+                    <td colSpan={6} className="pt-4 pb-2 text-xs font-semibold text-muted-foreground uppercase tracking-wide">Combinations</td>
+                  </tr>
+                )}
+                {renderTagRows(tagPerformance.combinations.slice(0, TAG_COMBINATION_LIMIT))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Backtest vs live per setup */}
+      <BacktestComparison />
+
+      {/* Pre-trade checklists: which skipped items go with losing trades */}
+      {checklistCompliance.totalTrades > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Checklist Compliance</CardTitle>
+            <CardDescription>
+              {checklistCompliance.complianceRate}% of {checklistCompliance.totalTrades} trades had every item checked ·
+              {' '}win rate {checklistCompliance.winRateCompliant}% ({checklistCompliance.avgRCompliant}R avg) when complete vs
+              {' '}{checklistCompliance.winRateNonCompliant}% ({checklistCompliance.avgRNonCompliant}R avg) with items skipped
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-xs text-muted-foreground">
+                  <th className="py-2 pr-3 text-left font-medium">Item</th>
+                  <th className="py-2 px-3 text-right font-medium">Skipped</th>
+                  <th className="py-2 px-3 text-right font-medium">Loss Rate Checked</th>
+                  <th className="py-2 px-3 text-right font-medium">Loss Rate Skipped</th>
+                  <th className="py-2 px-3 text-right font-medium">Avg R Checked</th>
+                  <th className="py-2 pl-3 text-right font-medium">Avg R Skipped</th>
+                </tr>
+              </thead>
+              <tbody>
+                {checklistCompliance.items.map(row => (
+                  <tr key={row.item} className="border-b border-border last:border-0">
+                    <td className="py-2 pr-3 font-medium">{row.item}</td>
+                    <td className="py-2 px-3 text-right">{row.uncheckedCount} / {row.totalTrades}</td>
+                    <td className="py-2 px-3 text-right">{row.lossRateChecked}%</td>
+                    <td className={`py-2 px-3 text-right ${row.uncheckedCount > 0 && row.lossRateUnchecked > row.lossRateChecked ? 'text-red-600 font-semibold' : ''}`}>
+                      {row.uncheckedCount > 0 ? `${row.lossRateUnchecked}%` : '-'}
+                    </td>
+                    <td className={`py-2 px-3 text-right ${row.avgRChecked >= 0 ? 'text-green-600' : 'text-red-600'}`}>{row.avgRChecked}R</td>
+                    <td className={`py-2 pl-3 text-right ${row.avgRUnchecked >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {row.uncheckedCount > 0 ? `${row.avgRUnchecked}R` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -1,18 +1,21 @@
 'use client';
 
 import { useMemo } from 'react';
-import { useTrades } from '@/lib/trade-context';
+import { useTradeQuery } from '@/lib/trade-context';
 import { useSettings } from '@/lib/settings-context';
+import { useAccounts } from '@/lib/accounts-context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Trade } from '@/lib/types';
-import { getTradeBasePnL, getTradeCharges, CURRENCY_SYMBOLS, BASE_CURRENCY, getEquityCurveInBaseCurrency, formatCurrency, convertToBaseCurrency } from '@/lib/trade-utils';
+import { getTradeDisplayPnL, getTradeCharges, getCurrencySymbol, BASE_CURRENCY, getEquityCurveInBaseCurrency, formatCurrency, convertTradeAmount } from '@/lib/trade-utils';
 import {
   LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
 } from 'recharts';
 
 export default function Analytics() {
-  const { trades } = useTrades();
   const { baseCurrency } = useSettings();
+  const { accountScope } = useAccounts();
+  // Closed trades of the selected accounts
+  const { trades } = useTradeQuery({ scope: accountScope });
 
   // Equity curve data - use base currency P&L for multi-currency accounts
   const equityCurveData = useMemo(() => {
@@ -20,7 +23,7 @@ export default function Analytics() {
   }, [trades, baseCurrency]);
 
   // Base currency symbol for display
-  const baseCurrencySymbol = CURRENCY_SYMBOLS[baseCurrency];
+  const baseCurrencySymbol = getCurrencySymbol(baseCurrency);
 
   // Win vs Loss data - derived from P&L, not deprecated isWin field
   const winLossData = useMemo(() => {
@@ -40,7 +43,7 @@ export default function Analytics() {
     trades.forEach(trade => {
       const existing = setupMap.get(trade.setupName) || { pnl: 0, trades: 0 };
       setupMap.set(trade.setupName, {
-        pnl: existing.pnl + getTradeBasePnL(trade),
+        pnl: existing.pnl + getTradeDisplayPnL(trade, baseCurrency),
         trades: existing.trades + 1,
       });
     });
@@ -50,7 +53,7 @@ export default function Analytics() {
       pnl: parseFloat(data.pnl.toFixed(2)),
       trades: data.trades,
     }));
-  }, [trades]);
+  }, [trades, baseCurrency]);
 
   // Day-wise performance - use base currency P&L
   const dayPerformanceData = useMemo(() => {
@@ -59,7 +62,7 @@ export default function Analytics() {
 
     trades.forEach(trade => {
       const existing = dayMap.get(trade.dayOfWeek) || 0;
-      dayMap.set(trade.dayOfWeek, existing + getTradeBasePnL(trade));
+      dayMap.set(trade.dayOfWeek, existing + getTradeDisplayPnL(trade, baseCurrency));
     });
 
     return dayOrder
@@ -68,7 +71,7 @@ export default function Analytics() {
         day: day.slice(0, 3),
         pnl: parseFloat((dayMap.get(day) || 0).toFixed(2)),
       }));
-  }, [trades]);
+  }, [trades, baseCurrency]);
 
   // R-Factor distribution
   const rFactorData = useMemo(() => {
@@ -105,7 +108,7 @@ export default function Analytics() {
 
     trades.forEach(trade => {
       const level = trade.confidence;
-      const pnl = getTradeBasePnL(trade);
+      const pnl = getTradeDisplayPnL(trade, baseCurrency);
       const bucket = buckets.get(level);
       if (bucket) {
         bucket.totalPnl += pnl;
@@ -135,10 +138,10 @@ export default function Analytics() {
     // High vs low confidence comparison
     const highConf = trades.filter(t => t.confidence >= 7);
     const lowConf = trades.filter(t => t.confidence <= 4);
-    const highAvg = highConf.length > 0 ? highConf.reduce((s, t) => s + getTradeBasePnL(t), 0) / highConf.length : 0;
-    const lowAvg = lowConf.length > 0 ? lowConf.reduce((s, t) => s + getTradeBasePnL(t), 0) / lowConf.length : 0;
-    const highWinRate = highConf.length > 0 ? (highConf.filter(t => getTradeBasePnL(t) > 0).length / highConf.length) * 100 : 0;
-    const lowWinRate = lowConf.length > 0 ? (lowConf.filter(t => getTradeBasePnL(t) > 0).length / lowConf.length) * 100 : 0;
+    const highAvg = highConf.length > 0 ? highConf.reduce((s, t) => s + getTradeDisplayPnL(t, baseCurrency), 0) / highConf.length : 0;
+    const lowAvg = lowConf.length > 0 ? lowConf.reduce((s, t) => s + getTradeDisplayPnL(t, baseCurrency), 0) / lowConf.length : 0;
+    const highWinRate = highConf.length > 0 ? (highConf.filter(t => getTradeDisplayPnL(t, baseCurrency) > 0).length / highConf.length) * 100 : 0;
+    const lowWinRate = lowConf.length > 0 ? (lowConf.filter(t => getTradeDisplayPnL(t, baseCurrency) > 0).length / lowConf.length) * 100 : 0;
 
     return {
       chartData,
@@ -147,7 +150,7 @@ export default function Analytics() {
       highConf: { count: highConf.length, avgPnl: parseFloat(highAvg.toFixed(2)), winRate: parseFloat(highWinRate.toFixed(1)) },
       lowConf: { count: lowConf.length, avgPnl: parseFloat(lowAvg.toFixed(2)), winRate: parseFloat(lowWinRate.toFixed(1)) },
     };
-  }, [trades]);
+  }, [trades, baseCurrency]);
 
   // Drawdown curve - use base currency P&L
   const drawdownData = useMemo(() => {
@@ -156,7 +159,7 @@ export default function Analytics() {
     const data = [];
 
     trades.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()).forEach(trade => {
-      cumulativePnL += getTradeBasePnL(trade);
+      cumulativePnL += getTradeDisplayPnL(trade, baseCurrency);
       if (cumulativePnL > runningMax) {
         runningMax = cumulativePnL;
       }
@@ -169,15 +172,15 @@ export default function Analytics() {
     });
 
     return data;
-  }, [trades]);
+  }, [trades, baseCurrency]);
 
   // Profit vs Loss comparison - use base currency P&L
   const profitLossData = useMemo(() => {
-    const profitTrades = trades.filter(t => getTradeBasePnL(t) > 0);
-    const lossTrades = trades.filter(t => getTradeBasePnL(t) < 0);
+    const profitTrades = trades.filter(t => getTradeDisplayPnL(t, baseCurrency) > 0);
+    const lossTrades = trades.filter(t => getTradeDisplayPnL(t, baseCurrency) < 0);
 
-    const totalProfit = profitTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
-    const totalLoss = Math.abs(lossTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0));
+    const totalProfit = profitTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0);
+    const totalLoss = Math.abs(lossTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0));
     const avgProfit = profitTrades.length > 0 ? totalProfit / profitTrades.length : 0;
     const avgLoss = lossTrades.length > 0 ? totalLoss / lossTrades.length : 0;
 
@@ -185,15 +188,15 @@ export default function Analytics() {
       { name: 'Avg Profit Trade', value: parseFloat(avgProfit.toFixed(2)), trades: profitTrades.length },
       { name: 'Avg Loss Trade', value: parseFloat(avgLoss.toFixed(2)), trades: lossTrades.length },
     ];
-  }, [trades]);
+  }, [trades, baseCurrency]);
 
   // Risk-Reward Ratio data - use base currency P&L
   const riskRewardData = useMemo(() => {
-    const profitTrades = trades.filter(t => getTradeBasePnL(t) > 0);
-    const lossTrades = trades.filter(t => getTradeBasePnL(t) <= 0);
+    const profitTrades = trades.filter(t => getTradeDisplayPnL(t, baseCurrency) > 0);
+    const lossTrades = trades.filter(t => getTradeDisplayPnL(t, baseCurrency) <= 0);
 
-    const totalProfit = profitTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
-    const totalLoss = Math.abs(lossTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0));
+    const totalProfit = profitTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0);
+    const totalLoss = Math.abs(lossTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0));
 
     const riskRewardRatio = totalLoss !== 0 ? totalProfit / totalLoss : 0;
     const profitFactor = totalLoss !== 0 ? totalProfit / (totalLoss || 1) : 0;
@@ -205,7 +208,7 @@ export default function Analytics() {
       avgRFactor: parseFloat(avgRFactor.toFixed(2)),
       bestRFactor: trades.length > 0 ? parseFloat(Math.max(...trades.map(t => t.rFactor)).toFixed(2)) : 0,
     };
-  }, [trades]);
+  }, [trades, baseCurrency]);
 
   // Win Rate by Setup
   const setupWinRateData = useMemo(() => {
@@ -232,11 +235,11 @@ export default function Analytics() {
   const brokerageData = useMemo(() => {
     const totalBrokerage = trades.reduce((sum, t) => {
       const charges = getTradeCharges(t);
-      const baseCharges = t.currency ? convertToBaseCurrency(charges, t.currency, t.exchangeRate) : charges;
+      const baseCharges = convertTradeAmount(charges, t, baseCurrency);
       return sum + baseCharges;
     }, 0);
 
-    const totalNetPnL = trades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+    const totalNetPnL = trades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0);
     const totalGrossPnL = totalNetPnL + totalBrokerage;
 
     // Brokerage by month
@@ -246,7 +249,7 @@ export default function Analytics() {
       const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
       const monthDisplay = date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
       const charges = getTradeCharges(trade);
-      const baseCharges = trade.currency ? convertToBaseCurrency(charges, trade.currency, trade.exchangeRate) : charges;
+      const baseCharges = convertTradeAmount(charges, trade, baseCurrency);
       const existing = monthlyBrokerage.get(key) || { month: monthDisplay, brokerage: 0, trades: 0 };
       existing.brokerage += baseCharges;
       existing.trades += 1;
@@ -272,22 +275,22 @@ export default function Analytics() {
       brokerageAsPercentOfGross: parseFloat(brokerageAsPercentOfGross.toFixed(1)),
       monthlyData,
     };
-  }, [trades]);
+  }, [trades, baseCurrency]);
 
   // Improvement recommendations - use base currency P&L
   const improvements = useMemo(() => {
     const recommendations = [];
     const stats = {
       totalTrades: trades.length,
-      winRate: trades.length > 0 ? (trades.filter(t => getTradeBasePnL(t) > 0).length / trades.length) * 100 : 0,
+      winRate: trades.length > 0 ? (trades.filter(t => getTradeDisplayPnL(t, baseCurrency) > 0).length / trades.length) * 100 : 0,
       avgR: trades.length > 0 ? trades.reduce((sum, t) => sum + t.rFactor, 0) / trades.length : 0,
-      totalPnL: trades.reduce((sum, t) => sum + getTradeBasePnL(t), 0),
+      totalPnL: trades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0),
       maxDrawdown: (() => {
         let maxDD = 0;
         let runningMax = 0;
         let cumulativePnL = 0;
         trades.forEach(t => {
-          cumulativePnL += getTradeBasePnL(t);
+          cumulativePnL += getTradeDisplayPnL(t, baseCurrency);
           runningMax = Math.max(runningMax, cumulativePnL);
           maxDD = Math.max(maxDD, runningMax - cumulativePnL);
         });
@@ -342,7 +345,7 @@ export default function Analytics() {
         description: 'You need more trades to generate meaningful insights. Keep maintaining your journal.',
       },
     ];
-  }, [trades]);
+  }, [trades, baseCurrency]);
 
   const COLORS = ['#10b981', '#ef4444', '#3b82f6', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6'];
 
@@ -947,7 +950,7 @@ export default function Analytics() {
                 const setupMap = new Map<string, number>();
                 trades.forEach(trade => {
                   const existing = setupMap.get(trade.setupName) || 0;
-                  setupMap.set(trade.setupName, existing + getTradeBasePnL(trade));
+                  setupMap.set(trade.setupName, existing + getTradeDisplayPnL(trade, baseCurrency));
                 });
 
                 for (const [setup, pnl] of setupMap) {
@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ScreenshotAnnotation, AnnotationTool } from '@/lib/types';
+import { getScreenshot, loadImage, saveScreenshotAnnotations } from '@/lib/screenshot-service';
+import { drawAnnotations, findAnnotationAt, ANNOTATION_COLORS } from '@/lib/screenshot-annotations';
+import { Button } from '@/components/ui/button';
+import { MoveUpRight, Minus, Square, Type, Eraser, Undo2, Loader2 } from 'lucide-react';
+
+interface AnnotationEditorProps {
+  screenshotId: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+type EditorTool = AnnotationTool | 'erase';
+
+const TOOLS: { value: EditorTool; label: string; icon: typeof Minus }[] = [
+  { value: 'arrow', label: 'Arrow', icon: MoveUpRight },
+  { value: 'hline', label: 'Horizontal line', icon: Minus },
+  { value: 'rect', label: 'Rectangle', icon: Square },
+  { value: 'text', label: 'Text', icon: Type },
+  { value: 'erase', label: 'Erase', icon: Eraser },
+];
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Canvas markup editor for a stored screenshot
+ * Shapes are kept as vector data beside the image, so they stay editable
+ */
+export function AnnotationEditor({ screenshotId, onClose, onSaved }: AnnotationEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [annotations, setAnnotations] = useState<ScreenshotAnnotation[]>([]);
+  const [draft, setDraft] = useState<ScreenshotAnnotation | null>(null);
+  const [tool, setTool] = useState<EditorTool>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getScreenshot(screenshotId)
+      .then(async record => {
+        if (!record) throw new Error('Screenshot not found');
+        const loaded = await loadImage(record.blob);
+        if (cancelled) return;
+        setImage(loaded);
+        setAnnotations(record.annotations || []);
+      })
+      .catch(err => {
+        console.error('[AnnotationEditor] Failed to load screenshot:', err);
+        if (!cancelled) setError('Failed to load image');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [screenshotId]);
+
+  /**
+   * Effect: Redraw the image and every shape (plus the one being dragged)
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !image) return;
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    context.drawImage(image, 0, 0);
+    drawAnnotations(context, draft ? [...annotations, draft] : annotations, canvas.width, canvas.height);
+  }, [image, annotations, draft]);
+
+  // Pointer position as a fraction of the image size
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = getPoint(e);
+
+    if (tool === 'erase') {
+      const hit = findAnnotationAt(annotations, x, y);
+      if (hit) setAnnotations(annotations.filter(a => a.id !== hit.id));
+      return;
+    }
+
+    if (tool === 'text') {
+      const text = prompt('Label text');
+      if (text && text.trim()) {
+        setAnnotations([...annotations, { id: generateId(), type: 'text', color, x1: x, y1: y, x2: x, y2: y, text: text.trim() }]);
+      }
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ id: generateId(), type: tool, color, x1: x, y1: y, x2: x, y2: y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const { x, y } = getPoint(e);
+    setDraft({ ...draft, x2: x, y2: draft.type === 'hline' ? draft.y1 : y });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const moved = Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1) > 0.005;
+    if (draft.type === 'hline') {
+      // Levels are usually entry / stop / target - offer a label
+      const text = prompt('Label (optional), e.g. Entry, Stop, Target');
+      setAnnotations([...annotations, { ...draft, text: text?.trim() || undefined }]);
+    } else if (moved) {
+      setAnnotations([...annotations, draft]);
+    }
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await saveScreenshotAnnotations(screenshotId, annotations);
+      onSaved();
+    } catch (err) {
+      console.error('[AnnotationEditor] Failed to save annotations:', err);
+      setError('Failed to save annotations');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0 flex-1">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 px-4 pt-3">
+        {TOOLS.map(({ value, label, icon: Icon }) => (
+          <Button
+            key={value}
+            type="button"
+            variant={tool === value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setTool(value)}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+          </Button>
+        ))}
+        <div className="flex items-center gap-1 ml-2">
+          {ANNOTATION_COLORS.map(swatch => (
+            <button
+              key={swatch}
+              type="button"
+              onClick={() => setColor(swatch)}
+              className={`w-6 h-6 rounded-full border-2 ${color === swatch ? 'border-primary scale-110' : 'border-border'}`}
+              style={{ backgroundColor: swatch }}
+              title={swatch}
+            />
+          ))}
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setAnnotations(annotations.slice(0, -1))}
+          disabled={annotations.length === 0}
+          title="Undo last shape"
+        >
+          <Undo2 className="w-4 h-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setAnnotations([])}
+          disabled={annotations.length === 0}
+        >
+          Clear
+        </Button>
+      </div>
+
+      {/* Canvas */}
+      <div className="flex-1 overflow-auto bg-muted/50 px-4">
+        {image ? (
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className="w-full h-auto rounded-lg border border-border touch-none cursor-crosshair"
+          />
+        ) : !error ? (
+          <div className="flex items-center justify-center h-48">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : null}
+      </div>
+
+      {error && <p className="px-4 text-xs text-red-500">{error}</p>}
+
+      <div className="flex justify-end gap-2 px-4 pb-3">
+        <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={saving || !image}>
+          {saving ? 'Saving...' : 'Save Annotations'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useTradeQuery } from '@/lib/trade-context';
+import { useIdeas } from '@/lib/ideas-context';
+import { useBacktests } from '@/lib/backtest-context';
+import { usePlaybook } from '@/lib/playbook-context';
+import { groupBacktestsBySetup } from '@/lib/backtest';
+import { compareBacktestToLive, SignificanceTest } from '@/lib/analytics-engine';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+const VERDICT_CONFIG = {
+  degraded: { label: 'Edge degraded live', className: 'bg-red-500/10 text-red-500 border-red-500/30' },
+  improved: { label: 'Live outperforms backtest', className: 'bg-green-500/10 text-green-500 border-green-500/30' },
+  consistent: { label: 'No significant difference', className: 'bg-muted text-muted-foreground border-border' },
+  insufficient: { label: 'Not enough trades yet', className: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/30' },
+};
+
+const tooltipStyle = {
+  backgroundColor: 'var(--color-secondary)',
+  border: '1px solid var(--color-border)',
+  borderRadius: '8px',
+  fontSize: '12px',
+};
+
+const describeTest = (test: SignificanceTest, name: string) =>
+  test.pValue >= 1
+    ? `${name}: not enough variation to test`
+    : `${name}: p = ${test.pValue.toFixed(3)}${test.isSignificant ? ' (significant at 5%)' : ''}`;
+
+/**
+ * Backtest vs live results of one setup, with significance tests
+ */
+export function BacktestComparison() {
+  // Closed live trades to compare against
+  const { trades: liveTrades } = useTradeQuery({});
+  const { ideas } = useIdeas();
+  const { backtestTrades } = useBacktests();
+  const { setups } = usePlaybook();
+  const [selectedKey, setSelectedKey] = useState('');
+
+  const groups = useMemo(
+    () => groupBacktestsBySetup(ideas, backtestTrades, liveTrades, setups),
+    [ideas, backtestTrades, liveTrades, setups]
+  );
+  const group = groups.find(g => g.key === selectedKey) || groups.find(g => g.liveTrades.length > 0) || groups[0];
+  const comparison = useMemo(
+    () => (group ? compareBacktestToLive(group.backtestTrades, group.liveTrades) : null),
+    [group]
+  );
+
+  if (!group || !comparison) return null;
+
+  const { backtest, live } = comparison;
+  const rows = [
+    { label: 'Trades', backtest: String(backtest.expectancy.totalTrades), live: String(live.expectancy.totalTrades) },
+    { label: 'Win Rate', backtest: `${backtest.expectancy.winRate.toFixed(1)}%`, live: `${live.expectancy.winRate.toFixed(1)}%`, diff: live.expectancy.winRate - backtest.expectancy.winRate, unit: '%' },
+    { label: 'Average R', backtest: `${backtest.rStats.averageR.toFixed(2)}R`, live: `${live.rStats.averageR.toFixed(2)}R`, diff: live.rStats.averageR - backtest.rStats.averageR, unit: 'R' },
+    { label: 'Expectancy', backtest: `${backtest.expectancy.expectancyR.toFixed(2)}R`, live: `${live.expectancy.expectancyR.toFixed(2)}R`, diff: live.expectancy.expectancyR - backtest.expectancy.expectancyR, unit: 'R' },
+    { label: 'Median R', backtest: `${backtest.rStats.medianR.toFixed(2)}R`, live: `${live.rStats.medianR.toFixed(2)}R`, diff: live.rStats.medianR - backtest.rStats.medianR, unit: 'R' },
+    // A deeper drawdown is worse, so the sign is flipped for colouring
+    { label: 'Max Drawdown', backtest: `${backtest.maxDrawdownR.toFixed(2)}R`, live: `${live.maxDrawdownR.toFixed(2)}R`, diff: backtest.maxDrawdownR - live.maxDrawdownR, unit: 'R' },
+  ];
+  const distribution = backtest.rStats.rDistribution.map((bucket, i) => ({
+    range: bucket.range,
+    backtest: bucket.percentage,
+    live: live.rStats.rDistribution[i]?.percentage ?? 0,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle>Backtest vs Live</CardTitle>
+            <CardDescription>Whether live execution keeps the edge found in backtesting</CardDescription>
+          </div>
+          <select
+            value={group.key}
+            onChange={e => setSelectedKey(e.target.value)}
+            className="px-3 py-1.5 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {groups.map(g => (
+              <option key={g.key} value={g.key}>{g.name} ({g.backtestTrades.length} / {g.liveTrades.length})</option>
+            ))}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Badge className={`border ${VERDICT_CONFIG[comparison.verdict].className}`}>{VERDICT_CONFIG[comparison.verdict].label}</Badge>
+          <span className="text-muted-foreground">{describeTest(comparison.expectancyTest, "R per trade (Welch's t-test)")}</span>
+          <span className="text-muted-foreground">· {describeTest(comparison.winRateTest, 'Win rate (z-test)')}</span>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-xs text-muted-foreground">
+                <th className="py-2 pr-3 text-left font-medium">Metric</th>
+                <th className="py-2 px-3 text-right font-medium">Backtest</th>
+                <th className="py-2 px-3 text-right font-medium">Live</th>
+                <th className="py-2 pl-3 text-right font-medium">Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label} className="border-b border-border last:border-0">
+                  <td className="py-2 pr-3 font-medium">{row.label}</td>
+                  <td className="py-2 px-3 text-right">{row.backtest}</td>
+                  <td className="py-2 px-3 text-right">{row.live}</td>
+                  <td className={`py-2 pl-3 text-right ${row.diff === undefined ? '' : row.diff >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {row.diff === undefined ? '' : `${row.diff >= 0 ? '+' : ''}${row.diff.toFixed(2)}${row.unit}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <p className="text-xs text-muted-foreground mb-2">R Distribution (% of trades)</p>
+          <ResponsiveContainer width="100%" height={220}>
+            <BarChart data={distribution} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" />
+              <XAxis dataKey="range" stroke="var(--color-muted-foreground)" style={{ fontSize: '10px' }} />
+              <YAxis stroke="var(--color-muted-foreground)" style={{ fontSize: '10px' }} />
+              <Tooltip formatter={(value: any) => `${value}%`} contentStyle={tooltipStyle} />
+              <Legend />
+              <Bar dataKey="backtest" name="Backtest" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="live" name="Live" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
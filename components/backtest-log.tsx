@@ -0,0 +1,189 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { useBacktests } from '@/lib/backtest-context';
+import { backtestToTrade, getBacktestEquityCurve } from '@/lib/backtest';
+import { calculateExpectancy, calculateRMultipleStats } from '@/lib/analytics-engine';
+import { TradeIdea, BacktestTrade } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+const tooltipStyle = {
+  backgroundColor: 'var(--color-secondary)',
+  border: '1px solid var(--color-border)',
+  borderRadius: '8px',
+  fontSize: '12px',
+};
+
+// Backtest trades listed before the rest are cut off
+const BACKTEST_ROW_LIMIT = 50;
+
+interface BacktestFormState {
+  date: string;
+  direction: BacktestTrade['direction'];
+  rResult: string;
+  notes: string;
+}
+
+const EMPTY_FORM: BacktestFormState = {
+  date: new Date().toISOString().split('T')[0],
+  direction: 'Buy',
+  rResult: '',
+  notes: '',
+};
+
+/**
+ * Backtest trade log of an idea with statistics, equity curve and R distribution
+ */
+export function BacktestLog({ idea }: { idea: TradeIdea }) {
+  const { backtestTrades, addBacktestTrades, deleteBacktestTrade, importCSV } = useBacktests();
+  const [form, setForm] = useState<BacktestFormState>(EMPTY_FORM);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const backtests = useMemo(() => backtestTrades.filter(t => t.ideaId === idea.id), [backtestTrades, idea.id]);
+  const stats = useMemo(() => {
+    const trades = backtests.map(t => backtestToTrade(t, idea.setup));
+    return {
+      expectancy: calculateExpectancy(trades),
+      rStats: calculateRMultipleStats(trades),
+      equityCurve: getBacktestEquityCurve(backtests),
+    };
+  }, [backtests, idea.setup]);
+
+  const setField = <K extends keyof BacktestFormState>(field: K, value: BacktestFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleAdd = () => {
+    const rResult = parseFloat(form.rResult);
+    if (!form.date || !Number.isFinite(rResult)) {
+      alert('Please enter a date and an R result');
+      return;
+    }
+    addBacktestTrades([{
+      id: generateId(),
+      ideaId: idea.id,
+      date: form.date,
+      direction: form.direction,
+      rResult,
+      notes: form.notes.trim(),
+      createdAt: new Date().toISOString(),
+    }]);
+    // Keep the date and direction for quick entry of consecutive trades
+    setForm(prev => ({ ...prev, rResult: '', notes: '' }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { imported, errors } = await importCSV(file, idea.id);
+      const skipped = errors.length > 0 ? `\n\nSkipped ${errors.length} line(s):\n${errors.slice(0, 5).join('\n')}` : '';
+      alert(`Imported ${imported} backtest trade(s).${skipped}`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to import backtest trades');
+    }
+  };
+
+  const metrics = [
+    { label: 'Trades', value: String(stats.expectancy.totalTrades) },
+    { label: 'Win Rate', value: `${stats.expectancy.winRate.toFixed(1)}%` },
+    { label: 'Expectancy', value: `${stats.expectancy.expectancyR.toFixed(2)}R`, tone: stats.expectancy.expectancyR },
+    { label: 'Total R', value: `${stats.rStats.totalR.toFixed(2)}R`, tone: stats.rStats.totalR },
+    { label: 'Avg Win', value: `${stats.expectancy.avgWinR.toFixed(2)}R` },
+    { label: 'Avg Loss', value: `${stats.expectancy.avgLossR.toFixed(2)}R` },
+    { label: 'Median', value: `${stats.rStats.medianR.toFixed(2)}R` },
+    { label: '≥ 2R', value: `${stats.rStats.percentAbove2R}%` },
+  ];
+
+  return (
+    <div className="p-3 bg-secondary rounded-lg border border-border space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold text-muted-foreground">Backtest Trades</p>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} title="CSV columns: date, direction, R, notes">
+          <Upload className="w-4 h-4 mr-2" />
+          Import CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        <input type="date" value={form.date} onChange={e => setField('date', e.target.value)} className={inputClass} />
+        <select value={form.direction} onChange={e => setField('direction', e.target.value as BacktestTrade['direction'])} className={inputClass}>
+          <option value="Buy">Buy</option>
+          <option value="Sell">Sell</option>
+        </select>
+        <input type="number" step="0.01" value={form.rResult} onChange={e => setField('rResult', e.target.value)} placeholder="R result" className={inputClass} />
+        <input type="text" value={form.notes} onChange={e => setField('notes', e.target.value)} placeholder="Notes" className={inputClass} />
+        <Button onClick={handleAdd} className="bg-primary hover:bg-primary/90">
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {backtests.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {metrics.map(metric => (
+              <div key={metric.label}>
+                <p className="text-xs text-muted-foreground">{metric.label}</p>
+                <p className={`text-sm font-bold ${metric.tone === undefined ? 'text-foreground' : metric.tone >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                  {metric.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs text-muted-foreground mb-2">Equity Curve (R)</p>
+              <ResponsiveContainer width="100%" height={200}>
+                <LineChart data={stats.equityCurve} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" />
+                  <XAxis dataKey="trade" stroke="var(--color-muted-foreground)" style={{ fontSize: '10px' }} />
+                  <YAxis stroke="var(--color-muted-foreground)" style={{ fontSize: '10px' }} />
+                  <Tooltip contentStyle={tooltipStyle} formatter={(value: any) => `${value}R`} labelFormatter={(label: any) => `Trade ${label}`} />
+                  <Line type="monotone" dataKey="equityR" stroke="var(--color-primary)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground mb-2">R Distribution</p>
+              <ResponsiveContainer width="100%" height={200}>
+                <BarChart data={stats.rStats.rDistribution} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" />
+                  <XAxis dataKey="range" stroke="var(--color-muted-foreground)" style={{ fontSize: '10px' }} />
+                  <YAxis allowDecimals={false} stroke="var(--color-muted-foreground)" style={{ fontSize: '10px' }} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Bar dataKey="count" fill="var(--color-primary)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {[...backtests].reverse().slice(0, BACKTEST_ROW_LIMIT).map(backtest => (
+              <div key={backtest.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-foreground truncate">
+                  {backtest.date} · {backtest.direction}{backtest.notes ? ` · ${backtest.notes}` : ''}
+                </span>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className={backtest.rResult >= 0 ? 'text-green-500' : 'text-red-500'}>{backtest.rResult.toFixed(2)}R</span>
+                  <button onClick={() => deleteBacktestTrade(backtest.id)} className="text-red-400 hover:text-red-300" title="Delete backtest trade">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
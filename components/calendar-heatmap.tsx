@@ -18,6 +18,8 @@ import {
 interface CalendarHeatMapProps {
   trades: Trade[];
   month?: Date;
+  // Opens the daily journal for a clicked day
+  onDayClick?: (date: string) => void;
 }
 
 interface DayStats {
@@ -30,7 +32,7 @@ interface DayStats {
   isCurrentMonth: boolean;
 }
 
-export function CalendarHeatMap({ trades, month = new Date() }: CalendarHeatMapProps) {
+export function CalendarHeatMap({ trades, month = new Date(), onDayClick }: CalendarHeatMapProps) {
   const stats = useMemo(() => {
     const monthStart = startOfMonth(month);
     const monthEnd = endOfMonth(month);
@@ -129,6 +131,7 @@ export function CalendarHeatMap({ trades, month = new Date() }: CalendarHeatMapP
               {week.map((day) => (
                 <div
                   key={day.date}
+                  onClick={() => onDayClick?.(day.date)}
                   className={`
                     aspect-square flex flex-col items-center justify-center rounded-lg
                     ${getHeatColor(day.pnl, day.trades)}
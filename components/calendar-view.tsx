@@ -1,11 +1,13 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { ChevronLeft, ChevronRight, Settings2 } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Settings2, NotebookPen } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Trade } from '@/lib/types';
-import { getTradeBasePnL, getTradeCharges, convertToBaseCurrency, CURRENCY_SYMBOLS, BASE_CURRENCY } from '@/lib/trade-utils';
+import { getTradeDisplayPnL, getTradeCharges, convertTradeAmount, getCurrencySymbol } from '@/lib/trade-utils';
+import { useSettings } from '@/lib/settings-context';
+import { useJournal } from '@/lib/journal-context';
 
 /** Format a local Date as YYYY-MM-DD without any UTC conversion */
 function toLocalDateStr(d: Date): string {
@@ -33,11 +35,16 @@ interface DayStats {
 
 interface CalendarViewProps {
   trades: Trade[];
+  // Opens the daily journal for a clicked day
+  onDayClick?: (date: string) => void;
 }
 
-export default function CalendarView({ trades }: CalendarViewProps) {
+export default function CalendarView({ trades, onDayClick }: CalendarViewProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
-  const baseCurrencySymbol = CURRENCY_SYMBOLS[BASE_CURRENCY];
+  const { baseCurrency } = useSettings();
+  const { entries } = useJournal();
+  const journalDates = useMemo(() => new Set(entries.map(e => e.date)), [entries]);
+  const baseCurrencySymbol = getCurrencySymbol(baseCurrency);
 
   const todayStr = useMemo(() => toLocalDateStr(new Date()), []);
 
@@ -58,7 +65,7 @@ export default function CalendarView({ trades }: CalendarViewProps) {
     const getDayCharges = (dayTrades: typeof trades) =>
       dayTrades.reduce((sum, t) => {
         const ch = getTradeCharges(t);
-        return sum + (t.currency ? convertToBaseCurrency(ch, t.currency, t.exchangeRate) : ch);
+        return sum + convertTradeAmount(ch, t, baseCurrency);
       }, 0);
 
     // Add previous month's trailing days
@@ -67,7 +74,7 @@ export default function CalendarView({ trades }: CalendarViewProps) {
       const d = new Date(year, month - 1, prevMonthLastDay - i);
       const dateStr = toLocalDateStr(d);
       const dayTrades = trades.filter(t => t.date === dateStr);
-      const pnl = dayTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+      const pnl = dayTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0);
       const charges = getDayCharges(dayTrades);
       days.push({
         date: dateStr,
@@ -85,7 +92,7 @@ export default function CalendarView({ trades }: CalendarViewProps) {
       const d = new Date(year, month, i);
       const dateStr = toLocalDateStr(d);
       const dayTrades = trades.filter(t => t.date === dateStr);
-      const pnl = dayTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+      const pnl = dayTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0);
       const charges = getDayCharges(dayTrades);
       days.push({
         date: dateStr,
@@ -105,7 +112,7 @@ export default function CalendarView({ trades }: CalendarViewProps) {
       const d = new Date(year, month + 1, i);
       const dateStr = toLocalDateStr(d);
       const dayTrades = trades.filter(t => t.date === dateStr);
-      const pnl = dayTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+      const pnl = dayTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0);
       const charges = getDayCharges(dayTrades);
       days.push({
         date: dateStr,
@@ -121,7 +128,7 @@ export default function CalendarView({ trades }: CalendarViewProps) {
     return days;
   };
 
-  const daysInMonth = useMemo(() => getDaysInMonth(currentDate), [currentDate, trades]);
+  const daysInMonth = useMemo(() => getDaysInMonth(currentDate), [currentDate, trades, baseCurrency]);
 
   // Calculate monthly stats - using base currency
   const monthlyStats = useMemo(() => {
@@ -131,16 +138,16 @@ export default function CalendarView({ trades }: CalendarViewProps) {
     const monthEnd = toLocalDateStr(new Date(year, month + 1, 0));
 
     const monthTrades = trades.filter(t => t.date >= monthStart && t.date <= monthEnd);
-    const monthPnL = monthTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+    const monthPnL = monthTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0);
     const monthCharges = monthTrades.reduce((sum, t) => {
       const ch = getTradeCharges(t);
-      return sum + (t.currency ? convertToBaseCurrency(ch, t.currency, t.exchangeRate) : ch);
+      return sum + convertTradeAmount(ch, t, baseCurrency);
     }, 0);
     const monthGrossPnL = monthPnL + monthCharges;
     const tradingDays = new Set(monthTrades.map(t => t.date)).size;
 
     return { monthPnL, monthGrossPnL, monthCharges, tradingDays, totalTrades: monthTrades.length };
-  }, [currentDate, trades]);
+  }, [currentDate, trades, baseCurrency]);
 
   const isCurrentMonth =
     currentDate.getMonth() === new Date().getMonth() && currentDate.getFullYear() === new Date().getFullYear();
@@ -198,7 +205,7 @@ export default function CalendarView({ trades }: CalendarViewProps) {
           {/* Right Stats - All values in base currency */}
           <div className="flex items-center gap-3 sm:gap-5 text-xs sm:text-sm flex-wrap">
             <div className="flex flex-col">
-              <span className="text-muted-foreground">Gross P&L ({BASE_CURRENCY}):</span>
+              <span className="text-muted-foreground">Gross P&L ({baseCurrency}):</span>
               <span className={`font-bold ${monthlyStats.monthGrossPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
                 {baseCurrencySymbol}{monthlyStats.monthGrossPnL.toFixed(2)}
               </span>
@@ -212,7 +219,7 @@ export default function CalendarView({ trades }: CalendarViewProps) {
               </div>
             )}
             <div className="flex flex-col">
-              <span className="text-muted-foreground">Net P&L ({BASE_CURRENCY}):</span>
+              <span className="text-muted-foreground">Net P&L ({baseCurrency}):</span>
               <span className={`font-bold ${monthlyStats.monthPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
                 {baseCurrencySymbol}{monthlyStats.monthPnL.toFixed(2)}
               </span>
@@ -252,10 +259,15 @@ export default function CalendarView({ trades }: CalendarViewProps) {
               return (
                 <div
                   key={`${day.date}-${index}`}
+                  onClick={onDayClick ? () => onDayClick(day.date) : undefined}
+                  title={onDayClick ? `Open journal for ${day.date}` : undefined}
                   className={`border-r border-b border-border last-row:border-b-0 ${index % 7 === 6 ? 'border-r-0' : ''} min-h-32 sm:min-h-40 lg:min-h-48 p-2 sm:p-3 lg:p-4 relative transition-colors ${
                     day.isToday ? 'bg-primary/10' : isCurrentMonthDay ? 'bg-background' : 'bg-muted/20'
-                  }`}
+                  } ${onDayClick ? 'cursor-pointer hover:bg-secondary/50' : ''}`}
                 >
+                  {journalDates.has(day.date) && (
+                    <NotebookPen className="absolute top-2 right-2 w-3.5 h-3.5 text-primary" aria-label="Journal entry" />
+                  )}
                   {/* Day Number */}
                   <div className="relative">
                     {day.isToday && (
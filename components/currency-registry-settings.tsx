@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import { useSettings } from '@/lib/settings-context';
+import { useTrades } from '@/lib/trade-context';
+import { useAccounts } from '@/lib/accounts-context';
+import { useInstruments } from '@/lib/instruments-context';
+import { isBuiltInCurrency } from '@/lib/currency-registry';
+import { BASE_CURRENCY, formatCurrency } from '@/lib/trade-utils';
+import { CurrencyDefinition, CurrencySymbolPlacement } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2, Pencil, Coins } from 'lucide-react';
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+interface CurrencyFormState {
+  code: string;
+  name: string;
+  symbol: string;
+  decimals: string;
+  placement: CurrencySymbolPlacement;
+  defaultRate: string;
+}
+
+const EMPTY_FORM: CurrencyFormState = {
+  code: '',
+  name: '',
+  symbol: '',
+  decimals: '2',
+  placement: 'before',
+  defaultRate: '',
+};
+
+export default function CurrencyRegistrySettings() {
+  const { currencies, saveCurrency, deleteCurrency, baseCurrency } = useSettings();
+  const { reduceTrades } = useTrades();
+  const { accounts } = useAccounts();
+  const { instruments } = useInstruments();
+  const [form, setForm] = useState<CurrencyFormState>(EMPTY_FORM);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+
+  const setField = <K extends keyof CurrencyFormState>(field: K, value: CurrencyFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const startEdit = (currency: CurrencyDefinition) => {
+    setEditingCode(currency.code);
+    setForm({
+      code: currency.code,
+      name: currency.name,
+      symbol: currency.symbol,
+      decimals: String(currency.decimals),
+      placement: currency.placement,
+      defaultRate: currency.defaultRate !== undefined ? String(currency.defaultRate) : '',
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingCode(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = () => {
+    const defaultRate = form.defaultRate ? parseFloat(form.defaultRate) : undefined;
+    if (defaultRate !== undefined && !(defaultRate > 0)) {
+      alert('Default rate must be a positive number');
+      return;
+    }
+    const code = editingCode || form.code;
+    if (!editingCode && currencies.some(c => c.code === code.trim().toUpperCase())) {
+      alert(`${code.trim().toUpperCase()} is already registered`);
+      return;
+    }
+
+    try {
+      saveCurrency({
+        code,
+        name: form.name.trim() || code.trim().toUpperCase(),
+        symbol: form.symbol,
+        decimals: parseInt(form.decimals, 10),
+        placement: form.placement,
+        defaultRate: code === BASE_CURRENCY ? 1 : defaultRate,
+      });
+      cancelEdit();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save currency');
+    }
+  };
+
+  const handleDelete = async (currency: CurrencyDefinition) => {
+    // Stored records keep their code either way, but removing it from the pickers would strand them
+    const inUse = await reduceTrades({ includeOpen: true }, (count, t) => (t.currency === currency.code ? count + 1 : count), 0);
+    const usedBy = [
+      inUse > 0 ? `${inUse} trade(s)` : '',
+      accounts.some(a => a.currency === currency.code) ? 'an account' : '',
+      instruments.some(i => i.currency === currency.code) ? 'an instrument' : '',
+    ].filter(Boolean);
+    if (usedBy.length > 0) {
+      alert(`${currency.code} is still used by ${usedBy.join(', ')} and cannot be deleted.`);
+      return;
+    }
+    if (!window.confirm(`Delete ${currency.code}?`)) return;
+    try {
+      deleteCurrency(currency.code);
+      if (editingCode === currency.code) cancelEdit();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete currency');
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <Coins className="w-5 h-5 text-primary" />
+          Currencies
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Currencies available to trades, accounts and instruments, including crypto quote currencies such as USDT.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <div className="space-y-2">
+          {currencies.map(currency => (
+            <div key={currency.code} className="flex items-center justify-between gap-3 p-3 bg-secondary rounded-lg border border-border">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-semibold text-foreground">{currency.code}</p>
+                  <span className="text-xs text-muted-foreground truncate">{currency.name}</span>
+                  {isBuiltInCurrency(currency.code) && <Badge variant="outline">Built-in</Badge>}
+                  {currency.code === baseCurrency && <Badge variant="secondary">Display</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(1234.5, currency.code)} · {currency.decimals} decimal(s)
+                  {currency.code !== BASE_CURRENCY && ` · Default ${currency.defaultRate ?? 1} ${BASE_CURRENCY}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button onClick={() => startEdit(currency)} className="text-primary hover:text-primary/80 transition-colors p-1" title="Edit currency">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                {!isBuiltInCurrency(currency.code) && (
+                  <button onClick={() => handleDelete(currency)} className="text-red-400 hover:text-red-300 transition-colors p-1" title="Delete currency">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 border-t border-border pt-4">
+          <input
+            type="text"
+            value={form.code}
+            onChange={e => setField('code', e.target.value.toUpperCase())}
+            placeholder="Code (e.g., USDT)"
+            disabled={editingCode !== null}
+            className={`${inputClass} disabled:opacity-60`}
+          />
+          <input type="text" value={form.name} onChange={e => setField('name', e.target.value)} placeholder="Name (e.g., Tether)" className={inputClass} />
+          <input type="text" value={form.symbol} onChange={e => setField('symbol', e.target.value)} placeholder="Symbol (e.g., ₮)" className={inputClass} />
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Decimals</label>
+            <input type="number" min="0" max="8" step="1" value={form.decimals} onChange={e => setField('decimals', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Symbol placement</label>
+            <select value={form.placement} onChange={e => setField('placement', e.target.value as CurrencySymbolPlacement)} className={inputClass}>
+              <option value="before">Before amount (₹100)</option>
+              <option value="after">After amount (100 ₮)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Default rate to {BASE_CURRENCY}</label>
+            <input
+              type="number"
+              step="any"
+              value={form.defaultRate}
+              onChange={e => setField('defaultRate', e.target.value)}
+              placeholder="Used when no dated rate is stored"
+              disabled={editingCode === BASE_CURRENCY}
+              className={`${inputClass} disabled:opacity-60`}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleSave} className="bg-primary hover:bg-primary/90">
+            <Plus className="w-4 h-4 mr-2" />
+            {editingCode ? 'Save Currency' : 'Add Currency'}
+          </Button>
+          {editingCode && (
+            <Button variant="outline" onClick={cancelEdit}>Cancel</Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,16 @@
 'use client';
 
+import { useRef, useState } from 'react';
 import { useSettings } from '@/lib/settings-context';
-import { CURRENCY_SYMBOLS } from '@/lib/trade-utils';
-import { Currency } from '@/lib/types';
+import { useFxRates } from '@/lib/fx-rates-context';
+import { useTrades } from '@/lib/trade-context';
+import { getFxRateId } from '@/lib/fx-rates';
+import { BASE_CURRENCY, getCurrencySymbol, recomputeTradeExchangeRate } from '@/lib/trade-utils';
+import { showUndoToast } from '@/lib/undo-toast';
+import { Currency, Trade } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import {
   Select,
   SelectContent,
@@ -11,11 +18,85 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { Plus, Trash2, Upload, RefreshCw } from 'lucide-react';
 
-const AVAILABLE_CURRENCIES: Currency[] = ['INR', 'USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CAD'];
+// Rows shown before "Show all"
+const RATE_PREVIEW_LIMIT = 20;
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
 
 export default function CurrencySettings() {
-  const { baseCurrency, setBaseCurrency } = useSettings();
+  const { baseCurrency, setBaseCurrency, currencies } = useSettings();
+  // Currencies that need a rate to the base currency
+  const rateCurrencies = currencies.map(c => c.code).filter(c => c !== BASE_CURRENCY);
+  const { rates, saveRates, deleteRate, importCSV } = useFxRates();
+  const { tradeCount, reduceTrades, updateTrades } = useTrades();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [newRate, setNewRate] = useState({ date: new Date().toISOString().split('T')[0], from: rateCurrencies[0] || '', rate: '' });
+  const [currencyFilter, setCurrencyFilter] = useState<Currency | 'all'>('all');
+  const [showAll, setShowAll] = useState(false);
+  const [isRecomputing, setIsRecomputing] = useState(false);
+
+  const filteredRates = currencyFilter === 'all' ? rates : rates.filter(r => r.from === currencyFilter);
+  const visibleRates = showAll ? filteredRates : filteredRates.slice(0, RATE_PREVIEW_LIMIT);
+
+  const handleAddRate = () => {
+    const rate = parseFloat(newRate.rate);
+    if (!newRate.date || !newRate.from || !(rate > 0)) {
+      alert('Please enter a date, currency and a positive rate');
+      return;
+    }
+    saveRates([{
+      id: getFxRateId(newRate.from, BASE_CURRENCY, newRate.date),
+      date: newRate.date,
+      from: newRate.from,
+      to: BASE_CURRENCY,
+      rate,
+      source: 'manual',
+      updatedAt: new Date().toISOString(),
+    }]);
+    setNewRate(prev => ({ ...prev, rate: '' }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { imported, errors } = await importCSV(file);
+      const skipped = errors.length > 0 ? `\n\nSkipped ${errors.length} line(s):\n${errors.slice(0, 5).join('\n')}` : '';
+      alert(`Imported ${imported} rate(s).${skipped}`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to import FX rates');
+    }
+  };
+
+  /**
+   * Rewrite exchangeRate / pnlBase of every trade from the rate on its exit date
+   */
+  const handleRecompute = async () => {
+    // Walk the journal and keep only the trades whose rate moved
+    const changed = await reduceTrades<{ before: Trade; after: Trade }[]>({ includeOpen: true }, (found, trade) => {
+      const after = recomputeTradeExchangeRate(trade);
+      if (after !== trade) found.push({ before: trade, after });
+      return found;
+    }, []);
+    if (changed.length === 0) {
+      alert('All trades already use the stored rates.');
+      return;
+    }
+    if (!window.confirm(`Recompute base-currency P&L for ${changed.length} trade(s) from the rates on their exit dates?`)) return;
+
+    setIsRecomputing(true);
+    try {
+      await updateTrades(changed.map(c => c.after));
+      showUndoToast(`Recomputed base P&L for ${changed.length} trade(s)`, () => updateTrades(changed.map(c => c.before)));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to recompute trades');
+    } finally {
+      setIsRecomputing(false);
+    }
+  };
 
   return (
     <Card className="bg-card border-border">
@@ -33,21 +114,117 @@ export default function CurrencySettings() {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {AVAILABLE_CURRENCIES.map((currency) => (
-                <SelectItem key={currency} value={currency}>
-                  {currency} {CURRENCY_SYMBOLS[currency]}
+              {currencies.map((currency) => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code} {currency.symbol}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
         </div>
+
+        {/* Historical FX rates */}
+        <div className="mt-6 space-y-3 border-t border-border pt-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <p className="text-sm font-medium text-foreground">Historical Exchange Rates</p>
+              <p className="text-xs text-muted-foreground">
+                Rates to {BASE_CURRENCY} by date. Trades convert at the latest rate on or before their exit date.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleRecompute} disabled={isRecomputing || tradeCount === 0}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isRecomputing ? 'animate-spin' : ''}`} />
+                Recompute Trades
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+            <input
+              type="date"
+              value={newRate.date}
+              onChange={e => setNewRate(prev => ({ ...prev, date: e.target.value }))}
+              className={inputClass}
+            />
+            <select
+              value={newRate.from}
+              onChange={e => setNewRate(prev => ({ ...prev, from: e.target.value as Currency }))}
+              className={inputClass}
+            >
+              {rateCurrencies.map(c => (
+                <option key={c} value={c}>{c} → {BASE_CURRENCY}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="any"
+              value={newRate.rate}
+              onChange={e => setNewRate(prev => ({ ...prev, rate: e.target.value }))}
+              placeholder={`${getCurrencySymbol(BASE_CURRENCY)} per 1 ${newRate.from}`}
+              className={inputClass}
+            />
+            <Button onClick={handleAddRate} className="bg-primary hover:bg-primary/90">
+              <Plus className="w-4 h-4 mr-2" />
+              Save Rate
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            CSV format: <code>date,currency,rate</code> (e.g. <code>2025-03-14,USD,86.9</code>) or a pair such as <code>USDINR</code> in place of the currency.
+          </p>
+
+          {rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stored rates yet - trades use the built-in default rates.</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <select
+                  value={currencyFilter}
+                  onChange={e => setCurrencyFilter(e.target.value as Currency | 'all')}
+                  className="px-2 py-1 bg-input border border-border rounded-lg text-foreground text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="all">All currencies</option>
+                  {rateCurrencies.map(c => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-muted-foreground">{filteredRates.length} rate(s)</span>
+              </div>
+              <div className="space-y-1 max-h-80 overflow-y-auto">
+                {visibleRates.map(rate => (
+                  <div key={rate.id} className="flex items-center justify-between gap-3 px-3 py-2 bg-secondary rounded-lg border border-border text-sm">
+                    <span className="text-muted-foreground w-24">{rate.date}</span>
+                    <span className="font-medium text-foreground flex-1">
+                      1 {rate.from} = {getCurrencySymbol(rate.to)}{rate.rate}
+                    </span>
+                    <Badge variant="outline" className="capitalize">{rate.source}</Badge>
+                    <button onClick={() => deleteRate(rate.id)} className="text-red-400 hover:text-red-300 transition-colors p-1" title="Delete rate">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {filteredRates.length > RATE_PREVIEW_LIMIT && (
+                <button onClick={() => setShowAll(prev => !prev)} className="text-xs text-primary hover:underline">
+                  {showAll ? 'Show fewer' : `Show all ${filteredRates.length}`}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
         <div className="mt-4 p-3 bg-muted rounded-lg text-xs sm:text-sm text-muted-foreground">
           <p className="font-medium mb-1">How this works:</p>
           <ul className="list-disc list-inside space-y-1">
             <li>Each trade retains its original currency (e.g., trades in INR stay in INR)</li>
-            <li>P&L is automatically converted to your selected base currency using exchange rates at trade close time</li>
-            <li>Analytics, charts, and summaries display values in your selected base currency</li>
-            <li>Multi-currency trading is fully supported - all calculations are accurate</li>
+            <li>P&L is converted to {BASE_CURRENCY} at the stored rate for the trade&apos;s exit date, falling back to a default rate when none is stored</li>
+            <li>After importing or editing rates, use Recompute Trades to update trades you logged earlier</li>
+            <li>Analytics, charts, reports and summaries convert each trade into your display currency at the rate on its exit date</li>
           </ul>
         </div>
       </CardContent>
@@ -0,0 +1,64 @@
+'use client';
+
+import { CustomFieldDefinition, CustomFieldFormValue } from '@/lib/types';
+import { getEmptyCustomFieldValue } from '@/lib/custom-fields';
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: CustomFieldFormValue | undefined;
+  onChange: (value: CustomFieldFormValue) => void;
+}
+
+/**
+ * Input for one custom field, chosen by the field's type
+ */
+export function CustomFieldInput({ field, value = getEmptyCustomFieldValue(field), onChange }: CustomFieldInputProps) {
+  switch (field.type) {
+    case 'number':
+      return (
+        <input type="number" step="any" value={String(value)} onChange={e => onChange(e.target.value)} className={inputClass} />
+      );
+    case 'boolean':
+      return (
+        <label className="flex items-center gap-2 h-10 text-sm text-foreground cursor-pointer">
+          <input type="checkbox" checked={value === true} onChange={e => onChange(e.target.checked)} className="w-4 h-4" />
+          {field.name}
+        </label>
+      );
+    case 'select':
+      return (
+        <select value={String(value)} onChange={e => onChange(e.target.value)} className={inputClass}>
+          <option value="">—</option>
+          {(field.options || []).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    case 'multi-select': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-1.5">
+          {(field.options || []).map(option => {
+            const isSelected = selected.includes(option);
+            return (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onChange(isSelected ? selected.filter(o => o !== option) : [...selected, option])}
+                className={`px-2.5 py-1 rounded-full border text-xs transition-colors ${isSelected ? 'bg-primary text-primary-foreground border-primary' : 'bg-secondary text-foreground border-border hover:bg-secondary/80'}`}
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+    default:
+      return (
+        <input type="text" value={String(value)} onChange={e => onChange(e.target.value)} className={inputClass} />
+      );
+  }
+}
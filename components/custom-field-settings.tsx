@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import { useCustomFields } from '@/lib/custom-fields-context';
+import { CUSTOM_FIELD_TYPE_LABELS } from '@/lib/custom-fields';
+import { CustomFieldDefinition, CustomFieldType } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2, Pencil, ListPlus } from 'lucide-react';
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+interface CustomFieldFormState {
+  name: string;
+  type: CustomFieldType;
+  options: string;
+  bucketSize: string;
+  showInLog: boolean;
+}
+
+const EMPTY_FORM: CustomFieldFormState = {
+  name: '',
+  type: 'number',
+  options: '',
+  bucketSize: '',
+  showInLog: true,
+};
+
+export default function CustomFieldSettings() {
+  const { customFields, addCustomField, updateCustomField, deleteCustomField } = useCustomFields();
+  const [form, setForm] = useState<CustomFieldFormState>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const hasOptions = form.type === 'select' || form.type === 'multi-select';
+
+  const setField = <K extends keyof CustomFieldFormState>(field: K, value: CustomFieldFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const startEdit = (field: CustomFieldDefinition) => {
+    setEditingId(field.id);
+    setForm({
+      name: field.name,
+      type: field.type,
+      options: (field.options || []).join(', '),
+      bucketSize: field.bucketSize ? String(field.bucketSize) : '',
+      showInLog: field.showInLog,
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = () => {
+    const name = form.name.trim();
+    if (!name) {
+      alert('Please enter a field name');
+      return;
+    }
+    const bucketSize = form.bucketSize ? parseFloat(form.bucketSize) : undefined;
+    if (bucketSize !== undefined && !(bucketSize > 0)) {
+      alert('Group size must be a positive number');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const existing = editingId ? customFields.find(f => f.id === editingId) : undefined;
+    const field: CustomFieldDefinition = {
+      id: existing?.id || generateId(),
+      name,
+      type: form.type,
+      options: hasOptions ? Array.from(new Set(form.options.split(',').map(o => o.trim()).filter(Boolean))) : undefined,
+      bucketSize: form.type === 'number' ? bucketSize : undefined,
+      showInLog: form.showInLog,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    try {
+      if (existing) {
+        updateCustomField(existing.id, field);
+      } else {
+        addCustomField(field);
+      }
+      cancelEdit();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save custom field');
+    }
+  };
+
+  const handleDelete = (field: CustomFieldDefinition) => {
+    if (window.confirm(`Delete the "${field.name}" field? Values already saved on trades are kept but hidden.`)) {
+      deleteCustomField(field.id);
+      if (editingId === field.id) cancelEdit();
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <ListPlus className="w-5 h-5 text-primary" />
+          Custom Fields
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Extra things to record on every trade, such as VIX level or pre-market gap %. They appear in the trade form, trade log, exports, filters and analytics.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        {customFields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No custom fields yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {customFields.map(field => (
+              <div key={field.id} className="flex items-center justify-between gap-3 p-3 bg-secondary rounded-lg border border-border">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-semibold text-foreground truncate">{field.name}</p>
+                    <Badge variant="outline">{CUSTOM_FIELD_TYPE_LABELS[field.type]}</Badge>
+                    {field.showInLog && <Badge variant="secondary">Log column</Badge>}
+                  </div>
+                  {field.options && field.options.length > 0 && (
+                    <p className="text-xs text-muted-foreground truncate">Options: {field.options.join(', ')}</p>
+                  )}
+                  {field.bucketSize && (
+                    <p className="text-xs text-muted-foreground">Grouped in ranges of {field.bucketSize}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button onClick={() => startEdit(field)} className="text-primary hover:text-primary/80 transition-colors p-1" title="Edit field">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(field)} className="text-red-400 hover:text-red-300 transition-colors p-1" title="Delete field">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 border-t border-border pt-4">
+          <input type="text" value={form.name} onChange={e => setField('name', e.target.value)} placeholder="Field name (e.g., VIX level)" className={inputClass} />
+          <select
+            value={form.type}
+            onChange={e => setField('type', e.target.value as CustomFieldType)}
+            disabled={editingId !== null}
+            className={`${inputClass} disabled:opacity-60`}
+            title={editingId ? 'The type cannot change once trades may hold values' : undefined}
+          >
+            {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+              <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          {hasOptions && (
+            <input
+              type="text"
+              value={form.options}
+              onChange={e => setField('options', e.target.value)}
+              placeholder="Options, comma separated (e.g., Gap up, Gap down, Flat)"
+              className={`${inputClass} sm:col-span-2`}
+            />
+          )}
+          {form.type === 'number' && (
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Group in ranges of (optional)</label>
+              <input type="number" step="any" value={form.bucketSize} onChange={e => setField('bucketSize', e.target.value)} placeholder="e.g., 5" className={inputClass} />
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer self-end h-10">
+            <input type="checkbox" checked={form.showInLog} onChange={e => setField('showInLog', e.target.checked)} className="w-4 h-4" />
+            Show as a trade log column
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleSave} className="bg-primary hover:bg-primary/90">
+            <Plus className="w-4 h-4 mr-2" />
+            {editingId ? 'Save Field' : 'Add Field'}
+          </Button>
+          {editingId && (
+            <Button variant="outline" onClick={cancelEdit}>Cancel</Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
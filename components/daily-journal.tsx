@@ -0,0 +1,276 @@
+'use client';
+
+import { useState } from 'react';
+import { useTradeQuery } from '@/lib/trade-context';
+import { useSettings } from '@/lib/settings-context';
+import { useAccounts } from '@/lib/accounts-context';
+import { useJournal } from '@/lib/journal-context';
+import { getTradeDisplayPnL, formatCurrency } from '@/lib/trade-utils';
+import { DailyJournal as DailyJournalEntry, MarketBias } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChevronLeft, ChevronRight, Save, Trash2 } from 'lucide-react';
+import { showUndoToast } from '@/lib/undo-toast';
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+const BIASES: MarketBias[] = ['Bullish', 'Bearish', 'Neutral'];
+const RATINGS = [1, 2, 3, 4, 5];
+
+// Past entries listed beside the form
+const RECENT_ENTRY_LIMIT = 14;
+
+interface JournalFormState {
+  preMarketPlan: string;
+  keyLevels: string;
+  bias: MarketBias | '';
+  postMarketReview: string;
+  lessons: string;
+  mood?: number;
+  energy?: number;
+}
+
+/** Format a local Date as YYYY-MM-DD without any UTC conversion */
+function toLocalDateStr(d: Date): string {
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+function shiftDate(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return toLocalDateStr(new Date(y, m - 1, d + days));
+}
+
+const entryToForm = (entry?: DailyJournalEntry): JournalFormState => ({
+  preMarketPlan: entry?.preMarketPlan || '',
+  keyLevels: entry?.keyLevels || '',
+  bias: entry?.bias || '',
+  postMarketReview: entry?.postMarketReview || '',
+  lessons: entry?.lessons || '',
+  mood: entry?.mood,
+  energy: entry?.energy,
+});
+
+interface DailyJournalProps {
+  initialDate?: string;
+}
+
+/**
+ * Daily journal page: one entry per day with that day's trades alongside
+ */
+export default function DailyJournal({ initialDate }: DailyJournalProps) {
+  const { baseCurrency } = useSettings();
+  const { accountScope } = useAccounts();
+  const { entries } = useJournal();
+  const [date, setDate] = useState(initialDate || toLocalDateStr(new Date()));
+
+  // Every trade entered on the day, open ones included
+  const { trades: dayTrades } = useTradeQuery({ from: date, to: date, scope: accountScope, includeOpen: true });
+  const dayPnL = dayTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0);
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Daily Journal</h1>
+          <p className="text-muted-foreground mt-1">Plans and reflections for every session, traded or not</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={() => setDate(shiftDate(date, -1))} title="Previous day">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <input type="date" value={date} onChange={e => e.target.value && setDate(e.target.value)} className={inputClass} />
+          <Button variant="ghost" size="icon" onClick={() => setDate(shiftDate(date, 1))} title="Next day">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <DailyJournalForm key={date} date={date} />
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Trades on this Day</CardTitle>
+              <CardDescription>
+                {dayTrades.length === 0
+                  ? 'No trades - stayed flat'
+                  : `${dayTrades.length} trade(s) · ${formatCurrency(dayPnL, baseCurrency)}`}
+              </CardDescription>
+            </CardHeader>
+            {dayTrades.length > 0 && (
+              <CardContent className="space-y-2">
+                {dayTrades.map(trade => {
+                  const pnl = getTradeDisplayPnL(trade, baseCurrency);
+                  return (
+                    <div key={trade.id} className="flex items-center justify-between gap-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium text-foreground truncate">{trade.symbol} · {trade.position}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {trade.setupName || 'No setup'}{trade.status === 'open' ? ' · open' : ''}
+                        </p>
+                      </div>
+                      {trade.status !== 'open' && (
+                        <span className={`flex-shrink-0 font-semibold ${pnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                          {formatCurrency(pnl, baseCurrency)}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            )}
+          </Card>
+
+          {entries.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Entries</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {entries.slice(0, RECENT_ENTRY_LIMIT).map(entry => (
+                  <button
+                    key={entry.date}
+                    onClick={() => setDate(entry.date)}
+                    className={`w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded text-sm text-left transition-colors ${
+                      entry.date === date ? 'bg-primary/10 text-foreground' : 'text-muted-foreground hover:bg-secondary'
+                    }`}
+                  >
+                    <span>{entry.date}</span>
+                    {entry.bias && <Badge variant="outline" className="text-xs">{entry.bias}</Badge>}
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Journal entry form for one date; saving replaces any existing entry for it
+ */
+export function DailyJournalForm({ date }: { date: string }) {
+  const { getEntry, saveEntry, deleteEntry } = useJournal();
+  const entry = getEntry(date);
+  const [form, setForm] = useState<JournalFormState>(() => entryToForm(entry));
+
+  const setField = <K extends keyof JournalFormState>(field: K, value: JournalFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = () => {
+    const now = new Date().toISOString();
+    try {
+      saveEntry({
+        date,
+        preMarketPlan: form.preMarketPlan.trim(),
+        keyLevels: form.keyLevels.trim(),
+        bias: form.bias || undefined,
+        postMarketReview: form.postMarketReview.trim(),
+        lessons: form.lessons.trim(),
+        mood: form.mood,
+        energy: form.energy,
+        createdAt: entry?.createdAt || now,
+        updatedAt: now,
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save journal entry');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!entry || !confirm(`Delete the journal entry for ${date}?`)) return;
+    deleteEntry(date);
+    setForm(entryToForm());
+    showUndoToast(`Journal entry for ${date} deleted`, () => {
+      saveEntry(entry);
+      setForm(entryToForm(entry));
+    });
+  };
+
+  const renderRating = (field: 'mood' | 'energy', label: string) => (
+    <div>
+      <label className="block text-sm font-medium text-foreground mb-2">{label}</label>
+      <div className="flex gap-1">
+        {RATINGS.map(rating => (
+          <button
+            key={rating}
+            type="button"
+            onClick={() => setField(field, form[field] === rating ? undefined : rating)}
+            className={`w-9 h-9 rounded-lg border text-sm font-medium transition-colors ${
+              form[field] === rating
+                ? 'bg-primary text-primary-foreground border-primary'
+                : 'bg-input border-border text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {rating}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>{new Date(`${date}T00:00:00`).toLocaleDateString('default', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</CardTitle>
+            <CardDescription>{entry ? `Last saved ${new Date(entry.updatedAt).toLocaleString()}` : 'No entry yet'}</CardDescription>
+          </div>
+          {entry && (
+            <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete entry" className="text-red-400 hover:text-red-300">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">Pre-Market Plan</label>
+          <textarea value={form.preMarketPlan} onChange={e => setField('preMarketPlan', e.target.value)} rows={4} placeholder="What are you looking for today, and what will you avoid?" className={inputClass} />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Key Levels</label>
+            <textarea value={form.keyLevels} onChange={e => setField('keyLevels', e.target.value)} rows={3} placeholder="e.g., PDH 22450, support 22300" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Bias</label>
+            <select value={form.bias} onChange={e => setField('bias', e.target.value as MarketBias | '')} className={inputClass}>
+              <option value="">Not set</option>
+              {BIASES.map(bias => (
+                <option key={bias} value={bias}>{bias}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">Post-Market Review</label>
+          <textarea value={form.postMarketReview} onChange={e => setField('postMarketReview', e.target.value)} rows={4} placeholder="How did the session play out against the plan?" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">Lessons</label>
+          <textarea value={form.lessons} onChange={e => setField('lessons', e.target.value)} rows={3} className={inputClass} />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {renderRating('mood', 'Mood')}
+          {renderRating('energy', 'Energy')}
+        </div>
+        <Button onClick={handleSave} className="bg-primary hover:bg-primary/90">
+          <Save className="w-4 h-4 mr-2" />
+          Save Entry
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,25 +1,31 @@
 'use client';
 
-import { useTrades } from '@/lib/trade-context';
+import { useTradeQuery } from '@/lib/trade-context';
 import { useSettings } from '@/lib/settings-context';
-import { getAccountStats, getTradeCharges, convertToBaseCurrency, CURRENCY_SYMBOLS } from '@/lib/trade-utils';
+import { useAccounts } from '@/lib/accounts-context';
+import { getAccountStats, getTradeCharges, convertTradeAmount, getCurrencySymbol } from '@/lib/trade-utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TrendingUp, TrendingDown, DollarSign, Target, AlertCircle, Zap } from 'lucide-react';
 import CalendarView from './calendar-view';
 import GitHubSyncButton from './github-sync-button';
+import { OpenPositions } from './open-positions';
 
 
-export default function Dashboard() {
-  const { trades } = useTrades();
+interface DashboardProps {
+  onOpenJournal?: (date: string) => void;
+}
+
+export default function Dashboard({ onOpenJournal }: DashboardProps) {
   const { baseCurrency } = useSettings();
-  const stats = getAccountStats(trades);
-  const baseCurrencySymbol = CURRENCY_SYMBOLS[baseCurrency];
+  const { accountScope } = useAccounts();
+  // Closed trades of the selected accounts; open positions come from the context
+  const { trades } = useTradeQuery({ scope: accountScope });
+  const stats = getAccountStats(trades, 'all', baseCurrency);
+  const baseCurrencySymbol = getCurrencySymbol(baseCurrency);
   
   // Total brokerage paid across all trades
   const totalBrokerage = trades.reduce((sum, t) => {
-    const charges = getTradeCharges(t);
-    const baseCharges = t.currency ? convertToBaseCurrency(charges, t.currency, t.exchangeRate) : charges;
-    return sum + baseCharges;
+    return sum + convertTradeAmount(getTradeCharges(t), t, baseCurrency);
   }, 0);
 
   const StatCard = ({ icon: Icon, title, value, subtitle, isPositive }: any) => (
@@ -71,6 +77,8 @@ export default function Dashboard() {
           )}
         </div>
 
+        <OpenPositions />
+
         {/* Performance Cards */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3 lg:gap-4 w-full">
           <Card className="bg-card border-border">
@@ -151,7 +159,7 @@ export default function Dashboard() {
 
         {/* Calendar View */}
         <div className="w-full border border-border rounded-lg bg-card overflow-hidden">
-          <CalendarView trades={trades} />
+          <CalendarView trades={trades} onDayClick={onOpenJournal} />
         </div>
 
         {/* Getting Started */}
@@ -9,10 +9,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Download, Upload, Trash2, Github, Loader2 } from 'lucide-react';
 import CurrencySettings from '@/components/currency-settings';
+import CurrencyRegistrySettings from '@/components/currency-registry-settings';
+import AccountSettings from '@/components/account-settings';
+import InstrumentSettings from '@/components/instrument-settings';
+import TagSettings from '@/components/tag-settings';
+import CustomFieldSettings from '@/components/custom-field-settings';
+import TradingPlanSettings from '@/components/trading-plan-settings';
+import DatabaseStatus from '@/components/database-status';
 import { fetchTradesFromGithub, parseGithubRepoUrl } from '@/lib/github-service';
 
 export default function DataUtilities() {
-  const { trades, exportJSON, exportCSV, importJSON } = useTrades();
+  const { tradeCount, storagePercentage, queryTrades, exportJSON, exportCSV, importJSON } = useTrades();
   const { ideas, exportJSON: exportIdeasJSON, exportCSV: exportIdeasCSV, importJSON: importIdeasJSON } = useIdeas();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const ideaFileInputRef = useRef<HTMLInputElement>(null);
@@ -52,7 +59,7 @@ export default function DataUtilities() {
   };
 
   const handleExportJSON = () => {
-    if (trades.length === 0) {
+    if (tradeCount === 0) {
       alert('No trades to export');
       return;
     }
@@ -60,7 +67,7 @@ export default function DataUtilities() {
   };
 
   const handleExportCSV = () => {
-    if (trades.length === 0) {
+    if (tradeCount === 0) {
       alert('No trades to export');
       return;
     }
@@ -83,15 +90,15 @@ export default function DataUtilities() {
     exportIdeasCSV();
   };
 
-  const handleExportAllJSON = () => {
-    if (trades.length === 0 && ideas.length === 0) {
+  const handleExportAllJSON = async () => {
+    if (tradeCount === 0 && ideas.length === 0) {
       alert('No data to export');
       return;
     }
 
     try {
       const combinedData = {
-        trades,
+        trades: await queryTrades({ includeOpen: true }),
         ideas,
         exportedAt: new Date().toISOString(),
       };
@@ -167,6 +174,24 @@ export default function DataUtilities() {
       {/* Currency Settings */}
       <CurrencySettings />
 
+      {/* Currency Registry */}
+      <CurrencyRegistrySettings />
+
+      {/* Trading Accounts */}
+      <AccountSettings />
+
+      {/* Instrument Registry */}
+      <InstrumentSettings />
+
+      {/* Tags */}
+      <TagSettings />
+
+      {/* Custom Fields */}
+      <CustomFieldSettings />
+
+      {/* Trading Plan */}
+      <TradingPlanSettings />
+
       {/* Export Section */}
       <Card className="bg-card border-border">
         <CardHeader>
@@ -300,17 +325,15 @@ export default function DataUtilities() {
           <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
             <div>
               <p className="text-xs text-muted-foreground">Total Trades</p>
-              <p className="text-2xl font-bold text-foreground">{trades.length}</p>
+              <p className="text-2xl font-bold text-foreground">{tradeCount}</p>
             </div>
             <div>
               <p className="text-xs text-muted-foreground">Total Ideas</p>
               <p className="text-2xl font-bold text-foreground">{ideas.length}</p>
             </div>
             <div>
-              <p className="text-xs text-muted-foreground">Data Size</p>
-              <p className="text-2xl font-bold text-foreground">
-                {(new Blob([JSON.stringify({ trades, ideas })]).size / 1024).toFixed(2)} KB
-              </p>
+              <p className="text-xs text-muted-foreground">Storage Used</p>
+              <p className="text-2xl font-bold text-foreground">{storagePercentage.toFixed(2)}%</p>
             </div>
           </div>
 
@@ -320,6 +343,9 @@ export default function DataUtilities() {
         </CardContent>
       </Card>
 
+      {/* Database Schema */}
+      <DatabaseStatus />
+
       {/* Danger Zone */}
       <Card className="bg-card border-border border-red-500/30">
         <CardHeader>
@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  getAppliedMigrations,
+  getMigrationStatus,
+  subscribeToMigrationStatus,
+  AppliedMigration,
+  MigrationStatus,
+  SCHEMA_VERSION,
+} from '@/lib/db-service';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Database, AlertCircle, Loader2 } from 'lucide-react';
+
+/**
+ * Database schema status
+ * Shows the applied schema version, live migration progress and any failure
+ */
+export default function DatabaseStatus() {
+  const [status, setStatus] = useState<MigrationStatus>(getMigrationStatus());
+  const [appliedVersion, setAppliedVersion] = useState<number | null>(null);
+  const [history, setHistory] = useState<AppliedMigration[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => subscribeToMigrationStatus(setStatus), []);
+
+  // Re-read the recorded history whenever an upgrade finishes
+  useEffect(() => {
+    if (status.state === 'running') return;
+    getAppliedMigrations()
+      .then(({ version, history }) => {
+        setAppliedVersion(version);
+        setHistory(history);
+        setLoadError(null);
+      })
+      .catch(err => {
+        console.error('[DatabaseStatus] Failed to load schema info:', err);
+        setLoadError(err instanceof Error ? err.message : 'Failed to open database');
+      });
+  }, [status.state]);
+
+  const progress = status.total > 0 ? Math.round((status.processed / status.total) * 100) : 0;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="w-5 h-5" />
+          Database Schema
+        </CardTitle>
+        <CardDescription>Upgrades run once, automatically, when the journal opens</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <p className="text-sm text-foreground">
+            Version <strong>{appliedVersion ?? '—'}</strong> of {SCHEMA_VERSION}
+          </p>
+          {appliedVersion === SCHEMA_VERSION && <Badge variant="outline">Up to date</Badge>}
+        </div>
+
+        {status.state === 'running' && status.currentStep && (
+          <div className="p-3 bg-secondary rounded-lg border border-border space-y-2">
+            <p className="text-sm text-foreground flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Step {status.currentStep.version}: {status.currentStep.description}
+            </p>
+            {status.total > 0 && (
+              <>
+                <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
+                  <div className="h-full bg-primary transition-all" style={{ width: `${progress}%` }} />
+                </div>
+                <p className="text-xs text-muted-foreground">{status.processed} / {status.total} records</p>
+              </>
+            )}
+          </div>
+        )}
+
+        {(status.state === 'failed' || loadError) && (
+          <div className="p-3 bg-red-500/10 rounded-lg border border-red-500/30 flex gap-2">
+            <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-sm text-red-400">{status.error || loadError}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Your data was left unchanged. Reload the page to retry.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Applied migrations</p>
+            {history.map(migration => (
+              <div key={`${migration.version}-${migration.appliedAt}`} className="flex justify-between gap-3 text-xs">
+                <span className="text-foreground">
+                  {migration.version}. {migration.description}
+                  {migration.recordsTransformed > 0 && ` (${migration.recordsTransformed} records)`}
+                </span>
+                <span className="text-muted-foreground flex-shrink-0">{new Date(migration.appliedAt).toLocaleDateString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
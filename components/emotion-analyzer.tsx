@@ -1,12 +1,13 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import { useTrades } from '@/lib/trade-context';
+import { useTradeQuery } from '@/lib/trade-context';
+import { useAccounts } from '@/lib/accounts-context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { CURRENCY_SYMBOLS } from '@/lib/trade-utils';
+import { getCurrencySymbol, getTradeDisplayPnL } from '@/lib/trade-utils';
 import { useSettings } from '@/lib/settings-context';
 import { AlertCircle, TrendingUp, TrendingDown, Zap, Heart, Brain } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -43,21 +44,30 @@ interface PsychologicalPattern {
 }
 
 export default function EmotionAnalyzer() {
-  const { trades } = useTrades();
+  const { accountScope } = useAccounts();
   const { baseCurrency } = useSettings();
   const [emotionMetric, setEmotionMetric] = useState<EmotionMetric>('entry');
   const [timeFilter, setTimeFilter] = useState<'all' | 'month' | 'week'>('all');
 
-  const symbol = CURRENCY_SYMBOLS[baseCurrency];
+  const symbol = getCurrencySymbol(baseCurrency);
 
-  const filteredTrades = useMemo(() => {
-    if (timeFilter === 'all') return trades;
-    
+  const getCutoff = () => {
     const now = new Date();
-    const cutoff = timeFilter === 'week' 
+    return timeFilter === 'week' 
       ? new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
       : new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+  };
+
+  // Closed trades of the selected accounts, read from the first day of the period
+  const { trades, isLoading } = useTradeQuery({
+    scope: accountScope,
+    from: timeFilter === 'all' ? undefined : getCutoff().toISOString().split('T')[0],
+  });
+
+  const filteredTrades = useMemo(() => {
+    if (timeFilter === 'all') return trades;
     
+    const cutoff = getCutoff();
     return trades.filter(t => new Date(t.date) >= cutoff);
   }, [trades, timeFilter]);
 
@@ -93,7 +103,7 @@ export default function EmotionAnalyzer() {
       perf.totalTrades++;
       if (trade.pnl > 0) perf.wins++;
       if (trade.pnl < 0) perf.losses++;
-      perf.totalPnL += trade.pnl;
+      perf.totalPnL += getTradeDisplayPnL(trade, baseCurrency);
       
       // Calculate duration
       const duration = new Date(trade.exitDate || new Date()).getTime() - new Date(trade.date).getTime();
@@ -115,7 +125,7 @@ export default function EmotionAnalyzer() {
           : `${trade.entryEmotion} → ${trade.exitEmotion}`;
         
         if (emotion === perf.emotion) {
-          sumSquareDiff += Math.pow(trade.pnl - perf.avgPnL, 2);
+          sumSquareDiff += Math.pow(getTradeDisplayPnL(trade, baseCurrency) - perf.avgPnL, 2);
         }
       });
       
@@ -123,7 +133,7 @@ export default function EmotionAnalyzer() {
     });
     
     return Array.from(emotions.values()).sort((a, b) => b.totalTrades - a.totalTrades);
-  }, [filteredTrades, emotionMetric]);
+  }, [filteredTrades, emotionMetric, baseCurrency]);
 
   const emotionCorrelations = useMemo(() => {
     if (!filteredTrades.length || emotionMetric !== 'entry') return [];
@@ -157,7 +167,7 @@ export default function EmotionAnalyzer() {
       filteredTrades.forEach(trade => {
         if (trade.entryEmotion === corr.entryEmotion && trade.exitEmotion === corr.exitEmotion) {
           if (trade.pnl > 0) wins++;
-          totalPnL += trade.pnl;
+          totalPnL += getTradeDisplayPnL(trade, baseCurrency);
         }
       });
       
@@ -168,7 +178,7 @@ export default function EmotionAnalyzer() {
     return Array.from(correlations.values())
       .filter(c => c.tradeCount >= 3) // Only show patterns with at least 3 trades
       .sort((a, b) => b.tradeCount - a.tradeCount);
-  }, [filteredTrades, emotionMetric]);
+  }, [filteredTrades, emotionMetric, baseCurrency]);
 
   const psychologicalPatterns = useMemo(() => {
     const patterns: PsychologicalPattern[] = [];
@@ -252,7 +262,7 @@ export default function EmotionAnalyzer() {
     }));
   }, [emotionPerformance]);
 
-  if (!trades || trades.length === 0) {
+  if (timeFilter === 'all' && !isLoading && trades.length === 0) {
     return (
       <div className="p-4 space-y-4">
         <h1 className="text-3xl font-bold">Emotion Psychology Analyzer</h1>
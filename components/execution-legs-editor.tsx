@@ -0,0 +1,162 @@
+'use client';
+
+import { TradeExecutionFormData, ExecutionSide } from '@/lib/types';
+import { hasExecutionLegs, summarizeExecutions, calculateRFactor, parseExecutionRows } from '@/lib/trade-utils';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ExecutionLegsEditorProps {
+  legs: TradeExecutionFormData[];
+  onChange: (legs: TradeExecutionFormData[]) => void;
+  position: 'Buy' | 'Sell';
+  stopLoss: string;
+  // Contract multiplier of the traded instrument
+  pointValue?: number;
+  currencySymbol: string;
+  error?: string;
+}
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const inputClass = 'w-full px-2 py-1.5 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+/**
+ * Leg editor for scaled entries and exits
+ * Shows weighted averages, realized P&L per leg and R against the initial stop
+ */
+export function ExecutionLegsEditor({ legs, onChange, position, stopLoss, pointValue = 1, currencySymbol, error }: ExecutionLegsEditorProps) {
+  const addLeg = (side: ExecutionSide) => {
+    onChange([...legs, { id: generateId(), side, price: '', quantity: '', time: '', fees: '' }]);
+  };
+
+  const updateLeg = (id: string, field: keyof TradeExecutionFormData, value: string) => {
+    onChange(legs.map(leg => (leg.id === id ? { ...leg, [field]: value } : leg)));
+  };
+
+  const removeLeg = (id: string) => {
+    onChange(legs.filter(leg => leg.id !== id));
+  };
+
+  const executions = parseExecutionRows(legs);
+
+  const summary = hasExecutionLegs(executions) ? summarizeExecutions(executions, position, pointValue) : null;
+  const stop = parseFloat(stopLoss);
+  const rMultiple = summary && !isNaN(stop)
+    ? calculateRFactor(summary.realizedPnL, stop, summary.averageEntry, position, summary.entryQuantity, executions, pointValue)
+    : null;
+  const legResults = new Map(summary?.legs.map(result => [result.execution.id, result]) || []);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <label className="block text-sm font-medium text-foreground">Execution Legs (Optional)</label>
+          <p className="text-xs text-muted-foreground">
+            Record each add and partial exit. Legs replace the entry/exit price, quantity, P&L and R fields.
+          </p>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <Button type="button" variant="outline" size="sm" onClick={() => addLeg('entry')}>
+            <Plus className="w-3 h-3 mr-1" />
+            Entry
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => addLeg('exit')}>
+            <Plus className="w-3 h-3 mr-1" />
+            Exit
+          </Button>
+        </div>
+      </div>
+
+      {legs.length > 0 && (
+        <div className="space-y-2">
+          {legs.map(leg => {
+            const result = legResults.get(leg.id);
+            return (
+              <div key={leg.id} className="grid grid-cols-2 sm:grid-cols-7 gap-2 items-center p-2 bg-secondary rounded-lg border border-border">
+                <select
+                  value={leg.side}
+                  onChange={e => updateLeg(leg.id, 'side', e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="entry">Entry</option>
+                  <option value="exit">Exit</option>
+                </select>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={leg.price}
+                  onChange={e => updateLeg(leg.id, 'price', e.target.value)}
+                  placeholder="Price"
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={leg.quantity}
+                  onChange={e => updateLeg(leg.id, 'quantity', e.target.value)}
+                  placeholder="Qty"
+                  className={inputClass}
+                />
+                <input
+                  type="time"
+                  value={leg.time}
+                  onChange={e => updateLeg(leg.id, 'time', e.target.value)}
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={leg.fees}
+                  onChange={e => updateLeg(leg.id, 'fees', e.target.value)}
+                  placeholder="Fees"
+                  className={inputClass}
+                />
+                <span className={`text-sm font-medium text-right ${result && result.realizedPnL < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                  {result ? `${currencySymbol}${result.realizedPnL.toFixed(2)}` : '—'}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeLeg(leg.id)}
+                  className="justify-self-end text-red-400 hover:text-red-300 transition-colors p-1"
+                  title="Remove leg"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {summary && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-3 bg-secondary rounded-lg border border-border text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">Avg Entry</p>
+            <p className="font-semibold text-foreground">{summary.averageEntry.toFixed(2)} × {summary.entryQuantity}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Avg Exit</p>
+            <p className="font-semibold text-foreground">{summary.averageExit.toFixed(2)} × {summary.exitQuantity}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Realized P&L</p>
+            <p className={`font-semibold ${summary.realizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {currencySymbol}{summary.realizedPnL.toFixed(2)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">R (initial stop)</p>
+            <p className="font-semibold text-blue-400">{rMultiple !== null ? `${rMultiple.toFixed(2)}R` : '—'}</p>
+          </div>
+          {summary.openQuantity > 0 && (
+            <p className="col-span-2 sm:col-span-4 text-xs text-yellow-400">
+              {summary.openQuantity} still open — only the closed quantity is realized.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
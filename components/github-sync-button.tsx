@@ -6,7 +6,10 @@ import { useToast } from '@/components/ui/use-toast';
 import { Upload, Github, Loader2 } from 'lucide-react';
 import { Trade } from '@/lib/types';
 import { commitToGithub, uploadTradesToGithub } from '@/lib/github-service';
-import { tradeToMarkdown, tradesToCSV, generateMonthlySummary } from '@/lib/trade-markdown-export';
+import { tradeToMarkdown, tradesToCSV, generateMonthlySummary, weeklyReviewToMarkdown } from '@/lib/trade-markdown-export';
+import { useWeeklyReviews } from '@/lib/weekly-review-context';
+import { getScreenshot } from '@/lib/screenshot-service';
+import { getExportImage } from '@/lib/screenshot-annotations';
 import {
   Dialog,
   DialogContent,
@@ -28,6 +31,7 @@ export default function GitHubSyncButton({ trades }: GitHubSyncButtonProps) {
   const [token, setToken] = useState('');
   const [branch, setBranch] = useState('main');
   const { toast } = useToast();
+  const { reviews } = useWeeklyReviews();
 
   const handleSync = async () => {
     if (!owner || !repo || !token) {
@@ -97,9 +101,29 @@ export default function GitHubSyncButton({ trades }: GitHubSyncButtonProps) {
       // Upload individual trades
       let successCount = 0;
       for (const trade of trades) {
-        const markdown = tradeToMarkdown(trade);
         const [year, month, day] = trade.date.split('-');
-        const tradeFilePath = `trades/${year}/${month}/${day}/${trade.id}.md`;
+        const tradeFolder = `trades/${year}/${month}/${day}`;
+        const tradeFilePath = `${tradeFolder}/${trade.id}.md`;
+
+        // Upload images from the blob store next to the note and link them relatively
+        const screenshotPaths: Record<string, string> = {};
+        for (const screenshot of trade.screenshots || []) {
+          const record = await getScreenshot(screenshot.id);
+          if (!record) continue;
+          // Chart markup is baked into the exported image
+          const image = await getExportImage(record);
+          const relativePath = `screenshots/${screenshot.id}.${image.extension}`;
+          const imageResult = await commitToGithub(
+            `${tradeFolder}/${relativePath}`,
+            image.blob,
+            `Add screenshot for trade: ${trade.id}`,
+            { owner, repo, token, branch }
+          );
+          if (imageResult.success) {
+            screenshotPaths[screenshot.id] = relativePath;
+          }
+        }
+        const markdown = tradeToMarkdown(trade, screenshotPaths);
 
         const result = await commitToGithub(
           tradeFilePath,
@@ -113,9 +137,24 @@ export default function GitHubSyncButton({ trades }: GitHubSyncButtonProps) {
         }
       }
 
+      // Upload weekly reviews
+      let reviewCount = 0;
+      for (const review of reviews) {
+        const result = await commitToGithub(
+          `trades/reviews/${review.week}.md`,
+          weeklyReviewToMarkdown(review),
+          `Add weekly review: ${review.week}`,
+          { owner, repo, token, branch }
+        );
+
+        if (result.success) {
+          reviewCount++;
+        }
+      }
+
       toast({
         title: 'Sync Successful',
-        description: `Successfully synced ${successCount} trades to GitHub!`,
+        description: `Successfully synced ${successCount} trades${reviewCount > 0 ? ` and ${reviewCount} weekly reviews` : ''} to GitHub!`,
       });
 
       setIsOpen(false);
@@ -232,6 +271,7 @@ export default function GitHubSyncButton({ trades }: GitHubSyncButtonProps) {
                 <li>Complete CSV with all trades (all_trades.csv)</li>
                 <li>Individual trade files ({trades.length} markdown files)</li>
                 <li>Monthly summary report</li>
+                {reviews.length > 0 && <li>Weekly reviews ({reviews.length} markdown files)</li>}
               </ul>
             </div>
           </div>
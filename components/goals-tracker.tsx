@@ -12,6 +12,7 @@ import { Progress } from '@/components/ui/progress';
 import { Textarea } from '@/components/ui/textarea';
 import { TradingGoal, GoalType } from '@/lib/types';
 import { Trash2, Plus, Edit } from 'lucide-react';
+import { showUndoToast } from '@/lib/undo-toast';
 
 // Simple ID generator
 const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -25,7 +26,7 @@ const GOAL_TYPES: { value: GoalType; label: string; defaultUnit: string }[] = [
 ];
 
 export default function GoalsTracker() {
-  const { goals, addGoal, deleteGoal, updateGoal, updateGoalProgress, markGoalComplete, getProgressPercentage } = useGoals();
+  const { goals, addGoal, deleteGoal, restoreGoal, updateGoal, updateGoalProgress, markGoalComplete, getProgressPercentage } = useGoals();
   const [open, setOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [formData, setFormData] = useState<Partial<TradingGoal>>({});
@@ -46,6 +47,11 @@ export default function GoalsTracker() {
     setOpen(true);
   };
 
+  const handleDelete = (goal: TradingGoal) => {
+    deleteGoal(goal.id);
+    showUndoToast(`"${goal.title}" moved to trash`, () => restoreGoal(goal.id));
+  };
+
   const handleSave = () => {
     if (!formData.title || !formData.description || formData.targetValue === undefined) {
       alert('Please fill all required fields');
@@ -125,7 +131,7 @@ export default function GoalsTracker() {
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => deleteGoal(goal.id)}
+                        onClick={() => handleDelete(goal)}
                       >
                         <Trash2 className="w-4 h-4 text-destructive" />
                       </Button>
@@ -197,7 +203,7 @@ export default function GoalsTracker() {
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => deleteGoal(goal.id)}
+                      onClick={() => handleDelete(goal)}
                     >
                       <Trash2 className="w-4 h-4 text-destructive" />
                     </Button>
@@ -3,9 +3,11 @@
 import React, { useState } from 'react';
 import { useIdeas } from '@/lib/ideas-context';
 import { TradeIdea, IdeaStatus } from '@/lib/types';
+import { normalizeTags } from '@/lib/tag-utils';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ScreenshotViewer } from '@/components/screenshot-viewer';
+import { TagInput } from '@/components/tag-input';
 import { Upload, X } from 'lucide-react';
 
 interface IdeaFormProps {
@@ -32,7 +34,7 @@ export default function IdeaForm({ onSuccess, editIdea }: IdeaFormProps) {
     backtestResults: editIdea?.backtestResults || '',
     backtestWinRate: editIdea?.backtestWinRate?.toString() || '',
     backtestSampleSize: editIdea?.backtestSampleSize?.toString() || '',
-    tags: editIdea?.tags?.join(', ') || '',
+    tags: editIdea?.tags || [] as string[],
   });
 
   const [screenshot, setScreenshot] = useState<string | null>(editIdea?.screenshot || null);
@@ -121,7 +123,7 @@ export default function IdeaForm({ onSuccess, editIdea }: IdeaFormProps) {
         backtestResults: formData.backtestResults.trim() || undefined,
         backtestWinRate: formData.backtestWinRate ? parseFloat(formData.backtestWinRate) : undefined,
         backtestSampleSize: formData.backtestSampleSize ? parseInt(formData.backtestSampleSize) : undefined,
-        tags: formData.tags ? formData.tags.split(',').map(t => t.trim()).filter(Boolean) : undefined,
+        tags: formData.tags.length > 0 ? normalizeTags(formData.tags) : undefined,
       };
 
       if (isEditing) {
@@ -134,7 +136,7 @@ export default function IdeaForm({ onSuccess, editIdea }: IdeaFormProps) {
         setFormData({
           name: '', symbol: '', setup: '', reasoning: '', entryLogic: '', exitLogic: '',
           stopLossLogic: '', timeFrame: '', status: 'idea', outcome: '', notes: '',
-          backtestResults: '', backtestWinRate: '', backtestSampleSize: '', tags: '',
+          backtestResults: '', backtestWinRate: '', backtestSampleSize: '', tags: [],
         });
         setScreenshot(null);
       }
@@ -365,14 +367,11 @@ export default function IdeaForm({ onSuccess, editIdea }: IdeaFormProps) {
 
             {/* Tags */}
             <div>
-              <label className="block text-sm font-medium text-foreground mb-2">Tags (comma separated)</label>
-              <input
-                type="text"
-                name="tags"
+              <label className="block text-sm font-medium text-foreground mb-2">Tags</label>
+              <TagInput
                 value={formData.tags}
-                onChange={handleInputChange}
-                placeholder="e.g., breakout, momentum, mean-reversion"
-                className={inputClass('tags')}
+                onChange={tags => setFormData(prev => ({ ...prev, tags }))}
+                placeholder="e.g., pattern/breakout, momentum"
               />
             </div>
 
@@ -1,7 +1,10 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useIdeas } from '@/lib/ideas-context';
+import { useTradeQuery } from '@/lib/trade-context';
+import { useSettings } from '@/lib/settings-context';
+import { analyzeIdeaPerformance, getIdeaTrades, IdeaPerformance } from '@/lib/analytics-engine';
 import { TradeIdea, IdeaStatus } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -17,9 +20,12 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { Lightbulb, Search, Filter, Pencil, Trash2, ChevronDown, ChevronUp, FlaskConical, CheckCircle2, XCircle, Archive } from 'lucide-react';
+import { Lightbulb, Search, Filter, Pencil, Trash2, ChevronDown, ChevronUp, FlaskConical, CheckCircle2, XCircle, Archive, PlusCircle } from 'lucide-react';
 import { ScreenshotViewer } from '@/components/screenshot-viewer';
+import { TagList } from '@/components/tag-input';
 import IdeaForm from './idea-form';
+import { BacktestLog } from './backtest-log';
+import { showUndoToast } from '@/lib/undo-toast';
 
 const STATUS_CONFIG: Record<IdeaStatus, { label: string; color: string; icon: typeof Lightbulb }> = {
   idea: { label: 'Idea', color: 'bg-blue-500/10 text-blue-400 border-blue-500/30', icon: Lightbulb },
@@ -36,13 +42,43 @@ const OUTCOME_COLORS = {
   pending: 'bg-muted text-muted-foreground border-border',
 };
 
-export default function IdeasList() {
-  const { ideas, deleteIdea } = useIdeas();
+// Live trades listed under an expanded idea
+const IDEA_TRADE_LIMIT = 10;
+
+interface IdeasListProps {
+  // Open the trade form pre-filled from an idea
+  onTakeTrade?: (idea: TradeIdea) => void;
+}
+
+export default function IdeasList({ onTakeTrade }: IdeasListProps) {
+  const { ideas, deleteIdea, restoreIdea, updateIdea } = useIdeas();
+  // Closed trades, for the live results of each idea
+  const { trades: closedTrades } = useTradeQuery({});
+  const { ideaSampleSize, setIdeaSampleSize } = useSettings();
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<IdeaStatus | 'all'>('all');
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [editingIdea, setEditingIdea] = useState<TradeIdea | null>(null);
 
+  const performance = useMemo(
+    () => new Map<string, IdeaPerformance>(ideas.map(idea => [idea.id, analyzeIdeaPerformance(closedTrades, idea.id, ideaSampleSize)])),
+    [ideas, closedTrades, ideaSampleSize]
+  );
+
+  /**
+   * Accept the status suggested by the idea's live results
+   */
+  const applySuggestedStatus = (idea: TradeIdea, status: IdeaStatus) => {
+    const previous = idea;
+    updateIdea(idea.id, { ...idea, status, updatedAt: new Date().toISOString() });
+    showUndoToast(`"${idea.name}" marked ${STATUS_CONFIG[status].label.toLowerCase()}`, () => updateIdea(previous.id, previous));
+  };
+
+  const handleDelete = (idea: TradeIdea) => {
+    deleteIdea(idea.id);
+    showUndoToast(`"${idea.name}" moved to trash`, () => restoreIdea(idea.id));
+  };
+
   if (editingIdea) {
     return (
       <IdeaForm
@@ -74,8 +110,22 @@ export default function IdeasList() {
         <div className="mb-6 sm:mb-8">
           <h2 className="text-2xl sm:text-3xl font-bold text-foreground mb-2">Trade Ideas & Backtesting</h2>
           <p className="text-sm sm:text-base text-muted-foreground">
-            Log trade ideas and backtesting results. These are independent of your live trades and do not affect P&L.
+            Log trade ideas and backtesting results. Trades linked to an idea show up as its live results.
           </p>
+          <label className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground mt-3">
+            Suggest validated/invalidated after
+            <input
+              type="number"
+              min={1}
+              value={ideaSampleSize}
+              onChange={e => {
+                const size = parseInt(e.target.value);
+                if (size > 0) setIdeaSampleSize(size);
+              }}
+              className="w-20 px-2 py-1 bg-input border border-border rounded-lg text-foreground text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            live trades
+          </label>
         </div>
 
         {/* Status Summary */}
@@ -136,6 +186,10 @@ export default function IdeasList() {
               const config = STATUS_CONFIG[idea.status];
               const StatusIcon = config.icon;
               const isExpanded = expandedId === idea.id;
+              const live = performance.get(idea.id);
+              const suggestion = live?.suggestedStatus && live.suggestedStatus !== idea.status && idea.status !== 'archived'
+                ? live.suggestedStatus
+                : undefined;
 
               return (
                 <Card key={idea.id} className="bg-card border-border">
@@ -164,9 +218,40 @@ export default function IdeasList() {
                           <span className="text-xs text-muted-foreground">
                             {new Date(idea.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
                           </span>
+                          {live && live.totalTrades > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                              {live.totalTrades} live · {live.winRate.toFixed(0)}% win ·{' '}
+                              <span className={live.expectancyR >= 0 ? 'text-green-500' : 'text-red-500'}>{live.expectancyR.toFixed(2)}R</span>
+                            </span>
+                          )}
                         </div>
+                        {suggestion && (
+                          <div className="flex items-center gap-2 mt-2 text-xs">
+                            <span className="text-muted-foreground">
+                              Live results suggest <span className="font-semibold text-foreground">{STATUS_CONFIG[suggestion].label}</span>
+                            </span>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={(e) => { e.stopPropagation(); applySuggestedStatus(idea, suggestion); }}
+                            >
+                              Apply
+                            </Button>
+                          </div>
+                        )}
                       </div>
                       <div className="flex items-center gap-1 flex-shrink-0">
+                        {onTakeTrade && idea.status !== 'archived' && idea.status !== 'invalidated' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => { e.stopPropagation(); onTakeTrade(idea); }}
+                            title="Take this trade"
+                          >
+                            <PlusCircle className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -196,7 +281,7 @@ export default function IdeasList() {
                             </AlertDialogHeader>
                             <AlertDialogFooter>
                               <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction onClick={() => deleteIdea(idea.id)}>Delete</AlertDialogAction>
+                              <AlertDialogAction onClick={() => handleDelete(idea)}>Delete</AlertDialogAction>
                             </AlertDialogFooter>
                           </AlertDialogContent>
                         </AlertDialog>
@@ -264,6 +349,43 @@ export default function IdeasList() {
                           </div>
                         )}
 
+                        {/* Structured backtest trades */}
+                        <BacktestLog idea={idea} />
+
+                        {/* Live trades linked to the idea */}
+                        {live && live.totalTrades > 0 && (
+                          <div className="p-3 bg-secondary rounded-lg border border-border">
+                            <p className="text-xs font-semibold text-muted-foreground mb-2">
+                              Live Results ({live.totalTrades}/{ideaSampleSize} trades for a suggestion)
+                            </p>
+                            <div className="flex gap-4 flex-wrap mb-2">
+                              <div>
+                                <p className="text-xs text-muted-foreground">Win Rate</p>
+                                <p className="text-sm font-bold text-foreground">{live.winRate.toFixed(1)}%</p>
+                              </div>
+                              <div>
+                                <p className="text-xs text-muted-foreground">Expectancy</p>
+                                <p className={`text-sm font-bold ${live.expectancyR >= 0 ? 'text-green-500' : 'text-red-500'}`}>{live.expectancyR.toFixed(2)}R</p>
+                              </div>
+                              <div>
+                                <p className="text-xs text-muted-foreground">Total R</p>
+                                <p className={`text-sm font-bold ${live.totalR >= 0 ? 'text-green-500' : 'text-red-500'}`}>{live.totalR.toFixed(2)}R</p>
+                              </div>
+                            </div>
+                            <div className="space-y-1">
+                              {getIdeaTrades(closedTrades, idea.id)
+                                .sort((a, b) => b.date.localeCompare(a.date))
+                                .slice(0, IDEA_TRADE_LIMIT)
+                                .map(trade => (
+                                  <div key={trade.id} className="flex justify-between text-xs">
+                                    <span className="text-foreground">{trade.date} · {trade.symbol} · {trade.position}</span>
+                                    <span className={trade.rFactor >= 0 ? 'text-green-500' : 'text-red-500'}>{trade.rFactor.toFixed(2)}R</span>
+                                  </div>
+                                ))}
+                            </div>
+                          </div>
+                        )}
+
                         {/* Notes */}
                         {idea.notes && (
                           <div>
@@ -273,13 +395,7 @@ export default function IdeasList() {
                         )}
 
                         {/* Tags */}
-                        {idea.tags && idea.tags.length > 0 && (
-                          <div className="flex gap-1.5 flex-wrap">
-                            {idea.tags.map((tag, idx) => (
-                              <Badge key={idx} variant="outline" className="text-xs">{tag}</Badge>
-                            ))}
-                          </div>
-                        )}
+                        <TagList tags={idea.tags} />
 
                         {/* Screenshot */}
                         {idea.screenshot && (
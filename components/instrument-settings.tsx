@@ -0,0 +1,205 @@
+'use client';
+
+import { useState } from 'react';
+import { useSettings } from '@/lib/settings-context';
+import { useInstruments } from '@/lib/instruments-context';
+import { ASSET_CLASSES } from '@/lib/instrument-registry';
+import { getCurrencySymbol } from '@/lib/trade-utils';
+import { AssetClass, Currency, Instrument } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2, Pencil, Layers } from 'lucide-react';
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+interface InstrumentFormState {
+  symbol: string;
+  name: string;
+  assetClass: AssetClass;
+  exchange: string;
+  currency: Currency;
+  lotSize: string;
+  tickSize: string;
+  pointValue: string;
+  aliases: string;
+}
+
+const EMPTY_FORM: InstrumentFormState = {
+  symbol: '',
+  name: '',
+  assetClass: 'equity',
+  exchange: '',
+  currency: 'INR',
+  lotSize: '1',
+  tickSize: '0.01',
+  pointValue: '1',
+  aliases: '',
+};
+
+export default function InstrumentSettings() {
+  const { instruments, addInstrument, updateInstrument, deleteInstrument } = useInstruments();
+  const { currencies } = useSettings();
+  const [form, setForm] = useState<InstrumentFormState>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const setField = <K extends keyof InstrumentFormState>(field: K, value: InstrumentFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const startEdit = (instrument: Instrument) => {
+    setEditingId(instrument.id);
+    setForm({
+      symbol: instrument.symbol,
+      name: instrument.name || '',
+      assetClass: instrument.assetClass,
+      exchange: instrument.exchange,
+      currency: instrument.currency,
+      lotSize: String(instrument.lotSize),
+      tickSize: String(instrument.tickSize),
+      pointValue: String(instrument.pointValue),
+      aliases: instrument.aliases.join(', '),
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = () => {
+    const symbol = form.symbol.trim().toUpperCase();
+    if (!symbol) {
+      alert('Please enter a symbol');
+      return;
+    }
+    const lotSize = parseFloat(form.lotSize);
+    const tickSize = parseFloat(form.tickSize);
+    const pointValue = parseFloat(form.pointValue);
+    if (!(lotSize > 0) || !(tickSize > 0) || !(pointValue > 0)) {
+      alert('Lot size, tick size and point value must be positive numbers');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const existing = editingId ? instruments.find(i => i.id === editingId) : undefined;
+    const instrument: Instrument = {
+      id: existing?.id || generateId(),
+      symbol,
+      name: form.name.trim() || undefined,
+      assetClass: form.assetClass,
+      exchange: form.exchange.trim(),
+      currency: form.currency,
+      lotSize,
+      tickSize,
+      pointValue,
+      aliases: form.aliases.split(',').map(a => a.trim().toUpperCase()).filter(a => a && a !== symbol),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    try {
+      if (existing) {
+        updateInstrument(existing.id, instrument);
+      } else {
+        addInstrument(instrument);
+      }
+      cancelEdit();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save instrument');
+    }
+  };
+
+  const handleDelete = (instrument: Instrument) => {
+    if (window.confirm(`Delete ${instrument.symbol}? Existing trades keep their P&L; new ones fall back to a point value of 1.`)) {
+      deleteInstrument(instrument.id);
+      if (editingId === instrument.id) cancelEdit();
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <Layers className="w-5 h-5 text-primary" />
+          Instruments
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Contract specs used for P&L and R. Point value is the money made per 1.0 price move per unit of quantity you log.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        {instruments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No instruments yet. P&L uses price difference × quantity.</p>
+        ) : (
+          <div className="space-y-2">
+            {instruments.map(instrument => (
+              <div key={instrument.id} className="flex items-center justify-between gap-3 p-3 bg-secondary rounded-lg border border-border">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-semibold text-foreground truncate">{instrument.symbol}</p>
+                    <Badge variant="outline" className="capitalize">{instrument.assetClass}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {instrument.exchange || 'No exchange'} · {instrument.currency} · Lot {instrument.lotSize} · Tick {instrument.tickSize} · {getCurrencySymbol(instrument.currency)}{instrument.pointValue}/pt
+                  </p>
+                  {instrument.aliases.length > 0 && (
+                    <p className="text-xs text-muted-foreground truncate">Aliases: {instrument.aliases.join(', ')}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button onClick={() => startEdit(instrument)} className="text-primary hover:text-primary/80 transition-colors p-1" title="Edit instrument">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(instrument)} className="text-red-400 hover:text-red-300 transition-colors p-1" title="Delete instrument">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 border-t border-border pt-4">
+          <input type="text" value={form.symbol} onChange={e => setField('symbol', e.target.value)} placeholder="Symbol (e.g., BANKNIFTY)" className={inputClass} />
+          <input type="text" value={form.name} onChange={e => setField('name', e.target.value)} placeholder="Name (optional)" className={inputClass} />
+          <select value={form.assetClass} onChange={e => setField('assetClass', e.target.value as AssetClass)} className={`${inputClass} capitalize`}>
+            {ASSET_CLASSES.map(c => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+          <input type="text" value={form.exchange} onChange={e => setField('exchange', e.target.value)} placeholder="Exchange (e.g., NSE)" className={inputClass} />
+          <select value={form.currency} onChange={e => setField('currency', e.target.value as Currency)} className={inputClass}>
+            {currencies.map(c => (
+              <option key={c.code} value={c.code}>{c.code} ({c.symbol})</option>
+            ))}
+          </select>
+          <input type="text" value={form.aliases} onChange={e => setField('aliases', e.target.value)} placeholder="Aliases, comma separated" className={inputClass} />
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Lot size</label>
+            <input type="number" step="any" value={form.lotSize} onChange={e => setField('lotSize', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Tick size</label>
+            <input type="number" step="any" value={form.tickSize} onChange={e => setField('tickSize', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Point value</label>
+            <input type="number" step="any" value={form.pointValue} onChange={e => setField('pointValue', e.target.value)} className={inputClass} />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleSave} className="bg-primary hover:bg-primary/90">
+            <Plus className="w-4 h-4 mr-2" />
+            {editingId ? 'Save Instrument' : 'Add Instrument'}
+          </Button>
+          {editingId && (
+            <Button variant="outline" onClick={cancelEdit}>Cancel</Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
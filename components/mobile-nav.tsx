@@ -1,13 +1,13 @@
 'use client';
 
 import React from 'react';
-import { BarChart3, PlusCircle, Table, LineChart, Settings, Calendar, TrendingUp, Lightbulb, Palette, Target, Search, FileText, Brain } from 'lucide-react';
+import { BarChart3, PlusCircle, Table, LineChart, Settings, Calendar, TrendingUp, Lightbulb, Palette, Target, Search, FileText, Brain, NotebookPen } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { ThemeToggle } from '@/components/theme-toggle';
 
 interface MobileNavProps {
   currentPage: string;
-  onPageChange: (page: 'dashboard' | 'add-trade' | 'log' | 'analytics' | 'profit-loss' | 'weekly-review' | 'data-utilities' | 'ideas' | 'add-idea' | 'advanced-analytics' | 'goals' | 'search' | 'reports' | 'emotion-analyzer') => void;
+  onPageChange: (page: 'dashboard' | 'add-trade' | 'log' | 'analytics' | 'profit-loss' | 'weekly-review' | 'data-utilities' | 'ideas' | 'add-idea' | 'advanced-analytics' | 'goals' | 'search' | 'reports' | 'emotion-analyzer' | 'trash' | 'playbook' | 'journal') => void;
 }
 
 export default function MobileNav({ currentPage, onPageChange }: MobileNavProps) {
@@ -15,6 +15,7 @@ export default function MobileNav({ currentPage, onPageChange }: MobileNavProps)
     { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
     { id: 'add-trade', label: 'Add', icon: PlusCircle },
     { id: 'log', label: 'Log', icon: Table },
+    { id: 'journal', label: 'Journal', icon: NotebookPen },
     { id: 'analytics', label: 'Analytics', icon: LineChart },
     { id: 'emotion-analyzer', label: 'Emotions', icon: Brain },
     { id: 'reports', label: 'Reports', icon: FileText },
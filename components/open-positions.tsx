@@ -0,0 +1,234 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useTrades } from '@/lib/trade-context';
+import { useAccounts } from '@/lib/accounts-context';
+import { Trade } from '@/lib/types';
+import { filterTradesByAccount, getTradeStatus, valueOpenPosition, closeTrade, formatCurrency } from '@/lib/trade-utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Briefcase } from 'lucide-react';
+
+interface CloseForm {
+  exitPrice: string;
+  exitDate: string;
+  exitTime: string;
+  exitFees: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Open and planned trades with manual mark-to-market
+ * Marks are saved on the trade; closing fills the exit fields and realizes P&L and R
+ */
+export function OpenPositions() {
+  const { openTrades, updateTrade } = useTrades();
+  const { accountScope } = useAccounts();
+  const [marks, setMarks] = useState<Record<string, string>>({});
+  const [closing, setClosing] = useState<Trade | null>(null);
+  const [closeForm, setCloseForm] = useState<CloseForm>({ exitPrice: '', exitDate: today(), exitTime: '', exitFees: '0' });
+  const [closeError, setCloseError] = useState<string | null>(null);
+
+  const positions = useMemo(
+    () => filterTradesByAccount(openTrades, accountScope)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    [openTrades, accountScope]
+  );
+
+  if (positions.length === 0) return null;
+
+  const saveMark = (trade: Trade) => {
+    const price = parseFloat(marks[trade.id]);
+    if (isNaN(price)) return;
+    updateTrade(trade.id, { ...trade, markPrice: price, markedAt: new Date().toISOString() });
+    setMarks(prev => {
+      const { [trade.id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const openPosition = (trade: Trade) => {
+    updateTrade(trade.id, { ...trade, status: 'open' });
+  };
+
+  const startClose = (trade: Trade) => {
+    setClosing(trade);
+    setCloseError(null);
+    setCloseForm({
+      exitPrice: trade.markPrice !== undefined ? String(trade.markPrice) : '',
+      exitDate: today(),
+      exitTime: '',
+      exitFees: '0',
+    });
+  };
+
+  const handleClose = () => {
+    if (!closing) return;
+    const exitPrice = parseFloat(closeForm.exitPrice);
+    const exitFees = parseFloat(closeForm.exitFees || '0');
+    if (isNaN(exitPrice)) {
+      setCloseError('Exit price is required');
+      return;
+    }
+    if (isNaN(exitFees)) {
+      setCloseError('Exit charges must be a valid number');
+      return;
+    }
+    if (!closeForm.exitDate || closeForm.exitDate < closing.date) {
+      setCloseError('Exit date cannot be before the entry date');
+      return;
+    }
+    updateTrade(closing.id, closeTrade(closing, {
+      exitPrice,
+      exitDate: closeForm.exitDate,
+      exitTime: closeForm.exitTime || undefined,
+      exitFees,
+    }));
+    setClosing(null);
+  };
+
+  return (
+    <Card className="bg-card border-border w-full">
+      <CardHeader className="p-3 sm:p-4 lg:p-6">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg lg:text-xl">
+          <Briefcase className="w-4 sm:w-5 h-4 sm:h-5 text-primary flex-shrink-0" />
+          <span>Open Positions</span>
+          <Badge variant="secondary">{positions.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-3 sm:p-4 lg:p-6 pt-0 space-y-3">
+        {positions.map(trade => {
+          const status = getTradeStatus(trade);
+          const valuation = trade.markPrice !== undefined ? valueOpenPosition(trade, trade.markPrice) : null;
+          const currency = trade.currency || 'INR';
+          return (
+            <div key={trade.id} className="p-3 rounded-lg border border-border bg-secondary/30 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-foreground">{trade.symbol}</span>
+                <Badge variant="outline">{trade.position}</Badge>
+                <Badge variant="outline" className={status === 'open' ? 'text-blue-400 border-blue-500/30' : 'text-yellow-400 border-yellow-500/30'}>
+                  {status === 'open' ? 'Open' : 'Planned'}
+                </Badge>
+                <span className="text-xs text-muted-foreground">{trade.date} · {trade.setupName}</span>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs sm:text-sm">
+                <div>
+                  <p className="text-muted-foreground">Entry</p>
+                  <p className="font-medium text-foreground">{trade.entryPrice ?? '—'}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Stop</p>
+                  <p className="font-medium text-foreground">{trade.stopLoss}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Qty</p>
+                  <p className="font-medium text-foreground">{valuation ? valuation.openQuantity : trade.quantity}</p>
+                </div>
+                {valuation && (
+                  <div>
+                    <p className="text-muted-foreground">Unrealized</p>
+                    <p className={`font-medium ${valuation.unrealizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatCurrency(valuation.unrealizedPnL, currency)} ({valuation.unrealizedR.toFixed(2)}R)
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {status === 'open' ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    type="number"
+                    step="any"
+                    value={marks[trade.id] ?? ''}
+                    onChange={e => setMarks(prev => ({ ...prev, [trade.id]: e.target.value }))}
+                    placeholder={trade.markPrice !== undefined ? `Mark ${trade.markPrice}` : 'Current price'}
+                    className="w-36"
+                  />
+                  <Button size="sm" variant="outline" onClick={() => saveMark(trade)} disabled={!marks[trade.id]}>
+                    Update Mark
+                  </Button>
+                  <Button size="sm" onClick={() => startClose(trade)}>
+                    Close Position
+                  </Button>
+                  {trade.markedAt && (
+                    <span className="text-xs text-muted-foreground">Marked {new Date(trade.markedAt).toLocaleString()}</span>
+                  )}
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button size="sm" variant="outline" onClick={() => openPosition(trade)} disabled={trade.entryPrice === undefined}>
+                    Mark as Entered
+                  </Button>
+                  {trade.entryPrice === undefined && (
+                    <span className="text-xs text-muted-foreground">Add an entry price to open this trade</span>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={closing !== null} onOpenChange={open => !open && setClosing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Close {closing?.symbol}</DialogTitle>
+            <DialogDescription>Fills the exit and realizes P&L and R for the remaining quantity.</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-1">Exit Price*</label>
+              <Input
+                type="number"
+                step="any"
+                value={closeForm.exitPrice}
+                onChange={e => setCloseForm(prev => ({ ...prev, exitPrice: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-1">Exit Charges</label>
+              <Input
+                type="number"
+                step="0.01"
+                value={closeForm.exitFees}
+                onChange={e => setCloseForm(prev => ({ ...prev, exitFees: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-1">Exit Date*</label>
+              <Input
+                type="date"
+                value={closeForm.exitDate}
+                onChange={e => setCloseForm(prev => ({ ...prev, exitDate: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-1">Exit Time</label>
+              <Input
+                type="time"
+                value={closeForm.exitTime}
+                onChange={e => setCloseForm(prev => ({ ...prev, exitTime: e.target.value }))}
+              />
+            </div>
+          </div>
+          {closeError && <p className="text-xs text-red-500">{closeError}</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setClosing(null)}>Cancel</Button>
+            <Button onClick={handleClose}>Close Position</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
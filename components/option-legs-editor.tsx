@@ -0,0 +1,185 @@
+'use client';
+
+import { OptionLegFormData, OptionPositionFormData, OptionStrategyType } from '@/lib/types';
+import { parseOptionPosition, getOptionRiskProfile, detectOptionStrategy, OPTION_STRATEGY_LABELS } from '@/lib/options-utils';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface OptionLegsEditorProps {
+  value: OptionPositionFormData;
+  onChange: (value: OptionPositionFormData) => void;
+  symbol: string;
+  date: string;
+  // Contract multiplier of the underlying
+  pointValue?: number;
+  currencySymbol: string;
+  error?: string;
+}
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const inputClass = 'w-full px-2 py-1.5 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+/**
+ * Leg editor for option trades
+ * Single options and multi-leg strategies, with combined max risk / max reward at expiry
+ */
+export function OptionLegsEditor({ value, onChange, symbol, date, pointValue = 1, currencySymbol, error }: OptionLegsEditorProps) {
+  const { legs } = value;
+
+  const addLeg = () => {
+    // New legs copy the expiry and quantity of the last one - strategies rarely mix them
+    const last = legs[legs.length - 1];
+    onChange({
+      ...value,
+      legs: [...legs, {
+        id: generateId(),
+        optionType: 'call',
+        side: 'Buy',
+        strike: '',
+        expiry: last?.expiry || '',
+        premium: '',
+        quantity: last?.quantity || '',
+      }],
+    });
+  };
+
+  const updateLeg = (id: string, field: keyof OptionLegFormData, fieldValue: string) => {
+    onChange({ ...value, legs: legs.map(leg => (leg.id === id ? { ...leg, [field]: fieldValue } : leg)) });
+  };
+
+  const removeLeg = (id: string) => {
+    onChange({ ...value, legs: legs.filter(leg => leg.id !== id) });
+  };
+
+  const position = parseOptionPosition(value, symbol);
+  const detected = position ? detectOptionStrategy(position.legs) : null;
+  const profile = position ? getOptionRiskProfile(position.legs, pointValue) : null;
+  const nearestExpiry = position?.legs.map(l => l.expiry).filter(Boolean).sort()[0];
+  const daysToExpiry = nearestExpiry && date
+    ? Math.max(0, Math.round((Date.parse(nearestExpiry) - Date.parse(date)) / (24 * 60 * 60 * 1000)))
+    : null;
+
+  const formatLimit = (amount: number | null) => (amount === null ? 'Unlimited' : `${currencySymbol}${amount.toFixed(2)}`);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <label className="block text-sm font-medium text-foreground">Option Legs (Optional)</label>
+          <p className="text-xs text-muted-foreground">
+            One leg for a single call or put; add legs for spreads, straddles and condors.
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={addLeg} className="flex-shrink-0">
+          <Plus className="w-3 h-3 mr-1" />
+          Leg
+        </Button>
+      </div>
+
+      {legs.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={value.underlying}
+              onChange={e => onChange({ ...value, underlying: e.target.value })}
+              placeholder={`Underlying (default ${symbol || 'symbol'})`}
+              className={inputClass}
+            />
+            <select
+              value={value.strategy}
+              onChange={e => onChange({ ...value, strategy: e.target.value as OptionStrategyType | '' })}
+              className={inputClass}
+            >
+              <option value="">Auto-detect{detected ? ` (${OPTION_STRATEGY_LABELS[detected]})` : ''}</option>
+              {(Object.keys(OPTION_STRATEGY_LABELS) as OptionStrategyType[]).map(type => (
+                <option key={type} value={type}>{OPTION_STRATEGY_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            {legs.map(leg => (
+              <div key={leg.id} className="grid grid-cols-2 sm:grid-cols-7 gap-2 items-center p-2 bg-secondary rounded-lg border border-border">
+                <select value={leg.side} onChange={e => updateLeg(leg.id, 'side', e.target.value)} className={inputClass}>
+                  <option value="Buy">Buy</option>
+                  <option value="Sell">Sell</option>
+                </select>
+                <select value={leg.optionType} onChange={e => updateLeg(leg.id, 'optionType', e.target.value)} className={inputClass}>
+                  <option value="call">Call (CE)</option>
+                  <option value="put">Put (PE)</option>
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  value={leg.strike}
+                  onChange={e => updateLeg(leg.id, 'strike', e.target.value)}
+                  placeholder="Strike"
+                  className={inputClass}
+                />
+                <input
+                  type="date"
+                  value={leg.expiry}
+                  onChange={e => updateLeg(leg.id, 'expiry', e.target.value)}
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={leg.premium}
+                  onChange={e => updateLeg(leg.id, 'premium', e.target.value)}
+                  placeholder="Premium"
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  step="any"
+                  value={leg.quantity}
+                  onChange={e => updateLeg(leg.id, 'quantity', e.target.value)}
+                  placeholder="Qty"
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeLeg(leg.id)}
+                  className="justify-self-end text-red-400 hover:text-red-300 transition-colors p-1"
+                  title="Remove leg"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {position && profile && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-3 bg-secondary rounded-lg border border-border text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">Strategy</p>
+            <p className="font-semibold text-foreground">{OPTION_STRATEGY_LABELS[position.strategy]}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">{profile.netDebit >= 0 ? 'Net Debit' : 'Net Credit'}</p>
+            <p className="font-semibold text-foreground">{currencySymbol}{Math.abs(profile.netDebit).toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Max Risk</p>
+            <p className="font-semibold text-red-400">{formatLimit(profile.maxRisk)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Max Reward</p>
+            <p className="font-semibold text-green-400">{formatLimit(profile.maxReward)}</p>
+          </div>
+          <p className="col-span-2 sm:col-span-4 text-xs text-muted-foreground">
+            Breakeven{profile.breakevens.length === 1 ? '' : 's'}: {profile.breakevens.length > 0 ? profile.breakevens.join(', ') : '—'}
+            {daysToExpiry !== null && ` · ${daysToExpiry} days to expiry`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PageControlsProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+/**
+ * Previous/next controls for lists paged from IndexedDB
+ * `page` is zero-based
+ */
+export function PageControls({ page, pageSize, total, onPageChange }: PageControlsProps) {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  if (total <= pageSize) return null;
+
+  const first = page * pageSize + 1;
+  const last = Math.min(total, (page + 1) * pageSize);
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-xs sm:text-sm text-muted-foreground">
+        {first}–{last} of {total}
+      </span>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page === 0}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span className="text-xs sm:text-sm text-foreground">
+          {page + 1} / {pageCount}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page + 1)} disabled={page >= pageCount - 1}>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
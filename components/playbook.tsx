@@ -0,0 +1,672 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useTrades, useTradeQuery, useTradeAggregate } from '@/lib/trade-context';
+import { useSettings } from '@/lib/settings-context';
+import { usePlaybook } from '@/lib/playbook-context';
+import { MARKET_CONDITIONS, normalizeSetupName, getSetupTrades, getUnlinkedSetupNames } from '@/lib/playbook';
+import { calculateExpectancy, calculateRMultipleStats, calculateSetupQualityScores, analyzeRuleBreaks, analyzeMarketConditionPerformance } from '@/lib/analytics-engine';
+import { getTradeDisplayPnL, formatCurrency } from '@/lib/trade-utils';
+import { PlaybookSetup, MarketCondition, TradeScreenshot, Trade } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Pencil, Trash2, ArrowLeft, BookOpen, Link2 } from 'lucide-react';
+import { ScreenshotManager } from './screenshot-manager';
+import { ScreenshotViewer } from './screenshot-viewer';
+import { showUndoToast } from '@/lib/undo-toast';
+import { parseChecklistItems } from '@/lib/checklist';
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+// Trades listed in a setup's detail view
+const RECENT_TRADE_LIMIT = 10;
+
+interface SetupFormState {
+  name: string;
+  description: string;
+  entryCriteria: string;
+  exitCriteria: string;
+  stopCriteria: string;
+  idealConditions: MarketCondition[];
+  targetR: string;
+  screenshots: TradeScreenshot[];
+  aliases: string;
+  checklist: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: SetupFormState = {
+  name: '',
+  description: '',
+  entryCriteria: '',
+  exitCriteria: '',
+  stopCriteria: '',
+  idealConditions: [],
+  targetR: '',
+  screenshots: [],
+  aliases: '',
+  checklist: '',
+  isActive: true,
+};
+
+const formatCondition = (condition: MarketCondition) => condition.replace(/_/g, ' ');
+
+// Trades logged under a setup name but not linked to a playbook setup
+const collectUnlinkedTrades = (unlinked: Trade[], trade: Trade) => {
+  if (!trade.setupId && trade.setupName) unlinked.push(trade);
+  return unlinked;
+};
+
+export default function Playbook() {
+  const { queryTrades, updateTrades } = useTrades();
+  const { setups, addSetup, updateSetup, deleteSetup } = usePlaybook();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<PlaybookSetup | 'new' | null>(null);
+
+  // Closed trades, for each setup's statistics
+  const { trades: closedTrades } = useTradeQuery({});
+  const selectedSetup = setups.find(s => s.id === selectedId);
+
+  /**
+   * Save a setup; a rename carries over to the setupName of its linked trades
+   */
+  const handleSave = async (setup: PlaybookSetup) => {
+    const previous = setups.find(s => s.id === setup.id);
+    const renamedTrades = previous && previous.name !== setup.name
+      ? (await queryTrades({ includeOpen: true }))
+          .filter(t => t.setupId === setup.id)
+          .map(t => ({ before: t, after: { ...t, setupName: setup.name } }))
+      : [];
+
+    try {
+      if (previous) {
+        updateSetup(setup.id, setup);
+      } else {
+        addSetup(setup);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save setup');
+      return;
+    }
+    setEditing(null);
+    setSelectedId(setup.id);
+
+    if (previous && renamedTrades.length > 0) {
+      try {
+        await updateTrades(renamedTrades.map(c => c.after));
+        showUndoToast(`Renamed ${previous.name} to ${setup.name} on ${renamedTrades.length} trade(s)`, async () => {
+          await updateTrades(renamedTrades.map(c => c.before));
+          updateSetup(previous.id, previous);
+        });
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'Failed to rename linked trades');
+      }
+    }
+  };
+
+  /**
+   * Delete a setup and unlink its trades; they keep their setup name
+   */
+  const handleDelete = async (setup: PlaybookSetup) => {
+    const linked = (await queryTrades({ includeOpen: true })).filter(t => t.setupId === setup.id);
+    if (!window.confirm(`Delete the "${setup.name}" setup? ${linked.length} linked trade(s) keep their setup name but are unlinked.`)) return;
+
+    try {
+      await updateTrades(linked.map(t => ({ ...t, setupId: undefined })));
+      deleteSetup(setup.id);
+      setSelectedId(null);
+      showUndoToast(`Deleted ${setup.name}`, async () => {
+        addSetup(setup);
+        await updateTrades(linked);
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete setup');
+    }
+  };
+
+  if (editing) {
+    return (
+      <PlaybookSetupForm
+        setup={editing === 'new' ? undefined : editing}
+        onSave={handleSave}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
+  if (selectedSetup) {
+    return (
+      <PlaybookSetupDetail
+        setup={selectedSetup}
+        closedTrades={closedTrades}
+        onBack={() => setSelectedId(null)}
+        onEdit={() => setEditing(selectedSetup)}
+        onDelete={() => handleDelete(selectedSetup)}
+      />
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto min-h-screen flex flex-col">
+      <div className="p-4 sm:p-6 lg:p-8 max-w-7xl w-full mx-auto">
+        <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h2 className="text-2xl sm:text-3xl font-bold text-foreground mb-2">Playbook</h2>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              The setups you trade, with their rules and how each one is performing live.
+            </p>
+          </div>
+          <Button onClick={() => setEditing('new')} className="bg-primary hover:bg-primary/90">
+            <Plus className="w-4 h-4 mr-2" />
+            New Setup
+          </Button>
+        </div>
+
+        {setups.length === 0 ? (
+          <Card className="bg-card border-border">
+            <CardContent className="p-8 text-center">
+              <BookOpen className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-sm text-muted-foreground">
+                No setups yet. Add the setups you trade so trades can be linked to them and measured as one.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {setups.map(setup => {
+              const setupTrades = getSetupTrades(closedTrades, setup.id);
+              const expectancy = calculateExpectancy(setupTrades);
+              return (
+                <button
+                  key={setup.id}
+                  onClick={() => setSelectedId(setup.id)}
+                  className={`text-left p-4 rounded-lg border border-border bg-card hover:bg-secondary transition-colors ${setup.isActive ? '' : 'opacity-60'}`}
+                >
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <p className="font-semibold text-foreground truncate">{setup.name}</p>
+                    {!setup.isActive && <Badge variant="outline">Inactive</Badge>}
+                  </div>
+                  {setup.description && (
+                    <p className="text-xs text-muted-foreground line-clamp-2 mb-3">{setup.description}</p>
+                  )}
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div>
+                      <p className="text-xs text-muted-foreground">Trades</p>
+                      <p className="text-sm font-semibold text-foreground">{setupTrades.length}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Win Rate</p>
+                      <p className="text-sm font-semibold text-foreground">{expectancy.winRate.toFixed(0)}%</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Expectancy</p>
+                      <p className={`text-sm font-semibold ${expectancy.expectancyR >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {expectancy.expectancyR.toFixed(2)}R
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PlaybookSetupFormProps {
+  setup?: PlaybookSetup;
+  onSave: (setup: PlaybookSetup) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Add/edit form for a playbook setup
+ */
+export function PlaybookSetupForm({ setup, onSave, onCancel }: PlaybookSetupFormProps) {
+  const [form, setForm] = useState<SetupFormState>(() => setup
+    ? {
+        name: setup.name,
+        description: setup.description,
+        entryCriteria: setup.entryCriteria,
+        exitCriteria: setup.exitCriteria,
+        stopCriteria: setup.stopCriteria,
+        idealConditions: setup.idealConditions,
+        targetR: setup.targetR !== undefined ? String(setup.targetR) : '',
+        screenshots: setup.screenshots || [],
+        aliases: setup.aliases.join(', '),
+        checklist: (setup.checklist || []).map(item => item.text).join('\n'),
+        isActive: setup.isActive,
+      }
+    : EMPTY_FORM);
+
+  const setField = <K extends keyof SetupFormState>(field: K, value: SetupFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleCondition = (condition: MarketCondition) => {
+    setField('idealConditions', form.idealConditions.includes(condition)
+      ? form.idealConditions.filter(c => c !== condition)
+      : [...form.idealConditions, condition]);
+  };
+
+  const handleSubmit = () => {
+    const name = form.name.trim();
+    if (!name) {
+      alert('Please enter a setup name');
+      return;
+    }
+    const targetR = form.targetR ? parseFloat(form.targetR) : undefined;
+    if (targetR !== undefined && !(targetR > 0)) {
+      alert('Target R must be a positive number');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const aliases = Array.from(new Set(form.aliases.split(',').map(a => a.trim()).filter(Boolean)))
+      .filter(a => normalizeSetupName(a) !== normalizeSetupName(name));
+    onSave({
+      id: setup?.id || generateId(),
+      name,
+      description: form.description.trim(),
+      entryCriteria: form.entryCriteria.trim(),
+      exitCriteria: form.exitCriteria.trim(),
+      stopCriteria: form.stopCriteria.trim(),
+      idealConditions: form.idealConditions,
+      targetR,
+      screenshots: form.screenshots.length > 0 ? form.screenshots : undefined,
+      aliases,
+      checklist: form.checklist.trim() ? parseChecklistItems(form.checklist, setup?.checklist) : undefined,
+      isActive: form.isActive,
+      createdAt: setup?.createdAt || now,
+      updatedAt: now,
+    });
+  };
+
+  return (
+    <div className="flex-1 overflow-auto min-h-screen flex flex-col">
+      <div className="p-4 sm:p-6 lg:p-8 max-w-3xl w-full mx-auto">
+        <Card className="bg-card border-border">
+          <CardHeader className="p-4 sm:p-6">
+            <CardTitle className="text-xl sm:text-2xl">{setup ? `Edit ${setup.name}` : 'New Setup'}</CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Trades whose setup name matches the name or an alias are linked to this setup automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Name*</label>
+                <input type="text" value={form.name} onChange={e => setField('name', e.target.value)} placeholder="e.g., 0.382 Fib Retracement" className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Target R</label>
+                <input type="number" step="0.1" value={form.targetR} onChange={e => setField('targetR', e.target.value)} placeholder="e.g., 2" className={inputClass} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Description</label>
+              <textarea value={form.description} onChange={e => setField('description', e.target.value)} rows={2} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Entry Criteria</label>
+              <textarea value={form.entryCriteria} onChange={e => setField('entryCriteria', e.target.value)} rows={3} className={inputClass} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Stop Criteria</label>
+                <textarea value={form.stopCriteria} onChange={e => setField('stopCriteria', e.target.value)} rows={3} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Exit Criteria</label>
+                <textarea value={form.exitCriteria} onChange={e => setField('exitCriteria', e.target.value)} rows={3} className={inputClass} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Ideal Market Conditions</label>
+              <div className="flex flex-wrap gap-3">
+                {MARKET_CONDITIONS.map(condition => (
+                  <label key={condition} className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+                    <input type="checkbox" checked={form.idealConditions.includes(condition)} onChange={() => toggleCondition(condition)} className="w-4 h-4" />
+                    {formatCondition(condition)}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Pre-Trade Checklist</label>
+              <textarea
+                value={form.checklist}
+                onChange={e => setField('checklist', e.target.value)}
+                rows={4}
+                placeholder={'One item per line, e.g.\nTrend aligned on 1h\nRisk ≤ 1%'}
+                className={inputClass}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Confirmed in the trade form before saving; any unchecked item marks the trade as rules broken.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Aliases</label>
+              <input
+                type="text"
+                value={form.aliases}
+                onChange={e => setField('aliases', e.target.value)}
+                placeholder="Other names used for this setup, comma separated (e.g., 0.382 Fib, Fib 38)"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Example Charts</label>
+              <ScreenshotManager screenshots={form.screenshots} onChange={screenshots => setField('screenshots', screenshots)} />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+              <input type="checkbox" checked={form.isActive} onChange={e => setField('isActive', e.target.checked)} className="w-4 h-4" />
+              Active (offered in the trade form)
+            </label>
+            <div className="flex gap-2 pt-2">
+              <Button onClick={handleSubmit} className="bg-primary hover:bg-primary/90">
+                {setup ? 'Save Setup' : 'Add Setup'}
+              </Button>
+              <Button variant="outline" onClick={onCancel}>Cancel</Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+interface PlaybookSetupDetailProps {
+  setup: PlaybookSetup;
+  closedTrades: Trade[];
+  onBack: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+/**
+ * Rules and live statistics of one setup
+ */
+export function PlaybookSetupDetail({ setup, closedTrades, onBack, onEdit, onDelete }: PlaybookSetupDetailProps) {
+  const { baseCurrency } = useSettings();
+
+  const stats = useMemo(() => {
+    const setupTrades = getSetupTrades(closedTrades, setup.id)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const quality = calculateSetupQualityScores(closedTrades.filter(t => t.setupId), baseCurrency).find(s => s.setupName === setup.name);
+    return {
+      trades: setupTrades,
+      expectancy: calculateExpectancy(setupTrades, baseCurrency),
+      rStats: calculateRMultipleStats(setupTrades),
+      ruleBreaks: analyzeRuleBreaks(setupTrades, baseCurrency),
+      conditions: analyzeMarketConditionPerformance(setupTrades, baseCurrency),
+      quality,
+      totalPnL: setupTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0),
+    };
+  }, [closedTrades, setup, baseCurrency]);
+
+  const targetHitRate = setup.targetR && stats.trades.length > 0
+    ? (stats.trades.filter(t => t.rFactor >= setup.targetR!).length / stats.trades.length) * 100
+    : null;
+
+  const metrics = [
+    { label: 'Trades', value: String(stats.trades.length) },
+    { label: 'Win Rate', value: `${stats.expectancy.winRate.toFixed(1)}%` },
+    { label: 'Expectancy', value: `${stats.expectancy.expectancyR.toFixed(2)}R`, tone: stats.expectancy.expectancyR },
+    { label: 'Average R', value: `${stats.rStats.averageR.toFixed(2)}R`, tone: stats.rStats.averageR },
+    { label: 'Total R', value: `${stats.rStats.totalR.toFixed(2)}R`, tone: stats.rStats.totalR },
+    { label: 'Net P&L', value: formatCurrency(stats.totalPnL, baseCurrency), tone: stats.totalPnL },
+    { label: 'Rules Followed', value: `${stats.ruleBreaks.ruleFollowedRate.toFixed(0)}%` },
+    { label: targetHitRate !== null ? `Hit ${setup.targetR}R` : 'Quality Score', value: targetHitRate !== null ? `${targetHitRate.toFixed(0)}%` : stats.quality ? stats.quality.score.toFixed(2) : '—' },
+  ];
+
+  const criteria = [
+    { label: 'Entry', text: setup.entryCriteria },
+    { label: 'Stop', text: setup.stopCriteria },
+    { label: 'Exit', text: setup.exitCriteria },
+  ].filter(c => c.text);
+  const hasRules = criteria.length > 0 || (setup.checklist?.length ?? 0) > 0;
+
+  return (
+    <div className="flex-1 overflow-auto min-h-screen flex flex-col">
+      <div className="p-4 sm:p-6 lg:p-8 max-w-7xl w-full mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <button onClick={onBack} className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-2">
+              <ArrowLeft className="w-4 h-4" />
+              Playbook
+            </button>
+            <div className="flex items-center gap-2 flex-wrap">
+              <h2 className="text-2xl sm:text-3xl font-bold text-foreground">{setup.name}</h2>
+              {!setup.isActive && <Badge variant="outline">Inactive</Badge>}
+              {stats.quality && <Badge variant="secondary">{stats.quality.recommendation}</Badge>}
+            </div>
+            {setup.description && <p className="text-sm text-muted-foreground mt-1">{setup.description}</p>}
+            {setup.aliases.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">Also logged as: {setup.aliases.join(', ')}</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onEdit}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit
+            </Button>
+            <Button variant="outline" onClick={onDelete} className="text-red-500">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {metrics.map(metric => (
+            <Card key={metric.label} className="bg-card border-border">
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">{metric.label}</p>
+                <p className={`text-lg font-bold ${metric.tone === undefined ? 'text-foreground' : metric.tone >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {metric.value}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="bg-card border-border">
+            <CardHeader className="p-4 sm:p-6">
+              <CardTitle className="text-base sm:text-lg">Rules</CardTitle>
+              {setup.targetR && <CardDescription>Target {setup.targetR}R</CardDescription>}
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6 pt-0 space-y-3">
+              {!hasRules && <p className="text-sm text-muted-foreground">No criteria written down yet.</p>}
+              {criteria.map(c => (
+                <div key={c.label}>
+                  <p className="text-xs font-semibold text-muted-foreground uppercase">{c.label}</p>
+                  <p className="text-sm text-foreground whitespace-pre-wrap">{c.text}</p>
+                </div>
+              ))}
+              {setup.checklist && setup.checklist.length > 0 && (
+                <div>
+                  <p className="text-xs font-semibold text-muted-foreground uppercase">Checklist</p>
+                  <ul className="text-sm text-foreground list-disc pl-5">
+                    {setup.checklist.map(item => <li key={item.id}>{item.text}</li>)}
+                  </ul>
+                </div>
+              )}
+              {setup.idealConditions.length > 0 && (
+                <div>
+                  <p className="text-xs font-semibold text-muted-foreground uppercase mb-1">Ideal Conditions</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {setup.idealConditions.map(condition => (
+                      <Badge key={condition} variant="outline">{formatCondition(condition)}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-card border-border">
+            <CardHeader className="p-4 sm:p-6">
+              <CardTitle className="text-base sm:text-lg">By Market Condition</CardTitle>
+              <CardDescription>Live results of this setup in each condition</CardDescription>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6 pt-0">
+              {stats.conditions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No trades with a market condition recorded.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-muted-foreground text-xs">
+                      <th className="text-left py-2">Condition</th>
+                      <th className="text-right py-2">Trades</th>
+                      <th className="text-right py-2">Win Rate</th>
+                      <th className="text-right py-2">Avg R</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.conditions.map(row => (
+                      <tr key={row.condition} className="border-t border-border">
+                        <td className="py-2 text-foreground">
+                          {formatCondition(row.condition)}
+                          {setup.idealConditions.includes(row.condition) && <span className="text-xs text-primary ml-1">ideal</span>}
+                        </td>
+                        <td className="py-2 text-right">{row.totalTrades}</td>
+                        <td className="py-2 text-right">{row.winRate.toFixed(0)}%</td>
+                        <td className={`py-2 text-right ${row.avgR >= 0 ? 'text-green-600' : 'text-red-600'}`}>{row.avgR.toFixed(2)}R</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {setup.screenshots && setup.screenshots.length > 0 && (
+          <Card className="bg-card border-border">
+            <CardHeader className="p-4 sm:p-6">
+              <CardTitle className="text-base sm:text-lg">Example Charts</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6 pt-0 grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {setup.screenshots.map(screenshot => (
+                <div key={screenshot.id}>
+                  <p className="text-xs text-muted-foreground mb-2">{screenshot.label}</p>
+                  <ScreenshotViewer screenshotId={screenshot.id} title={screenshot.label} />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-card border-border">
+          <CardHeader className="p-4 sm:p-6">
+            <CardTitle className="text-base sm:text-lg">Recent Trades</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6 pt-0">
+            {stats.trades.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No closed trades linked to this setup yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {stats.trades.slice(0, RECENT_TRADE_LIMIT).map(trade => {
+                  const pnl = getTradeDisplayPnL(trade, baseCurrency);
+                  return (
+                    <div key={trade.id} className="flex items-center justify-between gap-3 p-3 bg-secondary rounded-lg text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium text-foreground">{trade.symbol} · {trade.position}</p>
+                        <p className="text-xs text-muted-foreground">{trade.date}{trade.ruleFollowed === false ? ' · rules broken' : ''}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className={`font-semibold ${pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(pnl, baseCurrency)}</p>
+                        <p className="text-xs text-muted-foreground">{trade.rFactor.toFixed(2)}R</p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <LinkTradesCard setup={setup} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Link trades logged under other names (typos, old variants) to a setup
+ */
+export function LinkTradesCard({ setup }: { setup: PlaybookSetup }) {
+  const { updateTrades } = useTrades();
+  const { updateSetup } = usePlaybook();
+  const unlinkedTrades = useTradeAggregate<Trade[]>({ includeOpen: true }, collectUnlinkedTrades, () => []);
+  const unlinked = useMemo(() => getUnlinkedSetupNames(unlinkedTrades || []), [unlinkedTrades]);
+  const setupKeys = [setup.name, ...setup.aliases].map(normalizeSetupName);
+  // Until the user picks, names matching the setup or its aliases are preselected
+  const [picked, setPicked] = useState<string[] | null>(null);
+  const selected = picked ?? unlinked.filter(u => setupKeys.includes(normalizeSetupName(u.name))).map(u => u.name);
+  const [isLinking, setIsLinking] = useState(false);
+
+  const toggle = (name: string) => {
+    setPicked(selected.includes(name) ? selected.filter(n => n !== name) : [...selected, name]);
+  };
+
+  const handleLink = async () => {
+    const names = selected.filter(name => unlinked.some(u => u.name === name));
+    const changed = (unlinkedTrades || [])
+      .filter(t => names.includes(t.setupName))
+      .map(t => ({ before: t, after: { ...t, setupId: setup.id, setupName: setup.name } }));
+    if (changed.length === 0) return;
+
+    const newAliases = names.filter(n => !setupKeys.includes(normalizeSetupName(n)));
+    const updated = { ...setup, aliases: [...setup.aliases, ...newAliases], updatedAt: new Date().toISOString() };
+    setIsLinking(true);
+    try {
+      updateSetup(setup.id, updated);
+      await updateTrades(changed.map(c => c.after));
+      setPicked([]);
+      showUndoToast(`Linked ${changed.length} trade(s) to ${setup.name}`, async () => {
+        await updateTrades(changed.map(c => c.before));
+        updateSetup(setup.id, setup);
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to link trades');
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  if (unlinked.length === 0) return null;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <Link2 className="w-5 h-5 text-primary" />
+          Link Existing Trades
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Setup names not linked to the playbook. Linked names become aliases of {setup.name} and its trades are renamed to match.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 space-y-3">
+        <div className="flex flex-wrap gap-3">
+          {unlinked.map(u => (
+            <label key={u.name} className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+              <input type="checkbox" checked={selected.includes(u.name)} onChange={() => toggle(u.name)} className="w-4 h-4" />
+              {u.name}
+              <span className="text-xs text-muted-foreground">({u.count})</span>
+            </label>
+          ))}
+        </div>
+        <Button onClick={handleLink} disabled={isLinking || selected.length === 0} className="bg-primary hover:bg-primary/90">
+          Link Selected
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import { useTradeAggregate } from '@/lib/trade-context';
+import { useAccounts } from '@/lib/accounts-context';
+import { useSettings } from '@/lib/settings-context';
+import { useTemplates } from '@/lib/templates-context';
+import { Currency, EquityLedger } from '@/lib/types';
+import {
+  calculatePositionSize,
+  addToEquityLedger,
+  getLedgerEquity,
+  convertToBaseCurrency,
+  convertFromBaseCurrency,
+  formatCurrency,
+} from '@/lib/trade-utils';
+import { Button } from '@/components/ui/button';
+import { Calculator } from 'lucide-react';
+
+interface PositionSizeCalculatorProps {
+  accountId?: string;
+  currency: Currency;
+  position: 'Buy' | 'Sell';
+  entryPrice: string;
+  stopLoss: string;
+  plannedRTarget?: string;
+  // Quantity step and contract multiplier of the traded instrument
+  lotSize?: number;
+  pointValue?: number;
+  onApply: (values: { quantity: string; plannedRiskAmount: string; targetPrice?: string; plannedRTarget?: string }) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+/**
+ * Sizing panel for the trade form
+ * Risks a share of the account's equity (starting capital plus realized P&L) between entry and stop,
+ * and applies the quantity, risk amount and target price to the trade
+ */
+export function PositionSizeCalculator({
+  accountId,
+  currency,
+  position,
+  entryPrice,
+  stopLoss,
+  plannedRTarget,
+  lotSize = 1,
+  pointValue = 1,
+  onApply,
+}: PositionSizeCalculatorProps) {
+  const { accounts } = useAccounts();
+  // Realized P&L of the selected account only
+  const ledger = useTradeAggregate<EquityLedger>(
+    { scope: accountId ? [accountId] : [] },
+    (built, t) => addToEquityLedger(built, t, accounts),
+    () => new Map(),
+    [accounts]
+  );
+  const { tradingPlan } = useSettings();
+  const { templates } = useTemplates();
+  // Follows the plan's risk limit until the user enters their own
+  const [riskOverride, setRiskOverride] = useState<string | null>(null);
+  const planRiskPercent = tradingPlan.enabled && tradingPlan.maxRiskPercent !== undefined ? String(tradingPlan.maxRiskPercent) : '';
+  const riskPercent = riskOverride ?? planRiskPercent;
+  const [plannedR, setPlannedR] = useState(plannedRTarget || '');
+  const [manualEquity, setManualEquity] = useState('');
+
+  const account = accounts.find(a => a.id === accountId);
+  // Account equity converted into the trade currency
+  const accountEquity = account && ledger
+    ? convertFromBaseCurrency(convertToBaseCurrency(getLedgerEquity(account, ledger), account.currency), currency)
+    : undefined;
+  const equity = manualEquity.trim() !== '' ? parseFloat(manualEquity) : accountEquity;
+  const sizingTemplates = templates.filter(t => t.riskPercent !== undefined || t.plannedRTarget !== undefined);
+
+  const plannedRValue = parseFloat(plannedR);
+  const result = equity !== undefined
+    ? calculatePositionSize(
+        equity,
+        parseFloat(riskPercent),
+        parseFloat(entryPrice),
+        parseFloat(stopLoss),
+        position,
+        lotSize,
+        pointValue,
+        isNaN(plannedRValue) ? undefined : plannedRValue
+      )
+    : null;
+
+  const handleTemplateChange = (id: string) => {
+    const template = sizingTemplates.find(t => t.id === id);
+    if (!template) return;
+    if (template.riskPercent !== undefined) setRiskOverride(String(template.riskPercent));
+    if (template.plannedRTarget !== undefined) setPlannedR(String(template.plannedRTarget));
+  };
+
+  const handleApply = () => {
+    if (!result || result.quantity <= 0) return;
+    onApply({
+      quantity: String(result.quantity),
+      plannedRiskAmount: result.riskAmount.toFixed(2),
+      plannedRTarget: plannedR.trim() || undefined,
+      // Without an R target there is no target price; keep any the user typed
+      ...(result.targetPrice !== undefined && { targetPrice: result.targetPrice.toFixed(2) }),
+    });
+  };
+
+  const missing = [
+    equity === undefined && 'an account or equity',
+    !riskPercent && 'risk %',
+    !entryPrice && 'entry price',
+    !stopLoss && 'stop loss',
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-3 p-3 bg-secondary rounded-lg border border-border">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+            <Calculator className="w-4 h-4 text-primary" />
+            Position Size
+          </label>
+          <p className="text-xs text-muted-foreground">
+            Quantity that loses the chosen share of equity at the stop, in whole lots{lotSize !== 1 ? ` of ${lotSize}` : ''}.
+          </p>
+        </div>
+        {sizingTemplates.length > 0 && (
+          <select
+            value=""
+            onChange={e => handleTemplateChange(e.target.value)}
+            className="px-2 py-1.5 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">From template...</option>
+            {sizingTemplates.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">Account Equity ({currency})</label>
+          <input
+            type="number"
+            step="0.01"
+            value={manualEquity}
+            onChange={e => setManualEquity(e.target.value)}
+            placeholder={accountEquity !== undefined ? accountEquity.toFixed(2) : 'Select an account or enter equity'}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">Risk (% of equity)</label>
+          <input
+            type="number"
+            step="0.1"
+            min="0"
+            value={riskPercent}
+            onChange={e => setRiskOverride(e.target.value)}
+            placeholder="e.g., 1"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">Planned R Target</label>
+          <input
+            type="number"
+            step="0.5"
+            min="0"
+            value={plannedR}
+            onChange={e => setPlannedR(e.target.value)}
+            placeholder="e.g., 2"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {missing.length > 0 ? (
+        <p className="text-xs text-muted-foreground">Enter {missing.join(', ')} to size the position.</p>
+      ) : !result ? (
+        <p className="text-xs text-red-500">The stop must be {position === 'Buy' ? 'below' : 'above'} the entry for a {position} trade.</p>
+      ) : (
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+          <div className="grid grid-cols-3 gap-3 text-sm flex-1">
+            <div>
+              <p className="text-xs text-muted-foreground">Quantity</p>
+              <p className="font-semibold text-foreground">{result.quantity}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Risk Amount</p>
+              <p className="font-semibold text-red-400">{formatCurrency(result.riskAmount, currency)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Target Price</p>
+              <p className="font-semibold text-green-400">{result.targetPrice !== undefined ? result.targetPrice.toFixed(2) : '—'}</p>
+            </div>
+            {result.quantity === 0 && (
+              <p className="col-span-3 text-xs text-yellow-500">
+                The risk budget does not cover one lot ({formatCurrency(result.riskPerUnit * lotSize, currency)} at the stop).
+              </p>
+            )}
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={handleApply} disabled={result.quantity <= 0}>
+            Apply to Trade
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
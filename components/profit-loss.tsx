@@ -1,27 +1,26 @@
 'use client';
 
-import { useContext } from 'react';
-import { TradeContext } from '@/lib/trade-context';
+import { useTradeQuery } from '@/lib/trade-context';
 import { useSettings } from '@/lib/settings-context';
-import { getTradeBasePnL, getTradeCharges, getTradeGrossPnL, CURRENCY_SYMBOLS, formatCurrency, convertToBaseCurrency } from '@/lib/trade-utils';
+import { useAccounts } from '@/lib/accounts-context';
+import { getTradeDisplayPnL, getTradeCharges, getTradeGrossPnL, getCurrencySymbol, formatCurrency, convertTradeAmount } from '@/lib/trade-utils';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
 
 export default function ProfitLoss() {
   const { baseCurrency } = useSettings(); // Move useSettings hook to the top level
-  const context = useContext(TradeContext);
-  if (!context) return null;
-
-  const { trades } = context;
+  const { accountScope } = useAccounts();
+  // Closed trades of the selected accounts
+  const { trades } = useTradeQuery({ scope: accountScope });
 
   // Base currency symbol for display
-  const baseCurrencySymbol = CURRENCY_SYMBOLS[baseCurrency];
+  const baseCurrencySymbol = getCurrencySymbol(baseCurrency);
 
   // Sort trades by date
   const sortedTrades = [...trades].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
   // Calculate cumulative P&L using base currency
   const cumulativeData = sortedTrades.reduce((acc: any[], trade) => {
-    const basePnL = getTradeBasePnL(trade);
+    const basePnL = getTradeDisplayPnL(trade, baseCurrency);
     const lastCumulative = acc.length > 0 ? acc[acc.length - 1].cumulativePnL : 0;
     return [
       ...acc,
@@ -38,11 +37,11 @@ export default function ProfitLoss() {
   // Now includes gross P&L, charges, and net P&L breakdown
   const dailyPnL = sortedTrades.reduce((acc: any, trade) => {
     const dateKey = trade.date;
-    const basePnL = getTradeBasePnL(trade);
+    const basePnL = getTradeDisplayPnL(trade, baseCurrency);
     const charges = getTradeCharges(trade);
-    const baseCharges = trade.currency ? convertToBaseCurrency(charges, trade.currency, trade.exchangeRate) : charges;
+    const baseCharges = convertTradeAmount(charges, trade, baseCurrency);
     const grossPnL = getTradeGrossPnL(trade);
-    const baseGrossPnL = trade.currency ? convertToBaseCurrency(grossPnL, trade.currency, trade.exchangeRate) : grossPnL;
+    const baseGrossPnL = convertTradeAmount(grossPnL, trade, baseCurrency);
     const existing = acc.find((d: any) => d.date === dateKey);
     if (existing) {
       existing.pnl += basePnL;
@@ -67,7 +66,7 @@ export default function ProfitLoss() {
     const date = new Date(trade.date);
     const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
     const monthDisplay = date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-    const basePnL = getTradeBasePnL(trade);
+    const basePnL = getTradeDisplayPnL(trade, baseCurrency);
     
     const existing = acc.find((m: any) => m.key === monthKey);
     if (existing) {
@@ -86,7 +85,7 @@ export default function ProfitLoss() {
 
   // P&L by Symbol - using base currency and deriving W/L from P&L
   const symbolPnL = sortedTrades.reduce((acc: any, trade) => {
-    const basePnL = getTradeBasePnL(trade);
+    const basePnL = getTradeDisplayPnL(trade, baseCurrency);
     const isWin = trade.pnl > 0; // Derive from P&L, not deprecated isWin field
     const existing = acc.find((s: any) => s.symbol === trade.symbol);
     if (existing) {
@@ -108,7 +107,7 @@ export default function ProfitLoss() {
 
   // P&L by Setup - using base currency and deriving W/L from P&L
   const setupPnL = sortedTrades.reduce((acc: any, trade) => {
-    const basePnL = getTradeBasePnL(trade);
+    const basePnL = getTradeDisplayPnL(trade, baseCurrency);
     const isWin = trade.pnl > 0; // Derive from P&L, not deprecated isWin field
     const existing = acc.find((s: any) => s.setup === trade.setupName);
     if (existing) {
@@ -129,12 +128,12 @@ export default function ProfitLoss() {
   }, []).sort((a: any, b: any) => b.pnl - a.pnl);
 
   // Total P&L in base currency
-  const totalPnL = trades.reduce((sum, trade) => sum + getTradeBasePnL(trade), 0);
+  const totalPnL = trades.reduce((sum, trade) => sum + getTradeDisplayPnL(trade, baseCurrency), 0);
   
   // Total charges and gross P&L
   const totalCharges = trades.reduce((sum, trade) => {
     const charges = getTradeCharges(trade);
-    return sum + (trade.currency ? convertToBaseCurrency(charges, trade.currency, trade.exchangeRate) : charges);
+    return sum + convertTradeAmount(charges, trade, baseCurrency);
   }, 0);
   const totalGrossPnL = totalPnL + totalCharges;
   
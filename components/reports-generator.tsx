@@ -1,34 +1,38 @@
 'use client';
 
 import { useState, useMemo, useRef } from 'react';
-import { useTrades } from '@/lib/trade-context';
+import { useTrades, useTradeQuery } from '@/lib/trade-context';
 import { useSettings } from '@/lib/settings-context';
+import { useAccounts } from '@/lib/accounts-context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { CURRENCY_SYMBOLS } from '@/lib/trade-utils';
-import { generateMonthlyReport, generateMonthlyReportHTML } from '@/lib/reports-generator';
+import { getCurrencySymbol } from '@/lib/trade-utils';
+import { generateMonthlyReport, generateMonthlyReportHTML, getMonthQueryRange } from '@/lib/reports-generator';
 import { Download, FileText, Printer, Loader } from 'lucide-react';
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 export default function ReportsGenerator() {
-  const { trades } = useTrades();
+  const { tradeCount } = useTrades();
   const { baseCurrency } = useSettings();
+  const { accountScope } = useAccounts();
   const [selectedMonth, setSelectedMonth] = useState<number>(new Date().getMonth() + 1);
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
+  // Only the selected month is read from the journal
+  const { trades } = useTradeQuery({ ...getMonthQueryRange(selectedYear, selectedMonth), scope: accountScope });
   const [exporting, setExporting] = useState(false);
   const reportElementRef = useRef<HTMLDivElement>(null);
 
-  const symbol = CURRENCY_SYMBOLS[baseCurrency];
+  const symbol = getCurrencySymbol(baseCurrency);
 
   const currentReport = useMemo(() => {
-    return generateMonthlyReport(trades, selectedYear, selectedMonth);
-  }, [trades, selectedYear, selectedMonth]);
+    return generateMonthlyReport(trades, selectedYear, selectedMonth, accountScope, baseCurrency);
+  }, [trades, selectedYear, selectedMonth, accountScope, baseCurrency]);
 
   const handleDownloadHTML = () => {
-    const html = generateMonthlyReportHTML(currentReport, baseCurrency);
+    const html = generateMonthlyReportHTML(currentReport);
     const blob = new Blob([html], { type: 'text/html' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -52,7 +56,7 @@ export default function ReportsGenerator() {
   };
 
   const handlePrintPDF = () => {
-    const html = generateMonthlyReportHTML(currentReport, baseCurrency);
+    const html = generateMonthlyReportHTML(currentReport);
     const printWindow = window.open('', '', 'height=600,width=800');
     if (printWindow) {
       printWindow.document.write(html);
@@ -67,7 +71,7 @@ export default function ReportsGenerator() {
   const currentYear = new Date().getFullYear();
   const years = Array.from({ length: 5 }, (_, i) => currentYear - i);
 
-  if (!trades || trades.length === 0) {
+  if (tradeCount === 0) {
     return (
       <div className="p-4 space-y-4">
         <h1 className="text-3xl font-bold">Trading Reports</h1>
@@ -272,7 +276,7 @@ export default function ReportsGenerator() {
                       <div className="text-right">
                         <Badge className="mb-1 mr-2">{symbol.winRate.toFixed(1)}%</Badge>
                         <p className={`font-medium ${symbol.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                          {CURRENCY_SYMBOLS[baseCurrency]}{symbol.pnl.toFixed(0)}
+                          {getCurrencySymbol(baseCurrency)}{symbol.pnl.toFixed(0)}
                         </p>
                       </div>
                     </div>
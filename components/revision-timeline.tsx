@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Revision, RevisionAction, RevisionEntityType } from '@/lib/types';
+import { getRevisions } from '@/lib/revision-service';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { History, RotateCcw } from 'lucide-react';
+
+interface RevisionTimelineProps {
+  entityType: RevisionEntityType;
+  recordId: string;
+  // Changes whenever the record is saved, so the timeline re-reads its history
+  refreshKey: number;
+  onRevert: (revision: Revision) => Promise<void>;
+}
+
+const ACTION_LABELS: Record<RevisionAction, { label: string; color: string }> = {
+  create: { label: 'Created', color: 'bg-green-500/10 text-green-400 border-green-500/30' },
+  update: { label: 'Edited', color: 'bg-blue-500/10 text-blue-400 border-blue-500/30' },
+  delete: { label: 'Deleted', color: 'bg-red-500/10 text-red-400 border-red-500/30' },
+  restore: { label: 'Restored', color: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30' },
+  revert: { label: 'Reverted', color: 'bg-purple-500/10 text-purple-400 border-purple-500/30' },
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+// stopLoss -> Stop Loss
+function formatFieldName(field: string): string {
+  return field.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string' && value.startsWith('data:')) return '[image]';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+/**
+ * Diff timeline for a trade or idea
+ * Lists every recorded change, newest first, with old → new values and revert
+ */
+export function RevisionTimeline({ entityType, recordId, refreshKey, onRevert }: RevisionTimelineProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [reverting, setReverting] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getRevisions(entityType, recordId)
+      .then(result => {
+        if (!cancelled) setRevisions(result);
+      })
+      .catch(err => console.error('[RevisionTimeline] Failed to load history:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, recordId, refreshKey]);
+
+  const handleRevert = async (revision: Revision) => {
+    const when = new Date(revision.timestamp).toLocaleString();
+    if (!confirm(`Revert to the version saved on ${when}? The current values will be kept in the history.`)) return;
+    setReverting(revision.id);
+    try {
+      await onRevert(revision);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to revert');
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+        <History className="w-4 h-4" />
+        History
+      </p>
+      {revisions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No changes recorded yet</p>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {revisions.map((revision, index) => {
+            const action = ACTION_LABELS[revision.action];
+            // The newest entry is the current state; deletes have nothing to return to
+            const canRevert = index > 0 && revision.action !== 'delete' && !!revision.snapshot;
+            return (
+              <li key={revision.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary border-2 border-card" />
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className={action.color}>{action.label}</Badge>
+                  <span className="text-xs text-muted-foreground">{new Date(revision.timestamp).toLocaleString()}</span>
+                  {canRevert && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs ml-auto"
+                      onClick={() => handleRevert(revision)}
+                      disabled={reverting !== null}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      {reverting === revision.id ? 'Reverting...' : 'Revert to this'}
+                    </Button>
+                  )}
+                </div>
+                {(revision.action === 'update' || revision.action === 'revert') && revision.changes.length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {revision.changes.map(change => (
+                      <div key={change.field} className="text-xs grid grid-cols-1 sm:grid-cols-[8rem_1fr] gap-1">
+                        <span className="text-muted-foreground">{formatFieldName(change.field)}</span>
+                        <span className="break-all">
+                          <span className="text-red-400 line-through">{formatValue(change.oldValue)}</span>
+                          {' → '}
+                          <span className="text-green-400">{formatValue(change.newValue)}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import { TradeScreenshot } from '@/lib/types';
+import { saveScreenshot } from '@/lib/screenshot-service';
+import { ScreenshotViewer } from './screenshot-viewer';
+import { Upload, X, Loader2 } from 'lucide-react';
+
+interface ScreenshotManagerProps {
+  screenshots: TradeScreenshot[];
+  onChange: (screenshots: TradeScreenshot[]) => void;
+}
+
+// Suggested labels, in the order they are usually added
+const DEFAULT_LABELS = ['Before Trade', 'After Exit'];
+
+/**
+ * Labelled screenshot list for the trade form
+ * Images are written to the blob store as soon as they are added; removed or
+ * abandoned ones are cleaned up by the orphan collector.
+ */
+export function ScreenshotManager({ screenshots, onChange }: ScreenshotManagerProps) {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const addImages = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+    setUploading(true);
+    setError(null);
+    try {
+      const added: TradeScreenshot[] = [];
+      for (const file of images) {
+        const id = await saveScreenshot(file);
+        const index = screenshots.length + added.length;
+        added.push({ id, label: DEFAULT_LABELS[index] || `Screenshot ${index + 1}` });
+      }
+      onChange([...screenshots, ...added]);
+    } catch (err) {
+      console.error('[ScreenshotManager] Failed to save image:', err);
+      setError('Failed to save image');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addImages(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    const files = Array.from(e.clipboardData?.items || [])
+      .filter(item => item.type.indexOf('image') !== -1)
+      .map(item => item.getAsFile())
+      .filter((file): file is File => file !== null);
+    if (files.length > 0) {
+      e.preventDefault();
+      addImages(files);
+    }
+  };
+
+  const updateLabel = (id: string, label: string) => {
+    onChange(screenshots.map(s => (s.id === id ? { ...s, label } : s)));
+  };
+
+  const removeScreenshot = (id: string) => {
+    onChange(screenshots.filter(s => s.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-xs sm:text-sm font-medium text-foreground">Screenshots</label>
+
+      {screenshots.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+          {screenshots.map(screenshot => (
+            <div key={screenshot.id} className="space-y-2">
+              <div className="relative">
+                <ScreenshotViewer screenshotId={screenshot.id} title={screenshot.label} />
+                <button
+                  type="button"
+                  onClick={() => removeScreenshot(screenshot.id)}
+                  className="absolute top-2 right-2 p-1 bg-red-600 rounded-full hover:bg-red-700 transition-colors"
+                  title="Remove image"
+                >
+                  <X className="w-4 h-4 text-white" />
+                </button>
+              </div>
+              <input
+                type="text"
+                value={screenshot.label}
+                onChange={e => updateLabel(screenshot.id, e.target.value)}
+                placeholder="Label"
+                className="w-full px-3 py-1.5 bg-input border border-border rounded-lg text-foreground text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div
+        onPaste={handlePaste}
+        className="flex items-center justify-center w-full p-4 sm:p-6 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-secondary transition-colors"
+      >
+        <label className="w-full text-center cursor-pointer">
+          <div>
+            {uploading ? (
+              <Loader2 className="w-5 h-5 sm:w-6 sm:h-6 mx-auto text-muted-foreground mb-2 animate-spin" />
+            ) : (
+              <Upload className="w-5 h-5 sm:w-6 sm:h-6 mx-auto text-muted-foreground mb-2" />
+            )}
+            <span className="text-xs sm:text-sm text-foreground block">Upload or paste images</span>
+          </div>
+          <input type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" />
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
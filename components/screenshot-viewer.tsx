@@ -9,27 +9,86 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { X, ZoomIn, ZoomOut, Download } from 'lucide-react';
+import { X, ZoomIn, ZoomOut, Download, ImageOff, PenLine } from 'lucide-react';
+import { getScreenshot } from '@/lib/screenshot-service';
+import { getExportImage } from '@/lib/screenshot-annotations';
+import { AnnotationEditor } from './annotation-editor';
 
 interface ScreenshotViewerProps {
-  imageUrl: string;
+  // Inline image (data URL or object URL)
+  imageUrl?: string;
+  // Image in the screenshots store - shows the thumbnail and loads the full image on open
+  screenshotId?: string;
   title?: string;
   children?: React.ReactNode;
 }
 
-export function ScreenshotViewer({ imageUrl, title = 'Screenshot', children }: ScreenshotViewerProps) {
+/**
+ * Object URL for a stored screenshot, revoked when the component unmounts
+ * 'annotated' is the full image with its annotations drawn in
+ * @param enabled - Defer loading (e.g. full-size image until the viewer opens)
+ * @param refreshKey - Change to reload after the record was edited
+ */
+export function useScreenshotUrl(id: string | undefined, variant: 'annotated' | 'thumbnail', enabled = true, refreshKey = 0) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [extension, setExtension] = useState('png');
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    if (!id || !enabled) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getScreenshot(id)
+      .then(async record => {
+        if (cancelled) return;
+        if (!record) {
+          setMissing(true);
+          return;
+        }
+        if (variant === 'thumbnail') {
+          objectUrl = URL.createObjectURL(record.thumbnail);
+        } else {
+          const image = await getExportImage(record);
+          if (cancelled) return;
+          objectUrl = URL.createObjectURL(image.blob);
+          setExtension(image.extension);
+        }
+        setUrl(objectUrl);
+      })
+      .catch(err => {
+        console.error('[ScreenshotViewer] Failed to load screenshot:', err);
+        if (!cancelled) setMissing(true);
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id, variant, enabled, refreshKey]);
+
+  return { url, extension, missing };
+}
+
+export function ScreenshotViewer({ imageUrl, screenshotId, title = 'Screenshot', children }: ScreenshotViewerProps) {
   const [open, setOpen] = useState(false);
   const [zoom, setZoom] = useState(100);
   const [mounted, setMounted] = useState(false);
+  const [annotating, setAnnotating] = useState(false);
+  const [annotationVersion, setAnnotationVersion] = useState(0);
+  const thumbnail = useScreenshotUrl(screenshotId, 'thumbnail');
+  const full = useScreenshotUrl(screenshotId, 'annotated', open, annotationVersion);
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  const previewUrl = imageUrl || thumbnail.url;
+  const fullUrl = imageUrl || full.url || thumbnail.url;
+
   const handleDownload = () => {
+    if (!fullUrl) return;
     const link = document.createElement('a');
-    link.href = imageUrl;
-    link.download = `screenshot-${new Date().getTime()}.png`;
+    link.href = fullUrl;
+    link.download = `screenshot-${new Date().getTime()}.${screenshotId ? full.extension : 'png'}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -47,14 +106,27 @@ export function ScreenshotViewer({ imageUrl, title = 'Screenshot', children }: S
     setZoom(100);
   };
 
+  if (screenshotId && thumbnail.missing) {
+    return (
+      <div className="flex items-center justify-center gap-2 h-24 rounded-lg border border-dashed border-border text-xs text-muted-foreground">
+        <ImageOff className="w-4 h-4" />
+        Image unavailable
+      </div>
+    );
+  }
+
   // Render static image during SSR and hydration
   const staticImage = (
     <div className="cursor-pointer hover:opacity-80 transition-opacity rounded-lg border border-border overflow-hidden">
-      <img
-        src={imageUrl}
-        alt={title}
-        className="max-h-64 w-full object-contain rounded-lg border border-border"
-      />
+      {previewUrl ? (
+        <img
+          src={previewUrl}
+          alt={title}
+          className="max-h-64 w-full object-contain rounded-lg border border-border"
+        />
+      ) : (
+        <div className="h-24 bg-muted animate-pulse rounded-lg" />
+      )}
     </div>
   );
 
@@ -64,7 +136,13 @@ export function ScreenshotViewer({ imageUrl, title = 'Screenshot', children }: S
   }
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog
+      open={open}
+      onOpenChange={next => {
+        setOpen(next);
+        if (!next) setAnnotating(false);
+      }}
+    >
       <DialogTrigger asChild>
         {children || staticImage}
       </DialogTrigger>
@@ -74,7 +152,17 @@ export function ScreenshotViewer({ imageUrl, title = 'Screenshot', children }: S
           <div className="flex items-center justify-between w-full">
             <DialogTitle>{title}</DialogTitle>
             {/* Zoom Controls */}
-            <div className="flex items-center gap-2">
+            <div className={`flex items-center gap-2 ${annotating ? 'hidden' : ''}`}>
+              {screenshotId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setAnnotating(true)}
+                  title="Annotate chart"
+                >
+                  <PenLine className="w-4 h-4" />
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -115,21 +203,51 @@ export function ScreenshotViewer({ imageUrl, title = 'Screenshot', children }: S
           </div>
         </DialogHeader>
 
-        {/* Image Container */}
-        <div className="flex-1 overflow-auto flex items-center justify-center bg-muted/50 p-4">
-          <img
-            src={imageUrl}
-            alt={title}
-            style={{ width: `${zoom}%` }}
-            className="max-w-full max-h-full object-contain rounded-lg border border-border"
+        {annotating && screenshotId ? (
+          <AnnotationEditor
+            screenshotId={screenshotId}
+            onClose={() => setAnnotating(false)}
+            onSaved={() => {
+              setAnnotating(false);
+              setAnnotationVersion(version => version + 1);
+            }}
           />
-        </div>
+        ) : (
+          <>
+            {/* Image Container */}
+            <div className="flex-1 overflow-auto flex items-center justify-center bg-muted/50 p-4">
+              <img
+                src={fullUrl || undefined}
+                alt={title}
+                style={{ width: `${zoom}%` }}
+                className="max-w-full max-h-full object-contain rounded-lg border border-border"
+              />
+            </div>
 
-        {/* Info Footer */}
-        <div className="px-6 py-3 border-t border-border bg-muted/30 text-xs text-muted-foreground">
-          Click on the image or use your mouse scroll wheel to zoom. Download button available in the header.
-        </div>
+            {/* Info Footer */}
+            <div className="px-6 py-3 border-t border-border bg-muted/30 text-xs text-muted-foreground">
+              Click on the image or use your mouse scroll wheel to zoom. Download button available in the header.
+            </div>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
 }
+
+/**
+ * Small thumbnail for list rows, with a count badge when a trade has several images
+ */
+export function ScreenshotThumbnail({ screenshotId, count = 1 }: { screenshotId: string; count?: number }) {
+  const { url } = useScreenshotUrl(screenshotId, 'thumbnail');
+  return (
+    <span className="relative inline-block w-8 h-8 flex-shrink-0 rounded border border-border overflow-hidden bg-muted">
+      {url && <img src={url} alt="" className="w-full h-full object-cover" />}
+      {count > 1 && (
+        <span className="absolute bottom-0 right-0 px-1 text-[10px] leading-tight bg-black/70 text-white rounded-tl">
+          {count}
+        </span>
+      )}
+    </span>
+  );
+}
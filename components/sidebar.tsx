@@ -1,12 +1,13 @@
 'use client';
 
-import { BarChart3, PlusCircle, Table, LineChart, Settings, Calendar, TrendingUp, Lightbulb, Target, Search, Zap, FileText, Brain } from 'lucide-react';
+import { BarChart3, PlusCircle, Table, LineChart, Settings, Calendar, TrendingUp, Lightbulb, Target, Search, Zap, FileText, Brain, Trash2, BookOpen, NotebookPen } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { AccountSwitcher } from '@/components/account-switcher';
 
 interface SidebarProps {
   currentPage: string;
-  onPageChange: (page: 'dashboard' | 'add-trade' | 'log' | 'analytics' | 'profit-loss' | 'weekly-review' | 'data-utilities' | 'ideas' | 'add-idea' | 'advanced-analytics' | 'goals' | 'search' | 'reports' | 'emotion-analyzer') => void;
+  onPageChange: (page: 'dashboard' | 'add-trade' | 'log' | 'analytics' | 'profit-loss' | 'weekly-review' | 'data-utilities' | 'ideas' | 'add-idea' | 'advanced-analytics' | 'goals' | 'search' | 'reports' | 'emotion-analyzer' | 'trash' | 'playbook' | 'journal') => void;
 }
 
 export default function Sidebar({ currentPage, onPageChange }: SidebarProps) {
@@ -17,13 +18,16 @@ export default function Sidebar({ currentPage, onPageChange }: SidebarProps) {
     { id: 'analytics', label: 'Analytics', icon: LineChart },
     { id: 'advanced-analytics', label: 'Advanced Analytics', icon: Zap },
     { id: 'profit-loss', label: 'P&L Summary', icon: TrendingUp },
+    { id: 'journal', label: 'Daily Journal', icon: NotebookPen },
     { id: 'weekly-review', label: 'Weekly Review', icon: Calendar },
     { id: 'reports', label: 'Reports', icon: FileText },
     { id: 'emotion-analyzer', label: 'Emotion Analysis', icon: Brain },
     { id: 'search', label: 'Search & Filter', icon: Search },
     { id: 'goals', label: 'Trading Goals', icon: Target },
+    { id: 'playbook', label: 'Playbook', icon: BookOpen },
     { id: 'ideas', label: 'Trade Ideas', icon: Lightbulb },
     { id: 'add-idea', label: 'Add Idea', icon: PlusCircle },
+    { id: 'trash', label: 'Trash', icon: Trash2 },
     { id: 'data-utilities', label: 'Data & Settings', icon: Settings },
   ];
 
@@ -32,6 +36,9 @@ export default function Sidebar({ currentPage, onPageChange }: SidebarProps) {
       <div className="p-6 sticky top-0 bg-sidebar border-b border-sidebar-border flex-shrink-0">
         <h1 className="text-2xl font-bold text-sidebar-foreground">Trading Journal</h1>
         <p className="text-sm text-muted-foreground mt-1">Track & Analyze Trades</p>
+        <div className="mt-4">
+          <AccountSwitcher />
+        </div>
       </div>
 
       <nav className="flex-1 space-y-2 px-4 py-4 overflow-y-auto">
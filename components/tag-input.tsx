@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTrades } from '@/lib/trade-context';
+import { useIdeas } from '@/lib/ideas-context';
+import { useTags } from '@/lib/tags-context';
+import { normalizeTag, getTagColor, collectTagNames } from '@/lib/tag-utils';
+import { X } from 'lucide-react';
+
+// Suggestions shown under the input at once
+const MAX_SUGGESTIONS = 8;
+
+interface TagBadgeProps {
+  tag: string;
+  color: string;
+  onRemove?: () => void;
+}
+
+/**
+ * Coloured chip for one tag; parents are shown dimmed ("news/" cpi)
+ */
+export function TagBadge({ tag, color, onRemove }: TagBadgeProps) {
+  const slash = tag.lastIndexOf('/');
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium"
+      style={{ backgroundColor: `${color}26`, borderColor: `${color}66`, color }}
+    >
+      {slash >= 0 && <span className="opacity-70">{tag.slice(0, slash + 1)}</span>}
+      {tag.slice(slash + 1)}
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="hover:opacity-70" title={`Remove ${tag}`}>
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Tags of a trade or idea, coloured from the shared tag definitions
+ */
+export function TagList({ tags }: { tags?: string[] }) {
+  const { tagDefinitions } = useTags();
+  if (!tags || tags.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map(tag => (
+        <TagBadge key={tag} tag={tag} color={getTagColor(tag, tagDefinitions)} />
+      ))}
+    </div>
+  );
+}
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * Tag picker with autocomplete over every tag used by trades and ideas
+ * Enter or comma adds the typed tag; "/" nests it under a parent (news/cpi)
+ */
+export function TagInput({ value, onChange, placeholder = 'Add tag, e.g. news/cpi' }: TagInputProps) {
+  const { tradesRevision, getTradeFieldValues } = useTrades();
+  const { ideas } = useIdeas();
+  const { tagDefinitions } = useTags();
+  const [query, setQuery] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [tradeTags, setTradeTags] = useState<string[]>([]);
+
+  /**
+   * Effect: Read the distinct trade tags from the tag index
+   */
+  useEffect(() => {
+    getTradeFieldValues('tags')
+      .then(setTradeTags)
+      .catch(err => console.error('[TagInput] Failed to load tags:', err));
+  }, [tradesRevision]);
+
+  const knownTags = useMemo(
+    () => collectTagNames([tradeTags, ...ideas.map(i => i.tags)], tagDefinitions),
+    [tradeTags, ideas, tagDefinitions]
+  );
+
+  const typed = normalizeTag(query);
+  const suggestions = knownTags
+    .filter(tag => !value.includes(tag) && (!typed || tag.includes(typed)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      if (query.trim()) addTag(query);
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1.5 w-full px-3 py-2 bg-input border border-border rounded-lg focus-within:ring-2 focus-within:ring-primary">
+        {value.map(tag => (
+          <TagBadge
+            key={tag}
+            tag={tag}
+            color={getTagColor(tag, tagDefinitions)}
+            onRemove={() => onChange(value.filter(t => t !== tag))}
+          />
+        ))}
+        <input
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          // Delay so a click on a suggestion lands before the list closes
+          onBlur={() => setTimeout(() => {
+            setIsFocused(false);
+            if (query.trim()) addTag(query);
+          }, 150)}
+          placeholder={value.length === 0 ? placeholder : ''}
+          className="flex-1 min-w-[8rem] bg-transparent text-sm text-foreground focus:outline-none"
+        />
+      </div>
+      {isFocused && (suggestions.length > 0 || (typed && !knownTags.includes(typed))) && (
+        <div className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto bg-popover border border-border rounded-lg shadow-lg p-1">
+          {typed && !knownTags.includes(typed) && !value.includes(typed) && (
+            <button
+              type="button"
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => addTag(typed)}
+              className="w-full text-left px-2 py-1.5 rounded text-sm text-muted-foreground hover:bg-secondary"
+            >
+              Create &quot;{typed}&quot;
+            </button>
+          )}
+          {suggestions.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className="w-full text-left px-2 py-1.5 rounded hover:bg-secondary"
+            >
+              <TagBadge tag={tag} color={getTagColor(tag, tagDefinitions)} />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
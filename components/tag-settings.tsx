@@ -0,0 +1,167 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useTrades, useTradeAggregate } from '@/lib/trade-context';
+import { useIdeas } from '@/lib/ideas-context';
+import { useTags } from '@/lib/tags-context';
+import { collectTagNames, countTagUsage, getTagColor, normalizeTag, renameTagInList, isTagWithin, TAG_COLORS } from '@/lib/tag-utils';
+import { showUndoToast } from '@/lib/undo-toast';
+import { Trade } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { TagBadge } from './tag-input';
+import { Tags, GitMerge, RotateCcw } from 'lucide-react';
+
+// Tag lists of tagged trades; the trades themselves are only loaded for a rename
+const collectTagLists = (lists: string[][], trade: Trade) => {
+  if (trade.tags && trade.tags.length > 0) lists.push(trade.tags);
+  return lists;
+};
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+export default function TagSettings() {
+  const { queryTrades, updateTrades } = useTrades();
+  const { ideas, updateIdeas } = useIdeas();
+  const { tagDefinitions, setTagColor, deleteTagDefinition, renameTagDefinitions, replaceTagDefinitions } = useTags();
+  const [renameFrom, setRenameFrom] = useState('');
+  const [renameTo, setRenameTo] = useState('');
+  const [isRenaming, setIsRenaming] = useState(false);
+
+  const tradeTagLists = useTradeAggregate<string[][]>({ includeOpen: true }, collectTagLists, () => []);
+
+  const allTags = useMemo(
+    () => collectTagNames([...(tradeTagLists || []), ...ideas.map(i => i.tags)], tagDefinitions),
+    [tradeTagLists, ideas, tagDefinitions]
+  );
+  const tradeCounts = useMemo(() => countTagUsage(tradeTagLists || []), [tradeTagLists]);
+  const ideaCounts = useMemo(() => countTagUsage(ideas.map(i => i.tags)), [ideas]);
+
+  /**
+   * Rename a tag everywhere; renaming onto an existing tag merges the two
+   */
+  const handleRename = async () => {
+    const from = renameFrom;
+    const to = normalizeTag(renameTo);
+    if (!from || !to) {
+      alert('Pick a tag and enter its new name');
+      return;
+    }
+    if (from === to) return;
+
+    const changedTrades = (await queryTrades({ includeOpen: true }))
+      .filter(t => t.tags)
+      .map(t => ({ before: t, after: { ...t, tags: renameTagInList(t.tags!, from, to) } }))
+      .filter(c => c.after.tags !== c.before.tags);
+    const changedIdeas = ideas
+      .filter(i => i.tags)
+      .map(i => ({ before: i, after: { ...i, tags: renameTagInList(i.tags!, from, to) } }))
+      .filter(c => c.after.tags !== c.before.tags);
+
+    const verb = allTags.includes(to) && !isTagWithin(to, from) ? 'Merge' : 'Rename';
+    const target = `"${from}" ${verb === 'Merge' ? 'into' : 'to'} "${to}"`;
+    if (!window.confirm(`${verb} ${target}? This updates ${changedTrades.length} trade(s) and ${changedIdeas.length} idea(s), including nested tags.`)) return;
+
+    const previousDefinitions = tagDefinitions;
+    setIsRenaming(true);
+    try {
+      await updateTrades(changedTrades.map(c => c.after));
+      await updateIdeas(changedIdeas.map(c => c.after));
+      await renameTagDefinitions(from, to);
+      setRenameFrom('');
+      setRenameTo('');
+      showUndoToast(`${verb}d ${target}`, async () => {
+        await updateTrades(changedTrades.map(c => c.before));
+        await updateIdeas(changedIdeas.map(c => c.before));
+        await replaceTagDefinitions(previousDefinitions);
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to rename tag');
+    } finally {
+      setIsRenaming(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <Tags className="w-5 h-5 text-primary" />
+          Tags
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Tags shared by trades and ideas. Nest them with / (news/cpi); children take their parent&apos;s colour unless given their own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        {allTags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tags yet. Add them from the trade or idea form.</p>
+        ) : (
+          <div className="space-y-1 max-h-96 overflow-y-auto">
+            {allTags.map(tag => {
+              const depth = tag.split('/').length - 1;
+              const hasOwnColor = tagDefinitions.some(d => d.name === tag);
+              const color = getTagColor(tag, tagDefinitions);
+              return (
+                <div
+                  key={tag}
+                  className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-secondary rounded-lg border border-border"
+                  style={{ marginLeft: depth * 16 }}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <TagBadge tag={tag} color={color} />
+                    <span className="text-xs text-muted-foreground">
+                      {tradeCounts.get(tag) || 0} trade(s) · {ideaCounts.get(tag) || 0} idea(s)
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {TAG_COLORS.map(c => (
+                      <button
+                        key={c}
+                        onClick={() => setTagColor(tag, c)}
+                        className={`w-4 h-4 rounded-full border ${hasOwnColor && c === color ? 'ring-2 ring-offset-1 ring-primary' : 'border-border'}`}
+                        style={{ backgroundColor: c }}
+                        title={`Colour ${tag}`}
+                      />
+                    ))}
+                    {hasOwnColor && (
+                      <button onClick={() => deleteTagDefinition(tag)} className="text-muted-foreground hover:text-foreground transition-colors p-1" title="Use inherited colour">
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 border-t border-border pt-4">
+          <select value={renameFrom} onChange={e => setRenameFrom(e.target.value)} className={inputClass}>
+            <option value="">Tag to rename or merge</option>
+            {allTags.map(tag => (
+              <option key={tag} value={tag}>{tag}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={renameTo}
+            onChange={e => setRenameTo(e.target.value)}
+            placeholder="New name, or an existing tag to merge into"
+            list="tag-settings-names"
+            className={inputClass}
+          />
+          <datalist id="tag-settings-names">
+            {allTags.map(tag => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+          <Button onClick={handleRename} disabled={isRenaming || !renameFrom || !renameTo.trim()} className="bg-primary hover:bg-primary/90">
+            <GitMerge className="w-4 h-4 mr-2" />
+            Rename / Merge
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,24 +3,55 @@
 import React from "react"
 import { useState } from 'react';
 import { useTrades } from '@/lib/trade-context';
-import { convertFormToTrade } from '@/lib/trade-utils';
+import { useAccounts } from '@/lib/accounts-context';
+import { useInstruments } from '@/lib/instruments-context';
+import { useSettings } from '@/lib/settings-context';
+import { useCustomFields } from '@/lib/custom-fields-context';
+import { usePlaybook } from '@/lib/playbook-context';
+import { useIdeas } from '@/lib/ideas-context';
+import { useTemplates } from '@/lib/templates-context';
+import { findSetupByName } from '@/lib/playbook';
+import { buildChecklistAnswers, getUncheckedItems } from '@/lib/checklist';
+import { isWholeLots } from '@/lib/instrument-registry';
+import { convertFormToTrade, parseFormCharges } from '@/lib/trade-utils';
 import { validateTradeForm, sanitizeString } from '@/lib/validation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { AlertCircle, Plus, Loader2, Upload, X } from 'lucide-react';
-import { TradeFormData, Currency } from '@/lib/types';
-import { calculatePnL, calculateRFactor, CURRENCY_SYMBOLS, getTradeOutcome } from '@/lib/trade-utils';
-import { ScreenshotViewer } from './screenshot-viewer';
+import { AlertCircle, Plus, Loader2 } from 'lucide-react';
+import { TradeFormData, Currency, TradeScreenshot, TradeStatus } from '@/lib/types';
+import { calculatePnL, calculateRFactor, getCurrencySymbol, BASE_CURRENCY, getExchangeRateToBase, getTradeOutcome, hasExecutionLegs, parseExecutionRows, getWeightedAveragePrice } from '@/lib/trade-utils';
+import { ScreenshotManager } from './screenshot-manager';
+import { ExecutionLegsEditor } from './execution-legs-editor';
+import { OptionLegsEditor } from './option-legs-editor';
+import { TagInput } from './tag-input';
+import { CustomFieldInput } from './custom-field-input';
+import { PositionSizeCalculator } from './position-size-calculator';
 
 interface TradeFormProps {
   onSuccess?: () => void;
+  // Initial values, e.g. from "take this trade" on an idea
+  prefill?: Partial<TradeFormData>;
 }
 
-export default function TradeForm({ onSuccess }: TradeFormProps) {
+export default function TradeForm({ onSuccess, prefill }: TradeFormProps) {
   const { addTrade } = useTrades();
+  const { accounts, accountScope } = useAccounts();
+  const { instruments, findInstrument } = useInstruments();
+  const { currencies } = useSettings();
+  const { customFields } = useCustomFields();
+  const { setups } = usePlaybook();
+  const { ideas } = useIdeas();
+  const { templates } = useTemplates();
+  const activeSetups = setups.filter(s => s.isActive);
+  const activeAccounts = accounts.filter(a => a.isActive);
+  // Pre-select the account when the sidebar is scoped to exactly one
+  const defaultAccountId = accountScope !== 'all' && accountScope.length === 1 ? accountScope[0] : '';
   // Form data state
   const [formData, setFormData] = useState<TradeFormData>({
+    accountId: defaultAccountId,
+    status: 'closed',
     date: new Date().toISOString().split('T')[0],
+    exitDate: '',
     symbol: '',
     tradeType: 'Intraday',
     setupName: '',
@@ -45,13 +76,16 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
     limit: '',
     exit: '',
     ruleFollowed: true,
+    executions: [],
+    options: { underlying: '', strategy: '', legs: [] },
+    tags: [],
+    customFields: {},
+    ...prefill,
   });
 
-  // Screenshot state
-  const [beforeScreenshot, setBeforeScreenshot] = useState<string | null>(null);
-  const [afterScreenshot, setAfterScreenshot] = useState<string | null>(null);
-  const [screenshot, setScreenshot] = useState<string | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  // Labelled images in the screenshots blob store
+  const [screenshots, setScreenshots] = useState<TradeScreenshot[]>([]);
+  const [templateId, setTemplateId] = useState('');
 
   // Validation state for enhanced error handling
   const [errors, setErrors] = useState<Partial<Record<keyof TradeFormData, string>>>({});
@@ -71,80 +105,6 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
     setFormData(prev => ({ ...prev, [name]: sanitizedValue }));
   };
 
-  const handlePasteImage = (type: 'before' | 'after') => async (e: React.ClipboardEvent<HTMLDivElement>) => {
-    const items = e.clipboardData?.items;
-    if (!items) return;
-
-    for (let i = 0; i < items.length; i++) {
-      if (items[i].type.indexOf('image') !== -1) {
-        e.preventDefault();
-        const file = items[i].getAsFile();
-        if (file) {
-          const reader = new FileReader();
-          reader.onload = (event) => {
-            const result = event.target?.result as string;
-            if (type === 'before') {
-              setBeforeScreenshot(result);
-            } else {
-              setAfterScreenshot(result);
-            }
-          };
-          reader.readAsDataURL(file);
-        }
-      }
-    }
-  };
-
-  const handleBeforeScreenshot = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const result = event.target?.result as string;
-        setBeforeScreenshot(result);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const handleAfterScreenshot = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const result = event.target?.result as string;
-        setAfterScreenshot(result);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const clearBeforeScreenshot = () => {
-    setBeforeScreenshot(null);
-  };
-
-  const clearAfterScreenshot = () => {
-    setAfterScreenshot(null);
-  };
-
-  const handleScreenshot = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const result = event.target?.result as string;
-        setScreenshot(result);
-        setPreviewUrl(result);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const clearScreenshot = () => {
-    setScreenshot(null);
-    setPreviewUrl(null);
-  };
-
   /**
    * Validate form data before submission using centralized validation
    */
@@ -164,17 +124,28 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
       return;
     }
 
+    // Saving with open checklist items is allowed, but the trade counts as rules broken
+    const unchecked = getUncheckedItems(checklistAnswers);
+    if (unchecked.length > 0 && !window.confirm(
+      `${unchecked.length} checklist item(s) not confirmed:\n${unchecked.map(a => `• ${a.text}`).join('\n')}\n\nSave anyway? The trade will be marked as not following your rules.`
+    )) {
+      return;
+    }
+
     try {
       const trade = convertFormToTrade({
         ...formData,
-        beforeTradeScreenshot: beforeScreenshot || undefined,
-        afterExitScreenshot: afterScreenshot || undefined,
+        checklist: checklistAnswers,
+        screenshots,
       });
       addTrade(trade);
 
       // Reset form after successful submission (keep the same currency preference)
       setFormData(prev => ({
+        accountId: prev.accountId, // Keep logging into the same account
+        status: prev.status, // Keep logging with the same status
         date: new Date().toISOString().split('T')[0],
+        exitDate: '',
         symbol: '',
         tradeType: 'Intraday',
         setupName: '',
@@ -198,10 +169,15 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
         limit: '',
         exit: '',
         ruleFollowed: true,
+        executions: [],
+        options: { underlying: '', strategy: '', legs: [] },
+        tags: [],
+        customFields: {},
+        checklist: [],
+        ideaIds: [],
       }));
-      clearBeforeScreenshot();
-      clearAfterScreenshot();
-      clearScreenshot();
+      setScreenshots([]);
+      setTemplateId('');
       setErrors({});
       setSubmitStatus('success');
 
@@ -214,27 +190,92 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
     }
   };
 
+  // Picking an account also switches the trade currency to the account's currency
+  const handleAccountChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const account = accounts.find(a => a.id === e.target.value);
+    setFormData(prev => ({
+      ...prev,
+      accountId: e.target.value,
+      currency: account ? account.currency : prev.currency,
+    }));
+  };
+
+  // Picking a template fills in its defaults and starts a fresh checklist
+  const handleTemplateChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const template = templates.find(t => t.id === e.target.value);
+    setTemplateId(e.target.value);
+    if (!template) return;
+    setFormData(prev => ({
+      ...prev,
+      symbol: template.symbol || prev.symbol,
+      setupName: template.setupName || prev.setupName,
+      tradeType: template.tradeType,
+      position: template.position || prev.position,
+      timeFrame: template.timeFrame || prev.timeFrame,
+      preNotes: template.preNotes || prev.preNotes,
+      session: (template.session as TradeFormData['session']) || prev.session,
+      marketCondition: (template.marketCondition as TradeFormData['marketCondition']) || prev.marketCondition,
+      plannedRTarget: template.plannedRTarget !== undefined ? String(template.plannedRTarget) : prev.plannedRTarget,
+      checklist: [],
+    }));
+  };
+
   // Get current currency symbol
-  const currentCurrencySymbol = CURRENCY_SYMBOLS[formData.currency] || '₹';
+  const currentCurrencySymbol = getCurrencySymbol(formData.currency) || '₹';
+  const isClosed = formData.status === 'closed';
+  const instrument = findInstrument(formData.symbol);
+  const playbookSetup = findSetupByName(formData.setupName, setups);
+  // Archived ideas are hidden unless already linked
+  const linkableIdeas = ideas.filter(i => i.status !== 'archived' || formData.ideaIds?.includes(i.id));
+  // Answers follow the chosen template's checklist, else the selected setup's current one
+  const template = templates.find(t => t.id === templateId);
+  const checklistOwner = template?.checklist?.length ? template : playbookSetup;
+  const checklistAnswers = buildChecklistAnswers(checklistOwner?.checklist || [], formData.checklist);
+  const pointValue = instrument?.pointValue || 1;
+  const quantityValue = parseFloat(formData.quantity);
+  const isOddLot = !!instrument && quantityValue > 0 && !isWholeLots(quantityValue, instrument.lotSize);
+
+  /**
+   * Snap an alias to the registry symbol and take the instrument's currency
+   */
+  const handleSymbolBlur = () => {
+    if (!instrument) return;
+    setFormData(prev => ({ ...prev, symbol: instrument.symbol, currency: instrument.currency }));
+  };
 
   // Calculate live P&L and R-Factor for preview (only if prices are provided)
   // Also show auto-derived W/L based on P&L
   const livePreviewValues = (() => {
     try {
+      // Execution legs take precedence over single entry/exit prices
+      const executions = parseExecutionRows(formData.executions);
+      if (hasExecutionLegs(executions)) {
+        const pnl = calculatePnL(0, 0, 0, formData.position, parseFormCharges(formData).total, executions, pointValue);
+        const stopLoss = parseFloat(formData.stopLoss);
+        const rFactor = isNaN(stopLoss)
+          ? 0
+          : calculateRFactor(pnl, stopLoss, getWeightedAveragePrice(executions, 'entry'), formData.position, 0, executions, pointValue);
+        const outcome = getTradeOutcome(pnl);
+        return { pnl: pnl.toFixed(2), rFactor: rFactor.toFixed(2), outcome };
+      }
       if (formData.entryPrice && formData.exitPrice && formData.quantity && formData.stopLoss) {
         const pnl = calculatePnL(
           parseFloat(formData.entryPrice),
           parseFloat(formData.exitPrice),
           parseFloat(formData.quantity),
           formData.position,
-          parseFloat(formData.fees) || 0
+          parseFormCharges(formData).total,
+          undefined,
+          pointValue
         );
         const rFactor = calculateRFactor(
           pnl,
           parseFloat(formData.stopLoss),
           parseFloat(formData.entryPrice),
           formData.position,
-          parseFloat(formData.quantity)
+          parseFloat(formData.quantity),
+          undefined,
+          pointValue
         );
         const outcome = getTradeOutcome(pnl);
         return { pnl: pnl.toFixed(2), rFactor: rFactor.toFixed(2), outcome };
@@ -242,10 +283,7 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
       // Also show preview when manualProfit is entered
       if (formData.manualProfit) {
         const grossPnl = parseFloat(formData.manualProfit);
-        const brokerageVal = parseFloat(formData.brokerage || '0') || 0;
-        const exchangeVal = parseFloat(formData.exchangeCharges || '0') || 0;
-        const taxesVal = parseFloat(formData.taxes || '0') || 0;
-        const totalCharges = brokerageVal + exchangeVal + taxesVal;
+        const totalCharges = parseFormCharges(formData).total;
         const netPnl = grossPnl - totalCharges;
         const outcome = getTradeOutcome(netPnl);
         return { pnl: netPnl.toFixed(2), grossPnl: grossPnl.toFixed(2), charges: totalCharges.toFixed(2), rFactor: formData.exitRFactor || '0', outcome };
@@ -270,8 +308,58 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
         </CardHeader>
         <CardContent className="p-3 sm:p-6">
           <form onSubmit={handleSubmit} className="space-y-5 sm:space-y-6 lg:space-y-8">
-            {/* Date and Trade Type */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {/* Template (only when templates exist) */}
+            {templates.length > 0 && (
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Template</label>
+                <select
+                  value={templateId}
+                  onChange={handleTemplateChange}
+                  className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">No template</option>
+                  {templates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Account (only when accounts are configured) */}
+            {activeAccounts.length > 0 && (
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Account</label>
+                <select
+                  name="accountId"
+                  value={formData.accountId || ''}
+                  onChange={handleAccountChange}
+                  className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">No account</option>
+                  {activeAccounts.map(account => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}{account.broker ? ` (${account.broker})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Status, Dates and Trade Type */}
+            <div className={`grid grid-cols-1 gap-4 ${formData.status === 'closed' ? 'sm:grid-cols-2 lg:grid-cols-4' : 'sm:grid-cols-3'}`}>
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Status*</label>
+                <select
+                  name="status"
+                  value={formData.status}
+                  onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as TradeStatus }))}
+                  className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="closed">Closed</option>
+                  <option value="open">Open</option>
+                  <option value="planned">Planned</option>
+                </select>
+              </div>
               <div>
                 <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Trade Date*</label>
                 <input
@@ -282,6 +370,24 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
                   className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                 />
               </div>
+              {formData.status === 'closed' && (
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Exit Date</label>
+                  <input
+                    type="date"
+                    name="exitDate"
+                    value={formData.exitDate || ''}
+                    min={formData.date}
+                    onChange={handleInputChange}
+                    className={`w-full px-3 py-2 bg-input border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary ${errors.exitDate ? 'border-red-500' : 'border-border'}`}
+                  />
+                  {errors.exitDate ? (
+                    <p className="text-xs text-red-500 mt-1">{errors.exitDate}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground mt-1">Leave blank if closed the same day</p>
+                  )}
+                </div>
+              )}
               <div>
                 <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Trade Type*</label>
                 <select
@@ -307,9 +413,22 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
                   name="symbol"
                   value={formData.symbol}
                   onChange={handleInputChange}
+                  onBlur={handleSymbolBlur}
+                  list="instrument-symbols"
+                  autoComplete="off"
                   placeholder="e.g., AAPL, EURUSD"
                   className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
                 />
+                <datalist id="instrument-symbols">
+                  {instruments.flatMap(i => [i.symbol, ...i.aliases].map(name => (
+                    <option key={`${i.id}-${name}`} value={name}>{[i.name, i.exchange].filter(Boolean).join(' · ')}</option>
+                  )))}
+                </datalist>
+                {instrument && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {instrument.exchange || instrument.assetClass} · Lot {instrument.lotSize} · Tick {instrument.tickSize} · {getCurrencySymbol(instrument.currency)}{instrument.pointValue}/pt
+                  </p>
+                )}
               </div>
               <div>
                 <label className="block text-sm font-medium text-foreground mb-2">Setup Name*</label>
@@ -320,6 +439,16 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
                   className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
                 >
                   <option value="">Select a setup</option>
+                  {prefill?.setupName && (
+                    <option value={prefill.setupName}>{prefill.setupName}</option>
+                  )}
+                  {activeSetups.length > 0 && (
+                    <optgroup label="Playbook">
+                      {activeSetups.map(setup => (
+                        <option key={setup.id} value={setup.name}>{setup.name}</option>
+                      ))}
+                    </optgroup>
+                  )}
                   <option value="FOMO">FOMO</option>
                   <option value="PINBAR">PINBAR</option>
                   <option value="BULLISH REVERSE PINBAR">BULLISH REVERSE PINBAR</option>
@@ -348,6 +477,11 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
                   <option value="CHANNEL BOUNCE">CHANNEL BOUNCE</option>
                   <option value="GAP FILL">GAP FILL</option>
                 </select>
+                {playbookSetup && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Linked to playbook setup {playbookSetup.name}{playbookSetup.targetR ? ` · Target ${playbookSetup.targetR}R` : ''}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -453,6 +587,28 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
               </div>
             </div>
 
+            {/* Scaled entries / exits */}
+            <ExecutionLegsEditor
+              legs={formData.executions || []}
+              onChange={legs => setFormData(prev => ({ ...prev, executions: legs }))}
+              position={formData.position}
+              stopLoss={formData.stopLoss}
+              pointValue={pointValue}
+              currencySymbol={currentCurrencySymbol}
+              error={errors.executions}
+            />
+
+            {/* Option contracts / multi-leg strategies */}
+            <OptionLegsEditor
+              value={formData.options || { underlying: '', strategy: '', legs: [] }}
+              onChange={options => setFormData(prev => ({ ...prev, options }))}
+              symbol={formData.symbol}
+              date={formData.date}
+              pointValue={pointValue}
+              currencySymbol={currentCurrencySymbol}
+              error={errors.options}
+            />
+
             {/* Exit (Fibonacci Level) */}
             <div>
               <label className="block text-sm font-medium text-foreground mb-2">Exit (Fibonacci Level)*</label>
@@ -482,8 +638,21 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
               {errors.exit && <p className="text-xs text-red-500 mt-1">{errors.exit}</p>}
             </div>
 
-            {/* Quantity / Lot Size */}
-            <div className="grid grid-cols-1 gap-4">
+            {/* Size the position from equity, risk % and the stop */}
+            <PositionSizeCalculator
+              accountId={formData.accountId}
+              currency={formData.currency}
+              position={formData.position}
+              entryPrice={formData.entryPrice}
+              stopLoss={formData.stopLoss}
+              plannedRTarget={formData.plannedRTarget}
+              lotSize={instrument?.lotSize}
+              pointValue={pointValue}
+              onApply={values => setFormData(prev => ({ ...prev, ...values }))}
+            />
+
+            {/* Quantity / Lot Size, with the planned target and risk */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
               <div>
                 <label className="block text-sm font-medium text-foreground mb-2">Quantity / Lot Size*</label>
                 <input
@@ -496,6 +665,33 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
                   className={`w-full px-3 py-2 bg-input border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary ${errors.quantity ? 'border-red-500' : 'border-border'}`}
                 />
                 {errors.quantity && <p className="text-xs text-red-500 mt-1">{errors.quantity}</p>}
+                {!errors.quantity && isOddLot && (
+                  <p className="text-xs text-yellow-500 mt-1">Not a whole number of lots (lot size {instrument?.lotSize})</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Target Price</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  name="targetPrice"
+                  value={formData.targetPrice || ''}
+                  onChange={handleInputChange}
+                  placeholder="0.00"
+                  className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Planned Risk ({currentCurrencySymbol})</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  name="plannedRiskAmount"
+                  value={formData.plannedRiskAmount || ''}
+                  onChange={handleInputChange}
+                  placeholder="0.00"
+                  className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                />
               </div>
             </div>
 
@@ -526,49 +722,58 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
                   onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value as Currency }))}
                   className="w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
                 >
-                  <option value="INR">INR (₹)</option>
-                  <option value="USD">USD ($)</option>
-                  <option value="EUR">EUR (€)</option>
-                  <option value="GBP">GBP (£)</option>
-                  <option value="JPY">JPY (¥)</option>
-                  <option value="AUD">AUD (A$)</option>
-                  <option value="CAD">CAD (C$)</option>
+                  {currencies.map(c => (
+                    <option key={c.code} value={c.code}>{c.code} ({c.symbol})</option>
+                  ))}
                 </select>
+                {formData.currency !== BASE_CURRENCY && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    1 {formData.currency} = {getCurrencySymbol(BASE_CURRENCY)}{getExchangeRateToBase(formData.currency, (isClosed && formData.exitDate) || formData.date)} on {(isClosed && formData.exitDate) || formData.date}
+                  </p>
+                )}
               </div>
-              <div className="sm:col-span-2">
-                <label className="block text-sm font-medium text-foreground mb-2">Gross P&L (Before Brokerage) - Mandatory*</label>
-                <div className="relative">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">{currentCurrencySymbol}</span>
-                  <input
-                    type="number"
-                    step="0.01"
-                    name="manualProfit"
-                    value={formData.manualProfit}
-                    onChange={handleInputChange}
-                    placeholder="e.g., 250.50 or -125.00"
-                    className={`w-full pl-8 pr-3 py-2 bg-input border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary ${errors.manualProfit ? 'border-red-500' : 'border-border'}`}
-                  />
+              {isClosed ? (
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-foreground mb-2">Gross P&L (Before Brokerage) - Mandatory*</label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">{currentCurrencySymbol}</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      name="manualProfit"
+                      value={formData.manualProfit}
+                      onChange={handleInputChange}
+                      placeholder="e.g., 250.50 or -125.00"
+                      className={`w-full pl-8 pr-3 py-2 bg-input border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary ${errors.manualProfit ? 'border-red-500' : 'border-border'}`}
+                    />
+                  </div>
+                  {errors.manualProfit && <p className="text-xs text-red-500 mt-1">{errors.manualProfit}</p>}
+                  <p className="text-xs text-muted-foreground mt-1">Enter gross P&L. Brokerage is auto-deducted. W/L derived from net P&L.</p>
                 </div>
-                {errors.manualProfit && <p className="text-xs text-red-500 mt-1">{errors.manualProfit}</p>}
-                <p className="text-xs text-muted-foreground mt-1">Enter gross P&L. Brokerage is auto-deducted. W/L derived from net P&L.</p>
-              </div>
+              ) : (
+                <p className="sm:col-span-2 self-end text-xs text-muted-foreground">
+                  P&L and R are filled in when the position is closed from the Dashboard.
+                </p>
+              )}
             </div>
 
             {/* R Factor (Mandatory) */}
-            <div>
-              <label className="block text-sm font-medium text-foreground mb-2">R Factor (Risk Multiple) - Mandatory*</label>
-              <p className="text-xs text-muted-foreground mb-2">Enter the risk multiple. Sign is auto-corrected based on P&L (loss = negative R).</p>
-              <input
-                type="number"
-                step="0.1"
-                name="exitRFactor"
-                value={formData.exitRFactor}
-                onChange={handleInputChange}
-                placeholder="e.g., 2.5 (sign auto-corrected based on P&L)"
-                className={`w-full px-3 py-2 bg-input border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary ${errors.exitRFactor ? 'border-red-500' : 'border-border'}`}
-              />
-              {errors.exitRFactor && <p className="text-xs text-red-500 mt-1">{errors.exitRFactor}</p>}
-            </div>
+            {isClosed && (
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">R Factor (Risk Multiple) - Mandatory*</label>
+                <p className="text-xs text-muted-foreground mb-2">Enter the risk multiple. Sign is auto-corrected based on P&L (loss = negative R).</p>
+                <input
+                  type="number"
+                  step="0.1"
+                  name="exitRFactor"
+                  value={formData.exitRFactor}
+                  onChange={handleInputChange}
+                  placeholder="e.g., 2.5 (sign auto-corrected based on P&L)"
+                  className={`w-full px-3 py-2 bg-input border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary ${errors.exitRFactor ? 'border-red-500' : 'border-border'}`}
+                />
+                {errors.exitRFactor && <p className="text-xs text-red-500 mt-1">{errors.exitRFactor}</p>}
+              </div>
+            )}
 
             {/* Confidence */}
             <div>
@@ -668,71 +873,91 @@ export default function TradeForm({ onSuccess }: TradeFormProps) {
               </select>
             </div>
 
-            {/* Screenshot Uploads */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-              {/* Before Trade Screenshot */}
+            {/* Custom Fields */}
+            {customFields.length > 0 && (
               <div>
-                <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Before Trade</label>
-                {beforeScreenshot ? (
-                  <div className="relative inline-block w-full">
-                    <ScreenshotViewer imageUrl={beforeScreenshot} title="Before Trade Screenshot" />
-                    <button
-                      type="button"
-                      onClick={clearBeforeScreenshot}
-                      className="absolute top-2 right-2 p-1 bg-red-600 rounded-full hover:bg-red-700 transition-colors"
-                      title="Remove image"
-                    >
-                      <X className="w-4 h-4 text-white" />
-                    </button>
-                  </div>
-                ) : (
-                  <div
-                    onPaste={handlePasteImage('before')}
-                    className="flex items-center justify-center w-full p-4 sm:p-6 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-secondary transition-colors"
-                  >
-                    <label className="w-full text-center cursor-pointer">
-                      <div>
-                        <Upload className="w-5 h-5 sm:w-6 sm:h-6 mx-auto text-muted-foreground mb-2" />
-                        <span className="text-xs sm:text-sm text-foreground block">Upload or paste</span>
-                      </div>
-                      <input type="file" accept="image/*" onChange={handleBeforeScreenshot} className="hidden" />
-                    </label>
-                  </div>
-                )}
+                <label className="block text-sm font-medium text-foreground mb-2">Custom Fields</label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {customFields.map(field => (
+                    <div key={field.id}>
+                      {field.type !== 'boolean' && (
+                        <label className="block text-xs text-muted-foreground mb-1">{field.name}</label>
+                      )}
+                      <CustomFieldInput
+                        field={field}
+                        value={formData.customFields?.[field.id]}
+                        onChange={value => setFormData(prev => ({ ...prev, customFields: { ...prev.customFields, [field.id]: value } }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+                {errors.customFields && <p className="text-xs text-red-500 mt-1">{errors.customFields}</p>}
               </div>
+            )}
 
-              {/* After Exit Screenshot */}
+            {/* Trade ideas this trade executes */}
+            {linkableIdeas.length > 0 && (
               <div>
-                <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">After Exit</label>
-                {afterScreenshot ? (
-                  <div className="relative inline-block w-full">
-                    <ScreenshotViewer imageUrl={afterScreenshot} title="After Exit Screenshot" />
-                    <button
-                      type="button"
-                      onClick={clearAfterScreenshot}
-                      className="absolute top-2 right-2 p-1 bg-red-600 rounded-full hover:bg-red-700 transition-colors"
-                      title="Remove image"
-                    >
-                      <X className="w-4 h-4 text-white" />
-                    </button>
-                  </div>
-                ) : (
-                  <div
-                    onPaste={handlePasteImage('after')}
-                    className="flex items-center justify-center w-full p-4 sm:p-6 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-secondary transition-colors"
-                  >
-                    <label className="w-full text-center cursor-pointer">
-                      <div>
-                        <Upload className="w-5 h-5 sm:w-6 sm:h-6 mx-auto text-muted-foreground mb-2" />
-                        <span className="text-xs sm:text-sm text-foreground block">Upload or paste</span>
-                      </div>
-                      <input type="file" accept="image/*" onChange={handleAfterScreenshot} className="hidden" />
-                    </label>
-                  </div>
-                )}
+                <label className="block text-sm font-medium text-foreground mb-2">Trade Ideas</label>
+                <div className="flex flex-wrap gap-1.5">
+                  {linkableIdeas.map(idea => {
+                    const isSelected = formData.ideaIds?.includes(idea.id) || false;
+                    return (
+                      <button
+                        key={idea.id}
+                        type="button"
+                        onClick={() => setFormData(prev => ({
+                          ...prev,
+                          ideaIds: isSelected ? (prev.ideaIds || []).filter(id => id !== idea.id) : [...(prev.ideaIds || []), idea.id],
+                        }))}
+                        className={`px-2.5 py-1 rounded-full border text-xs transition-colors ${isSelected ? 'bg-primary text-primary-foreground border-primary' : 'bg-secondary text-foreground border-border hover:bg-secondary/80'}`}
+                      >
+                        {idea.name}
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">Linked ideas collect this trade in their live results</p>
               </div>
+            )}
+
+            {/* Tags */}
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Tags</label>
+              <TagInput
+                value={formData.tags || []}
+                onChange={tags => setFormData(prev => ({ ...prev, tags }))}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Use / for nested tags, e.g. news/cpi or pattern/pinbar</p>
             </div>
 
+            {/* Screenshot Uploads */}
+            <ScreenshotManager screenshots={screenshots} onChange={setScreenshots} />
+
+            {/* Pre-trade checklist of the template or playbook setup */}
+            {checklistAnswers.length > 0 && (
+              <div className="p-4 bg-secondary rounded-lg border border-border">
+                <label className="block text-sm font-medium text-foreground mb-1">Pre-Trade Checklist · {checklistOwner?.name}</label>
+                <p className="text-xs text-muted-foreground mb-3">The trade counts as following your rules only when every item is confirmed.</p>
+                <div className="space-y-2">
+                  {checklistAnswers.map(answer => (
+                    <label key={answer.itemId} className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={answer.checked}
+                        onChange={e => setFormData(prev => ({
+                          ...prev,
+                          checklist: checklistAnswers.map(a => (a.itemId === answer.itemId ? { ...a, checked: e.target.checked } : a)),
+                        }))}
+                        className="w-4 h-4"
+                      />
+                      {answer.text}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Submit Button */}
             <Button type="submit" className="w-full bg-primary hover:bg-primary/90 text-primary-foreground text-sm sm:text-base py-2 sm:py-2.5">
               Add Trade
@@ -1,35 +1,83 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useEffect } from 'react';
 import { useTrades } from '@/lib/trade-context';
+import { useCustomFields } from '@/lib/custom-fields-context';
+import { useIdeas } from '@/lib/ideas-context';
+import { formatCustomFieldValue } from '@/lib/custom-fields';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Trade } from '@/lib/types';
+import { Trade, Revision } from '@/lib/types';
 import { Trash2, Eye, Filter } from 'lucide-react';
-import { CURRENCY_SYMBOLS, getTradeOutcome } from '@/lib/trade-utils';
-import { ScreenshotViewer } from './screenshot-viewer';
+import { getCurrencySymbol, getTradeOutcome, getTradeStatus, hasExecutionLegs, summarizeExecutions } from '@/lib/trade-utils';
+import { getPointValue } from '@/lib/instrument-registry';
+import { getOptionRiskProfile, getDaysToExpiry, OPTION_STRATEGY_LABELS } from '@/lib/options-utils';
+import { ScreenshotViewer, ScreenshotThumbnail } from './screenshot-viewer';
+import { PageControls } from './page-controls';
+import { RevisionTimeline } from './revision-timeline';
+import { TagList } from './tag-input';
+import { TRADE_INDEXES } from '@/lib/db-service';
+import { showUndoToast } from '@/lib/undo-toast';
+
+const PAGE_SIZE = 50;
 
 export default function TradeLog() {
-  const { trades, deleteTrade } = useTrades();
+  const { deleteTrade, restoreTrade, revertTrade, tradesRevision, getTradesPage, getTradeFieldValues } = useTrades();
   const [selectedTrade, setSelectedTrade] = useState<Trade | null>(null);
   const [sortBy, setSortBy] = useState<'date' | 'pnl'>('date');
   const [filterSetup, setFilterSetup] = useState('All');
+  const [page, setPage] = useState(0);
+  const [pageTrades, setPageTrades] = useState<Trade[]>([]);
+  const [totalTrades, setTotalTrades] = useState(0);
+  const [setupNames, setSetupNames] = useState<string[]>(['All']);
+  const { customFields } = useCustomFields();
+  const { ideas } = useIdeas();
+  const logFields = customFields.filter(f => f.showInLog);
+
+  useEffect(() => {
+    getTradeFieldValues('setupName')
+      .then(names => setSetupNames(['All', ...names]))
+      .catch(err => console.error('[TradeLog] Failed to load setups:', err));
+  }, [tradesRevision]);
 
-  const setupNames = useMemo(() => {
-    return ['All', ...new Set(trades.map(t => t.setupName))];
-  }, [trades]);
+  /**
+   * Effect: Load the current page straight from the date/P&L index
+   */
+  useEffect(() => {
+    let cancelled = false;
+    getTradesPage({
+      index: sortBy === 'date' ? TRADE_INDEXES.DATE : TRADE_INDEXES.PNL,
+      direction: 'prev',
+      offset: page * PAGE_SIZE,
+      limit: PAGE_SIZE,
+      filter: filterSetup === 'All' ? undefined : t => t.setupName === filterSetup,
+    })
+      .then(result => {
+        if (cancelled) return;
+        // Deleting the last trade on a page steps back to the previous one
+        if (result.items.length === 0 && page > 0) {
+          setPage(page - 1);
+          return;
+        }
+        setPageTrades(result.items);
+        setTotalTrades(result.total);
+      })
+      .catch(err => console.error('[TradeLog] Failed to load trades:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [page, sortBy, filterSetup, tradesRevision]);
 
-  const filteredAndSortedTrades = useMemo(() => {
-    let filtered = filterSetup === 'All' ? trades : trades.filter(t => t.setupName === filterSetup);
+  const handleDelete = (trade: Trade) => {
+    deleteTrade(trade.id);
+    if (selectedTrade?.id === trade.id) setSelectedTrade(null);
+    showUndoToast(`${trade.symbol} trade moved to trash`, () => restoreTrade(trade.id));
+  };
 
-    return filtered.sort((a, b) => {
-      if (sortBy === 'date') {
-        return new Date(b.date).getTime() - new Date(a.date).getTime();
-      } else {
-        return b.pnl - a.pnl;
-      }
-    });
-  }, [trades, sortBy, filterSetup]);
+  const handleRevert = async (revision: Revision) => {
+    await revertTrade(revision);
+    setSelectedTrade(revision.snapshot as Trade);
+  };
 
   return (
     <div className="w-full min-h-screen flex flex-col gap-3 sm:gap-4 lg:gap-6 p-2 sm:p-4 lg:p-6 overflow-hidden">
@@ -44,7 +92,10 @@ export default function TradeLog() {
           <Filter className="w-4 h-4 text-muted-foreground flex-shrink-0" />
           <select
             value={filterSetup}
-            onChange={e => setFilterSetup(e.target.value)}
+            onChange={e => {
+              setFilterSetup(e.target.value);
+              setPage(0);
+            }}
             className="flex-1 px-3 py-2 bg-secondary border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
           >
             {setupNames.map(setup => (
@@ -59,7 +110,10 @@ export default function TradeLog() {
           <span className="text-sm text-muted-foreground flex-shrink-0">Sort:</span>
           <select
             value={sortBy}
-            onChange={e => setSortBy(e.target.value as 'date' | 'pnl')}
+            onChange={e => {
+              setSortBy(e.target.value as 'date' | 'pnl');
+              setPage(0);
+            }}
             className="flex-1 px-3 py-2 bg-secondary border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
           >
             <option value="date">Date (Newest)</option>
@@ -67,11 +121,11 @@ export default function TradeLog() {
           </select>
         </div>
 
-        <span className="text-sm text-muted-foreground">{filteredAndSortedTrades.length} trades</span>
+        <span className="text-sm text-muted-foreground">{totalTrades} trades</span>
       </div>
 
       {/* Table/Cards */}
-      {filteredAndSortedTrades.length === 0 ? (
+      {totalTrades === 0 ? (
         <Card className="bg-card border-border">
           <CardContent className="p-8 sm:p-12 text-center">
             <p className="text-muted-foreground">No trades found. Add your first trade to get started!</p>
@@ -96,29 +150,42 @@ export default function TradeLog() {
                     <th className="text-right px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm font-semibold text-foreground whitespace-nowrap">R</th>
                     <th className="text-center px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm font-semibold text-foreground whitespace-nowrap">W/L</th>
                     <th className="text-center px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm font-semibold text-foreground whitespace-nowrap">Conf</th>
+                    {logFields.map(field => (
+                      <th key={field.id} className="text-left px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm font-semibold text-foreground whitespace-nowrap">{field.name}</th>
+                    ))}
                     <th className="text-center px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm font-semibold text-foreground whitespace-nowrap">Act</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredAndSortedTrades.map(trade => (
+                  {pageTrades.map(trade => (
                     <tr key={trade.id} className="border-b border-border hover:bg-secondary transition-colors">
                       <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm text-foreground">{trade.date}</td>
                       <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm text-muted-foreground">{trade.dayOfWeek.slice(0, 3)}</td>
-                      <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm font-medium text-foreground">{trade.symbol}</td>
+                      <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm font-medium text-foreground">
+                        <div className="flex items-center gap-2">
+                          {trade.screenshots?.[0] && (
+                            <ScreenshotThumbnail screenshotId={trade.screenshots[0].id} count={trade.screenshots.length} />
+                          )}
+                          {trade.symbol}
+                        </div>
+                      </td>
                       <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm text-foreground truncate" title={trade.setupName}>{trade.setupName}</td>
                       <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm">
                         <span className={`px-2 py-1 rounded text-xs font-semibold ${trade.position === 'Buy' ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
                           {trade.position === 'Buy' ? 'B' : 'S'}
                         </span>
                       </td>
-                      <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm text-right text-foreground">{trade.entryPrice ? `${CURRENCY_SYMBOLS[trade.currency] || '$'}${trade.entryPrice.toFixed(2)}` : 'N/A'}</td>
-                      <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm text-right text-foreground">{trade.exitPrice ? `${CURRENCY_SYMBOLS[trade.currency] || '$'}${trade.exitPrice.toFixed(2)}` : 'N/A'}</td>
+                      <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm text-right text-foreground">{trade.entryPrice ? `${getCurrencySymbol(trade.currency) || '$'}${trade.entryPrice.toFixed(2)}` : 'N/A'}</td>
+                      <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm text-right text-foreground">{trade.exitPrice ? `${getCurrencySymbol(trade.currency) || '$'}${trade.exitPrice.toFixed(2)}` : 'N/A'}</td>
                       <td className={`px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm text-right font-semibold ${trade.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                        {CURRENCY_SYMBOLS[trade.currency] || '$'}{trade.pnl.toFixed(2)}
+                        {getCurrencySymbol(trade.currency) || '$'}{trade.pnl.toFixed(2)}
                       </td>
                       <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm text-right text-foreground">{trade.rFactor.toFixed(2)}R</td>
                       <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-center">
                         {/* W/L derived from P&L, not deprecated isWin field */}
+                        {getTradeStatus(trade) !== 'closed' ? (
+                          <span className="text-xs font-semibold text-blue-400 capitalize">{getTradeStatus(trade)}</span>
+                        ) : (
                         <span className={`text-xs font-semibold ${
                           getTradeOutcome(trade.pnl) === 'W' ? 'text-green-400' : 
                           getTradeOutcome(trade.pnl) === 'L' ? 'text-red-400' : 
@@ -126,14 +193,20 @@ export default function TradeLog() {
                         }`}>
                           {getTradeOutcome(trade.pnl)}
                         </span>
+                        )}
                       </td>
                       <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-center text-xs sm:text-sm text-foreground">{trade.confidence}</td>
+                      {logFields.map(field => (
+                        <td key={field.id} className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm text-foreground whitespace-nowrap">
+                          {formatCustomFieldValue(field, trade.customFields?.[field.id]) || '-'}
+                        </td>
+                      ))}
                       <td className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-center">
                         <div className="flex items-center justify-center gap-1 sm:gap-2">
                           <button onClick={() => setSelectedTrade(trade)} className="text-primary hover:text-primary/80 transition-colors p-1" title="View">
                             <Eye className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
                           </button>
-                          <button onClick={() => deleteTrade(trade.id)} className="text-red-400 hover:text-red-300 transition-colors p-1" title="Delete">
+                          <button onClick={() => handleDelete(trade)} className="text-red-400 hover:text-red-300 transition-colors p-1" title="Delete">
                             <Trash2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
                           </button>
                         </div>
@@ -147,12 +220,17 @@ export default function TradeLog() {
 
           {/* Mobile & Tablet Card View */}
           <div className="md:hidden space-y-2 sm:space-y-3">
-            {filteredAndSortedTrades.map(trade => (
+            {pageTrades.map(trade => (
               <Card key={trade.id} className="bg-card border-border">
                 <CardContent className="p-4 space-y-3">
                   <div className="flex items-start justify-between gap-2">
                     <div className="min-w-0">
-                      <p className="font-bold text-foreground text-lg">{trade.symbol}</p>
+                      <div className="flex items-center gap-2">
+                        {trade.screenshots?.[0] && (
+                          <ScreenshotThumbnail screenshotId={trade.screenshots[0].id} count={trade.screenshots.length} />
+                        )}
+                        <p className="font-bold text-foreground text-lg">{trade.symbol}</p>
+                      </div>
                       <p className="text-xs text-muted-foreground">{trade.date}</p>
                     </div>
                     <span className={`px-2 py-1 rounded text-xs font-semibold flex-shrink-0 ${trade.position === 'Buy' ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
@@ -163,11 +241,11 @@ export default function TradeLog() {
                   <div className="grid grid-cols-2 gap-2 text-sm">
                     <div>
                       <p className="text-xs text-muted-foreground">Entry</p>
-                      <p className="font-semibold text-foreground">{trade.entryPrice ? `${CURRENCY_SYMBOLS[trade.currency] || '$'}${trade.entryPrice.toFixed(2)}` : 'N/A'}</p>
+                      <p className="font-semibold text-foreground">{trade.entryPrice ? `${getCurrencySymbol(trade.currency) || '$'}${trade.entryPrice.toFixed(2)}` : 'N/A'}</p>
                     </div>
                     <div>
                       <p className="text-xs text-muted-foreground">Exit</p>
-                      <p className="font-semibold text-foreground">{trade.exitPrice ? `${CURRENCY_SYMBOLS[trade.currency] || '$'}${trade.exitPrice.toFixed(2)}` : 'N/A'}</p>
+                      <p className="font-semibold text-foreground">{trade.exitPrice ? `${getCurrencySymbol(trade.currency) || '$'}${trade.exitPrice.toFixed(2)}` : 'N/A'}</p>
                     </div>
                     <div>
                       <p className="text-xs text-muted-foreground">Setup</p>
@@ -183,7 +261,7 @@ export default function TradeLog() {
                     <div>
                       <p className="text-xs text-muted-foreground">Net P&L ({trade.currency || 'USD'})</p>
                       <p className={`font-bold text-sm ${trade.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                        {CURRENCY_SYMBOLS[trade.currency] || '$'}{trade.pnl.toFixed(2)}
+                        {getCurrencySymbol(trade.currency) || '$'}{trade.pnl.toFixed(2)}
                       </p>
                     </div>
                     <div>
@@ -193,6 +271,9 @@ export default function TradeLog() {
                     <div>
                       <p className="text-xs text-muted-foreground">Result</p>
                       {/* W/L derived from P&L */}
+                      {getTradeStatus(trade) !== 'closed' ? (
+                        <p className="font-bold text-sm text-blue-400 capitalize">{getTradeStatus(trade)}</p>
+                      ) : (
                       <p className={`font-bold text-sm ${
                         getTradeOutcome(trade.pnl) === 'W' ? 'text-green-400' : 
                         getTradeOutcome(trade.pnl) === 'L' ? 'text-red-400' : 
@@ -202,6 +283,7 @@ export default function TradeLog() {
                          getTradeOutcome(trade.pnl) === 'L' ? 'Loss' : 
                          'Break-Even'}
                       </p>
+                      )}
                     </div>
                   </div>
 
@@ -210,7 +292,7 @@ export default function TradeLog() {
                       <Eye className="w-4 h-4" />
                       <span className="text-xs font-medium">Details</span>
                     </button>
-                    <button onClick={() => deleteTrade(trade.id)} className="flex-1 flex items-center justify-center gap-1 text-red-400 hover:text-red-300 transition-colors py-2">
+                    <button onClick={() => handleDelete(trade)} className="flex-1 flex items-center justify-center gap-1 text-red-400 hover:text-red-300 transition-colors py-2">
                       <Trash2 className="w-4 h-4" />
                       <span className="text-xs font-medium">Delete</span>
                     </button>
@@ -219,6 +301,8 @@ export default function TradeLog() {
               </Card>
             ))}
           </div>
+
+          <PageControls page={page} pageSize={PAGE_SIZE} total={totalTrades} onPageChange={setPage} />
         </>
       )}
 
@@ -282,27 +366,39 @@ export default function TradeLog() {
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Currency</p>
-                  <p className="text-lg font-bold text-foreground">{selectedTrade.currency || 'USD'} ({CURRENCY_SYMBOLS[selectedTrade.currency] || '$'})</p>
+                  <p className="text-lg font-bold text-foreground">{selectedTrade.currency || 'USD'} ({getCurrencySymbol(selectedTrade.currency) || '$'})</p>
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Entry Price</p>
-                  <p className="text-lg font-bold text-foreground">{selectedTrade.entryPrice ? `${CURRENCY_SYMBOLS[selectedTrade.currency] || '$'}${selectedTrade.entryPrice.toFixed(2)}` : 'N/A'}</p>
+                  <p className="text-lg font-bold text-foreground">{selectedTrade.entryPrice ? `${getCurrencySymbol(selectedTrade.currency) || '$'}${selectedTrade.entryPrice.toFixed(2)}` : 'N/A'}</p>
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Exit Price</p>
-                  <p className="text-lg font-bold text-foreground">{selectedTrade.exitPrice ? `${CURRENCY_SYMBOLS[selectedTrade.currency] || '$'}${selectedTrade.exitPrice.toFixed(2)}` : 'N/A'}</p>
+                  <p className="text-lg font-bold text-foreground">{selectedTrade.exitPrice ? `${getCurrencySymbol(selectedTrade.currency) || '$'}${selectedTrade.exitPrice.toFixed(2)}` : 'N/A'}</p>
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Stop Loss</p>
-                  <p className="text-lg font-bold text-foreground">{CURRENCY_SYMBOLS[selectedTrade.currency] || '$'}{selectedTrade.stopLoss.toFixed(2)}</p>
+                  <p className="text-lg font-bold text-foreground">{getCurrencySymbol(selectedTrade.currency) || '$'}{selectedTrade.stopLoss.toFixed(2)}</p>
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Quantity</p>
                   <p className="text-lg font-bold text-foreground">{selectedTrade.quantity}</p>
                 </div>
+                {selectedTrade.targetPrice !== undefined && (
+                  <div>
+                    <p className="text-xs text-muted-foreground">Target Price</p>
+                    <p className="text-lg font-bold text-foreground">{getCurrencySymbol(selectedTrade.currency) || '$'}{selectedTrade.targetPrice.toFixed(2)}</p>
+                  </div>
+                )}
+                {selectedTrade.plannedRiskAmount !== undefined && (
+                  <div>
+                    <p className="text-xs text-muted-foreground">Planned Risk</p>
+                    <p className="text-lg font-bold text-foreground">{getCurrencySymbol(selectedTrade.currency) || '$'}{selectedTrade.plannedRiskAmount.toFixed(2)}</p>
+                  </div>
+                )}
                 <div>
                   <p className="text-xs text-muted-foreground">Fees</p>
-                  <p className="text-lg font-bold text-foreground">{CURRENCY_SYMBOLS[selectedTrade.currency] || '$'}{selectedTrade.fees.toFixed(2)}</p>
+                  <p className="text-lg font-bold text-foreground">{getCurrencySymbol(selectedTrade.currency) || '$'}{selectedTrade.fees.toFixed(2)}</p>
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Confidence</p>
@@ -310,17 +406,91 @@ export default function TradeLog() {
                 </div>
               </div>
 
+              {/* Option legs - strategy and payoff at expiry */}
+              {selectedTrade.options && (() => {
+                const profile = getOptionRiskProfile(selectedTrade.options.legs, getPointValue(selectedTrade.options.underlying));
+                const symbol = getCurrencySymbol(selectedTrade.currency) || '$';
+                const formatLimit = (amount: number | null) => (amount === null ? 'Unlimited' : `${symbol}${amount.toFixed(2)}`);
+                return (
+                  <div className="p-4 bg-secondary rounded-lg border border-border">
+                    <p className="text-xs text-muted-foreground mb-2">
+                      {OPTION_STRATEGY_LABELS[selectedTrade.options.strategy]} on {selectedTrade.options.underlying} · {getDaysToExpiry(selectedTrade)} DTE
+                    </p>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-xs text-muted-foreground">
+                          <th className="text-left py-1">Side</th>
+                          <th className="text-left py-1">Contract</th>
+                          <th className="text-left py-1">Expiry</th>
+                          <th className="text-right py-1">Premium</th>
+                          <th className="text-right py-1">Qty</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selectedTrade.options.legs.map(leg => (
+                          <tr key={leg.id} className="border-t border-border">
+                            <td className="py-1 text-foreground">{leg.side}</td>
+                            <td className="py-1 text-foreground">{leg.strike} {leg.optionType === 'call' ? 'CE' : 'PE'}</td>
+                            <td className="py-1 text-muted-foreground">{leg.expiry}</td>
+                            <td className="py-1 text-right text-foreground">{leg.premium.toFixed(2)}</td>
+                            <td className="py-1 text-right text-foreground">{leg.quantity}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Max risk <span className="text-red-400">{formatLimit(profile.maxRisk)}</span>
+                      {' · '}Max reward <span className="text-green-400">{formatLimit(profile.maxReward)}</span>
+                      {profile.breakevens.length > 0 && ` · Breakeven ${profile.breakevens.join(', ')}`}
+                    </p>
+                  </div>
+                );
+              })()}
+
+              {/* Execution legs - realized P&L per fill */}
+              {hasExecutionLegs(selectedTrade.executions) && (
+                <div className="p-4 bg-secondary rounded-lg border border-border">
+                  <p className="text-xs text-muted-foreground mb-2">Execution Legs</p>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-xs text-muted-foreground">
+                        <th className="text-left py-1">Side</th>
+                        <th className="text-left py-1">Time</th>
+                        <th className="text-right py-1">Price</th>
+                        <th className="text-right py-1">Qty</th>
+                        <th className="text-right py-1">Fees</th>
+                        <th className="text-right py-1">Realized</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summarizeExecutions(selectedTrade.executions, selectedTrade.position, getPointValue(selectedTrade.symbol)).legs.map(({ execution, realizedPnL }) => (
+                        <tr key={execution.id} className="border-t border-border">
+                          <td className="py-1 capitalize text-foreground">{execution.side}</td>
+                          <td className="py-1 text-muted-foreground">{execution.time || '-'}</td>
+                          <td className="py-1 text-right text-foreground">{execution.price.toFixed(2)}</td>
+                          <td className="py-1 text-right text-foreground">{execution.quantity}</td>
+                          <td className="py-1 text-right text-muted-foreground">{execution.fees.toFixed(2)}</td>
+                          <td className={`py-1 text-right font-semibold ${realizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {getCurrencySymbol(selectedTrade.currency) || '$'}{realizedPnL.toFixed(2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               {/* Results - shows currency and auto-derived outcome */}
               <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 p-4 bg-secondary rounded-lg border border-border">
                 <div>
                   <p className="text-xs text-muted-foreground">Net P&L ({selectedTrade.currency || 'USD'})</p>
                   <p className={`text-2xl font-bold ${selectedTrade.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                    {CURRENCY_SYMBOLS[selectedTrade.currency] || '$'}{selectedTrade.pnl.toFixed(2)}
+                    {getCurrencySymbol(selectedTrade.currency) || '$'}{selectedTrade.pnl.toFixed(2)}
                   </p>
                   {selectedTrade.fees > 0 && (
                     <p className="text-xs text-muted-foreground mt-1">
-                      Gross: <span className={(selectedTrade.pnl + selectedTrade.fees) >= 0 ? 'text-green-400' : 'text-red-400'}>{CURRENCY_SYMBOLS[selectedTrade.currency] || '$'}{(selectedTrade.pnl + selectedTrade.fees).toFixed(2)}</span>
-                      {' '} | Charges: <span className="text-orange-400">-{CURRENCY_SYMBOLS[selectedTrade.currency] || '$'}{selectedTrade.fees.toFixed(2)}</span>
+                      Gross: <span className={(selectedTrade.pnl + selectedTrade.fees) >= 0 ? 'text-green-400' : 'text-red-400'}>{getCurrencySymbol(selectedTrade.currency) || '$'}{(selectedTrade.pnl + selectedTrade.fees).toFixed(2)}</span>
+                      {' '} | Charges: <span className="text-orange-400">-{getCurrencySymbol(selectedTrade.currency) || '$'}{selectedTrade.fees.toFixed(2)}</span>
                     </p>
                   )}
                 </div>
@@ -330,6 +500,9 @@ export default function TradeLog() {
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Outcome (Auto)</p>
+                  {getTradeStatus(selectedTrade) !== 'closed' ? (
+                    <p className="text-2xl font-bold text-blue-400 capitalize">{getTradeStatus(selectedTrade)}</p>
+                  ) : (
                   <p className={`text-2xl font-bold ${
                     getTradeOutcome(selectedTrade.pnl) === 'W' ? 'text-green-400' : 
                     getTradeOutcome(selectedTrade.pnl) === 'L' ? 'text-red-400' : 
@@ -339,6 +512,7 @@ export default function TradeLog() {
                      getTradeOutcome(selectedTrade.pnl) === 'L' ? 'Loss' : 
                      'Break-Even'}
                   </p>
+                  )}
                 </div>
                 {selectedTrade.exitRFactor !== undefined && (
                   <div className="col-span-full">
@@ -365,6 +539,64 @@ export default function TradeLog() {
                 </div>
               )}
 
+              {/* Custom Fields */}
+              {customFields.some(f => selectedTrade.customFields?.[f.id] !== undefined) && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {customFields.filter(f => selectedTrade.customFields?.[f.id] !== undefined).map(field => (
+                    <div key={field.id}>
+                      <p className="text-xs text-muted-foreground mb-1">{field.name}</p>
+                      <p className="text-sm font-semibold text-foreground">{formatCustomFieldValue(field, selectedTrade.customFields?.[field.id])}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Trade ideas the trade executed */}
+              {selectedTrade.ideaIds && selectedTrade.ideaIds.length > 0 && (
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Trade Ideas</p>
+                  <p className="text-sm font-semibold text-foreground">
+                    {selectedTrade.ideaIds.map(id => ideas.find(i => i.id === id)?.name || 'Deleted idea').join(', ')}
+                  </p>
+                </div>
+              )}
+
+              {/* Pre-trade checklist answers */}
+              {selectedTrade.checklist && selectedTrade.checklist.length > 0 && (
+                <div>
+                  <p className="text-xs text-muted-foreground mb-2">Pre-Trade Checklist</p>
+                  <ul className="space-y-1">
+                    {selectedTrade.checklist.map(answer => (
+                      <li key={answer.itemId} className={`text-sm ${answer.checked ? 'text-foreground' : 'text-red-500'}`}>
+                        {answer.checked ? '✓' : '✗'} {answer.text}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Why the trading plan flagged the trade */}
+              {selectedTrade.planViolations && selectedTrade.planViolations.length > 0 && (
+                <div className="bg-destructive/10 border border-destructive/20 p-3 rounded-lg">
+                  <p className="text-xs text-muted-foreground mb-2">Trading Plan Violations</p>
+                  <ul className="space-y-1">
+                    {selectedTrade.planViolations.map(v => (
+                      <li key={v.rule} className="text-sm text-foreground">
+                        <span className="font-semibold text-red-500">{v.violation.replace(/_/g, ' ')}:</span> {v.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Tags */}
+              {selectedTrade.tags && selectedTrade.tags.length > 0 && (
+                <div>
+                  <p className="text-xs text-muted-foreground mb-2">Tags</p>
+                  <TagList tags={selectedTrade.tags} />
+                </div>
+              )}
+
               {/* Mistake Tag */}
               {selectedTrade.mistakeTag && (
                 <div>
@@ -375,27 +607,29 @@ export default function TradeLog() {
                 </div>
               )}
 
-              {/* Screenshots */}
-              {(selectedTrade.beforeTradeScreenshot || selectedTrade.afterExitScreenshot) && (
+              {/* Screenshots - thumbnails from the blob store, full size on click */}
+              {selectedTrade.screenshots && selectedTrade.screenshots.length > 0 && (
                 <div>
                   <p className="text-sm font-semibold text-foreground mb-3">Trade Screenshots</p>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                    {selectedTrade.beforeTradeScreenshot && (
-                      <div>
-                        <p className="text-xs text-muted-foreground mb-2">Before Trade</p>
-                        <ScreenshotViewer imageUrl={selectedTrade.beforeTradeScreenshot} title="Before Trade Screenshot" />
+                    {selectedTrade.screenshots.map(screenshot => (
+                      <div key={screenshot.id}>
+                        <p className="text-xs text-muted-foreground mb-2">{screenshot.label}</p>
+                        <ScreenshotViewer screenshotId={screenshot.id} title={screenshot.label} />
                       </div>
-                    )}
-                    {selectedTrade.afterExitScreenshot && (
-                      <div>
-                        <p className="text-xs text-muted-foreground mb-2">After Exit</p>
-                        <ScreenshotViewer imageUrl={selectedTrade.afterExitScreenshot} title="After Exit Screenshot" />
-                      </div>
-                    )}
+                    ))}
                   </div>
                 </div>
               )}
 
+              {/* Revision history - what changed and when */}
+              <RevisionTimeline
+                entityType="trade"
+                recordId={selectedTrade.id}
+                refreshKey={tradesRevision}
+                onRevert={handleRevert}
+              />
+
               <Button onClick={() => setSelectedTrade(null)} className="w-full bg-primary hover:bg-primary/90">
                 Close
               </Button>
@@ -1,13 +1,14 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useEffect } from 'react';
 import { useTrades } from '@/lib/trade-context';
 import { useFilters } from '@/lib/filters-context';
+import { useCustomFields } from '@/lib/custom-fields-context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Trade, TradeOutcome, TradeFilter, EmotionTag } from '@/lib/types';
+import { Trade, TradeOutcome, TradeFilter, EmotionTag, CustomFieldFilter } from '@/lib/types';
 import { Trash2, Save, Plus, X } from 'lucide-react';
 import {
   Dialog,
@@ -17,12 +18,17 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Checkbox } from '@/components/ui/checkbox';
+import { PageControls } from './page-controls';
+import { TRADE_INDEXES, toKeyRange } from '@/lib/db-service';
+
+const PAGE_SIZE = 25;
 
 const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
 export default function TradeSearch() {
-  const { trades } = useTrades();
-  const { filters, addFilter, deleteFilter, applyFilter } = useFilters();
+  const { tradesRevision, getTradesPage, getTradeFieldValues } = useTrades();
+  const { filters, addFilter, deleteFilter, matchesFilter } = useFilters();
+  const { customFields } = useCustomFields();
   const [showNewFilter, setShowNewFilter] = useState(false);
   const [filterName, setFilterName] = useState('');
   const [appliedFilterId, setAppliedFilterId] = useState<string | null>(null);
@@ -33,17 +39,70 @@ export default function TradeSearch() {
     currencyFilter: [],
     outcomeFilter: [],
     emotionTags: [],
+    customFields: [],
   });
 
-  const filteredTrades = useMemo(() => {
-    if (!appliedFilterId) return trades;
-    const filter = filters.find(f => f.id === appliedFilterId);
-    if (!filter) return trades;
-    return applyFilter(filter, trades);
-  }, [trades, filters, appliedFilterId, applyFilter]);
+  const [page, setPage] = useState(0);
+  const [pageTrades, setPageTrades] = useState<Trade[]>([]);
+  const [totalTrades, setTotalTrades] = useState(0);
+  const [symbols, setSymbols] = useState<string[]>([]);
+  const [setupNames, setSetupNames] = useState<string[]>([]);
+
+  useEffect(() => {
+    Promise.all([getTradeFieldValues('symbol'), getTradeFieldValues('setupName')])
+      .then(([loadedSymbols, loadedSetups]) => {
+        setSymbols(loadedSymbols);
+        setSetupNames(loadedSetups);
+      })
+      .catch(err => console.error('[TradeSearch] Failed to load symbols and setups:', err));
+  }, [tradesRevision]);
+
+  /**
+   * Effect: Page through matching trades, newest first
+   * A date range narrows the index walk; other criteria are checked per record
+   */
+  useEffect(() => {
+    const filter = appliedFilterId ? filters.find(f => f.id === appliedFilterId) : undefined;
+    let cancelled = false;
+    getTradesPage({
+      index: TRADE_INDEXES.DATE,
+      range: filter?.dateRange ? toKeyRange(filter.dateRange.start, filter.dateRange.end) : undefined,
+      direction: 'prev',
+      offset: page * PAGE_SIZE,
+      limit: PAGE_SIZE,
+      filter: filter ? trade => matchesFilter(filter, trade) : undefined,
+    })
+      .then(result => {
+        if (cancelled) return;
+        setPageTrades(result.items);
+        setTotalTrades(result.total);
+      })
+      .catch(err => console.error('[TradeSearch] Failed to load trades:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [appliedFilterId, filters, page, tradesRevision]);
+
+  const selectFilter = (id: string | null) => {
+    setAppliedFilterId(id);
+    setPage(0);
+  };
+
+  const getCriterion = (fieldId: string): CustomFieldFilter =>
+    tempFilter.customFields?.find(c => c.fieldId === fieldId) || { fieldId };
+
+  /**
+   * Update one custom field criterion; criteria left empty are dropped
+   */
+  const setCriterion = (fieldId: string, patch: Partial<CustomFieldFilter>) => {
+    const next = { ...getCriterion(fieldId), ...patch };
+    const isEmpty = !next.values?.length && next.min === undefined && next.max === undefined && next.equals === undefined;
+    const others = (tempFilter.customFields || []).filter(c => c.fieldId !== fieldId);
+    setTempFilter({ ...tempFilter, customFields: isEmpty ? others : [...others, next] });
+  };
+
+  const parseBound = (value: string) => (value === '' || isNaN(parseFloat(value)) ? undefined : parseFloat(value));
 
-  const symbols = Array.from(new Set(trades.map(t => t.symbol)));
-  const setupNames = Array.from(new Set(trades.map(t => t.setupName)));
   const emotions: EmotionTag[] = ['Calm', 'Confident', 'Anxious', 'Fearful', 'Greedy', 'Frustrated', 'Revenge', 'FOMO', 'Neutral'];
 
   const handleSaveFilter = () => {
@@ -71,6 +130,7 @@ export default function TradeSearch() {
       currencyFilter: [],
       outcomeFilter: [],
       emotionTags: [],
+      customFields: [],
     });
     setShowNewFilter(false);
   };
@@ -100,7 +160,7 @@ export default function TradeSearch() {
               <Card
                 key={filter.id}
                 className={`cursor-pointer transition-all ${appliedFilterId === filter.id ? 'border-primary' : ''}`}
-                onClick={() => setAppliedFilterId(filter.id)}
+                onClick={() => selectFilter(filter.id)}
               >
                 <CardHeader className="pb-3">
                   <div className="flex justify-between items-start">
@@ -111,7 +171,7 @@ export default function TradeSearch() {
                       onClick={(e) => {
                         e.stopPropagation();
                         deleteFilter(filter.id);
-                        if (appliedFilterId === filter.id) setAppliedFilterId(null);
+                        if (appliedFilterId === filter.id) selectFilter(null);
                       }}
                     >
                       <Trash2 className="w-4 h-4 text-destructive" />
@@ -135,6 +195,17 @@ export default function TradeSearch() {
                       </div>
                     </div>
                   )}
+                  {filter.customFields && filter.customFields.length > 0 && (
+                    <div>
+                      <span className="font-medium">Custom fields:</span>
+                      <div className="flex gap-1 mt-1 flex-wrap">
+                        {filter.customFields.map(c => {
+                          const field = customFields.find(f => f.id === c.fieldId);
+                          return field ? <Badge key={c.fieldId} variant="outline">{field.name}</Badge> : null;
+                        })}
+                      </div>
+                    </div>
+                  )}
                   {appliedFilterId === filter.id && (
                     <Badge className="bg-primary mt-2">Active</Badge>
                   )}
@@ -150,13 +221,13 @@ export default function TradeSearch() {
         <div className="flex justify-between items-center">
           <h2 className="text-xl font-semibold">
             Trades
-            {appliedFilterId && <Badge className="ml-2">Filtered: {filteredTrades.length}</Badge>}
+            {appliedFilterId && <Badge className="ml-2">Filtered: {totalTrades}</Badge>}
           </h2>
           {appliedFilterId && (
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setAppliedFilterId(null)}
+              onClick={() => selectFilter(null)}
               className="gap-1"
             >
               <X className="w-4 h-4" />
@@ -167,11 +238,11 @@ export default function TradeSearch() {
 
         <Card>
           <CardContent className="pt-6">
-            {filteredTrades.length === 0 ? (
+            {totalTrades === 0 ? (
               <p className="text-muted-foreground">No trades found matching the filter criteria.</p>
             ) : (
               <div className="space-y-2 max-h-96 overflow-y-auto">
-                {filteredTrades.map(trade => (
+                {pageTrades.map(trade => (
                   <div key={trade.id} className="p-2 border rounded flex justify-between items-center">
                     <div>
                       <p className="font-medium">{trade.symbol} - {trade.setupName}</p>
@@ -189,6 +260,9 @@ export default function TradeSearch() {
                 ))}
               </div>
             )}
+            <div className="mt-4">
+              <PageControls page={page} pageSize={PAGE_SIZE} total={totalTrades} onPageChange={setPage} />
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -279,6 +353,65 @@ export default function TradeSearch() {
               </div>
             </div>
 
+            {customFields.map(field => {
+              const criterion = getCriterion(field.id);
+              return (
+                <div key={field.id}>
+                  <label className="text-sm font-medium mb-2 block">{field.name}</label>
+                  {field.type === 'number' && (
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        placeholder="Min"
+                        value={criterion.min ?? ''}
+                        onChange={(e) => setCriterion(field.id, { min: parseBound(e.target.value) })}
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Max"
+                        value={criterion.max ?? ''}
+                        onChange={(e) => setCriterion(field.id, { max: parseBound(e.target.value) })}
+                      />
+                    </div>
+                  )}
+                  {field.type === 'boolean' && (
+                    <select
+                      value={criterion.equals === undefined ? '' : String(criterion.equals)}
+                      onChange={(e) => setCriterion(field.id, { equals: e.target.value === '' ? undefined : e.target.value === 'true' })}
+                      className="w-full px-3 py-2 bg-input border border-border rounded-md text-sm"
+                    >
+                      <option value="">Any</option>
+                      <option value="true">Yes</option>
+                      <option value="false">No</option>
+                    </select>
+                  )}
+                  {field.type === 'text' && (
+                    <Input
+                      placeholder="Contains..."
+                      value={criterion.values?.[0] || ''}
+                      onChange={(e) => setCriterion(field.id, { values: e.target.value.trim() ? [e.target.value] : undefined })}
+                    />
+                  )}
+                  {(field.type === 'select' || field.type === 'multi-select') && (
+                    <div className="space-y-2 max-h-32 overflow-y-auto">
+                      {(field.options || []).map(option => (
+                        <div key={option} className="flex items-center gap-2">
+                          <Checkbox
+                            checked={criterion.values?.includes(option) || false}
+                            onCheckedChange={(checked) => {
+                              const values = criterion.values || [];
+                              setCriterion(field.id, { values: checked ? [...values, option] : values.filter(v => v !== option) });
+                            }}
+                          />
+                          <label className="text-sm cursor-pointer">{option}</label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
             <div className="flex gap-2 justify-end">
               <Button variant="outline" onClick={() => setShowNewFilter(false)}>
                 Cancel
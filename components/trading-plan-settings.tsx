@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { useTrades } from '@/lib/trade-context';
+import { useSettings } from '@/lib/settings-context';
+import { useAccounts } from '@/lib/accounts-context';
+import { applyTradingPlan, planResultChanged } from '@/lib/trading-plan';
+import { TradingPlan } from '@/lib/types';
+import { showUndoToast } from '@/lib/undo-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ShieldCheck, RefreshCw } from 'lucide-react';
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+interface PlanFormState {
+  enabled: boolean;
+  maxRiskPercent: string;
+  maxTradesPerDay: string;
+  maxDailyLossR: string;
+  noTradingBefore: string;
+  lossCooldownMinutes: string;
+}
+
+const toInput = (value?: number) => (value === undefined ? '' : String(value));
+const fromInput = (value: string) => (value.trim() === '' ? undefined : parseFloat(value));
+
+export default function TradingPlanSettings() {
+  const { tradeCount, queryTrades, updateTrades } = useTrades();
+  const { accounts } = useAccounts();
+  const { tradingPlan, setTradingPlan } = useSettings();
+  const [form, setForm] = useState<PlanFormState>({
+    enabled: tradingPlan.enabled,
+    maxRiskPercent: toInput(tradingPlan.maxRiskPercent),
+    maxTradesPerDay: toInput(tradingPlan.maxTradesPerDay),
+    maxDailyLossR: toInput(tradingPlan.maxDailyLossR),
+    noTradingBefore: tradingPlan.noTradingBefore || '',
+    lossCooldownMinutes: toInput(tradingPlan.lossCooldownMinutes),
+  });
+  const [isEvaluating, setIsEvaluating] = useState(false);
+
+  const setField = <K extends keyof PlanFormState>(field: K, value: PlanFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const buildPlan = (): TradingPlan => ({
+    enabled: form.enabled,
+    maxRiskPercent: fromInput(form.maxRiskPercent),
+    maxTradesPerDay: fromInput(form.maxTradesPerDay),
+    maxDailyLossR: fromInput(form.maxDailyLossR),
+    noTradingBefore: form.noTradingBefore || undefined,
+    lossCooldownMinutes: fromInput(form.lossCooldownMinutes),
+  });
+
+  const handleSave = () => {
+    try {
+      setTradingPlan(buildPlan());
+      alert('Trading plan saved. New and edited trades are checked against it.');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save trading plan');
+    }
+  };
+
+  /**
+   * Check every existing trade against the saved plan
+   */
+  const handleEvaluate = async () => {
+    // Every trade is judged against the others, so the whole journal is read for this
+    const trades = await queryTrades({ includeOpen: true });
+    const changes = applyTradingPlan(trades, undefined, tradingPlan, accounts)
+      .map(after => ({ before: trades.find(t => t.id === after.id)!, after }))
+      .filter(c => planResultChanged(c.before, c.after));
+    if (changes.length === 0) {
+      alert('All trades already match the trading plan.');
+      return;
+    }
+    const flagged = changes.filter(c => c.after.planViolations).length;
+    if (!window.confirm(`Update ${changes.length} trade(s)? ${flagged} of them break the plan.`)) return;
+
+    setIsEvaluating(true);
+    try {
+      await updateTrades(changes.map(c => c.after));
+      showUndoToast(`Checked trades against the plan: ${changes.length} updated`, () =>
+        updateTrades(changes.map(c => c.before))
+      );
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to evaluate trades');
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const fields: { field: keyof Omit<PlanFormState, 'enabled' | 'noTradingBefore'>; label: string; placeholder: string; step: string }[] = [
+    { field: 'maxRiskPercent', label: 'Max Risk per Trade (% of equity)', placeholder: 'e.g., 1', step: '0.1' },
+    { field: 'maxTradesPerDay', label: 'Max Trades per Day', placeholder: 'e.g., 3', step: '1' },
+    { field: 'maxDailyLossR', label: 'Max Daily Loss (R)', placeholder: 'e.g., 3', step: '0.5' },
+    { field: 'lossCooldownMinutes', label: 'Cooldown after a Loss (minutes)', placeholder: 'e.g., 30', step: '1' },
+  ];
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-primary" />
+          Trading Plan
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Risk rules checked on every new, edited or imported trade and on the trades around it. Broken rules are added to the trade&apos;s rule violations and explained in its details. Leave a limit blank to switch it off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+          <input type="checkbox" checked={form.enabled} onChange={e => setField('enabled', e.target.checked)} className="w-4 h-4" />
+          Check trades against the plan
+        </label>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {fields.map(({ field, label, placeholder, step }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-foreground mb-2">{label}</label>
+              <input
+                type="number"
+                min="0"
+                step={step}
+                value={form[field]}
+                onChange={e => setField(field, e.target.value)}
+                placeholder={placeholder}
+                className={inputClass}
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">No Trading Before</label>
+            <input type="time" value={form.noTradingBefore} onChange={e => setField('noTradingBefore', e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Risk % uses the trade&apos;s account equity at the start of the day; trades without an account are flagged as unchecked. Time rules need entry and exit times on the trades.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleSave} className="bg-primary hover:bg-primary/90">Save Plan</Button>
+          <Button variant="outline" onClick={handleEvaluate} disabled={isEvaluating || tradeCount === 0}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isEvaluating ? 'animate-spin' : ''}`} />
+            Evaluate Existing Trades
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
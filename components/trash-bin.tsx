@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTrades } from '@/lib/trade-context';
+import { useIdeas } from '@/lib/ideas-context';
+import { useGoals } from '@/lib/goals-context';
+import { useTemplates } from '@/lib/templates-context';
+import { useSettings } from '@/lib/settings-context';
+import { TrashItem, TrashItemType } from '@/lib/types';
+import { getTrashItems, purgeTrashItem, getDaysUntilPurge } from '@/lib/trash-service';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Trash2, RotateCcw, XCircle } from 'lucide-react';
+
+const TYPE_LABELS: Record<TrashItemType, string> = {
+  trade: 'Trade',
+  idea: 'Idea',
+  goal: 'Goal',
+  template: 'Template',
+};
+
+const RETENTION_OPTIONS = [
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+  { value: 0, label: 'Never' },
+];
+
+/**
+ * Trash view
+ * Lists soft-deleted trades, ideas, goals and templates with restore and permanent delete
+ */
+export default function TrashBin() {
+  const { restoreTrade } = useTrades();
+  const { restoreIdea } = useIdeas();
+  const { restoreGoal } = useGoals();
+  const { restoreTemplate } = useTemplates();
+  const { trashRetentionDays, setTrashRetentionDays } = useSettings();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [typeFilter, setTypeFilter] = useState<TrashItemType | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+
+  const loadItems = async () => {
+    try {
+      setItems(await getTrashItems());
+    } catch (err) {
+      console.error('[TrashBin] Failed to load trash:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  const restorers: Record<TrashItemType, (id: string) => Promise<void>> = {
+    trade: restoreTrade,
+    idea: restoreIdea,
+    goal: restoreGoal,
+    template: restoreTemplate,
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    await restorers[item.type](item.recordId);
+    await loadItems();
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!confirm(`Permanently delete "${item.label}"? This cannot be undone.`)) return;
+    try {
+      await purgeTrashItem(item.id);
+    } catch (err) {
+      console.error('[TrashBin] Failed to purge item:', err);
+      alert('Failed to delete item');
+    }
+    await loadItems();
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm(`Permanently delete all ${visible.length} items? This cannot be undone.`)) return;
+    try {
+      await Promise.all(visible.map(item => purgeTrashItem(item.id)));
+    } catch (err) {
+      console.error('[TrashBin] Failed to empty trash:', err);
+      alert('Failed to empty trash');
+    }
+    await loadItems();
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    await setTrashRetentionDays(days);
+    await loadItems();
+  };
+
+  const visible = typeFilter === 'all' ? items : items.filter(item => item.type === typeFilter);
+
+  return (
+    <div className="w-full min-h-screen flex flex-col gap-3 sm:gap-4 lg:gap-6 p-2 sm:p-4 lg:p-6 overflow-hidden">
+      <div className="space-y-1">
+        <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-foreground">Trash</h1>
+        <p className="text-xs sm:text-sm lg:text-base text-muted-foreground">
+          Restore deleted trades, ideas, goals and templates
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3 w-full flex-wrap">
+        <select
+          value={typeFilter}
+          onChange={e => setTypeFilter(e.target.value as TrashItemType | 'all')}
+          className="px-3 py-2 bg-input border border-border rounded-lg text-foreground text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="all">All types</option>
+          {(Object.keys(TYPE_LABELS) as TrashItemType[]).map(type => (
+            <option key={type} value={type}>{TYPE_LABELS[type]}s</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+          Auto-delete after
+          <select
+            value={trashRetentionDays}
+            onChange={e => handleRetentionChange(parseInt(e.target.value))}
+            className="px-3 py-2 bg-input border border-border rounded-lg text-foreground text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {RETENTION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleEmpty}
+          disabled={visible.length === 0}
+          className="sm:ml-auto text-red-400 hover:text-red-300"
+        >
+          <XCircle className="w-4 h-4 mr-1" />
+          Empty Trash
+        </Button>
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trash2 className="w-5 h-5" />
+            Deleted Items ({visible.length})
+          </CardTitle>
+          <CardDescription>
+            {trashRetentionDays > 0
+              ? `Items are permanently deleted ${trashRetentionDays} days after they are moved here`
+              : 'Items stay here until you delete them'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Trash is empty</p>
+          ) : (
+            <div className="space-y-2">
+              {visible.map(item => {
+                const daysLeft = getDaysUntilPurge(item, trashRetentionDays);
+                return (
+                  <div
+                    key={item.id}
+                    className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 p-3 bg-secondary rounded-lg border border-border"
+                  >
+                    <Badge variant="outline" className="w-fit">{TYPE_LABELS[item.type]}</Badge>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{item.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Deleted {new Date(item.deletedAt).toLocaleString()}
+                        {daysLeft !== null && ` · ${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleRestore(item)}>
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handlePurge(item)}
+                        className="text-red-400 hover:text-red-300"
+                        title="Delete permanently"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,14 +1,14 @@
 'use client'
 
-import { useTheme } from 'next-themes'
+import { useTheme } from '@/lib/theme-context'
 import { Toaster as Sonner, ToasterProps } from 'sonner'
 
 const Toaster = ({ ...props }: ToasterProps) => {
-  const { theme = 'system' } = useTheme()
+  const { resolvedTheme } = useTheme()
 
   return (
     <Sonner
-      theme={theme as ToasterProps['theme']}
+      theme={resolvedTheme}
       className="toaster group"
       style={
         {
@@ -0,0 +1,232 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useTradeQuery } from '@/lib/trade-context';
+import { useSettings } from '@/lib/settings-context';
+import { useAccounts } from '@/lib/accounts-context';
+import { useWeeklyReviews } from '@/lib/weekly-review-context';
+import { generateWeeklyReport, getWeekQueryRange } from '@/lib/reports-generator';
+import { getWeekKey, parseWeekKey, shiftWeekKey, findPreviousReview, createWeeklyReview } from '@/lib/weekly-review';
+import { formatCurrency } from '@/lib/trade-utils';
+import { ReviewGrade, WeeklyReviewRecord, Trade } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChevronLeft, ChevronRight, Plus, Save, Trash2, X } from 'lucide-react';
+import { showUndoToast } from '@/lib/undo-toast';
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const inputClass = 'w-full px-3 py-2 bg-input border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+const GRADES: ReviewGrade[] = ['A', 'B', 'C', 'D', 'F'];
+
+/**
+ * Written review of one ISO week, with browsing between saved reviews
+ */
+export function WeeklyReviewEditor() {
+  const { reviews, getReview } = useWeeklyReviews();
+  const { accountScope } = useAccounts();
+  const [week, setWeek] = useState(() => getWeekKey());
+  const currentWeek = getWeekKey();
+  const { year, week: weekNumber } = parseWeekKey(week);
+  // Only the reviewed week is read from the journal
+  const { trades, isLoading } = useTradeQuery({ ...getWeekQueryRange(year, weekNumber), scope: accountScope });
+
+  return (
+    <Card className="border-border">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-xl">Week Review</CardTitle>
+            <CardDescription>Reflections, action items and a grade for each ISO week</CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={() => setWeek(shiftWeekKey(week, -1))} title="Previous week">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="min-w-24 text-center font-semibold text-foreground">{week}</span>
+            <Button variant="ghost" size="icon" onClick={() => setWeek(shiftWeekKey(week, 1))} title="Next week">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            {week !== currentWeek && (
+              <Button variant="outline" size="sm" onClick={() => setWeek(currentWeek)}>This Week</Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Remount once the saved review loads or is deleted; drafts start from the week's trades */}
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading the week&apos;s trades...</p>
+        ) : (
+          <WeeklyReviewForm key={`${week}:${getReview(week) ? 'saved' : 'draft'}`} week={week} trades={trades} />
+        )}
+
+        {reviews.length > 0 && (
+          <div>
+            <p className="text-sm font-semibold text-foreground mb-3">Past Reviews</p>
+            <div className="flex flex-wrap gap-2">
+              {reviews.map(review => {
+                const openItems = review.actionItems.filter(item => !item.done).length;
+                return (
+                  <button
+                    key={review.week}
+                    onClick={() => setWeek(review.week)}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+                      review.week === week
+                        ? 'bg-primary/10 border-primary text-foreground'
+                        : 'bg-secondary border-border text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    <span>{review.week}</span>
+                    {review.grade && <span className="font-bold">{review.grade}</span>}
+                    {openItems > 0 && <span className="text-xs">· {openItems} open</span>}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function WeeklyReviewForm({ week, trades }: { week: string; trades: Trade[] }) {
+  const { baseCurrency } = useSettings();
+  const { accountScope } = useAccounts();
+  const { reviews, getReview, saveReview, deleteReview } = useWeeklyReviews();
+  const saved = getReview(week);
+
+  const report = useMemo(() => {
+    const { year, week: weekNumber } = parseWeekKey(week);
+    return generateWeeklyReport(trades, year, weekNumber, accountScope, baseCurrency);
+  }, [trades, week, accountScope, baseCurrency]);
+
+  // Unsaved weeks start from the report and the previous review's open items
+  const [review, setReview] = useState<WeeklyReviewRecord>(
+    () => saved || createWeeklyReview(week, report, findPreviousReview(reviews, week))
+  );
+  const [newItem, setNewItem] = useState('');
+
+  const setField = <K extends keyof WeeklyReviewRecord>(field: K, value: WeeklyReviewRecord[K]) => {
+    setReview(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleAddItem = () => {
+    const text = newItem.trim();
+    if (!text) return;
+    setField('actionItems', [...review.actionItems, { id: generateId(), text, done: false }]);
+    setNewItem('');
+  };
+
+  const handleToggleItem = (id: string) => {
+    setField('actionItems', review.actionItems.map(item => (item.id === id ? { ...item, done: !item.done } : item)));
+  };
+
+  const handleRemoveItem = (id: string) => {
+    setField('actionItems', review.actionItems.filter(item => item.id !== id));
+  };
+
+  const handleSave = () => {
+    try {
+      saveReview({ ...review, updatedAt: new Date().toISOString() });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save weekly review');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!saved || !confirm(`Delete the review for ${week}?`)) return;
+    deleteReview(week);
+    showUndoToast(`Review for ${week} deleted`, () => saveReview(saved));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <p className="text-muted-foreground">
+          {report.startDate} to {report.endDate} · {report.totalTrades} trade(s) · {report.winRate.toFixed(0)}% win rate ·{' '}
+          <span className={report.totalPnL >= 0 ? 'text-green-400' : 'text-red-400'}>{formatCurrency(report.totalPnL, report.currency)}</span>
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {saved ? `Last saved ${new Date(saved.updatedAt).toLocaleString()}` : 'Not saved yet'}
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-2">Grade</label>
+        <div className="flex gap-1">
+          {GRADES.map(grade => (
+            <button
+              key={grade}
+              type="button"
+              onClick={() => setField('grade', review.grade === grade ? undefined : grade)}
+              className={`w-10 h-10 rounded-lg border font-bold transition-colors ${
+                review.grade === grade
+                  ? 'bg-primary text-primary-foreground border-primary'
+                  : 'bg-input border-border text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {grade}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">What Went Well</label>
+          <textarea value={review.wentWell} onChange={e => setField('wentWell', e.target.value)} rows={5} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">What to Improve</label>
+          <textarea value={review.toImprove} onChange={e => setField('toImprove', e.target.value)} rows={5} className={inputClass} />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-2">Action Items</label>
+        <div className="space-y-2">
+          {review.actionItems.map(item => (
+            <div key={item.id} className="flex items-center gap-2 p-2 bg-secondary rounded-lg">
+              <input type="checkbox" checked={item.done} onChange={() => handleToggleItem(item.id)} className="w-4 h-4" />
+              <span className={`flex-1 text-sm ${item.done ? 'line-through text-muted-foreground' : 'text-foreground'}`}>{item.text}</span>
+              {item.carriedFrom && <Badge variant="outline" className="text-xs">from {item.carriedFrom}</Badge>}
+              <button onClick={() => handleRemoveItem(item.id)} className="text-muted-foreground hover:text-red-400" title="Remove item">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newItem}
+              onChange={e => setNewItem(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleAddItem()}
+              placeholder="e.g., No trades in the first 15 minutes"
+              className={inputClass}
+            />
+            <Button variant="outline" onClick={handleAddItem}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave} className="bg-primary hover:bg-primary/90">
+          <Save className="w-4 h-4 mr-2" />
+          Save Review
+        </Button>
+        {saved && (
+          <Button variant="outline" onClick={handleDelete} className="text-red-400 hover:text-red-300">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import { useTrades } from '@/lib/trade-context';
+import { useTradeQuery } from '@/lib/trade-context';
 import { useSettings } from '@/lib/settings-context';
-import { CURRENCY_SYMBOLS } from '@/lib/trade-utils';
+import { useAccounts } from '@/lib/accounts-context';
+import { getCurrencySymbol, getTradeDisplayPnL } from '@/lib/trade-utils';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Trade } from '@/lib/types';
+import { WeeklyReviewEditor } from './weekly-review-editor';
 
 type ReviewPeriod = 'weekly' | 'monthly';
 
@@ -26,9 +28,11 @@ interface PeriodStats {
 }
 
 export default function WeeklyReview() {
-  const { trades } = useTrades();
+  const { accountScope } = useAccounts();
+  // Closed trades of the selected accounts - planned and open trades have no realized result yet
+  const { trades } = useTradeQuery({ scope: accountScope });
   const { baseCurrency } = useSettings();
-  const baseCurrencySymbol = CURRENCY_SYMBOLS[baseCurrency];
+  const baseCurrencySymbol = getCurrencySymbol(baseCurrency);
   const [period, setPeriod] = useState<ReviewPeriod>('weekly');
 
   const getPeriodStats = (periodType: ReviewPeriod): PeriodStats[] => {
@@ -68,7 +72,7 @@ export default function WeeklyReview() {
     Object.entries(groupedTrades).forEach(([key, periodTrades]) => {
       const wins = periodTrades.filter(t => t.pnl > 0).length;
       const losses = periodTrades.filter(t => t.pnl < 0).length;
-      const totalPnL = periodTrades.reduce((sum, t) => sum + t.pnl, 0);
+      const totalPnL = periodTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, baseCurrency), 0);
       const avgR = periodTrades.length > 0 
         ? periodTrades.reduce((sum, t) => sum + t.rFactor, 0) / periodTrades.length 
         : 0;
@@ -82,7 +86,7 @@ export default function WeeklyReview() {
         const newCount = existing.count + 1;
         setupStats.set(trade.setupName, {
           count: newCount,
-          pnl: existing.pnl + trade.pnl,
+          pnl: existing.pnl + getTradeDisplayPnL(trade, baseCurrency),
           wins: newWins,
           winRate: Math.round((newWins / newCount) * 100),
         });
@@ -137,17 +141,18 @@ export default function WeeklyReview() {
     return stats;
   };
 
-  const periodStats = useMemo(() => getPeriodStats(period), [trades, period]);
+  const periodStats = useMemo(() => getPeriodStats(period), [trades, period, baseCurrency]);
 
   if (trades.length === 0) {
     return (
-      <div className="p-8">
+      <div className="p-8 space-y-8">
         <Card className="border-border">
           <CardHeader>
             <CardTitle>Weekly/Monthly Review</CardTitle>
             <CardDescription>No trades yet. Start logging trades to see your weekly and monthly summaries.</CardDescription>
           </CardHeader>
         </Card>
+        <WeeklyReviewEditor />
       </div>
     );
   }
@@ -159,6 +164,9 @@ export default function WeeklyReview() {
         <p className="text-muted-foreground">Track your performance across trading weeks and months</p>
       </div>
 
+      {/* Written review of the selected week */}
+      <WeeklyReviewEditor />
+
       {/* Period Toggle */}
       <div className="flex gap-4">
         <button
@@ -0,0 +1,162 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { Account, AccountScope } from './types';
+import {
+  getAllFromDB,
+  getFromDB,
+  putToDB,
+  deleteFromDB,
+  STORE_NAMES,
+} from './db-service';
+import { accountRegistry } from './trading-plan';
+import { publishRegistry } from './registry';
+
+// Settings store key under which the selected account scope is persisted
+const ACCOUNT_SCOPE_KEY = 'account-scope';
+
+interface AccountsContextType {
+  accounts: Account[];
+  addAccount: (account: Account) => void;
+  deleteAccount: (id: string) => void;
+  updateAccount: (id: string, account: Account) => void;
+  getAccount: (id: string) => Account | undefined;
+  accountScope: AccountScope;
+  setAccountScope: (scope: AccountScope) => void;
+  error: string | null;
+  clearError: () => void;
+}
+
+export const AccountsContext = createContext<AccountsContextType | undefined>(undefined);
+
+/**
+ * AccountsProvider - Context provider for trading accounts
+ * Persists accounts and the active account scope (one, several, or all accounts) to IndexedDB
+ */
+export function AccountsProvider({ children }: { children: React.ReactNode }) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountScope, setAccountScopeState] = useState<AccountScope>('all');
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Effect: Load accounts and the saved scope from IndexedDB on mount
+   */
+  useEffect(() => {
+    const initializeAccounts = async () => {
+      try {
+        console.log('[AccountsContext] Loading accounts from IndexedDB...');
+        const loadedAccounts = await getAllFromDB<Account>(STORE_NAMES.ACCOUNTS);
+        console.log('[AccountsContext] Loaded', loadedAccounts?.length || 0, 'accounts');
+        setAccounts(loadedAccounts || []);
+
+        const savedScope = await getFromDB<{ key: string; scope: AccountScope }>(STORE_NAMES.SETTINGS, ACCOUNT_SCOPE_KEY);
+        if (savedScope?.scope) {
+          // Drop references to accounts that no longer exist
+          const knownIds = new Set((loadedAccounts || []).map(a => a.id));
+          const scope = savedScope.scope === 'all'
+            ? 'all'
+            : savedScope.scope.filter(id => knownIds.has(id));
+          setAccountScopeState(scope === 'all' || scope.length > 0 ? scope : 'all');
+        }
+        setError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load accounts';
+        console.error('[AccountsContext] Initialization error:', message, err);
+        setError(message);
+      }
+    };
+
+    initializeAccounts().finally(() => accountRegistry.markLoaded());
+  }, []);
+
+  publishRegistry(accountRegistry, accounts);
+
+  const setAccountScope = (scope: AccountScope) => {
+    // An empty selection means nothing is filtered out
+    const normalized: AccountScope = scope === 'all' || scope.length === 0 ? 'all' : scope;
+    setAccountScopeState(normalized);
+    putToDB(STORE_NAMES.SETTINGS, { key: ACCOUNT_SCOPE_KEY, scope: normalized }).catch(err => {
+      console.error('[AccountsContext] Error saving account scope:', err);
+    });
+  };
+
+  const addAccount = (account: Account) => {
+    try {
+      if (!account.id || !account.name) {
+        throw new Error('Invalid account: missing required fields');
+      }
+      setAccounts(prev => [...prev, account]);
+      putToDB(STORE_NAMES.ACCOUNTS, account).catch(err => {
+        console.error('[AccountsContext] Error saving account:', err);
+        setError('Failed to save account');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add account';
+      console.error('[AccountsContext] Add error:', message);
+      setError(message);
+    }
+  };
+
+  const deleteAccount = (id: string) => {
+    try {
+      setAccounts(prev => prev.filter(a => a.id !== id));
+      if (accountScope !== 'all' && accountScope.includes(id)) {
+        setAccountScope(accountScope.filter(scopeId => scopeId !== id));
+      }
+      deleteFromDB(STORE_NAMES.ACCOUNTS, id).catch(err => {
+        console.error('[AccountsContext] Error deleting account:', err);
+        setError('Failed to delete account');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete account';
+      console.error('[AccountsContext] Delete error:', message);
+      setError(message);
+    }
+  };
+
+  const updateAccount = (id: string, updatedAccount: Account) => {
+    try {
+      setAccounts(prev => prev.map(a => (a.id === id ? updatedAccount : a)));
+      putToDB(STORE_NAMES.ACCOUNTS, updatedAccount).catch(err => {
+        console.error('[AccountsContext] Error updating account:', err);
+        setError('Failed to update account');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update account';
+      console.error('[AccountsContext] Update error:', message);
+      setError(message);
+    }
+  };
+
+  const getAccount = (id: string): Account | undefined => {
+    return accounts.find(a => a.id === id);
+  };
+
+  const clearError = () => setError(null);
+
+  return (
+    <AccountsContext.Provider
+      value={{
+        accounts,
+        addAccount,
+        deleteAccount,
+        updateAccount,
+        getAccount,
+        accountScope,
+        setAccountScope,
+        error,
+        clearError,
+      }}
+    >
+      {children}
+    </AccountsContext.Provider>
+  );
+}
+
+export function useAccounts() {
+  const context = useContext(AccountsContext);
+  if (!context) {
+    throw new Error('useAccounts must be used within an AccountsProvider');
+  }
+  return context;
+}
@@ -7,6 +7,7 @@
 
 import { Trade } from '@/lib/types';
 import { calculatePnL } from '@/lib/trade-utils';
+import { getAllFromDB, putToDB, deleteFromDB, STORE_NAMES } from '@/lib/db-service';
 
 export interface FilterPreset {
   id: string;
@@ -123,27 +124,14 @@ export async function saveFilterPreset(
 ): Promise<string> {
   if (!window.indexedDB) throw new Error('IndexedDB not available');
 
-  return new Promise((resolve, reject) => {
-    const request = window.indexedDB.open('trading-journal-db', 2);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      const db = request.result;
-      const tx = db.transaction(['trading-journal-filters'], 'readwrite');
-      const store = tx.objectStore('trading-journal-filters');
-
-      const id = `preset-${Date.now()}`;
-      const newPreset: FilterPreset = {
-        id,
-        ...preset,
-        createdAt: Date.now(),
-      };
-
-      const addRequest = store.add(newPreset);
-      addRequest.onerror = () => reject(addRequest.error);
-      addRequest.onsuccess = () => resolve(id);
-    };
-  });
+  const id = `preset-${Date.now()}`;
+  const newPreset: FilterPreset = {
+    id,
+    ...preset,
+    createdAt: Date.now(),
+  };
+  await putToDB(STORE_NAMES.FILTERS, newPreset);
+  return id;
 }
 
 /**
@@ -152,25 +140,7 @@ export async function saveFilterPreset(
 export async function getFilterPresets(): Promise<FilterPreset[]> {
   if (!window.indexedDB) return [];
 
-  return new Promise((resolve, reject) => {
-    const request = window.indexedDB.open('trading-journal-db', 2);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      const db = request.result;
-      if (!db.objectStoreNames.contains('trading-journal-filters')) {
-        resolve([]);
-        return;
-      }
-
-      const tx = db.transaction(['trading-journal-filters'], 'readonly');
-      const store = tx.objectStore('trading-journal-filters');
-      const getAllRequest = store.getAll();
-
-      getAllRequest.onerror = () => reject(getAllRequest.error);
-      getAllRequest.onsuccess = () => resolve(getAllRequest.result);
-    };
-  });
+  return getAllFromDB<FilterPreset>(STORE_NAMES.FILTERS);
 }
 
 /**
@@ -179,18 +149,5 @@ export async function getFilterPresets(): Promise<FilterPreset[]> {
 export async function deleteFilterPreset(presetId: string): Promise<void> {
   if (!window.indexedDB) return;
 
-  return new Promise((resolve, reject) => {
-    const request = window.indexedDB.open('trading-journal-db', 2);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      const db = request.result;
-      const tx = db.transaction(['trading-journal-filters'], 'readwrite');
-      const store = tx.objectStore('trading-journal-filters');
-      const deleteRequest = store.delete(presetId);
-
-      deleteRequest.onerror = () => reject(deleteRequest.error);
-      deleteRequest.onsuccess = () => resolve();
-    };
-  });
+  await deleteFromDB(STORE_NAMES.FILTERS, presetId);
 }
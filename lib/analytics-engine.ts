@@ -10,10 +10,15 @@
  * - Loss Streak & Tilt Protection
  * - Drawdown Analysis
  * - Market Condition Analysis
+ * - Option Strategy & Days-to-Expiry Analysis
+ * - Tag & Tag Combination Analysis
  */
 
-import { Trade, MarketSession, MarketCondition, RuleViolation } from './types';
-import { getTradeBasePnL, BASE_CURRENCY, CURRENCY_SYMBOLS } from './trade-utils';
+import { Trade, Currency, MarketSession, MarketCondition, RuleViolation, OptionStrategyType, CustomFieldDefinition } from './types';
+import { getTradeBasePnL, getTradeDisplayPnL, BASE_CURRENCY, getCurrencySymbol } from './trade-utils';
+import { getDaysToExpiry, getDteBucket, DTE_BUCKETS } from './options-utils';
+import { getTagAncestors } from './tag-utils';
+import { getCustomFieldGroupKeys } from './custom-fields';
 
 // ============================================
 // TYPES FOR ANALYTICS RESULTS
@@ -128,6 +133,92 @@ export interface MarketConditionPerformance {
   expectancy: number;
 }
 
+export interface OptionStrategyPerformance {
+  strategy: OptionStrategyType;
+  totalTrades: number;
+  winRate: number;
+  avgR: number;
+  totalPnL: number;
+  expectancy: number;
+}
+
+export interface DaysToExpiryPerformance {
+  bucket: string;
+  totalTrades: number;
+  winRate: number;
+  avgR: number;
+  totalPnL: number;
+  expectancy: number;
+}
+
+export interface TagPerformance {
+  // Tag path, or two tags joined with " + " for a combination
+  tag: string;
+  // Tags in the group (one for a single tag, two for a combination)
+  tags: string[];
+  totalTrades: number;
+  winRate: number;
+  expectancy: number;
+  totalR: number;
+  totalPnL: number;
+}
+
+export interface ChecklistItemCompliance {
+  item: string;
+  // Trades whose checklist included the item
+  totalTrades: number;
+  uncheckedCount: number;
+  complianceRate: number;
+  lossRateChecked: number;
+  lossRateUnchecked: number;
+  avgRChecked: number;
+  avgRUnchecked: number;
+}
+
+export interface ChecklistComplianceAnalysis {
+  totalTrades: number;
+  fullyCompliantCount: number;
+  complianceRate: number;
+  winRateCompliant: number;
+  winRateNonCompliant: number;
+  avgRCompliant: number;
+  avgRNonCompliant: number;
+  items: ChecklistItemCompliance[];
+}
+
+export interface IdeaPerformance {
+  ideaId: string;
+  totalTrades: number;
+  winRate: number;
+  expectancyR: number;
+  totalR: number;
+  // Set once the sample size is reached: positive expectancy validates the idea
+  suggestedStatus?: 'validated' | 'invalidated';
+}
+
+export interface PerformanceSnapshot {
+  expectancy: ExpectancyResult;
+  rStats: RMultipleStats;
+  maxDrawdownR: number;
+}
+
+export interface SignificanceTest {
+  // t statistic (R per trade) or z statistic (win rate); positive when live is better
+  statistic: number;
+  pValue: number;
+  isSignificant: boolean;
+}
+
+export interface BacktestLiveComparison {
+  backtest: PerformanceSnapshot;
+  live: PerformanceSnapshot;
+  // Welch's t-test on R per trade
+  expectancyTest: SignificanceTest;
+  // Two-proportion z-test on win rate
+  winRateTest: SignificanceTest;
+  verdict: 'degraded' | 'improved' | 'consistent' | 'insufficient';
+}
+
 // ============================================
 // EXPECTANCY CALCULATION
 // ============================================
@@ -137,9 +228,10 @@ export interface MarketConditionPerformance {
  * Formula: Expectancy = (Win% × Avg Win) − (Loss% × Avg Loss)
  * 
  * @param trades - Array of trades to analyze
+ * @param currency - Currency for the P&L averages (default: base currency)
  * @returns ExpectancyResult with detailed breakdown
  */
-export function calculateExpectancy(trades: Trade[]): ExpectancyResult {
+export function calculateExpectancy(trades: Trade[], currency: Currency = BASE_CURRENCY): ExpectancyResult {
   if (trades.length === 0) {
     return {
       expectancy: 0,
@@ -161,12 +253,12 @@ export function calculateExpectancy(trades: Trade[]): ExpectancyResult {
   const winRate = wins.length / trades.length;
   const lossRate = losses.length / trades.length;
 
-  // Calculate averages in base currency
+  // Calculate averages in the requested currency
   const avgWin = wins.length > 0 
-    ? wins.reduce((sum, t) => sum + getTradeBasePnL(t), 0) / wins.length 
+    ? wins.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0) / wins.length 
     : 0;
   const avgLoss = losses.length > 0 
-    ? Math.abs(losses.reduce((sum, t) => sum + getTradeBasePnL(t), 0) / losses.length)
+    ? Math.abs(losses.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0) / losses.length)
     : 0;
 
   // Calculate R-based averages
@@ -201,10 +293,13 @@ export function calculateExpectancy(trades: Trade[]): ExpectancyResult {
 
 /**
  * Calculate expectancy grouped by a specific dimension
+ * A groupBy returning several keys puts the trade in each of those groups
+ * (e.g. a multi-select custom field)
  */
 export function calculateExpectancyBy<K extends string>(
   trades: Trade[],
-  groupBy: (trade: Trade) => K | undefined
+  groupBy: (trade: Trade) => K | K[] | undefined,
+  currency: Currency = BASE_CURRENCY
 ): Map<K, ExpectancyResult> {
   const groups = new Map<K, Trade[]>();
   
@@ -212,31 +307,36 @@ export function calculateExpectancyBy<K extends string>(
     const key = groupBy(trade);
     if (key === undefined) continue;
     
-    const existing = groups.get(key) || [];
-    existing.push(trade);
-    groups.set(key, existing);
+    for (const k of Array.isArray(key) ? key : [key]) {
+      const existing = groups.get(k) || [];
+      existing.push(trade);
+      groups.set(k, existing);
+    }
   }
 
   const results = new Map<K, ExpectancyResult>();
   for (const [key, groupTrades] of groups) {
-    results.set(key, calculateExpectancy(groupTrades));
+    results.set(key, calculateExpectancy(groupTrades, currency));
   }
 
   return results;
 }
 
 // Convenience functions for common groupings
-export const calculateExpectancyBySetup = (trades: Trade[]) => 
-  calculateExpectancyBy(trades, t => t.setupName);
+export const calculateExpectancyBySetup = (trades: Trade[], currency?: Currency) => 
+  calculateExpectancyBy(trades, t => t.setupName, currency);
+
+export const calculateExpectancyBySymbol = (trades: Trade[], currency?: Currency) => 
+  calculateExpectancyBy(trades, t => t.symbol, currency);
 
-export const calculateExpectancyBySymbol = (trades: Trade[]) => 
-  calculateExpectancyBy(trades, t => t.symbol);
+export const calculateExpectancyByTimeframe = (trades: Trade[], currency?: Currency) => 
+  calculateExpectancyBy(trades, t => t.timeFrame, currency);
 
-export const calculateExpectancyByTimeframe = (trades: Trade[]) => 
-  calculateExpectancyBy(trades, t => t.timeFrame);
+export const calculateExpectancyBySession = (trades: Trade[], currency?: Currency) => 
+  calculateExpectancyBy(trades, t => t.session, currency);
 
-export const calculateExpectancyBySession = (trades: Trade[]) => 
-  calculateExpectancyBy(trades, t => t.session);
+export const calculateExpectancyByCustomField = (trades: Trade[], field: CustomFieldDefinition, currency?: Currency) =>
+  calculateExpectancyBy(trades, t => getCustomFieldGroupKeys(t, field), currency);
 
 // ============================================
 // R-MULTIPLE ANALYTICS
@@ -319,11 +419,27 @@ export function calculateRMultipleStats(trades: Trade[]): RMultipleStats {
 // SETUP QUALITY SCORE
 // ============================================
 
+/**
+ * Largest fall of the cumulative P&L from its running high, trades in date order
+ */
+function getMaxDrawdown(trades: Trade[], getPnL: (trade: Trade) => number): number {
+  let maxDrawdown = 0;
+  let runningMax = 0;
+  let cumulativePnL = 0;
+  for (const trade of trades) {
+    cumulativePnL += getPnL(trade);
+    runningMax = Math.max(runningMax, cumulativePnL);
+    maxDrawdown = Math.max(maxDrawdown, runningMax - cumulativePnL);
+  }
+  return maxDrawdown;
+}
+
 /**
  * Calculate quality score for each setup
  * Formula: Setup Score = (Win% × Avg R) ÷ Max Drawdown Factor
+ * @param currency - Currency for drawdown and total P&L (default: base currency)
  */
-export function calculateSetupQualityScores(trades: Trade[]): SetupQualityScore[] {
+export function calculateSetupQualityScores(trades: Trade[], currency: Currency = BASE_CURRENCY): SetupQualityScore[] {
   const setupGroups = new Map<string, Trade[]>();
   
   for (const trade of trades) {
@@ -335,24 +451,20 @@ export function calculateSetupQualityScores(trades: Trade[]): SetupQualityScore[
   const scores: SetupQualityScore[] = [];
 
   for (const [setupName, setupTrades] of setupGroups) {
-    const expectancy = calculateExpectancy(setupTrades);
+    const expectancy = calculateExpectancy(setupTrades, currency);
     const rStats = calculateRMultipleStats(setupTrades);
     
     // Calculate setup-specific drawdown
-    let maxDrawdown = 0;
-    let runningMax = 0;
-    let cumulativePnL = 0;
-    for (const trade of setupTrades.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())) {
-      cumulativePnL += getTradeBasePnL(trade);
-      runningMax = Math.max(runningMax, cumulativePnL);
-      maxDrawdown = Math.max(maxDrawdown, runningMax - cumulativePnL);
-    }
+    setupTrades.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const maxDrawdown = getMaxDrawdown(setupTrades, t => getTradeDisplayPnL(t, currency));
 
-    const totalPnL = setupTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+    const totalPnL = setupTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0);
 
     // Calculate quality score
     // Higher win rate + higher avg R + lower drawdown = better score
-    const drawdownFactor = maxDrawdown > 0 ? Math.max(1, maxDrawdown / 1000) : 1;
+    // The factor scales the base currency drawdown, so ranks do not change with the display currency
+    const baseDrawdown = getMaxDrawdown(setupTrades, getTradeBasePnL);
+    const drawdownFactor = baseDrawdown > 0 ? Math.max(1, baseDrawdown / 1000) : 1;
     const score = ((expectancy.winRate / 100) * rStats.averageR) / drawdownFactor;
 
     let recommendation: 'Keep' | 'Review' | 'Avoid' = 'Review';
@@ -386,13 +498,14 @@ export function calculateSetupQualityScores(trades: Trade[]): SetupQualityScore[
 
 /**
  * Analyze rule-following behavior and its impact on performance
+ * @param currency - Currency for the P&L figures (default: base currency)
  */
-export function analyzeRuleBreaks(trades: Trade[]): RuleBreakAnalysis {
+export function analyzeRuleBreaks(trades: Trade[], currency: Currency = BASE_CURRENCY): RuleBreakAnalysis {
   const rulesFollowed = trades.filter(t => t.ruleFollowed === true);
   const rulesBroken = trades.filter(t => t.ruleFollowed === false);
 
-  const pnlFollowed = rulesFollowed.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
-  const pnlBroken = rulesBroken.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+  const pnlFollowed = rulesFollowed.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0);
+  const pnlBroken = rulesBroken.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0);
 
   const avgRFollowed = rulesFollowed.length > 0 
     ? rulesFollowed.reduce((sum, t) => sum + t.rFactor, 0) / rulesFollowed.length 
@@ -416,7 +529,7 @@ export function analyzeRuleBreaks(trades: Trade[]): RuleBreakAnalysis {
       for (const violation of trade.ruleViolations) {
         const existing = violationMap.get(violation) || { count: 0, pnl: 0, totalR: 0 };
         existing.count++;
-        existing.pnl += getTradeBasePnL(trade);
+        existing.pnl += getTradeDisplayPnL(trade, currency);
         existing.totalR += trade.rFactor;
         violationMap.set(violation, existing);
       }
@@ -451,8 +564,9 @@ export function analyzeRuleBreaks(trades: Trade[]): RuleBreakAnalysis {
 
 /**
  * Analyze performance by market session
+ * @param currency - Currency for total P&L (default: base currency)
  */
-export function analyzeSessionPerformance(trades: Trade[]): SessionPerformance[] {
+export function analyzeSessionPerformance(trades: Trade[], currency: Currency = BASE_CURRENCY): SessionPerformance[] {
   const sessions: MarketSession[] = ['Asia', 'London', 'NewYork', 'Overlap_London_NY', 'Overlap_Asia_London', 'Off_Hours'];
   const results: SessionPerformance[] = [];
 
@@ -474,7 +588,7 @@ export function analyzeSessionPerformance(trades: Trade[]): SessionPerformance[]
     }
 
     const wins = sessionTrades.filter(t => t.pnl > 0).length;
-    const totalPnL = sessionTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+    const totalPnL = sessionTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0);
     const avgR = sessionTrades.reduce((sum, t) => sum + t.rFactor, 0) / sessionTrades.length;
     const expectancy = calculateExpectancy(sessionTrades);
 
@@ -504,8 +618,9 @@ export function analyzeSessionPerformance(trades: Trade[]): SessionPerformance[]
 
 /**
  * Analyze performance by hour of day
+ * @param currency - Currency for total P&L (default: base currency)
  */
-export function analyzeTimePerformance(trades: Trade[]): TimePerformance[] {
+export function analyzeTimePerformance(trades: Trade[], currency: Currency = BASE_CURRENCY): TimePerformance[] {
   const hourlyStats = new Map<number, { trades: Trade[]; wins: number; totalR: number; totalPnL: number }>();
 
   for (const trade of trades) {
@@ -516,7 +631,7 @@ export function analyzeTimePerformance(trades: Trade[]): TimePerformance[] {
     existing.trades.push(trade);
     if (trade.pnl > 0) existing.wins++;
     existing.totalR += trade.rFactor;
-    existing.totalPnL += getTradeBasePnL(trade);
+    existing.totalPnL += getTradeDisplayPnL(trade, currency);
     hourlyStats.set(hour, existing);
   }
 
@@ -637,8 +752,9 @@ export function analyzeLossStreak(
 
 /**
  * Comprehensive drawdown analysis
+ * @param currency - Currency for the drawdown amounts (default: base currency)
  */
-export function analyzeDrawdowns(trades: Trade[]): DrawdownAnalysis {
+export function analyzeDrawdowns(trades: Trade[], currency: Currency = BASE_CURRENCY): DrawdownAnalysis {
   const sortedTrades = [...trades].sort((a, b) => 
     new Date(a.date).getTime() - new Date(b.date).getTime()
   );
@@ -669,7 +785,7 @@ export function analyzeDrawdowns(trades: Trade[]): DrawdownAnalysis {
   let drawdownPeak = 0;
 
   for (const trade of sortedTrades) {
-    cumulativePnL += getTradeBasePnL(trade);
+    cumulativePnL += getTradeDisplayPnL(trade, currency);
     cumulativeR += trade.rFactor;
 
     if (cumulativePnL > peak) {
@@ -678,7 +794,7 @@ export function analyzeDrawdowns(trades: Trade[]): DrawdownAnalysis {
         const setups = [...new Set(drawdownTrades.map(t => t.setupName))];
         const sessions = [...new Set(drawdownTrades.map(t => t.session).filter(Boolean))] as MarketSession[];
         const drawdownAmount = drawdownPeak - Math.min(...drawdownTrades.map((_, i) => 
-          drawdownTrades.slice(0, i + 1).reduce((sum, t) => sum + getTradeBasePnL(t), drawdownPeak)
+          drawdownTrades.slice(0, i + 1).reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), drawdownPeak)
         ));
         
         drawdownPeriods.push({
@@ -760,8 +876,9 @@ export function analyzeDrawdowns(trades: Trade[]): DrawdownAnalysis {
 
 /**
  * Analyze performance by market condition
+ * @param currency - Currency for total P&L (default: base currency)
  */
-export function analyzeMarketConditionPerformance(trades: Trade[]): MarketConditionPerformance[] {
+export function analyzeMarketConditionPerformance(trades: Trade[], currency: Currency = BASE_CURRENCY): MarketConditionPerformance[] {
   const conditions: MarketCondition[] = ['Trending', 'Ranging', 'High_Volatility', 'Low_Volatility', 'News_Day', 'Normal'];
   const results: MarketConditionPerformance[] = [];
 
@@ -781,7 +898,7 @@ export function analyzeMarketConditionPerformance(trades: Trade[]): MarketCondit
     }
 
     const wins = conditionTrades.filter(t => t.pnl > 0).length;
-    const totalPnL = conditionTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+    const totalPnL = conditionTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0);
     const avgR = conditionTrades.reduce((sum, t) => sum + t.rFactor, 0) / conditionTrades.length;
     const expectancy = calculateExpectancy(conditionTrades);
 
@@ -798,6 +915,379 @@ export function analyzeMarketConditionPerformance(trades: Trade[]): MarketCondit
   return results;
 }
 
+// ============================================
+// OPTIONS ANALYSIS
+// ============================================
+
+/**
+ * Win rate, R and P&L for one group of option trades
+ */
+function summarizeOptionGroup(trades: Trade[], currency: Currency) {
+  const wins = trades.filter(t => t.pnl > 0).length;
+  const totalPnL = trades.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0);
+  const avgR = trades.reduce((sum, t) => sum + t.rFactor, 0) / trades.length;
+  return {
+    totalTrades: trades.length,
+    winRate: parseFloat(((wins / trades.length) * 100).toFixed(1)),
+    avgR: parseFloat(avgR.toFixed(2)),
+    totalPnL: parseFloat(totalPnL.toFixed(2)),
+    expectancy: calculateExpectancy(trades).expectancyR,
+  };
+}
+
+/**
+ * Analyze option trades by strategy type (single, spreads, straddles, condors...)
+ * Only strategies that were traded are returned, best expectancy first
+ * @param currency - Currency for total P&L (default: base currency)
+ */
+export function analyzeOptionStrategyPerformance(trades: Trade[], currency: Currency = BASE_CURRENCY): OptionStrategyPerformance[] {
+  const groups = new Map<OptionStrategyType, Trade[]>();
+  for (const trade of trades) {
+    if (!trade.options) continue;
+    const group = groups.get(trade.options.strategy) || [];
+    group.push(trade);
+    groups.set(trade.options.strategy, group);
+  }
+
+  return Array.from(groups, ([strategy, group]) => ({ strategy, ...summarizeOptionGroup(group, currency) }))
+    .sort((a, b) => b.expectancy - a.expectancy);
+}
+
+/**
+ * Analyze option trades by days to the nearest expiry at entry
+ * Buckets follow DTE_BUCKETS order; empty buckets are left out
+ * @param currency - Currency for total P&L (default: base currency)
+ */
+export function analyzeDaysToExpiryPerformance(trades: Trade[], currency: Currency = BASE_CURRENCY): DaysToExpiryPerformance[] {
+  const groups = new Map<string, Trade[]>();
+  for (const trade of trades) {
+    const days = getDaysToExpiry(trade);
+    if (days === undefined) continue;
+    const bucket = getDteBucket(days);
+    const group = groups.get(bucket) || [];
+    group.push(trade);
+    groups.set(bucket, group);
+  }
+
+  return DTE_BUCKETS
+    .filter(b => groups.has(b.label))
+    .map(b => ({ bucket: b.label, ...summarizeOptionGroup(groups.get(b.label)!, currency) }));
+}
+
+// ============================================
+// TAG ANALYSIS
+// ============================================
+
+/**
+ * Win rate, expectancy, total R and P&L for trades sharing a tag group
+ */
+function summarizeTagGroup(tags: string[], trades: Trade[], currency: Currency): TagPerformance {
+  const wins = trades.filter(t => t.pnl > 0).length;
+  const totalR = trades.reduce((sum, t) => sum + t.rFactor, 0);
+  const totalPnL = trades.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0);
+  return {
+    tag: tags.join(' + '),
+    tags,
+    totalTrades: trades.length,
+    winRate: parseFloat(((wins / trades.length) * 100).toFixed(1)),
+    expectancy: calculateExpectancy(trades).expectancyR,
+    totalR: parseFloat(totalR.toFixed(2)),
+    totalPnL: parseFloat(totalPnL.toFixed(2)),
+  };
+}
+
+/**
+ * Analyze performance per tag and per pair of tags taken together
+ * Nested tags also count towards their parents, so "news" includes "news/cpi".
+ * Combinations pair the tags actually on a trade and need `minCombinationTrades`
+ * trades to be listed. Both lists are sorted by total R, best first.
+ * @param currency - Currency for total P&L (default: base currency)
+ */
+export function analyzeTagPerformance(
+  trades: Trade[],
+  currency: Currency = BASE_CURRENCY,
+  minCombinationTrades = 2
+): { tags: TagPerformance[]; combinations: TagPerformance[] } {
+  const byTag = new Map<string, Trade[]>();
+  const byPair = new Map<string, Trade[]>();
+
+  for (const trade of trades) {
+    const own = Array.from(new Set(trade.tags || [])).sort();
+    const withParents = new Set(own.flatMap(getTagAncestors));
+    withParents.forEach(tag => byTag.set(tag, [...(byTag.get(tag) || []), trade]));
+
+    for (let i = 0; i < own.length; i++) {
+      for (let j = i + 1; j < own.length; j++) {
+        // A tag paired with its own parent says nothing new
+        if (getTagAncestors(own[j]).includes(own[i])) continue;
+        // "|" never appears in a normalized tag
+        const key = `${own[i]}|${own[j]}`;
+        byPair.set(key, [...(byPair.get(key) || []), trade]);
+      }
+    }
+  }
+
+  const byTotalR = (a: TagPerformance, b: TagPerformance) => b.totalR - a.totalR;
+  return {
+    tags: Array.from(byTag, ([tag, group]) => summarizeTagGroup([tag], group, currency)).sort(byTotalR),
+    combinations: Array.from(byPair)
+      .filter(([, group]) => group.length >= minCombinationTrades)
+      .map(([key, group]) => summarizeTagGroup(key.split('|'), group, currency))
+      .sort(byTotalR),
+  };
+}
+
+// ============================================
+// CHECKLIST COMPLIANCE
+// ============================================
+
+const percentOf = (count: number, total: number) =>
+  total > 0 ? parseFloat(((count / total) * 100).toFixed(1)) : 0;
+
+const averageR = (trades: Trade[]) =>
+  trades.length > 0 ? parseFloat((trades.reduce((sum, t) => sum + t.rFactor, 0) / trades.length).toFixed(2)) : 0;
+
+/**
+ * Analyze how pre-trade checklist answers relate to results
+ * Items are matched by text across setups. They are sorted by how much more often
+ * trades lose when the item was left unchecked, so the costliest skipped checks come first.
+ */
+export function analyzeChecklistCompliance(trades: Trade[]): ChecklistComplianceAnalysis {
+  const withChecklist = trades.filter(t => t.checklist && t.checklist.length > 0);
+  const compliant = withChecklist.filter(t => t.checklist!.every(a => a.checked));
+  const nonCompliant = withChecklist.filter(t => t.checklist!.some(a => !a.checked));
+
+  const byItem = new Map<string, { item: string; checked: Trade[]; unchecked: Trade[] }>();
+  for (const trade of withChecklist) {
+    for (const answer of trade.checklist!) {
+      const key = answer.text.trim().toLowerCase();
+      const group = byItem.get(key) || { item: answer.text.trim(), checked: [], unchecked: [] };
+      (answer.checked ? group.checked : group.unchecked).push(trade);
+      byItem.set(key, group);
+    }
+  }
+
+  const items: ChecklistItemCompliance[] = Array.from(byItem.values()).map(({ item, checked, unchecked }) => ({
+    item,
+    totalTrades: checked.length + unchecked.length,
+    uncheckedCount: unchecked.length,
+    complianceRate: percentOf(checked.length, checked.length + unchecked.length),
+    lossRateChecked: percentOf(checked.filter(t => t.pnl < 0).length, checked.length),
+    lossRateUnchecked: percentOf(unchecked.filter(t => t.pnl < 0).length, unchecked.length),
+    avgRChecked: averageR(checked),
+    avgRUnchecked: averageR(unchecked),
+  }));
+
+  const lossLift = (i: ChecklistItemCompliance) => i.uncheckedCount > 0 ? i.lossRateUnchecked - i.lossRateChecked : -Infinity;
+  items.sort((a, b) => lossLift(b) - lossLift(a));
+
+  return {
+    totalTrades: withChecklist.length,
+    fullyCompliantCount: compliant.length,
+    complianceRate: percentOf(compliant.length, withChecklist.length),
+    winRateCompliant: percentOf(compliant.filter(t => t.pnl > 0).length, compliant.length),
+    winRateNonCompliant: percentOf(nonCompliant.filter(t => t.pnl > 0).length, nonCompliant.length),
+    avgRCompliant: averageR(compliant),
+    avgRNonCompliant: averageR(nonCompliant),
+    items,
+  };
+}
+
+// ============================================
+// IDEA VALIDATION
+// ============================================
+
+export const DEFAULT_IDEA_SAMPLE_SIZE = 20;
+
+/**
+ * Closed trades that executed a trade idea
+ */
+export function getIdeaTrades(trades: Trade[], ideaId: string): Trade[] {
+  return trades.filter(t => t.ideaIds?.includes(ideaId));
+}
+
+/**
+ * Live results of a trade idea and the status they point to
+ * No status is suggested until `sampleSize` trades have been taken.
+ */
+export function analyzeIdeaPerformance(
+  trades: Trade[],
+  ideaId: string,
+  sampleSize = DEFAULT_IDEA_SAMPLE_SIZE
+): IdeaPerformance {
+  const ideaTrades = getIdeaTrades(trades, ideaId);
+  const expectancy = calculateExpectancy(ideaTrades);
+  const totalR = ideaTrades.reduce((sum, t) => sum + t.rFactor, 0);
+
+  let suggestedStatus: IdeaPerformance['suggestedStatus'];
+  if (ideaTrades.length >= sampleSize) {
+    suggestedStatus = expectancy.expectancyR > 0 ? 'validated' : 'invalidated';
+  }
+
+  return {
+    ideaId,
+    totalTrades: ideaTrades.length,
+    winRate: expectancy.winRate,
+    expectancyR: expectancy.expectancyR,
+    totalR: parseFloat(totalR.toFixed(2)),
+    suggestedStatus,
+  };
+}
+
+// ============================================
+// BACKTEST VS LIVE
+// ============================================
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+function logGamma(x: number): number {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of c) series += coefficient / ++y;
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+/**
+ * Continued fraction for the regularized incomplete beta function
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const EPSILON = 3e-14;
+  const TINY = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a - 1 + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + 1 + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Two-tailed p-value of a Student t statistic
+ */
+function studentTPValue(t: number, degreesOfFreedom: number): number {
+  return incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+/**
+ * Two-tailed p-value of a standard normal z statistic
+ */
+function normalPValue(z: number): number {
+  // Abramowitz & Stegun 7.1.26 approximation of erf
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return 1 - erf;
+}
+
+const NO_TEST: SignificanceTest = { statistic: 0, pValue: 1, isSignificant: false };
+
+/**
+ * Welch's t-test for a difference in mean R per trade (live minus backtest)
+ */
+function welchTTest(backtest: number[], live: number[], alpha: number): SignificanceTest {
+  if (backtest.length < 2 || live.length < 2) return NO_TEST;
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = (values: number[], m: number) => values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+  const meanB = mean(backtest);
+  const meanL = mean(live);
+  const seB = variance(backtest, meanB) / backtest.length;
+  const seL = variance(live, meanL) / live.length;
+  const standardError = Math.sqrt(seB + seL);
+  if (standardError === 0) return NO_TEST;
+
+  const t = (meanL - meanB) / standardError;
+  const degreesOfFreedom = (seB + seL) ** 2 / (seB ** 2 / (backtest.length - 1) + seL ** 2 / (live.length - 1));
+  const pValue = studentTPValue(t, degreesOfFreedom);
+  return { statistic: parseFloat(t.toFixed(3)), pValue: parseFloat(pValue.toFixed(4)), isSignificant: pValue < alpha };
+}
+
+/**
+ * Two-proportion z-test for a difference in win rate (live minus backtest)
+ */
+function twoProportionZTest(winsB: number, totalB: number, winsL: number, totalL: number, alpha: number): SignificanceTest {
+  if (totalB === 0 || totalL === 0) return NO_TEST;
+  const pooled = (winsB + winsL) / (totalB + totalL);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalB + 1 / totalL));
+  if (standardError === 0) return NO_TEST;
+
+  const z = (winsL / totalL - winsB / totalB) / standardError;
+  const pValue = normalPValue(z);
+  return { statistic: parseFloat(z.toFixed(3)), pValue: parseFloat(pValue.toFixed(4)), isSignificant: pValue < alpha };
+}
+
+/**
+ * Expectancy, R statistics and R drawdown of a group of trades
+ */
+function getPerformanceSnapshot(trades: Trade[]): PerformanceSnapshot {
+  return {
+    expectancy: calculateExpectancy(trades),
+    rStats: calculateRMultipleStats(trades),
+    maxDrawdownR: parseFloat(analyzeDrawdowns(trades).maxDrawdownR.toFixed(2)),
+  };
+}
+
+/**
+ * Compare backtest results of a setup with its live trades
+ * The verdict rests on the t-test of R per trade: a significantly lower live mean
+ * means execution is degrading the edge. Each side needs `minTrades` trades.
+ * @param alpha - Significance level (default 5%)
+ */
+export function compareBacktestToLive(
+  backtestTrades: Trade[],
+  liveTrades: Trade[],
+  alpha = 0.05,
+  minTrades = 5
+): BacktestLiveComparison {
+  const backtest = getPerformanceSnapshot(backtestTrades);
+  const live = getPerformanceSnapshot(liveTrades);
+  const expectancyTest = welchTTest(backtestTrades.map(t => t.rFactor), liveTrades.map(t => t.rFactor), alpha);
+  const winRateTest = twoProportionZTest(
+    backtestTrades.filter(t => t.pnl > 0).length, backtestTrades.length,
+    liveTrades.filter(t => t.pnl > 0).length, liveTrades.length,
+    alpha
+  );
+
+  let verdict: BacktestLiveComparison['verdict'] = 'consistent';
+  if (backtestTrades.length < minTrades || liveTrades.length < minTrades) verdict = 'insufficient';
+  else if (expectancyTest.isSignificant) verdict = expectancyTest.statistic < 0 ? 'degraded' : 'improved';
+
+  return { backtest, live, expectancyTest, winRateTest, verdict };
+}
+
 // ============================================
 // UTILITY: AUTO-DETECT SESSION FROM TIME
 // ============================================
@@ -844,22 +1334,28 @@ export interface AnalyticsSummary {
   lossStreakAlert: LossStreakAlert;
   drawdownAnalysis: DrawdownAnalysis;
   marketConditionPerformance: MarketConditionPerformance[];
+  optionStrategyPerformance: OptionStrategyPerformance[];
+  daysToExpiryPerformance: DaysToExpiryPerformance[];
   keyInsights: string[];
 }
 
 /**
  * Generate comprehensive analytics summary
+ * @param trades - Closed trades, already limited to the selected accounts
+ * @param currency - Currency for every P&L figure (default: base currency)
  */
-export function generateAnalyticsSummary(trades: Trade[]): AnalyticsSummary {
-  const expectancy = calculateExpectancy(trades);
+export function generateAnalyticsSummary(trades: Trade[], currency: Currency = BASE_CURRENCY): AnalyticsSummary {
+  const expectancy = calculateExpectancy(trades, currency);
   const rMultipleStats = calculateRMultipleStats(trades);
-  const setupScores = calculateSetupQualityScores(trades);
-  const ruleBreakAnalysis = analyzeRuleBreaks(trades);
-  const sessionPerformance = analyzeSessionPerformance(trades);
-  const timePerformance = analyzeTimePerformance(trades);
+  const setupScores = calculateSetupQualityScores(trades, currency);
+  const ruleBreakAnalysis = analyzeRuleBreaks(trades, currency);
+  const sessionPerformance = analyzeSessionPerformance(trades, currency);
+  const timePerformance = analyzeTimePerformance(trades, currency);
   const lossStreakAlert = analyzeLossStreak(trades);
-  const drawdownAnalysis = analyzeDrawdowns(trades);
-  const marketConditionPerformance = analyzeMarketConditionPerformance(trades);
+  const drawdownAnalysis = analyzeDrawdowns(trades, currency);
+  const marketConditionPerformance = analyzeMarketConditionPerformance(trades, currency);
+  const optionStrategyPerformance = analyzeOptionStrategyPerformance(trades, currency);
+  const daysToExpiryPerformance = analyzeDaysToExpiryPerformance(trades, currency);
 
   // Generate key insights
   const keyInsights: string[] = [];
@@ -886,7 +1382,7 @@ export function generateAnalyticsSummary(trades: Trade[]): AnalyticsSummary {
   // Rule following insight
   if (ruleBreakAnalysis.pnlWithRulesFollowed > 0 && ruleBreakAnalysis.pnlWithRulesBroken < 0) {
     const difference = ruleBreakAnalysis.pnlWithRulesFollowed - ruleBreakAnalysis.pnlWithRulesBroken;
-    keyInsights.push(`Following rules would have added ${CURRENCY_SYMBOLS[BASE_CURRENCY]}${difference.toFixed(0)} to your P&L`);
+    keyInsights.push(`Following rules would have added ${getCurrencySymbol(currency)}${difference.toFixed(0)} to your P&L`);
   }
 
   // Session insight
@@ -919,6 +1415,8 @@ export function generateAnalyticsSummary(trades: Trade[]): AnalyticsSummary {
     lossStreakAlert,
     drawdownAnalysis,
     marketConditionPerformance,
+    optionStrategyPerformance,
+    daysToExpiryPerformance,
     keyInsights,
   };
 }
@@ -0,0 +1,118 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { BacktestTrade } from './types';
+import { getAllFromDB, putManyToDB, deleteFromDB, STORE_NAMES } from './db-service';
+import { parseBacktestCSV } from './backtest';
+
+interface BacktestContextType {
+  backtestTrades: BacktestTrade[];
+  addBacktestTrades: (trades: BacktestTrade[]) => void;
+  deleteBacktestTrade: (id: string) => void;
+  getIdeaBacktests: (ideaId: string) => BacktestTrade[];
+  importCSV: (file: File, ideaId: string) => Promise<{ imported: number; errors: string[] }>;
+  error: string | null;
+  clearError: () => void;
+}
+
+export const BacktestContext = createContext<BacktestContextType | undefined>(undefined);
+
+const sortBacktests = (trades: BacktestTrade[]) =>
+  [...trades].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * BacktestProvider - Context provider for backtest trades recorded under ideas
+ * Persists them to IndexedDB
+ */
+export function BacktestProvider({ children }: { children: React.ReactNode }) {
+  const [backtestTrades, setBacktestTrades] = useState<BacktestTrade[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Effect: Load backtest trades from IndexedDB on mount
+   */
+  useEffect(() => {
+    const initializeBacktests = async () => {
+      try {
+        console.log('[BacktestContext] Loading backtest trades from IndexedDB...');
+        const loaded = await getAllFromDB<BacktestTrade>(STORE_NAMES.BACKTEST_TRADES);
+        console.log('[BacktestContext] Loaded', loaded?.length || 0, 'backtest trades');
+        setBacktestTrades(sortBacktests(loaded || []));
+        setError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load backtest trades';
+        console.error('[BacktestContext] Initialization error:', message, err);
+        setError(message);
+      }
+    };
+
+    initializeBacktests();
+  }, []);
+
+  const addBacktestTrades = (incoming: BacktestTrade[]) => {
+    if (incoming.length === 0) return;
+    setBacktestTrades(prev => sortBacktests([...prev, ...incoming]));
+    putManyToDB(STORE_NAMES.BACKTEST_TRADES, incoming).catch(err => {
+      console.error('[BacktestContext] Error saving backtest trades:', err);
+      setError('Failed to save backtest trades');
+    });
+  };
+
+  const deleteBacktestTrade = (id: string) => {
+    setBacktestTrades(prev => prev.filter(t => t.id !== id));
+    deleteFromDB(STORE_NAMES.BACKTEST_TRADES, id).catch(err => {
+      console.error('[BacktestContext] Error deleting backtest trade:', err);
+      setError('Failed to delete backtest trade');
+    });
+  };
+
+  const getIdeaBacktests = (ideaId: string) => backtestTrades.filter(t => t.ideaId === ideaId);
+
+  /**
+   * Import backtest trades for an idea from a CSV file
+   * Valid lines are saved even when others are rejected
+   */
+  const importCSV = async (file: File, ideaId: string) => {
+    try {
+      const text = await file.text();
+      const { trades: parsed, errors } = parseBacktestCSV(text, ideaId);
+      if (parsed.length === 0) {
+        throw new Error(errors[0] || 'No backtest trades found in file');
+      }
+      addBacktestTrades(parsed);
+      setError(null);
+      return { imported: parsed.length, errors };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to import backtest trades';
+      console.error('[BacktestContext] CSV import failed:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  const clearError = () => setError(null);
+
+  return (
+    <BacktestContext.Provider
+      value={{
+        backtestTrades,
+        addBacktestTrades,
+        deleteBacktestTrade,
+        getIdeaBacktests,
+        importCSV,
+        error,
+        clearError,
+      }}
+    >
+      {children}
+    </BacktestContext.Provider>
+  );
+}
+
+export function useBacktests() {
+  const context = useContext(BacktestContext);
+  if (!context) {
+    throw new Error('useBacktests must be used within a BacktestProvider');
+  }
+  return context;
+}
@@ -0,0 +1,160 @@
+/**
+ * Backtest trades
+ * Simulated trades recorded under a trade idea. They carry only a date, direction
+ * and R result, and are adapted to Trade so the live statistics functions
+ * (calculateExpectancy, calculateRMultipleStats) apply to them unchanged.
+ */
+
+import { BacktestTrade, Trade, TradeIdea, PlaybookSetup } from './types';
+import { getDayOfWeek, BASE_CURRENCY } from './trade-utils';
+import { findSetupById, findSetupByName, normalizeSetupName } from './playbook';
+
+export interface SetupBacktestGroup {
+  key: string;
+  name: string;
+  // Backtest trades of every idea for the setup, adapted to Trade
+  backtestTrades: Trade[];
+  liveTrades: Trade[];
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const DIRECTIONS: Record<string, BacktestTrade['direction']> = {
+  buy: 'Buy',
+  long: 'Buy',
+  b: 'Buy',
+  sell: 'Sell',
+  short: 'Sell',
+  s: 'Sell',
+};
+
+/**
+ * Present a backtest trade as a closed Trade
+ * P&L is expressed in R (1R = 1 unit) since backtests have no position size.
+ */
+export function backtestToTrade(backtest: BacktestTrade, setupName = ''): Trade {
+  return {
+    id: backtest.id,
+    status: 'closed',
+    date: backtest.date,
+    dayOfWeek: getDayOfWeek(backtest.date),
+    symbol: '',
+    tradeType: 'Intraday',
+    setupName,
+    position: backtest.direction,
+    stopLoss: 0,
+    quantity: 0,
+    fees: 0,
+    pnl: backtest.rResult,
+    currency: BASE_CURRENCY,
+    pnlBase: backtest.rResult,
+    exchangeRate: 1,
+    rFactor: backtest.rResult,
+    isWin: backtest.rResult > 0,
+    confidence: 0,
+    preNotes: '',
+    postNotes: backtest.notes,
+    ruleFollowed: true,
+  };
+}
+
+/**
+ * Cumulative R after each backtest trade, oldest first
+ */
+export function getBacktestEquityCurve(backtests: BacktestTrade[]): { trade: number; date: string; equityR: number }[] {
+  let equity = 0;
+  return [...backtests]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt))
+    .map((backtest, index) => {
+      equity += backtest.rResult;
+      return { trade: index + 1, date: backtest.date, equityR: parseFloat(equity.toFixed(2)) };
+    });
+}
+
+/**
+ * Parse backtest trades from CSV
+ * Columns: `date,direction,r,notes` (direction Buy/Sell or Long/Short; notes optional).
+ * A header row is optional and notes may contain commas.
+ * @returns Parsed trades plus one message per rejected line
+ */
+export function parseBacktestCSV(text: string, ideaId: string): { trades: BacktestTrade[]; errors: string[] } {
+  const trades: BacktestTrade[] = [];
+  const errors: string[] = [];
+  const now = new Date().toISOString();
+
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const start = lines.length > 0 && !ISO_DATE.test(lines[0].split(',')[0].trim().replace(/^"|"$/g, '')) ? 1 : 0;
+
+  lines.slice(start).forEach((line, i) => {
+    const lineNumber = i + start + 1;
+    const [date, directionCell, rCell, ...noteCells] = line.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
+    const direction = DIRECTIONS[(directionCell || '').toLowerCase()];
+    const rResult = parseFloat((rCell || '').replace(/r$/i, ''));
+
+    if (!ISO_DATE.test(date || '')) {
+      errors.push(`Line ${lineNumber}: date must be YYYY-MM-DD`);
+      return;
+    }
+    if (!direction) {
+      errors.push(`Line ${lineNumber}: direction must be Buy/Sell or Long/Short`);
+      return;
+    }
+    if (!Number.isFinite(rResult)) {
+      errors.push(`Line ${lineNumber}: R result must be a number`);
+      return;
+    }
+
+    trades.push({
+      id: `${Date.now()}-${lineNumber}-${Math.random().toString(36).substr(2, 5)}`,
+      ideaId,
+      date,
+      direction,
+      rResult,
+      notes: noteCells.join(',').trim(),
+      createdAt: now,
+    });
+  });
+
+  return { trades, errors };
+}
+
+/**
+ * Key shared by ideas and trades of the same setup: the playbook setup when one
+ * matches, otherwise the normalized setup name
+ */
+function getSetupKey(setupName: string, setups: PlaybookSetup[], setupId?: string): { key: string; name: string } {
+  const setup = findSetupById(setupId, setups) || findSetupByName(setupName, setups);
+  return setup
+    ? { key: `setup:${setup.id}`, name: setup.name }
+    : { key: `name:${normalizeSetupName(setupName)}`, name: setupName };
+}
+
+/**
+ * Backtest and live trades grouped by setup, for setups with backtest data
+ * Ideas map to a setup through their `setup` text; live trades through setupId or setupName.
+ * @param liveTrades - Closed live trades
+ */
+export function groupBacktestsBySetup(
+  ideas: TradeIdea[],
+  backtests: BacktestTrade[],
+  liveTrades: Trade[],
+  setups: PlaybookSetup[]
+): SetupBacktestGroup[] {
+  const groups = new Map<string, SetupBacktestGroup>();
+
+  for (const idea of ideas) {
+    const ideaBacktests = backtests.filter(b => b.ideaId === idea.id);
+    if (ideaBacktests.length === 0 || !idea.setup.trim()) continue;
+    const { key, name } = getSetupKey(idea.setup, setups);
+    const group = groups.get(key) || { key, name, backtestTrades: [], liveTrades: [] };
+    group.backtestTrades.push(...ideaBacktests.map(b => backtestToTrade(b, name)));
+    groups.set(key, group);
+  }
+
+  for (const trade of liveTrades) {
+    const group = groups.get(getSetupKey(trade.setupName, setups, trade.setupId).key);
+    if (group) group.liveTrades.push(trade);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
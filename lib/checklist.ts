@@ -0,0 +1,44 @@
+/**
+ * Pre-trade checklists
+ * A playbook setup lists conditions to confirm before entry; the trade keeps one
+ * answer per item and is only marked as following the rules when every item is checked.
+ */
+
+import { ChecklistItem, ChecklistAnswer } from './types';
+
+/**
+ * Answers for a checklist, keeping the state of items already answered
+ */
+export function buildChecklistAnswers(items: ChecklistItem[], previous: ChecklistAnswer[] = []): ChecklistAnswer[] {
+  return items.map(item => ({
+    itemId: item.id,
+    text: item.text,
+    checked: previous.find(a => a.itemId === item.id)?.checked ?? false,
+  }));
+}
+
+/**
+ * Items left unchecked
+ */
+export function getUncheckedItems(answers: ChecklistAnswer[] = []): ChecklistAnswer[] {
+  return answers.filter(a => !a.checked);
+}
+
+/**
+ * Rules are followed when every checklist item was confirmed
+ * Trades without a checklist keep the self-reported value
+ */
+export function deriveRuleFollowed(answers: ChecklistAnswer[] | undefined, fallback: boolean): boolean {
+  return answers && answers.length > 0 ? getUncheckedItems(answers).length === 0 : fallback;
+}
+
+/**
+ * Parse a textarea with one checklist item per line, keeping ids of unchanged lines
+ */
+export function parseChecklistItems(text: string, existing: ChecklistItem[] = []): ChecklistItem[] {
+  const lines = Array.from(new Set(text.split('\n').map(l => l.trim()).filter(Boolean)));
+  return lines.map((line, index) => ({
+    id: existing.find(item => item.text === line)?.id || `${Date.now()}-${index}-${Math.random().toString(36).substr(2, 5)}`,
+    text: line,
+  }));
+}
@@ -0,0 +1,59 @@
+/**
+ * Currency Registry
+ * Codes, symbols, decimals and symbol placement for every currency the journal
+ * can record - fiat and crypto quote currencies alike.
+ * Published by the settings context through currencyRegistry (see registry.ts).
+ */
+
+import { Currency, CurrencyDefinition } from './types';
+import { createRegistry } from './registry';
+
+// Built-in currencies; stored trades only ever used these before the registry existed
+export const DEFAULT_CURRENCIES: CurrencyDefinition[] = [
+  { code: 'INR', name: 'Indian Rupee', symbol: '₹', decimals: 2, placement: 'before', defaultRate: 1 },
+  { code: 'USD', name: 'US Dollar', symbol: '$', decimals: 2, placement: 'before', defaultRate: 83.5 },
+  { code: 'EUR', name: 'Euro', symbol: '€', decimals: 2, placement: 'before', defaultRate: 90.2 },
+  { code: 'GBP', name: 'British Pound', symbol: '£', decimals: 2, placement: 'before', defaultRate: 105.8 },
+  { code: 'JPY', name: 'Japanese Yen', symbol: '¥', decimals: 0, placement: 'after', defaultRate: 0.56 },
+  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', decimals: 2, placement: 'after', defaultRate: 54.3 },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$', decimals: 2, placement: 'after', defaultRate: 61.2 },
+];
+
+export const currencyRegistry = createRegistry<CurrencyDefinition[]>('Currencies', DEFAULT_CURRENCIES);
+
+/**
+ * Whether a code is one of the built-in currencies (these cannot be deleted)
+ */
+export function isBuiltInCurrency(code: Currency): boolean {
+  return DEFAULT_CURRENCIES.some(c => c.code === code);
+}
+
+/**
+ * All registered currencies, in registry order
+ */
+export function getCurrencies(): CurrencyDefinition[] {
+  return currencyRegistry.get();
+}
+
+/**
+ * Uppercase and strip everything but letters and digits ("usdt " -> "USDT")
+ */
+export function normalizeCurrencyCode(code: string): Currency {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Look up a currency by code
+ */
+export function getCurrency(code: Currency, currencies: CurrencyDefinition[] = currencyRegistry.get()): CurrencyDefinition | undefined {
+  const key = normalizeCurrencyCode(code || '');
+  return currencies.find(c => c.code === key);
+}
+
+/**
+ * Display symbol for a currency
+ * @returns The code itself for currencies missing from the registry
+ */
+export function getCurrencySymbol(code: Currency): string {
+  return getCurrency(code)?.symbol ?? code;
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { CustomFieldDefinition } from './types';
+import { getAllFromDB, putToDB, deleteFromDB, STORE_NAMES } from './db-service';
+import { customFieldRegistry } from './custom-fields';
+import { publishRegistry } from './registry';
+
+interface CustomFieldsContextType {
+  customFields: CustomFieldDefinition[];
+  addCustomField: (field: CustomFieldDefinition) => void;
+  updateCustomField: (id: string, field: CustomFieldDefinition) => void;
+  deleteCustomField: (id: string) => void;
+  error: string | null;
+  clearError: () => void;
+}
+
+export const CustomFieldsContext = createContext<CustomFieldsContextType | undefined>(undefined);
+
+// Oldest first, so new fields appear after the ones traders are used to
+const sortFields = (fields: CustomFieldDefinition[]) =>
+  [...fields].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * CustomFieldsProvider - Context provider for user-defined trade fields
+ * Persists field definitions to IndexedDB and mirrors them into the registry used by exports and analytics
+ */
+export function CustomFieldsProvider({ children }: { children: React.ReactNode }) {
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Effect: Load field definitions from IndexedDB on mount
+   */
+  useEffect(() => {
+    const initializeFields = async () => {
+      try {
+        console.log('[CustomFieldsContext] Loading custom fields from IndexedDB...');
+        const loaded = await getAllFromDB<CustomFieldDefinition>(STORE_NAMES.CUSTOM_FIELDS);
+        console.log('[CustomFieldsContext] Loaded', loaded?.length || 0, 'custom fields');
+        setCustomFields(sortFields(loaded || []));
+        setError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load custom fields';
+        console.error('[CustomFieldsContext] Initialization error:', message, err);
+        setError(message);
+      }
+    };
+
+    initializeFields().finally(() => customFieldRegistry.markLoaded());
+  }, []);
+
+  publishRegistry(customFieldRegistry, customFields);
+
+  /**
+   * Reject a definition that cannot be rendered or whose name is taken
+   */
+  const assertValid = (field: CustomFieldDefinition) => {
+    if (!field.id || !field.name.trim()) {
+      throw new Error('Invalid custom field: missing required fields');
+    }
+    if ((field.type === 'select' || field.type === 'multi-select') && !field.options?.length) {
+      throw new Error('Select fields need at least one option');
+    }
+    const clash = customFields.find(f => f.id !== field.id && f.name.toLowerCase() === field.name.trim().toLowerCase());
+    if (clash) throw new Error(`A field named "${clash.name}" already exists`);
+  };
+
+  const addCustomField = (field: CustomFieldDefinition) => {
+    try {
+      assertValid(field);
+      setCustomFields(prev => sortFields([...prev, field]));
+      putToDB(STORE_NAMES.CUSTOM_FIELDS, field).catch(err => {
+        console.error('[CustomFieldsContext] Error saving custom field:', err);
+        setError('Failed to save custom field');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add custom field';
+      console.error('[CustomFieldsContext] Add error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  const updateCustomField = (id: string, updatedField: CustomFieldDefinition) => {
+    try {
+      assertValid(updatedField);
+      setCustomFields(prev => prev.map(f => (f.id === id ? updatedField : f)));
+      putToDB(STORE_NAMES.CUSTOM_FIELDS, updatedField).catch(err => {
+        console.error('[CustomFieldsContext] Error updating custom field:', err);
+        setError('Failed to update custom field');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update custom field';
+      console.error('[CustomFieldsContext] Update error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  /**
+   * Remove a field definition; values already on trades are kept but no longer shown
+   */
+  const deleteCustomField = (id: string) => {
+    try {
+      setCustomFields(prev => prev.filter(f => f.id !== id));
+      deleteFromDB(STORE_NAMES.CUSTOM_FIELDS, id).catch(err => {
+        console.error('[CustomFieldsContext] Error deleting custom field:', err);
+        setError('Failed to delete custom field');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete custom field';
+      console.error('[CustomFieldsContext] Delete error:', message);
+      setError(message);
+    }
+  };
+
+  const clearError = () => setError(null);
+
+  return (
+    <CustomFieldsContext.Provider
+      value={{
+        customFields,
+        addCustomField,
+        updateCustomField,
+        deleteCustomField,
+        error,
+        clearError,
+      }}
+    >
+      {children}
+    </CustomFieldsContext.Provider>
+  );
+}
+
+export function useCustomFields() {
+  const context = useContext(CustomFieldsContext);
+  if (!context) {
+    throw new Error('useCustomFields must be used within a CustomFieldsProvider');
+  }
+  return context;
+}
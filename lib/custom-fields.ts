@@ -0,0 +1,149 @@
+/**
+ * Custom Fields
+ * Trader-defined trade attributes (VIX level, pre-market gap %, from watchlist...).
+ * Published by the custom fields context through customFieldRegistry (see registry.ts).
+ */
+
+import { Trade, CustomFieldDefinition, CustomFieldValue, CustomFieldFormValue, CustomFieldFilter, CustomFieldType } from './types';
+import { createRegistry } from './registry';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  number: 'Number',
+  select: 'Select',
+  'multi-select': 'Multi-select',
+  boolean: 'Yes / No',
+  text: 'Text',
+};
+
+export const customFieldRegistry = createRegistry<CustomFieldDefinition[]>('Custom fields', []);
+
+/**
+ * All defined custom fields, in display order
+ */
+export function getCustomFields(): CustomFieldDefinition[] {
+  return customFieldRegistry.get();
+}
+
+/**
+ * Empty form value for a field
+ */
+export function getEmptyCustomFieldValue(field: CustomFieldDefinition): CustomFieldFormValue {
+  if (field.type === 'multi-select') return [];
+  if (field.type === 'boolean') return false;
+  return '';
+}
+
+/**
+ * Convert raw form inputs into stored values
+ * Blank inputs and values of deleted fields are dropped
+ * @returns undefined when no field has a value
+ */
+export function parseCustomFieldValues(
+  formValues: Record<string, CustomFieldFormValue> | undefined,
+  fields: CustomFieldDefinition[] = customFieldRegistry.get()
+): Record<string, CustomFieldValue> | undefined {
+  if (!formValues) return undefined;
+  const values: Record<string, CustomFieldValue> = {};
+
+  for (const field of fields) {
+    const raw = formValues[field.id];
+    if (raw === undefined) continue;
+    switch (field.type) {
+      case 'number': {
+        const num = parseFloat(String(raw));
+        if (!isNaN(num)) values[field.id] = num;
+        break;
+      }
+      case 'boolean':
+        // Unticked boxes are stored so "No" can be filtered and grouped on
+        values[field.id] = raw === true;
+        break;
+      case 'multi-select':
+        if (Array.isArray(raw) && raw.length > 0) values[field.id] = raw;
+        break;
+      default:
+        if (typeof raw === 'string' && raw.trim()) values[field.id] = raw.trim();
+    }
+  }
+
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+/**
+ * Check the form inputs for custom fields
+ * @returns Error message per field id
+ */
+export function validateCustomFieldValues(
+  formValues: Record<string, CustomFieldFormValue> | undefined,
+  fields: CustomFieldDefinition[] = customFieldRegistry.get()
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const field of fields) {
+    const raw = formValues?.[field.id];
+    if (field.type === 'number' && typeof raw === 'string' && raw.trim() && isNaN(parseFloat(raw))) {
+      errors[field.id] = `${field.name} must be a number`;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Human-readable value for tables and exports ('' when unset)
+ */
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === undefined) return '';
+  if (field.type === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join('; ');
+  return String(value);
+}
+
+/**
+ * Group key(s) for a trade's value, for calculateExpectancyBy
+ * Multi-select trades fall into one group per selected option; number fields are
+ * bucketed into ranges when the field has a bucket size.
+ * @returns undefined when the trade has no value for the field
+ */
+export function getCustomFieldGroupKeys(trade: Trade, field: CustomFieldDefinition): string[] | undefined {
+  const value = trade.customFields?.[field.id];
+  if (value === undefined) return undefined;
+
+  if (field.type === 'number' && typeof value === 'number' && field.bucketSize && field.bucketSize > 0) {
+    const start = Math.floor(value / field.bucketSize) * field.bucketSize;
+    const end = start + field.bucketSize;
+    // Trim float noise such as 0.30000000000000004
+    return [`${parseFloat(start.toFixed(6))} – ${parseFloat(end.toFixed(6))}`];
+  }
+  if (Array.isArray(value)) return value.length > 0 ? value : undefined;
+  return [formatCustomFieldValue(field, value)];
+}
+
+/**
+ * Check a trade against one custom field criterion
+ * Criteria on fields that no longer exist are ignored
+ */
+export function matchesCustomFieldFilter(trade: Trade, criterion: CustomFieldFilter, fields: CustomFieldDefinition[] = customFieldRegistry.get()): boolean {
+  const field = fields.find(f => f.id === criterion.fieldId);
+  if (!field) return true;
+  const value = trade.customFields?.[field.id];
+
+  switch (field.type) {
+    case 'number':
+      if (criterion.min === undefined && criterion.max === undefined) return true;
+      if (typeof value !== 'number') return false;
+      if (criterion.min !== undefined && value < criterion.min) return false;
+      if (criterion.max !== undefined && value > criterion.max) return false;
+      return true;
+    case 'boolean':
+      return criterion.equals === undefined || (value === true) === criterion.equals;
+    case 'text': {
+      if (!criterion.values?.length) return true;
+      const text = typeof value === 'string' ? value.toLowerCase() : '';
+      return criterion.values.some(v => text.includes(v.toLowerCase()));
+    }
+    default: {
+      if (!criterion.values?.length) return true;
+      const selected = Array.isArray(value) ? value : value !== undefined ? [String(value)] : [];
+      return selected.some(v => criterion.values!.includes(v));
+    }
+  }
+}
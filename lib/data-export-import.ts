@@ -6,7 +6,7 @@
 'use client';
 
 import { Trade } from '@/lib/types';
-import { calculatePnL, calculateRFactor } from '@/lib/trade-utils';
+import { calculatePnL, calculateRFactor, getTradeExitDate } from '@/lib/trade-utils';
 import { format } from 'date-fns';
 
 /**
@@ -31,7 +31,7 @@ export function exportTradesCSV(trades: Trade[], filename?: string): void {
   const rows = trades.map((trade) => {
     const pnl = calculatePnL(trade);
     const rFactor = calculateRFactor(trade);
-    const duration = (new Date(trade.exitDate).getTime() - new Date(trade.entryDate).getTime()) / (1000 * 60 * 60);
+    const duration = (new Date(getTradeExitDate(trade)).getTime() - new Date(trade.entryDate).getTime()) / (1000 * 60 * 60);
 
     return [
       format(new Date(trade.entryDate), 'yyyy-MM-dd HH:mm'),
@@ -1,13 +1,17 @@
 /**
  * IndexedDB Service
  * Handles all database operations for the trading journal
- * Supports trades, ideas, settings, goals, filters, and templates with 500MB+ storage capacity
+ * Supports trades, ideas, settings, goals, filters, templates, and accounts with 500MB+ storage capacity
+ * Schema changes go through the versioned migration registry below
  */
 
 'use client';
 
+import { normalizeLegacyTrade } from './trade-utils';
+import { SEED_INSTRUMENTS } from './instrument-registry';
+import { extractInlineScreenshots } from './legacy-screenshots';
+
 const DB_NAME = 'trading-journal-db';
-const DB_VERSION = 2;
 
 // Store names
 const TRADES_STORE = 'trades';
@@ -16,6 +20,35 @@ const SETTINGS_STORE = 'settings';
 const GOALS_STORE = 'trading-journal-goals';
 const FILTERS_STORE = 'trading-journal-filters';
 const TEMPLATES_STORE = 'trading-journal-templates';
+const ACCOUNTS_STORE = 'trading-journal-accounts';
+const PENDING_TRADES_STORE = 'pending-trades';
+const NOTIFICATIONS_STORE = 'notifications';
+const TRASH_STORE = 'trash';
+const REVISIONS_STORE = 'revisions';
+const SCREENSHOTS_STORE = 'screenshots';
+const INSTRUMENTS_STORE = 'instruments';
+const FX_RATES_STORE = 'fx-rates';
+const TAGS_STORE = 'tags';
+const CUSTOM_FIELDS_STORE = 'custom-fields';
+const PLAYBOOK_STORE = 'playbook';
+const BACKTEST_TRADES_STORE = 'backtest-trades';
+const DAILY_JOURNAL_STORE = 'daily-journal';
+const WEEKLY_REVIEWS_STORE = 'weekly-reviews';
+
+// Trade store indexes used by range and paged queries
+export const TRADE_INDEXES = {
+  DATE: 'date',
+  SYMBOL: 'symbol',
+  SETUP: 'setupName',
+  ACCOUNT: 'accountId',
+  PNL: 'pnl',
+  EXIT_DATE: 'exitDate',
+  STATUS: 'status',
+  TAGS: 'tags',
+} as const;
+
+// Settings record that tracks which migrations have been applied
+const SCHEMA_RECORD_KEY = 'schema-migrations';
 
 interface DBStores {
   trades: 'trades';
@@ -24,13 +57,382 @@ interface DBStores {
   goals: 'trading-journal-goals';
   filters: 'trading-journal-filters';
   templates: 'trading-journal-templates';
+  accounts: 'trading-journal-accounts';
+  pendingTrades: 'pending-trades';
+  notifications: 'notifications';
+  trash: 'trash';
+  revisions: 'revisions';
+  screenshots: 'screenshots';
+  instruments: 'instruments';
+  fxRates: 'fx-rates';
+  tags: 'tags';
+  customFields: 'custom-fields';
+  playbook: 'playbook';
+  backtestTrades: 'backtest-trades';
+  dailyJournal: 'daily-journal';
+  weeklyReviews: 'weekly-reviews';
 }
 
 /**
- * Initialize the IndexedDB database
- * Creates object stores if they don't exist
+ * A numbered schema migration
+ * `upgrade` adds stores and indexes; `transform` rewrites every record of one store
+ * (and may write related records to other stores through the transaction).
+ * Steps run once, in version order, inside the versionchange transaction.
  */
-export async function initializeDB(): Promise<IDBDatabase> {
+interface DBMigration {
+  version: number;
+  description: string;
+  upgrade?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  transform?: {
+    store: string;
+    apply: (record: any, transaction: IDBTransaction) => any;
+  };
+}
+
+export interface AppliedMigration {
+  version: number;
+  description: string;
+  appliedAt: string;
+  recordsTransformed: number;
+}
+
+export interface MigrationStatus {
+  state: 'idle' | 'running' | 'done' | 'failed';
+  fromVersion: number;
+  targetVersion: number;
+  currentStep?: { version: number; description: string };
+  processed: number;
+  total: number;
+  error?: string;
+  // Migrations applied during this session's upgrade
+  applied: AppliedMigration[];
+}
+
+/**
+ * Create an object store (and its indexes) unless it already exists
+ * Older databases were created ad hoc, so every step must be safe to re-run
+ */
+function ensureStore(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  name: string,
+  options: IDBObjectStoreParameters,
+  indexes: { name: string; keyPath: string; options?: IDBIndexParameters }[] = []
+): void {
+  const store = db.objectStoreNames.contains(name)
+    ? transaction.objectStore(name)
+    : db.createObjectStore(name, options);
+  for (const index of indexes) {
+    if (!store.indexNames.contains(index.name)) {
+      store.createIndex(index.name, index.keyPath, index.options);
+    }
+  }
+  console.log(`[IndexedDB] Ensured ${name} store`);
+}
+
+/**
+ * Migration registry - append new steps with the next version number, never edit applied ones
+ */
+const MIGRATIONS: DBMigration[] = [
+  {
+    version: 1,
+    description: 'Create trades, ideas and settings stores',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, TRADES_STORE, { keyPath: 'id' });
+      ensureStore(db, tx, IDEAS_STORE, { keyPath: 'id' });
+      ensureStore(db, tx, SETTINGS_STORE, { keyPath: 'key' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Create goals, filters and templates stores',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, GOALS_STORE, { keyPath: 'id' });
+      ensureStore(db, tx, FILTERS_STORE, { keyPath: 'id' });
+      ensureStore(db, tx, TEMPLATES_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 3,
+    description: 'Create accounts store',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, ACCOUNTS_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 4,
+    description: 'Create offline sync and notifications stores',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, PENDING_TRADES_STORE, { keyPath: 'id' });
+      ensureStore(db, tx, NOTIFICATIONS_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 5,
+    description: 'Backfill currency, base P&L and outcome on trades',
+    transform: {
+      store: TRADES_STORE,
+      apply: normalizeLegacyTrade,
+    },
+  },
+  {
+    version: 6,
+    description: 'Index trades by date, symbol, setup, account and P&L',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, TRADES_STORE, { keyPath: 'id' }, [
+        { name: TRADE_INDEXES.DATE, keyPath: 'date' },
+        { name: TRADE_INDEXES.SYMBOL, keyPath: 'symbol' },
+        { name: TRADE_INDEXES.SETUP, keyPath: 'setupName' },
+        { name: TRADE_INDEXES.ACCOUNT, keyPath: 'accountId' },
+        { name: TRADE_INDEXES.PNL, keyPath: 'pnl' },
+      ]);
+    },
+  },
+  {
+    version: 7,
+    description: 'Create trash store for soft-deleted records',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, TRASH_STORE, { keyPath: 'id' }, [{ name: 'deletedAt', keyPath: 'deletedAt' }]);
+    },
+  },
+  {
+    version: 8,
+    description: 'Create revisions store for trade and idea history',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, REVISIONS_STORE, { keyPath: 'id' }, [
+        { name: 'recordKey', keyPath: 'recordKey' },
+        { name: 'timestamp', keyPath: 'timestamp' },
+      ]);
+    },
+  },
+  {
+    version: 9,
+    description: 'Create screenshots blob store and move inline trade screenshots into it',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, SCREENSHOTS_STORE, { keyPath: 'id' }, [{ name: 'createdAt', keyPath: 'createdAt' }]);
+    },
+    transform: {
+      store: TRADES_STORE,
+      apply: (trade, tx) => {
+        const extracted = extractInlineScreenshots(trade);
+        if (!extracted) return trade;
+        const screenshots = tx.objectStore(SCREENSHOTS_STORE);
+        extracted.records.forEach(record => screenshots.put(record));
+        return extracted.trade;
+      },
+    },
+  },
+  {
+    version: 10,
+    description: 'Index trades by exit date and status',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, TRADES_STORE, { keyPath: 'id' }, [
+        // Only multi-day trades carry an exit date; same-day trades are found by date
+        { name: TRADE_INDEXES.EXIT_DATE, keyPath: 'exitDate' },
+        // Legacy closed trades have no status, so the index only lists explicit ones
+        { name: TRADE_INDEXES.STATUS, keyPath: 'status' },
+      ]);
+    },
+  },
+  {
+    version: 11,
+    description: 'Create instruments store with seed contract specs',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, INSTRUMENTS_STORE, { keyPath: 'id' }, [{ name: 'symbol', keyPath: 'symbol' }]);
+      const store = tx.objectStore(INSTRUMENTS_STORE);
+      SEED_INSTRUMENTS.forEach(instrument => store.put(instrument));
+    },
+  },
+  {
+    version: 12,
+    description: 'Create dated FX rates store',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, FX_RATES_STORE, { keyPath: 'id' }, [
+        { name: 'date', keyPath: 'date' },
+        { name: 'from', keyPath: 'from' },
+      ]);
+    },
+  },
+  {
+    version: 13,
+    description: 'Create tag definitions store and index trades by tag',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, TAGS_STORE, { keyPath: 'name' });
+      ensureStore(db, tx, TRADES_STORE, { keyPath: 'id' }, [
+        { name: TRADE_INDEXES.TAGS, keyPath: 'tags', options: { multiEntry: true } },
+      ]);
+    },
+  },
+  {
+    version: 14,
+    description: 'Create custom field definitions store',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, CUSTOM_FIELDS_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 15,
+    description: 'Create playbook setups store',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, PLAYBOOK_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 16,
+    description: 'Create backtest trades store',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, BACKTEST_TRADES_STORE, { keyPath: 'id' }, [
+        { name: 'ideaId', keyPath: 'ideaId' },
+      ]);
+    },
+  },
+  {
+    version: 17,
+    description: 'Create daily journal store',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, DAILY_JOURNAL_STORE, { keyPath: 'date' });
+    },
+  },
+  {
+    version: 18,
+    description: 'Create weekly reviews store',
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, WEEKLY_REVIEWS_STORE, { keyPath: 'week' });
+    },
+  },
+];
+
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let migrationStatus: MigrationStatus = {
+  state: 'idle',
+  fromVersion: DB_VERSION,
+  targetVersion: DB_VERSION,
+  processed: 0,
+  total: 0,
+  applied: [],
+};
+const migrationListeners = new Set<(status: MigrationStatus) => void>();
+
+function setMigrationStatus(update: Partial<MigrationStatus>): void {
+  migrationStatus = { ...migrationStatus, ...update };
+  migrationListeners.forEach(listener => listener(migrationStatus));
+}
+
+/**
+ * Get the progress of the current (or last) schema upgrade
+ */
+export function getMigrationStatus(): MigrationStatus {
+  return migrationStatus;
+}
+
+/**
+ * Subscribe to schema upgrade progress
+ * @returns Unsubscribe function
+ */
+export function subscribeToMigrationStatus(listener: (status: MigrationStatus) => void): () => void {
+  migrationListeners.add(listener);
+  return () => {
+    migrationListeners.delete(listener);
+  };
+}
+
+/**
+ * Run all pending migrations inside the versionchange transaction
+ * Steps are chained through request callbacks so the transaction stays active.
+ * Any failure aborts the transaction, leaving the database at its previous version.
+ */
+function runMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+  const pending = MIGRATIONS.filter(m => m.version > oldVersion);
+  const applied: AppliedMigration[] = [];
+  setMigrationStatus({ state: 'running', fromVersion: oldVersion, targetVersion: DB_VERSION, processed: 0, total: 0, error: undefined, applied });
+
+  const fail = (migration: DBMigration, error: unknown) => {
+    const message = `Migration ${migration.version} (${migration.description}) failed: ${error instanceof Error ? error.message : String(error)}`;
+    console.error('[IndexedDB]', message);
+    setMigrationStatus({ state: 'failed', error: message });
+    transaction.abort();
+  };
+
+  const recordApplied = () => {
+    const settings = transaction.objectStore(SETTINGS_STORE);
+    const getRequest = settings.get(SCHEMA_RECORD_KEY);
+    getRequest.onsuccess = () => {
+      const history: AppliedMigration[] = getRequest.result?.history || [];
+      settings.put({ key: SCHEMA_RECORD_KEY, version: DB_VERSION, history: [...history, ...applied] });
+    };
+  };
+
+  const runStep = (index: number) => {
+    if (index >= pending.length) {
+      recordApplied();
+      return;
+    }
+    const migration = pending[index];
+    console.log(`[IndexedDB] Applying migration ${migration.version}: ${migration.description}`);
+    setMigrationStatus({ currentStep: { version: migration.version, description: migration.description }, processed: 0, total: 0 });
+
+    const finishStep = (recordsTransformed: number) => {
+      applied.push({
+        version: migration.version,
+        description: migration.description,
+        appliedAt: new Date().toISOString(),
+        recordsTransformed,
+      });
+      setMigrationStatus({ applied: [...applied] });
+      runStep(index + 1);
+    };
+
+    try {
+      migration.upgrade?.(db, transaction);
+    } catch (error) {
+      fail(migration, error);
+      return;
+    }
+
+    const transform = migration.transform;
+    if (!transform || !db.objectStoreNames.contains(transform.store)) {
+      finishStep(0);
+      return;
+    }
+
+    const store = transaction.objectStore(transform.store);
+    const countRequest = store.count();
+    countRequest.onerror = () => fail(migration, countRequest.error);
+    countRequest.onsuccess = () => {
+      setMigrationStatus({ total: countRequest.result });
+      let processed = 0;
+      const cursorRequest = store.openCursor();
+      cursorRequest.onerror = () => fail(migration, cursorRequest.error);
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          finishStep(processed);
+          return;
+        }
+        try {
+          cursor.update(transform.apply(cursor.value, transaction));
+        } catch (error) {
+          fail(migration, error);
+          return;
+        }
+        processed++;
+        setMigrationStatus({ processed });
+        cursor.continue();
+      };
+    };
+  };
+
+  runStep(0);
+}
+
+// Single shared connection, opened lazily and reused by every module
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the database and apply pending migrations
+ */
+function openDatabase(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     // Check if IndexedDB is available
     if (typeof window === 'undefined' || !window.indexedDB) {
@@ -48,50 +450,33 @@ export async function initializeDB(): Promise<IDBDatabase> {
         reject(request.error);
       };
 
+      request.onblocked = () => {
+        console.warn('[IndexedDB] Upgrade blocked - close other tabs of the journal to continue');
+      };
+
       request.onsuccess = () => {
         console.log('[IndexedDB] Database opened successfully');
-        resolve(request.result);
+        const db = request.result;
+        // Let a newer version (e.g. another tab) upgrade; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        if (migrationStatus.state === 'running') {
+          setMigrationStatus({ state: 'done', currentStep: undefined });
+        }
+        resolve(db);
       };
 
       request.onupgradeneeded = (event) => {
-        console.log('[IndexedDB] Upgrading database...');
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create trades store
-        if (!db.objectStoreNames.contains(TRADES_STORE)) {
-          db.createObjectStore(TRADES_STORE, { keyPath: 'id' });
-          console.log('[IndexedDB] Created trades store');
-        }
-
-        // Create ideas store
-        if (!db.objectStoreNames.contains(IDEAS_STORE)) {
-          db.createObjectStore(IDEAS_STORE, { keyPath: 'id' });
-          console.log('[IndexedDB] Created ideas store');
-        }
-
-        // Create settings store
-        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
-          db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
-          console.log('[IndexedDB] Created settings store');
-        }
-
-        // Create goals store
-        if (!db.objectStoreNames.contains(GOALS_STORE)) {
-          db.createObjectStore(GOALS_STORE, { keyPath: 'id' });
-          console.log('[IndexedDB] Created goals store');
-        }
-
-        // Create filters store
-        if (!db.objectStoreNames.contains(FILTERS_STORE)) {
-          db.createObjectStore(FILTERS_STORE, { keyPath: 'id' });
-          console.log('[IndexedDB] Created filters store');
-        }
-
-        // Create templates store
-        if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
-          db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
-          console.log('[IndexedDB] Created templates store');
+        console.log(`[IndexedDB] Upgrading database from version ${event.oldVersion} to ${DB_VERSION}...`);
+        const db = request.result;
+        const transaction = request.transaction;
+        if (!transaction) {
+          reject(new Error('[IndexedDB] Missing upgrade transaction'));
+          return;
         }
+        runMigrations(db, transaction, event.oldVersion);
       };
     } catch (error) {
       console.error('[IndexedDB] Error during initialization:', error);
@@ -100,6 +485,34 @@ export async function initializeDB(): Promise<IDBDatabase> {
   });
 }
 
+/**
+ * Get the shared IndexedDB connection
+ * Opens (and migrates) the database on first use; later calls reuse the same connection
+ */
+export async function initializeDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase().catch(error => {
+      // Allow a retry on the next call
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Get the migrations recorded as applied in the settings store
+ */
+export async function getAppliedMigrations(): Promise<{ version: number; history: AppliedMigration[] }> {
+  const record = await getFromDB<{ key: string; version: number; history: AppliedMigration[] }>(SETTINGS_STORE, SCHEMA_RECORD_KEY);
+  return { version: record?.version || 0, history: record?.history || [] };
+}
+
+/**
+ * Latest schema version known to this build
+ */
+export const SCHEMA_VERSION = DB_VERSION;
+
 /**
  * Get a value from IndexedDB
  */
@@ -129,6 +542,37 @@ export async function getFromDB<T>(
   }
 }
 
+/**
+ * Get several values by key in a single transaction
+ * @returns One entry per key, undefined where the key is missing
+ */
+export async function getManyFromDB<T>(store: string, keys: string[]): Promise<(T | undefined)[]> {
+  if (keys.length === 0) return [];
+  try {
+    const db = await initializeDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([store], 'readonly');
+      const objectStore = transaction.objectStore(store);
+      const results: (T | undefined)[] = new Array(keys.length);
+      keys.forEach((key, i) => {
+        const request = objectStore.get(key);
+        request.onsuccess = () => {
+          results[i] = request.result;
+        };
+      });
+
+      transaction.onerror = () => {
+        console.error(`[IndexedDB] Error getting ${keys.length} items from ${store}:`, transaction.error);
+        reject(transaction.error);
+      };
+      transaction.oncomplete = () => resolve(results);
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to get many:', error);
+    throw error;
+  }
+}
+
 /**
  * Put a value into IndexedDB
  */
@@ -225,6 +669,261 @@ export async function clearStore(store: string): Promise<void> {
   }
 }
 
+/**
+ * Put several values in a single transaction
+ * Used for diff-based writes so only changed records are touched
+ */
+export async function putManyToDB<T>(store: string, items: T[]): Promise<void> {
+  if (items.length === 0) return;
+  try {
+    const db = await initializeDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([store], 'readwrite');
+      const objectStore = transaction.objectStore(store);
+      items.forEach(item => objectStore.put(item));
+
+      transaction.onerror = () => {
+        console.error(`[IndexedDB] Error putting ${items.length} items into ${store}:`, transaction.error);
+        reject(transaction.error);
+      };
+      transaction.oncomplete = () => {
+        console.log(`[IndexedDB] Saved ${items.length} items to ${store}`);
+        resolve();
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to put many:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete several keys in a single transaction
+ */
+export async function deleteManyFromDB(store: string, keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  try {
+    const db = await initializeDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([store], 'readwrite');
+      const objectStore = transaction.objectStore(store);
+      keys.forEach(key => objectStore.delete(key));
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to delete many:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all values whose index key falls within a range
+ * @param store - Store name
+ * @param index - Index name (e.g., TRADE_INDEXES.DATE)
+ * @param lower - Inclusive lower bound (omit for open-ended)
+ * @param upper - Inclusive upper bound (omit for open-ended)
+ */
+export async function getRangeFromDB<T>(
+  store: string,
+  index: string,
+  lower?: IDBValidKey,
+  upper?: IDBValidKey
+): Promise<T[]> {
+  try {
+    const db = await initializeDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([store], 'readonly');
+      const request = transaction.objectStore(store).index(index).getAll(toKeyRange(lower, upper));
+
+      request.onerror = () => {
+        console.error(`[IndexedDB] Error getting range from ${store}.${index}:`, request.error);
+        reject(request.error);
+      };
+      request.onsuccess = () => resolve(request.result || []);
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to get range:', error);
+    throw error;
+  }
+}
+
+/**
+ * Build a key range from optional inclusive bounds
+ */
+export function toKeyRange(lower?: IDBValidKey, upper?: IDBValidKey): IDBKeyRange | undefined {
+  if (lower !== undefined && upper !== undefined) return IDBKeyRange.bound(lower, upper);
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper);
+  return undefined;
+}
+
+export interface PageQuery<T> {
+  // Index to walk (omit to walk the primary key)
+  index?: string;
+  range?: IDBKeyRange;
+  // 'prev' walks newest/highest first
+  direction?: IDBCursorDirection;
+  offset: number;
+  limit: number;
+  // Extra predicate for criteria that have no index
+  filter?: (record: T) => boolean;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  total: number;
+}
+
+/**
+ * Read one page of records by walking a cursor
+ * Only the requested page is kept in memory; `total` counts every match.
+ */
+export async function getPageFromDB<T>(store: string, query: PageQuery<T>): Promise<PageResult<T>> {
+  try {
+    const db = await initializeDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([store], 'readonly');
+      const objectStore = transaction.objectStore(store);
+      const source = query.index ? objectStore.index(query.index) : objectStore;
+      const items: T[] = [];
+
+      // Without a predicate the total comes straight from the index
+      if (!query.filter) {
+        const countRequest = source.count(query.range);
+        let skipped = false;
+        const cursorRequest = source.openCursor(query.range, query.direction);
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          if (!skipped && query.offset > 0) {
+            skipped = true;
+            cursor.advance(query.offset);
+            return;
+          }
+          items.push(cursor.value);
+          if (items.length < query.limit) cursor.continue();
+        };
+        transaction.oncomplete = () => resolve({ items, total: countRequest.result });
+        transaction.onerror = () => reject(transaction.error);
+        return;
+      }
+
+      let matched = 0;
+      const cursorRequest = source.openCursor(query.range, query.direction);
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          resolve({ items, total: matched });
+          return;
+        }
+        const record = cursor.value as T;
+        if (query.filter!(record)) {
+          if (matched >= query.offset && items.length < query.limit) {
+            items.push(record);
+          }
+          matched++;
+        }
+        cursor.continue();
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to get page:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fold every record in a key range into one value by walking a cursor
+ * Records are visited one at a time and never held together, so totals over a
+ * large store cost no more memory than the accumulator.
+ * @param index - Index to walk (omit to walk the primary key)
+ */
+export async function reduceFromDB<T, A>(
+  store: string,
+  index: string | undefined,
+  range: IDBKeyRange | undefined,
+  reducer: (acc: A, record: T) => A,
+  initial: A
+): Promise<A> {
+  try {
+    const db = await initializeDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([store], 'readonly');
+      const objectStore = transaction.objectStore(store);
+      const source = index ? objectStore.index(index) : objectStore;
+      const request = source.openCursor(range);
+      let acc = initial;
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(acc);
+          return;
+        }
+        acc = reducer(acc, cursor.value as T);
+        cursor.continue();
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to reduce:', error);
+    throw error;
+  }
+}
+
+/**
+ * Count the records in a key range without loading them
+ * @param index - Index to count (omit to count the whole store)
+ */
+export async function countFromDB(store: string, index?: string, range?: IDBKeyRange): Promise<number> {
+  try {
+    const db = await initializeDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([store], 'readonly');
+      const objectStore = transaction.objectStore(store);
+      const request = (index ? objectStore.index(index) : objectStore).count(range);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to count:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the distinct keys of an index (e.g., every symbol) without loading records
+ */
+export async function getUniqueKeysFromDB(store: string, index: string): Promise<IDBValidKey[]> {
+  try {
+    const db = await initializeDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([store], 'readonly');
+      const request = transaction.objectStore(store).index(index).openKeyCursor(null, 'nextunique');
+      const keys: IDBValidKey[] = [];
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(keys);
+          return;
+        }
+        keys.push(cursor.key);
+        cursor.continue();
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to get unique keys:', error);
+    throw error;
+  }
+}
+
 /**
  * Migrate data from localStorage to IndexedDB
  * Returns true if migration was performed, false if not needed
@@ -353,6 +1052,20 @@ export const STORE_NAMES = {
   GOALS: GOALS_STORE,
   FILTERS: FILTERS_STORE,
   TEMPLATES: TEMPLATES_STORE,
+  ACCOUNTS: ACCOUNTS_STORE,
+  PENDING_TRADES: PENDING_TRADES_STORE,
+  NOTIFICATIONS: NOTIFICATIONS_STORE,
+  TRASH: TRASH_STORE,
+  REVISIONS: REVISIONS_STORE,
+  SCREENSHOTS: SCREENSHOTS_STORE,
+  INSTRUMENTS: INSTRUMENTS_STORE,
+  FX_RATES: FX_RATES_STORE,
+  TAGS: TAGS_STORE,
+  CUSTOM_FIELDS: CUSTOM_FIELDS_STORE,
+  PLAYBOOK: PLAYBOOK_STORE,
+  BACKTEST_TRADES: BACKTEST_TRADES_STORE,
+  DAILY_JOURNAL: DAILY_JOURNAL_STORE,
+  WEEKLY_REVIEWS: WEEKLY_REVIEWS_STORE,
 };
 
 /**
@@ -9,6 +9,7 @@ import {
   migrateFromLocalStorage,
   STORE_NAMES,
 } from './db-service';
+import { matchesCustomFieldFilter } from './custom-fields';
 
 interface FiltersContextType {
   filters: TradeFilter[];
@@ -16,6 +17,7 @@ interface FiltersContextType {
   deleteFilter: (id: string) => void;
   updateFilter: (id: string, filter: TradeFilter) => void;
   applyFilter: (filter: TradeFilter, trades: Trade[]) => Trade[];
+  matchesFilter: (filter: TradeFilter, trade: Trade) => boolean;
   error: string | null;
   clearError: () => void;
 }
@@ -118,95 +120,108 @@ export function FiltersProvider({ children }: { children: React.ReactNode }) {
   };
 
   /**
-   * Apply a filter to trades array
-   * Filters based on all specified criteria in the filter object
+   * Check a single trade against a filter
+   * Used as the predicate for paged IndexedDB queries
    */
-  const applyFilter = (filter: TradeFilter, trades: Trade[]): Trade[] => {
-    return trades.filter(trade => {
-      // Date range filter
-      if (filter.dateRange) {
-        const tradeDate = new Date(trade.date).getTime();
-        const startDate = new Date(filter.dateRange.start).getTime();
-        const endDate = new Date(filter.dateRange.end).getTime();
-        if (tradeDate < startDate || tradeDate > endDate) {
-          return false;
-        }
-      }
-
-      // Symbols filter
-      if (filter.symbols && filter.symbols.length > 0) {
-        if (!filter.symbols.includes(trade.symbol)) {
-          return false;
-        }
-      }
-
-      // Setup names filter
-      if (filter.setupNames && filter.setupNames.length > 0) {
-        if (!filter.setupNames.includes(trade.setupName)) {
-          return false;
-        }
-      }
-
-      // Trade types filter
-      if (filter.tradeTypes && filter.tradeTypes.length > 0) {
-        if (!filter.tradeTypes.includes(trade.tradeType)) {
-          return false;
-        }
+  const matchesFilter = (filter: TradeFilter, trade: Trade): boolean => {
+    // Date range filter
+    if (filter.dateRange) {
+      const tradeDate = new Date(trade.date).getTime();
+      const startDate = new Date(filter.dateRange.start).getTime();
+      const endDate = new Date(filter.dateRange.end).getTime();
+      if (tradeDate < startDate || tradeDate > endDate) {
+        return false;
       }
+    }
 
-      // Currency filter
-      if (filter.currencyFilter && filter.currencyFilter.length > 0) {
-        if (!filter.currencyFilter.includes(trade.currency)) {
-          return false;
-        }
+    // Symbols filter
+    if (filter.symbols && filter.symbols.length > 0) {
+      if (!filter.symbols.includes(trade.symbol)) {
+        return false;
       }
+    }
 
-      // P&L range filter
-      if (filter.minPnL !== undefined && trade.pnl < filter.minPnL) {
+    // Setup names filter
+    if (filter.setupNames && filter.setupNames.length > 0) {
+      if (!filter.setupNames.includes(trade.setupName)) {
         return false;
       }
-      if (filter.maxPnL !== undefined && trade.pnl > filter.maxPnL) {
+    }
+
+    // Trade types filter
+    if (filter.tradeTypes && filter.tradeTypes.length > 0) {
+      if (!filter.tradeTypes.includes(trade.tradeType)) {
         return false;
       }
+    }
 
-      // R-Factor range filter
-      if (filter.minRFactor !== undefined && trade.rFactor < filter.minRFactor) {
+    // Currency filter
+    if (filter.currencyFilter && filter.currencyFilter.length > 0) {
+      if (!filter.currencyFilter.includes(trade.currency)) {
         return false;
       }
-      if (filter.maxRFactor !== undefined && trade.rFactor > filter.maxRFactor) {
+    }
+
+    // P&L range filter
+    if (filter.minPnL !== undefined && trade.pnl < filter.minPnL) {
+      return false;
+    }
+    if (filter.maxPnL !== undefined && trade.pnl > filter.maxPnL) {
+      return false;
+    }
+
+    // R-Factor range filter
+    if (filter.minRFactor !== undefined && trade.rFactor < filter.minRFactor) {
+      return false;
+    }
+    if (filter.maxRFactor !== undefined && trade.rFactor > filter.maxRFactor) {
+      return false;
+    }
+
+    // Outcome filter (Win/Loss/Break-Even)
+    if (filter.outcomeFilter && filter.outcomeFilter.length > 0) {
+      const outcome = trade.pnl > 0 ? 'W' : trade.pnl < 0 ? 'L' : 'BE';
+      if (!filter.outcomeFilter.includes(outcome)) {
         return false;
       }
+    }
 
-      // Outcome filter (Win/Loss/Break-Even)
-      if (filter.outcomeFilter && filter.outcomeFilter.length > 0) {
-        const outcome = trade.pnl > 0 ? 'W' : trade.pnl < 0 ? 'L' : 'BE';
-        if (!filter.outcomeFilter.includes(outcome)) {
-          return false;
-        }
-      }
+    // Rule followed filter
+    if (filter.ruleFollowedOnly && !trade.ruleFollowed) {
+      return false;
+    }
 
-      // Rule followed filter
-      if (filter.ruleFollowedOnly && !trade.ruleFollowed) {
+    // Emotion tags filter
+    if (filter.emotionTags && filter.emotionTags.length > 0) {
+      const emotions = [trade.emotionEntry, trade.emotionExit].filter(Boolean);
+      if (!emotions.some(e => filter.emotionTags?.includes(e as any))) {
         return false;
       }
+    }
 
-      // Emotion tags filter
-      if (filter.emotionTags && filter.emotionTags.length > 0) {
-        const emotions = [trade.emotionEntry, trade.emotionExit].filter(Boolean);
-        if (!emotions.some(e => filter.emotionTags?.includes(e as any))) {
-          return false;
-        }
+    // Sessions filter
+    if (filter.sessions && filter.sessions.length > 0) {
+      if (!filter.sessions.includes(trade.session as any)) {
+        return false;
       }
+    }
 
-      // Sessions filter
-      if (filter.sessions && filter.sessions.length > 0) {
-        if (!filter.sessions.includes(trade.session as any)) {
-          return false;
-        }
+    // Custom field filters (every criterion must match)
+    if (filter.customFields && filter.customFields.length > 0) {
+      if (!filter.customFields.every(criterion => matchesCustomFieldFilter(trade, criterion))) {
+        return false;
       }
+    }
+
+    return true;
+  };
 
-      return true;
-    });
+  /**
+   * Apply a filter to trades array
+   * Filters based on all specified criteria in the filter object
+   */
+  const applyFilter = (filter: TradeFilter, trades: Trade[]): Trade[] => {
+    return trades.filter(trade => matchesFilter(filter, trade));
   };
 
   const clearError = () => setError(null);
@@ -219,6 +234,7 @@ export function FiltersProvider({ children }: { children: React.ReactNode }) {
         deleteFilter,
         updateFilter,
         applyFilter,
+        matchesFilter,
         error,
         clearError,
       }}
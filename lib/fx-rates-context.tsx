@@ -0,0 +1,125 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { FxRate } from './types';
+import { getAllFromDB, putManyToDB, deleteFromDB, STORE_NAMES } from './db-service';
+import { fxRateRegistry, indexFxRates, parseFxRatesCSV } from './fx-rates';
+import { publishRegistry } from './registry';
+import { BASE_CURRENCY } from './trade-utils';
+import { getCurrencies } from './currency-registry';
+
+interface FxRatesContextType {
+  rates: FxRate[];
+  saveRates: (rates: FxRate[]) => void;
+  deleteRate: (id: string) => void;
+  importCSV: (file: File) => Promise<{ imported: number; errors: string[] }>;
+  error: string | null;
+  clearError: () => void;
+}
+
+export const FxRatesContext = createContext<FxRatesContextType | undefined>(undefined);
+
+// Newest first, then by currency
+const sortRates = (rates: FxRate[]) =>
+  [...rates].sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from));
+
+/**
+ * FxRatesProvider - Context provider for historical exchange rates
+ * Persists dated rates to IndexedDB and mirrors them into the table used by base-currency conversion
+ */
+export function FxRatesProvider({ children }: { children: React.ReactNode }) {
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Effect: Load rates from IndexedDB on mount
+   */
+  useEffect(() => {
+    const initializeRates = async () => {
+      try {
+        console.log('[FxRatesContext] Loading FX rates from IndexedDB...');
+        const loaded = await getAllFromDB<FxRate>(STORE_NAMES.FX_RATES);
+        console.log('[FxRatesContext] Loaded', loaded?.length || 0, 'rates');
+        setRates(sortRates(loaded || []));
+        setError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load FX rates';
+        console.error('[FxRatesContext] Initialization error:', message, err);
+        setError(message);
+      }
+    };
+
+    initializeRates().finally(() => fxRateRegistry.markLoaded());
+  }, []);
+
+  const rateIndex = useMemo(() => indexFxRates(rates), [rates]);
+  publishRegistry(fxRateRegistry, rateIndex);
+
+  /**
+   * Add or overwrite rates - a rate for the same pair and date replaces the old one
+   */
+  const saveRates = (incoming: FxRate[]) => {
+    if (incoming.length === 0) return;
+    const byId = new Map(incoming.map(rate => [rate.id, rate]));
+    setRates(prev => sortRates([...prev.filter(r => !byId.has(r.id)), ...byId.values()]));
+    putManyToDB(STORE_NAMES.FX_RATES, Array.from(byId.values())).catch(err => {
+      console.error('[FxRatesContext] Error saving rates:', err);
+      setError('Failed to save FX rates');
+    });
+  };
+
+  const deleteRate = (id: string) => {
+    setRates(prev => prev.filter(r => r.id !== id));
+    deleteFromDB(STORE_NAMES.FX_RATES, id).catch(err => {
+      console.error('[FxRatesContext] Error deleting rate:', err);
+      setError('Failed to delete FX rate');
+    });
+  };
+
+  /**
+   * Import historical rates from a CSV file
+   * Valid lines are saved even when others are rejected
+   */
+  const importCSV = async (file: File) => {
+    try {
+      const text = await file.text();
+      const { rates: parsed, errors } = parseFxRatesCSV(text, BASE_CURRENCY, getCurrencies().map(c => c.code));
+      if (parsed.length === 0) {
+        throw new Error(errors[0] || 'No rates found in file');
+      }
+      saveRates(parsed);
+      setError(null);
+      return { imported: parsed.length, errors };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to import FX rates';
+      console.error('[FxRatesContext] CSV import failed:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  const clearError = () => setError(null);
+
+  return (
+    <FxRatesContext.Provider
+      value={{
+        rates,
+        saveRates,
+        deleteRate,
+        importCSV,
+        error,
+        clearError,
+      }}
+    >
+      {children}
+    </FxRatesContext.Provider>
+  );
+}
+
+export function useFxRates() {
+  const context = useContext(FxRatesContext);
+  if (!context) {
+    throw new Error('useFxRates must be used within an FxRatesProvider');
+  }
+  return context;
+}
@@ -0,0 +1,131 @@
+/**
+ * FX Rates
+ * Historical exchange rates keyed by date and currency pair.
+ * Published by the FX rates context through fxRateRegistry (see registry.ts).
+ */
+
+import { Currency, FxRate } from './types';
+import { createRegistry } from './registry';
+
+// Rates per currency pair (see getPairKey), sorted by date ascending
+export type FxRateIndex = Map<string, FxRate[]>;
+
+export const fxRateRegistry = createRegistry<FxRateIndex>('FX rates', new Map());
+
+const getPairKey = (from: Currency, to: Currency) => `${from}${to}`;
+
+/**
+ * Record key for a pair on a date, e.g. "USDINR:2025-03-14"
+ */
+export function getFxRateId(from: Currency, to: Currency, date: string): string {
+  return `${getPairKey(from, to)}:${date}`;
+}
+
+/**
+ * Group rates by pair and sort them once, so lookups are a binary search
+ */
+export function indexFxRates(rates: FxRate[]): FxRateIndex {
+  const next: FxRateIndex = new Map();
+  rates.forEach(rate => {
+    const key = getPairKey(rate.from, rate.to);
+    const list = next.get(key) || [];
+    list.push(rate);
+    next.set(key, list);
+  });
+  next.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+  return next;
+}
+
+/**
+ * Stored rate between two currencies for a date
+ * Uses the latest rate on or before the date (weekends and holidays reuse the last
+ * fixing). Without a date the most recent rate is returned.
+ * @returns undefined when no rate is stored for the pair on or before the date, so
+ * callers fall back to the currency's configured default rate instead of a later fixing
+ */
+export function findFxRate(from: Currency, to: Currency, date?: string, index: FxRateIndex = fxRateRegistry.get()): FxRate | undefined {
+  const list = index.get(getPairKey(from, to));
+  if (!list || list.length === 0) return undefined;
+  if (!date) return list[list.length - 1];
+
+  let low = 0;
+  let high = list.length - 1;
+  let match = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].date <= date) {
+      match = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return match === -1 ? undefined : list[match];
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse historical rates from CSV
+ * Accepts `date,currency,rate` (rate to the base currency) or `date,pair,rate` with
+ * pairs like USDINR / USDT/INR. Pairs quoted the other way round (INRUSD) are inverted.
+ * A header row is optional.
+ * @returns Parsed rates plus one message per rejected line
+ */
+export function parseFxRatesCSV(
+  text: string,
+  baseCurrency: Currency,
+  knownCurrencies: Currency[]
+): { rates: FxRate[]; errors: string[] } {
+  const rates: FxRate[] = [];
+  const errors: string[] = [];
+  const now = new Date().toISOString();
+  const isKnown = (code: string) => knownCurrencies.includes(code);
+
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const start = lines.length > 0 && !ISO_DATE.test(lines[0].split(',')[0].trim()) ? 1 : 0;
+
+  lines.slice(start).forEach((line, i) => {
+    const lineNumber = i + start + 1;
+    const [date, pairCell, rateCell] = line.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
+    const pair = (pairCell || '').toUpperCase().replace(/[\s/_-]/g, '');
+    const rate = parseFloat(rateCell);
+
+    if (!ISO_DATE.test(date || '')) {
+      errors.push(`Line ${lineNumber}: date must be YYYY-MM-DD`);
+      return;
+    }
+    if (!(rate > 0)) {
+      errors.push(`Line ${lineNumber}: rate must be a positive number`);
+      return;
+    }
+
+    // Codes vary in length (USD, USDT), so pairs are split around the base currency
+    let from: Currency | undefined;
+    let inverted = false;
+    if (isKnown(pair)) {
+      from = pair;
+    } else if (pair.endsWith(baseCurrency) && isKnown(pair.slice(0, -baseCurrency.length))) {
+      from = pair.slice(0, -baseCurrency.length);
+    } else if (pair.startsWith(baseCurrency) && isKnown(pair.slice(baseCurrency.length))) {
+      from = pair.slice(baseCurrency.length);
+      inverted = true;
+    }
+    if (!from || from === baseCurrency) {
+      errors.push(`Line ${lineNumber}: "${pairCell}" is not a registered currency or a pair with ${baseCurrency}`);
+      return;
+    }
+
+    rates.push({
+      id: getFxRateId(from, baseCurrency, date),
+      date,
+      from,
+      to: baseCurrency,
+      rate: inverted ? 1 / rate : rate,
+      source: 'csv',
+      updatedAt: now,
+    });
+  });
+
+  return { rates, errors };
+}
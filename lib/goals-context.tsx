@@ -5,15 +5,16 @@ import { TradingGoal, GoalType } from './types';
 import {
   getAllFromDB,
   putToDB,
-  deleteFromDB,
   migrateFromLocalStorage,
   STORE_NAMES,
 } from './db-service';
+import { moveToTrash, restoreFromTrash } from './trash-service';
 
 interface GoalsContextType {
   goals: TradingGoal[];
   addGoal: (goal: TradingGoal) => void;
   deleteGoal: (id: string) => void;
+  restoreGoal: (id: string) => Promise<void>;
   updateGoal: (id: string, goal: TradingGoal) => void;
   updateGoalProgress: (id: string, newValue: number) => void;
   markGoalComplete: (id: string) => void;
@@ -90,11 +91,14 @@ export function GoalsProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Soft delete: move the goal to the trash so it can be restored
+   */
   const deleteGoal = (id: string) => {
     try {
       const updated = goals.filter(g => g.id !== id);
       setGoals(updated);
-      deleteFromDB(STORE_NAMES.GOALS, id).catch(err => {
+      moveToTrash('goal', id).catch(err => {
         console.error('[GoalsContext] Error deleting goal:', err);
         setError('Failed to delete goal');
       });
@@ -105,6 +109,21 @@ export function GoalsProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Bring a goal back from the trash
+   */
+  const restoreGoal = async (id: string) => {
+    try {
+      const restored = await restoreFromTrash<TradingGoal>('goal', id);
+      if (!restored) return;
+      setGoals(prev => [restored, ...prev.filter(item => item.id !== id)]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to restore goal';
+      console.error('[GoalsContext] Restore error:', message);
+      setError(message);
+    }
+  };
+
   const updateGoal = (id: string, updatedGoal: TradingGoal) => {
     try {
       const updated = goals.map(g => (g.id === id ? updatedGoal : g));
@@ -177,6 +196,7 @@ export function GoalsProvider({ children }: { children: React.ReactNode }) {
         goals,
         addGoal,
         deleteGoal,
+        restoreGoal,
         updateGoal,
         updateGoalProgress,
         markGoalComplete,
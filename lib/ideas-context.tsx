@@ -1,21 +1,26 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { TradeIdea } from './types';
+import { TradeIdea, Revision, RevisionAction } from './types';
 import {
   getAllFromDB,
   putToDB,
-  deleteFromDB,
+  putManyToDB,
   migrateFromLocalStorage,
   getDBSize,
   STORE_NAMES,
 } from './db-service';
+import { moveToTrash, restoreFromTrash } from './trash-service';
+import { recordRevision, recordCreations, recordUpdates } from './revision-service';
 
 interface IdeasContextType {
   ideas: TradeIdea[];
   addIdea: (idea: TradeIdea) => void;
   deleteIdea: (id: string) => void;
+  restoreIdea: (id: string) => Promise<void>;
   updateIdea: (id: string, idea: TradeIdea) => void;
+  updateIdeas: (ideas: TradeIdea[]) => Promise<void>;
+  revertIdea: (revision: Revision) => Promise<void>;
   exportJSON: () => void;
   exportCSV: () => void;
   importJSON: (file: Blob) => Promise<void>;
@@ -31,7 +36,6 @@ export const IdeasContext = createContext<IdeasContextType | undefined>(undefine
  */
 export function IdeasProvider({ children }: { children: React.ReactNode }) {
   const [ideas, setIdeas] = useState<TradeIdea[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   /**
@@ -65,8 +69,6 @@ export function IdeasProvider({ children }: { children: React.ReactNode }) {
         const message = err instanceof Error ? err.message : 'Failed to load ideas';
         console.error('[IdeasContext] Initialization error:', message, err);
         setError(message);
-      } finally {
-        setIsLoading(false);
       }
     };
 
@@ -74,26 +76,13 @@ export function IdeasProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   /**
-   * Effect: Persist ideas to IndexedDB whenever the ideas array changes
+   * Append to the idea's audit log without blocking the change itself
    */
-  useEffect(() => {
-    if (!isLoading && ideas.length > 0) {
-      const persistToDB = async () => {
-        try {
-          for (const idea of ideas) {
-            await putToDB(STORE_NAMES.IDEAS, idea);
-          }
-          setError(null);
-        } catch (err) {
-          const message = err instanceof Error ? err.message : 'Failed to persist ideas';
-          console.error('[v0] Ideas persistence error:', err);
-          setError(message);
-        }
-      };
-
-      persistToDB();
-    }
-  }, [ideas, isLoading]);
+  const logRevision = (action: RevisionAction, before: TradeIdea | undefined, after: TradeIdea | undefined, revertedFrom?: string) => {
+    recordRevision('idea', action, before, after, revertedFrom).catch(err => {
+      console.error('[IdeasContext] Failed to record revision:', err);
+    });
+  };
 
   const addIdea = (idea: TradeIdea) => {
     try {
@@ -108,32 +97,55 @@ export function IdeasProvider({ children }: { children: React.ReactNode }) {
         console.error('[v0] Failed to save idea to IndexedDB:', err);
         setError('Failed to save idea');
       });
+      logRevision('create', undefined, idea);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to add idea';
       setError(message);
     }
   };
 
+  /**
+   * Soft delete: move the idea to the trash so it can be restored
+   */
   const deleteIdea = (id: string) => {
     try {
       if (!id) throw new Error('Idea ID is required');
+      const existing = ideas.find(i => i.id === id);
       const updated = ideas.filter(i => i.id !== id);
       setIdeas(updated);
       
       // Delete from IndexedDB immediately
-      deleteFromDB(STORE_NAMES.IDEAS, id).catch(err => {
+      moveToTrash('idea', id).catch(err => {
         console.error('[v0] Failed to delete idea from IndexedDB:', err);
         setError('Failed to delete idea');
       });
+      logRevision('delete', existing, undefined);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to delete idea';
       setError(message);
     }
   };
 
+  /**
+   * Bring an idea back from the trash
+   */
+  const restoreIdea = async (id: string) => {
+    try {
+      const restored = await restoreFromTrash<TradeIdea>('idea', id);
+      if (!restored) return;
+      setIdeas(prev => [restored, ...prev.filter(item => item.id !== id)]);
+      logRevision('restore', undefined, restored);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to restore idea';
+      console.error('[IdeasContext] Restore error:', message);
+      setError(message);
+    }
+  };
+
   const updateIdea = (id: string, updatedIdea: TradeIdea) => {
     try {
       if (!id) throw new Error('Idea ID is required');
+      const previous = ideas.find(i => i.id === id);
       const updated = ideas.map(i => (i.id === id ? updatedIdea : i));
       setIdeas(updated);
       
@@ -142,12 +154,62 @@ export function IdeasProvider({ children }: { children: React.ReactNode }) {
         console.error('[v0] Failed to update idea in IndexedDB:', err);
         setError('Failed to update idea');
       });
+      logRevision('update', previous, updatedIdea);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to update idea';
       setError(message);
     }
   };
 
+  /**
+   * Save many edited ideas in one transaction (bulk edits such as tag renames)
+   * Each idea still gets its own revision
+   */
+  const updateIdeas = async (updatedIdeas: TradeIdea[]) => {
+    if (updatedIdeas.length === 0) return;
+    try {
+      const byId = new Map(updatedIdeas.map(i => [i.id, i]));
+      const changes = ideas
+        .filter(i => byId.has(i.id))
+        .map(i => ({ before: i, after: byId.get(i.id)! }));
+      setIdeas(prev => prev.map(i => byId.get(i.id) || i));
+
+      await putManyToDB(STORE_NAMES.IDEAS, updatedIdeas);
+      try {
+        await recordUpdates('idea', changes);
+      } catch (err) {
+        console.error('[IdeasContext] Failed to record revisions:', err);
+      }
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update ideas';
+      console.error('[v0] Bulk idea update error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  /**
+   * Put an idea back to the state captured in one of its revisions
+   */
+  const revertIdea = async (revision: Revision) => {
+    try {
+      const current = ideas.find(i => i.id === revision.recordId);
+      if (!current) throw new Error('Idea is in the trash - restore it before reverting');
+      if (revision.action === 'delete') throw new Error('Cannot revert to a deleted state');
+
+      const reverted = revision.snapshot as TradeIdea;
+      setIdeas(prev => prev.map(i => (i.id === reverted.id ? reverted : i)));
+      await putToDB(STORE_NAMES.IDEAS, reverted);
+      logRevision('revert', current, reverted, revision.id);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to revert idea';
+      console.error('[IdeasContext] Revert error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
   /**
    * Export ideas as JSON file with error handling
    */
@@ -255,6 +317,11 @@ export function IdeasProvider({ children }: { children: React.ReactNode }) {
       for (const idea of newIdeas) {
         await putToDB(STORE_NAMES.IDEAS, idea);
       }
+      try {
+        await recordCreations('idea', newIdeas);
+      } catch (err) {
+        console.error('[IdeasContext] Failed to record revisions:', err);
+      }
       
       setError(null);
     } catch (err) {
@@ -266,7 +333,7 @@ export function IdeasProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <IdeasContext.Provider value={{ ideas, addIdea, deleteIdea, updateIdea, exportJSON, exportCSV, importJSON, error, clearError }}>
+    <IdeasContext.Provider value={{ ideas, addIdea, deleteIdea, restoreIdea, updateIdea, updateIdeas, revertIdea, exportJSON, exportCSV, importJSON, error, clearError }}>
       {children}
     </IdeasContext.Provider>
   );
@@ -0,0 +1,99 @@
+/**
+ * Instrument Registry
+ * Contract specs (lot size, tick size, point value) looked up by symbol or alias.
+ * Published by the instruments context through instrumentRegistry (see registry.ts).
+ */
+
+import { Instrument, AssetClass } from './types';
+import { createRegistry } from './registry';
+
+export const ASSET_CLASSES: AssetClass[] = ['index', 'equity', 'futures', 'options', 'crypto', 'forex', 'commodity'];
+
+// Seeded on first run for the symbols already in the journal
+export const SEED_INSTRUMENTS: Instrument[] = [
+  {
+    id: 'seed-nifty',
+    symbol: 'NIFTY',
+    name: 'NIFTY 50',
+    assetClass: 'index',
+    exchange: 'NSE',
+    currency: 'INR',
+    lotSize: 65,
+    tickSize: 0.05,
+    pointValue: 1,
+    aliases: ['NIFTY50', 'NIFTY 50', 'NIFTY_50'],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'seed-solana',
+    symbol: 'SOLANA',
+    name: 'Solana',
+    assetClass: 'crypto',
+    exchange: 'Crypto',
+    currency: 'USD',
+    lotSize: 0.01,
+    tickSize: 0.01,
+    pointValue: 1,
+    aliases: ['SOL', 'SOLUSD', 'SOLUSDT'],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  },
+];
+
+export const instrumentRegistry = createRegistry<Instrument[]>('Instruments', SEED_INSTRUMENTS);
+
+/**
+ * Uppercase and drop separators so "nifty 50" matches "NIFTY50"
+ */
+export function normalizeSymbol(symbol: string): string {
+  return symbol.toUpperCase().replace(/[\s_\-/]/g, '');
+}
+
+/**
+ * Find the instrument for a symbol, matching the symbol itself or any alias
+ */
+export function findInstrument(symbol: string, instruments: Instrument[] = instrumentRegistry.get()): Instrument | undefined {
+  if (!symbol) return undefined;
+  const key = normalizeSymbol(symbol);
+  return instruments.find(i => normalizeSymbol(i.symbol) === key || i.aliases.some(a => normalizeSymbol(a) === key));
+}
+
+/**
+ * Contract multiplier for a symbol
+ * @returns 1 for symbols not in the registry, so P&L stays price difference × quantity
+ */
+export function getPointValue(symbol: string): number {
+  return findInstrument(symbol)?.pointValue || 1;
+}
+
+/**
+ * Instruments whose symbol, alias or name starts with the query (for autocomplete)
+ */
+export function searchInstruments(query: string, instruments: Instrument[] = instrumentRegistry.get(), limit = 8): Instrument[] {
+  const key = normalizeSymbol(query);
+  if (!key) return [];
+  return instruments
+    .filter(i =>
+      normalizeSymbol(i.symbol).startsWith(key) ||
+      i.aliases.some(a => normalizeSymbol(a).startsWith(key)) ||
+      (i.name && normalizeSymbol(i.name).startsWith(key))
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Whether a price sits on the instrument's tick grid
+ */
+export function isOnTick(price: number, tickSize: number): boolean {
+  if (!(tickSize > 0)) return true;
+  const ticks = price / tickSize;
+  return Math.abs(ticks - Math.round(ticks)) < 1e-6;
+}
+
+/**
+ * Whether a quantity is a whole number of lots
+ */
+export function isWholeLots(quantity: number, lotSize: number): boolean {
+  return isOnTick(quantity, lotSize);
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { Instrument } from './types';
+import { getAllFromDB, putToDB, deleteFromDB, STORE_NAMES } from './db-service';
+import { instrumentRegistry, findInstrument, SEED_INSTRUMENTS } from './instrument-registry';
+import { publishRegistry } from './registry';
+
+interface InstrumentsContextType {
+  instruments: Instrument[];
+  addInstrument: (instrument: Instrument) => void;
+  updateInstrument: (id: string, instrument: Instrument) => void;
+  deleteInstrument: (id: string) => void;
+  findInstrument: (symbol: string) => Instrument | undefined;
+  error: string | null;
+  clearError: () => void;
+}
+
+export const InstrumentsContext = createContext<InstrumentsContextType | undefined>(undefined);
+
+/**
+ * InstrumentsProvider - Context provider for the instrument registry
+ * Persists contract specs to IndexedDB and mirrors them into the registry used by P&L calculations
+ */
+export function InstrumentsProvider({ children }: { children: React.ReactNode }) {
+  const [instruments, setInstruments] = useState<Instrument[]>(SEED_INSTRUMENTS);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Effect: Load instruments from IndexedDB on mount
+   */
+  useEffect(() => {
+    const initializeInstruments = async () => {
+      try {
+        console.log('[InstrumentsContext] Loading instruments from IndexedDB...');
+        const loaded = await getAllFromDB<Instrument>(STORE_NAMES.INSTRUMENTS);
+        console.log('[InstrumentsContext] Loaded', loaded?.length || 0, 'instruments');
+        setInstruments((loaded || []).sort((a, b) => a.symbol.localeCompare(b.symbol)));
+        setError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load instruments';
+        console.error('[InstrumentsContext] Initialization error:', message, err);
+        setError(message);
+      }
+    };
+
+    initializeInstruments().finally(() => instrumentRegistry.markLoaded());
+  }, []);
+
+  publishRegistry(instrumentRegistry, instruments);
+
+  /**
+   * Reject a symbol or alias already used by another instrument
+   */
+  const assertUnique = (instrument: Instrument) => {
+    const others = instruments.filter(i => i.id !== instrument.id);
+    for (const name of [instrument.symbol, ...instrument.aliases]) {
+      const clash = findInstrument(name, others);
+      if (clash) throw new Error(`"${name}" is already used by ${clash.symbol}`);
+    }
+  };
+
+  const addInstrument = (instrument: Instrument) => {
+    try {
+      if (!instrument.id || !instrument.symbol) {
+        throw new Error('Invalid instrument: missing required fields');
+      }
+      assertUnique(instrument);
+      setInstruments(prev => [...prev, instrument].sort((a, b) => a.symbol.localeCompare(b.symbol)));
+      putToDB(STORE_NAMES.INSTRUMENTS, instrument).catch(err => {
+        console.error('[InstrumentsContext] Error saving instrument:', err);
+        setError('Failed to save instrument');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add instrument';
+      console.error('[InstrumentsContext] Add error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  const updateInstrument = (id: string, updatedInstrument: Instrument) => {
+    try {
+      assertUnique(updatedInstrument);
+      setInstruments(prev => prev.map(i => (i.id === id ? updatedInstrument : i)));
+      putToDB(STORE_NAMES.INSTRUMENTS, updatedInstrument).catch(err => {
+        console.error('[InstrumentsContext] Error updating instrument:', err);
+        setError('Failed to update instrument');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update instrument';
+      console.error('[InstrumentsContext] Update error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  const deleteInstrument = (id: string) => {
+    try {
+      setInstruments(prev => prev.filter(i => i.id !== id));
+      deleteFromDB(STORE_NAMES.INSTRUMENTS, id).catch(err => {
+        console.error('[InstrumentsContext] Error deleting instrument:', err);
+        setError('Failed to delete instrument');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete instrument';
+      console.error('[InstrumentsContext] Delete error:', message);
+      setError(message);
+    }
+  };
+
+  const clearError = () => setError(null);
+
+  return (
+    <InstrumentsContext.Provider
+      value={{
+        instruments,
+        addInstrument,
+        updateInstrument,
+        deleteInstrument,
+        findInstrument: (symbol: string) => findInstrument(symbol, instruments),
+        error,
+        clearError,
+      }}
+    >
+      {children}
+    </InstrumentsContext.Provider>
+  );
+}
+
+export function useInstruments() {
+  const context = useContext(InstrumentsContext);
+  if (!context) {
+    throw new Error('useInstruments must be used within an InstrumentsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { DailyJournal } from './types';
+import { getAllFromDB, putToDB, deleteFromDB, STORE_NAMES } from './db-service';
+
+interface JournalContextType {
+  entries: DailyJournal[];
+  getEntry: (date: string) => DailyJournal | undefined;
+  saveEntry: (entry: DailyJournal) => void;
+  deleteEntry: (date: string) => void;
+  error: string | null;
+  clearError: () => void;
+}
+
+export const JournalContext = createContext<JournalContextType | undefined>(undefined);
+
+// Newest day first
+const sortEntries = (entries: DailyJournal[]) =>
+  [...entries].sort((a, b) => b.date.localeCompare(a.date));
+
+/**
+ * JournalProvider - Context provider for daily journal entries
+ * Persists one entry per date to IndexedDB
+ */
+export function JournalProvider({ children }: { children: React.ReactNode }) {
+  const [entries, setEntries] = useState<DailyJournal[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Effect: Load journal entries from IndexedDB on mount
+   */
+  useEffect(() => {
+    const initializeJournal = async () => {
+      try {
+        console.log('[JournalContext] Loading journal entries from IndexedDB...');
+        const loaded = await getAllFromDB<DailyJournal>(STORE_NAMES.DAILY_JOURNAL);
+        console.log('[JournalContext] Loaded', loaded?.length || 0, 'journal entries');
+        setEntries(sortEntries(loaded || []));
+        setError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load journal';
+        console.error('[JournalContext] Initialization error:', message, err);
+        setError(message);
+      }
+    };
+
+    initializeJournal();
+  }, []);
+
+  const getEntry = (date: string) => entries.find(e => e.date === date);
+
+  /**
+   * Create or replace the entry for its date
+   */
+  const saveEntry = (entry: DailyJournal) => {
+    try {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+        throw new Error('Invalid journal entry: date must be YYYY-MM-DD');
+      }
+      setEntries(prev => sortEntries([...prev.filter(e => e.date !== entry.date), entry]));
+      putToDB(STORE_NAMES.DAILY_JOURNAL, entry).catch(err => {
+        console.error('[JournalContext] Error saving entry:', err);
+        setError('Failed to save journal entry');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save journal entry';
+      console.error('[JournalContext] Save error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  const deleteEntry = (date: string) => {
+    setEntries(prev => prev.filter(e => e.date !== date));
+    deleteFromDB(STORE_NAMES.DAILY_JOURNAL, date).catch(err => {
+      console.error('[JournalContext] Error deleting entry:', err);
+      setError('Failed to delete journal entry');
+    });
+  };
+
+  const clearError = () => setError(null);
+
+  return (
+    <JournalContext.Provider
+      value={{
+        entries,
+        getEntry,
+        saveEntry,
+        deleteEntry,
+        error,
+        clearError,
+      }}
+    >
+      {children}
+    </JournalContext.Provider>
+  );
+}
+
+export function useJournal() {
+  const context = useContext(JournalContext);
+  if (!context) {
+    throw new Error('useJournal must be used within a JournalProvider');
+  }
+  return context;
+}
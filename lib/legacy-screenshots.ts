@@ -0,0 +1,68 @@
+/**
+ * Legacy inline screenshots
+ * Older trades carried their two images as base64 data URLs on the record itself.
+ * These helpers lift them out into screenshot records without any async work, so the
+ * move can run inside the versionchange transaction as a one-time schema migration.
+ */
+
+import { Trade, TradeScreenshot, ScreenshotRecord } from './types';
+
+// Labels given to the two legacy inline images when they are migrated
+export const LEGACY_SCREENSHOT_LABELS = {
+  beforeTradeScreenshot: 'Before Trade',
+  afterExitScreenshot: 'After Exit',
+} as const;
+
+export type LegacyScreenshotField = keyof typeof LEGACY_SCREENSHOT_LABELS;
+
+export const LEGACY_SCREENSHOT_FIELDS = Object.keys(LEGACY_SCREENSHOT_LABELS) as LegacyScreenshotField[];
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Decode a base64 data URL into a blob synchronously
+ */
+export function decodeDataUrl(dataUrl: string): Blob {
+  const [header, data = ''] = dataUrl.split(',', 2);
+  const mimeType = /^data:([^;,]+)/.exec(header)?.[1] || 'image/png';
+  const binary = header.includes(';base64') ? atob(data) : decodeURIComponent(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * Move a trade's inline data URLs into screenshot records
+ * No canvas is available here, so the full image doubles as the thumbnail and the
+ * dimensions are left at 0 (unknown) until regenerateMissingThumbnails runs.
+ * @returns The trade with `screenshots` references and the records to store, or null if there was nothing to move
+ */
+export function extractInlineScreenshots(trade: Trade): { trade: Trade; records: ScreenshotRecord[] } | null {
+  if (!LEGACY_SCREENSHOT_FIELDS.some(field => trade[field])) return null;
+
+  const migrated: Trade = { ...trade };
+  const screenshots: TradeScreenshot[] = [...(trade.screenshots || [])];
+  const records: ScreenshotRecord[] = [];
+
+  for (const field of LEGACY_SCREENSHOT_FIELDS) {
+    const dataUrl = trade[field];
+    if (!dataUrl) continue;
+    delete migrated[field];
+    // Anything that is not a data URL cannot be recovered and is dropped
+    if (!dataUrl.startsWith('data:')) continue;
+    const blob = decodeDataUrl(dataUrl);
+    const record: ScreenshotRecord = {
+      id: generateId(),
+      blob,
+      thumbnail: blob,
+      mimeType: blob.type,
+      width: 0,
+      height: 0,
+      createdAt: new Date().toISOString(),
+    };
+    records.push(record);
+    screenshots.push({ id: record.id, label: LEGACY_SCREENSHOT_LABELS[field] });
+  }
+
+  return { trade: { ...migrated, screenshots }, records };
+}
@@ -7,6 +7,7 @@
 
 import { Trade } from '@/lib/types';
 import { calculatePnL } from '@/lib/trade-utils';
+import { initializeDB, getFromDB, putToDB, STORE_NAMES } from '@/lib/db-service';
 
 export interface Notification {
   id: string;
@@ -181,32 +182,7 @@ export async function sendNotification(
 export async function saveNotification(notification: Notification): Promise<void> {
   if (!window.indexedDB) return;
 
-  return new Promise((resolve, reject) => {
-    const request = window.indexedDB.open('trading-journal-db', 2);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      const db = request.result;
-      try {
-        // Create store if it doesn't exist
-        let objectStore;
-        if (!db.objectStoreNames.contains('notifications')) {
-          // Store doesn't exist, need to update DB version
-          resolve();
-          return;
-        }
-
-        const tx = db.transaction(['notifications'], 'readwrite');
-        objectStore = tx.objectStore('notifications');
-        const addRequest = objectStore.add(notification);
-
-        addRequest.onerror = () => reject(addRequest.error);
-        addRequest.onsuccess = () => resolve();
-      } catch (error) {
-        reject(error);
-      }
-    };
-  });
+  await putToDB(STORE_NAMES.NOTIFICATIONS, notification);
 }
 
 /**
@@ -215,30 +191,23 @@ export async function saveNotification(notification: Notification): Promise<void
 export async function getUnreadNotifications(): Promise<Notification[]> {
   if (!window.indexedDB) return [];
 
-  return new Promise((resolve) => {
-    const request = window.indexedDB.open('trading-journal-db', 2);
-
-    request.onerror = () => resolve([]);
-    request.onsuccess = () => {
-      const db = request.result;
-
-      if (!db.objectStoreNames.contains('notifications')) {
-        resolve([]);
-        return;
-      }
-
-      const tx = db.transaction(['notifications'], 'readonly');
-      const store = tx.objectStore('notifications');
-      const index = store.index('read');
-      const getAllRequest = index.getAll(false);
+  try {
+    const db = await initializeDB();
+    return await new Promise((resolve) => {
+      const tx = db.transaction([STORE_NAMES.NOTIFICATIONS], 'readonly');
+      const store = tx.objectStore(STORE_NAMES.NOTIFICATIONS);
+      // Booleans aren't valid IndexedDB keys, so filter instead of querying the 'read' index
+      const getAllRequest = store.getAll();
 
       getAllRequest.onerror = () => resolve([]);
       getAllRequest.onsuccess = () => {
-        const notifications = getAllRequest.result as Notification[];
+        const notifications = (getAllRequest.result as Notification[]).filter(n => !n.read);
         resolve(notifications.sort((a, b) => b.timestamp - a.timestamp));
       };
-    };
-  });
+    });
+  } catch {
+    return [];
+  }
 }
 
 /**
@@ -247,34 +216,8 @@ export async function getUnreadNotifications(): Promise<Notification[]> {
 export async function markNotificationAsRead(notificationId: string): Promise<void> {
   if (!window.indexedDB) return;
 
-  return new Promise((resolve, reject) => {
-    const request = window.indexedDB.open('trading-journal-db', 2);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      const db = request.result;
-
-      if (!db.objectStoreNames.contains('notifications')) {
-        resolve();
-        return;
-      }
-
-      const tx = db.transaction(['notifications'], 'readwrite');
-      const store = tx.objectStore('notifications');
-      const getRequest = store.get(notificationId);
-
-      getRequest.onerror = () => reject(getRequest.error);
-      getRequest.onsuccess = () => {
-        const notification = getRequest.result as Notification;
-        if (notification) {
-          notification.read = true;
-          const updateRequest = store.put(notification);
-          updateRequest.onerror = () => reject(updateRequest.error);
-          updateRequest.onsuccess = () => resolve();
-        } else {
-          resolve();
-        }
-      };
-    };
-  });
+  const notification = await getFromDB<Notification>(STORE_NAMES.NOTIFICATIONS, notificationId);
+  if (notification) {
+    await putToDB(STORE_NAMES.NOTIFICATIONS, { ...notification, read: true });
+  }
 }
@@ -0,0 +1,187 @@
+/**
+ * Options Utilities
+ * Strategy detection, payoff at expiry (max risk / max reward / breakevens) and
+ * days-to-expiry for option trades. Money values use the instrument point value.
+ */
+
+import { Trade, OptionLeg, OptionPosition, OptionPositionFormData, OptionRiskProfile, OptionStrategyType } from './types';
+
+export const OPTION_STRATEGY_LABELS: Record<OptionStrategyType, string> = {
+  single: 'Single Option',
+  vertical_spread: 'Vertical Spread',
+  straddle: 'Straddle',
+  strangle: 'Strangle',
+  iron_condor: 'Iron Condor',
+  iron_butterfly: 'Iron Butterfly',
+  butterfly: 'Butterfly',
+  calendar: 'Calendar Spread',
+  custom: 'Custom',
+};
+
+// Upper bounds (inclusive) of the days-to-expiry buckets used in analytics
+export const DTE_BUCKETS: { label: string; max: number }[] = [
+  { label: '0 DTE', max: 0 },
+  { label: '1-2 DTE', max: 2 },
+  { label: '3-7 DTE', max: 7 },
+  { label: '8-30 DTE', max: 30 },
+  { label: '31+ DTE', max: Infinity },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const legDirection = (leg: OptionLeg) => (leg.side === 'Buy' ? 1 : -1);
+
+/**
+ * Detect the strategy a set of legs forms
+ * @returns 'custom' when the legs match none of the known shapes
+ */
+export function detectOptionStrategy(legs: OptionLeg[]): OptionStrategyType {
+  if (legs.length === 1) return 'single';
+  if (legs.length === 0) return 'custom';
+
+  const calls = legs.filter(l => l.optionType === 'call');
+  const puts = legs.filter(l => l.optionType === 'put');
+  const sameExpiry = legs.every(l => l.expiry === legs[0].expiry);
+
+  if (legs.length === 2) {
+    const [a, b] = legs;
+    if (!sameExpiry) {
+      return a.optionType === b.optionType && a.strike === b.strike && a.side !== b.side ? 'calendar' : 'custom';
+    }
+    if (a.optionType === b.optionType && a.side !== b.side && a.strike !== b.strike) return 'vertical_spread';
+    if (a.optionType !== b.optionType && a.side === b.side) return a.strike === b.strike ? 'straddle' : 'strangle';
+    return 'custom';
+  }
+
+  if (!sameExpiry) return 'custom';
+
+  // Butterfly: one option type, wings on one side and a double body on the other
+  if (calls.length === 0 || puts.length === 0) {
+    const sorted = [...legs].sort((a, b) => a.strike - b.strike);
+    const low = sorted[0];
+    const high = sorted[sorted.length - 1];
+    const body = sorted.slice(1, -1);
+    const bodyQuantity = body.reduce((sum, l) => sum + l.quantity, 0);
+    if (
+      low.side === high.side &&
+      low.quantity === high.quantity &&
+      body.every(l => l.side !== low.side && l.strike === body[0].strike) &&
+      bodyQuantity === low.quantity * 2 &&
+      body[0].strike - low.strike === high.strike - body[0].strike
+    ) {
+      return 'butterfly';
+    }
+    return 'custom';
+  }
+
+  // Iron condor / butterfly: a put spread below a call spread, both sold or both bought
+  if (legs.length === 4 && calls.length === 2 && puts.length === 2) {
+    const [putLow, putHigh] = [...puts].sort((a, b) => a.strike - b.strike);
+    const [callLow, callHigh] = [...calls].sort((a, b) => a.strike - b.strike);
+    const isShort = putHigh.side === 'Sell' && callLow.side === 'Sell' && putLow.side === 'Buy' && callHigh.side === 'Buy';
+    const isLong = putHigh.side === 'Buy' && callLow.side === 'Buy' && putLow.side === 'Sell' && callHigh.side === 'Sell';
+    if ((isShort || isLong) && putHigh.strike <= callLow.strike) {
+      return putHigh.strike === callLow.strike ? 'iron_butterfly' : 'iron_condor';
+    }
+  }
+
+  return 'custom';
+}
+
+/**
+ * Value of the position at expiry for an underlying price, net of premiums
+ */
+export function getOptionPayoff(legs: OptionLeg[], underlyingPrice: number, pointValue: number = 1): number {
+  return legs.reduce((sum, leg) => {
+    const intrinsic = leg.optionType === 'call'
+      ? Math.max(0, underlyingPrice - leg.strike)
+      : Math.max(0, leg.strike - underlyingPrice);
+    return sum + legDirection(leg) * (intrinsic - leg.premium) * leg.quantity * pointValue;
+  }, 0);
+}
+
+/**
+ * Combined max risk, max reward and breakevens at expiry
+ * The payoff is piecewise linear with kinks at the strikes, so checking zero, every
+ * strike and the slope above the highest strike is exact. Legs with different
+ * expiries (calendars) are valued as if they all expired together.
+ */
+export function getOptionRiskProfile(legs: OptionLeg[], pointValue: number = 1): OptionRiskProfile {
+  const netDebit = legs.reduce((sum, leg) => sum + legDirection(leg) * leg.premium * leg.quantity * pointValue, 0);
+  if (legs.length === 0) return { maxRisk: 0, maxReward: 0, breakevens: [], netDebit };
+
+  const strikes = Array.from(new Set(legs.map(l => l.strike))).sort((a, b) => a - b);
+  const points = [0, ...strikes.filter(k => k > 0)];
+  const values = points.map(price => getOptionPayoff(legs, price, pointValue));
+  // Payoff change per 1.0 move above the highest strike (only calls contribute)
+  const upperSlope = legs
+    .filter(l => l.optionType === 'call')
+    .reduce((sum, l) => sum + legDirection(l) * l.quantity * pointValue, 0);
+
+  const breakevens: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const [v1, v2] = [values[i - 1], values[i]];
+    if (v1 === 0 && i === 1) breakevens.push(points[0]);
+    if (v2 === 0) {
+      breakevens.push(points[i]);
+    } else if ((v1 < 0 && v2 > 0) || (v1 > 0 && v2 < 0)) {
+      breakevens.push(points[i - 1] + (points[i] - points[i - 1]) * (-v1 / (v2 - v1)));
+    }
+  }
+  const last = values[values.length - 1];
+  if (upperSlope !== 0 && last !== 0 && Math.sign(last) !== Math.sign(upperSlope)) {
+    breakevens.push(points[points.length - 1] - last / upperSlope);
+  }
+
+  return {
+    maxRisk: upperSlope < 0 ? null : Math.max(0, -Math.min(...values)),
+    maxReward: upperSlope > 0 ? null : Math.max(0, ...values),
+    breakevens: breakevens.map(b => parseFloat(b.toFixed(2))),
+    netDebit,
+  };
+}
+
+/**
+ * Days from the trade date to the nearest leg expiry
+ * @returns undefined for trades without option legs
+ */
+export function getDaysToExpiry(trade: Trade): number | undefined {
+  const legs = trade.options?.legs;
+  if (!legs || legs.length === 0) return undefined;
+  const nearest = legs.map(l => l.expiry).filter(Boolean).sort()[0];
+  if (!nearest) return undefined;
+  return Math.max(0, Math.round((Date.parse(nearest) - Date.parse(trade.date)) / DAY_MS));
+}
+
+/**
+ * Analytics bucket for a days-to-expiry value
+ */
+export function getDteBucket(days: number): string {
+  return (DTE_BUCKETS.find(b => days <= b.max) || DTE_BUCKETS[DTE_BUCKETS.length - 1]).label;
+}
+
+/**
+ * Parse the option leg editor rows into an option position
+ * Rows without a strike or quantity are skipped; returns undefined when no legs remain
+ */
+export function parseOptionPosition(form: OptionPositionFormData | undefined, symbol: string): OptionPosition | undefined {
+  if (!form) return undefined;
+  const legs: OptionLeg[] = form.legs
+    .map(row => ({
+      id: row.id,
+      optionType: row.optionType,
+      side: row.side,
+      strike: parseFloat(row.strike),
+      expiry: row.expiry,
+      premium: parseFloat(row.premium) || 0,
+      quantity: parseFloat(row.quantity),
+    }))
+    .filter(leg => leg.strike > 0 && leg.quantity > 0);
+  if (legs.length === 0) return undefined;
+
+  return {
+    underlying: (form.underlying || symbol).toUpperCase(),
+    strategy: form.strategy || detectOptionStrategy(legs),
+    legs,
+  };
+}
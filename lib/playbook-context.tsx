@@ -0,0 +1,141 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { PlaybookSetup } from './types';
+import { getAllFromDB, putToDB, deleteFromDB, STORE_NAMES } from './db-service';
+import { playbookRegistry, findSetupByName } from './playbook';
+import { publishRegistry } from './registry';
+
+interface PlaybookContextType {
+  setups: PlaybookSetup[];
+  addSetup: (setup: PlaybookSetup) => void;
+  updateSetup: (id: string, setup: PlaybookSetup) => void;
+  deleteSetup: (id: string) => void;
+  error: string | null;
+  clearError: () => void;
+}
+
+export const PlaybookContext = createContext<PlaybookContextType | undefined>(undefined);
+
+const sortSetups = (setups: PlaybookSetup[]) =>
+  [...setups].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * PlaybookProvider - Context provider for playbook setups
+ * Persists setups to IndexedDB and mirrors them into the registry used to link trades
+ */
+export function PlaybookProvider({ children }: { children: React.ReactNode }) {
+  const [setups, setSetups] = useState<PlaybookSetup[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Effect: Load setups from IndexedDB on mount
+   */
+  useEffect(() => {
+    const initializePlaybook = async () => {
+      try {
+        console.log('[PlaybookContext] Loading setups from IndexedDB...');
+        const loaded = await getAllFromDB<PlaybookSetup>(STORE_NAMES.PLAYBOOK);
+        console.log('[PlaybookContext] Loaded', loaded?.length || 0, 'setups');
+        setSetups(sortSetups(loaded || []));
+        setError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load playbook';
+        console.error('[PlaybookContext] Initialization error:', message, err);
+        setError(message);
+      }
+    };
+
+    initializePlaybook().finally(() => playbookRegistry.markLoaded());
+  }, []);
+
+  publishRegistry(playbookRegistry, setups);
+
+  /**
+   * Reject a name or alias already used by another setup
+   */
+  const assertUnique = (setup: PlaybookSetup) => {
+    const others = setups.filter(s => s.id !== setup.id);
+    for (const name of [setup.name, ...setup.aliases]) {
+      const clash = findSetupByName(name, others);
+      if (clash) throw new Error(`"${name}" is already used by ${clash.name}`);
+    }
+  };
+
+  const addSetup = (setup: PlaybookSetup) => {
+    try {
+      if (!setup.id || !setup.name.trim()) {
+        throw new Error('Invalid setup: missing required fields');
+      }
+      assertUnique(setup);
+      setSetups(prev => sortSetups([...prev, setup]));
+      putToDB(STORE_NAMES.PLAYBOOK, setup).catch(err => {
+        console.error('[PlaybookContext] Error saving setup:', err);
+        setError('Failed to save setup');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add setup';
+      console.error('[PlaybookContext] Add error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  const updateSetup = (id: string, updatedSetup: PlaybookSetup) => {
+    try {
+      assertUnique(updatedSetup);
+      setSetups(prev => sortSetups(prev.map(s => (s.id === id ? updatedSetup : s))));
+      putToDB(STORE_NAMES.PLAYBOOK, updatedSetup).catch(err => {
+        console.error('[PlaybookContext] Error updating setup:', err);
+        setError('Failed to update setup');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update setup';
+      console.error('[PlaybookContext] Update error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  /**
+   * Remove a setup; trades keep their setupName but lose the link
+   */
+  const deleteSetup = (id: string) => {
+    try {
+      setSetups(prev => prev.filter(s => s.id !== id));
+      deleteFromDB(STORE_NAMES.PLAYBOOK, id).catch(err => {
+        console.error('[PlaybookContext] Error deleting setup:', err);
+        setError('Failed to delete setup');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete setup';
+      console.error('[PlaybookContext] Delete error:', message);
+      setError(message);
+    }
+  };
+
+  const clearError = () => setError(null);
+
+  return (
+    <PlaybookContext.Provider
+      value={{
+        setups,
+        addSetup,
+        updateSetup,
+        deleteSetup,
+        error,
+        clearError,
+      }}
+    >
+      {children}
+    </PlaybookContext.Provider>
+  );
+}
+
+export function usePlaybook() {
+  const context = useContext(PlaybookContext);
+  if (!context) {
+    throw new Error('usePlaybook must be used within a PlaybookProvider');
+  }
+  return context;
+}
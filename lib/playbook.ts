@@ -0,0 +1,62 @@
+/**
+ * Playbook
+ * Registry of named setups with their rules. Trades reference a setup by id and
+ * mirror its name in setupName, so existing setup analytics group them together.
+ * Published by the playbook context through playbookRegistry (see registry.ts).
+ */
+
+import { Trade, PlaybookSetup, MarketCondition } from './types';
+import { createRegistry } from './registry';
+
+export const MARKET_CONDITIONS: MarketCondition[] = ['Trending', 'Ranging', 'High_Volatility', 'Low_Volatility', 'News_Day', 'Normal'];
+
+export const playbookRegistry = createRegistry<PlaybookSetup[]>('Playbook setups', []);
+
+/**
+ * Comparison key for setup names: case, spacing and punctuation are ignored
+ * ("0.382 Fib" and "0382-fib" match)
+ */
+export function normalizeSetupName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Look up a setup by id
+ */
+export function findSetupById(id: string | undefined, setups: PlaybookSetup[] = playbookRegistry.get()): PlaybookSetup | undefined {
+  return id ? setups.find(s => s.id === id) : undefined;
+}
+
+/**
+ * Look up a setup by its name or one of its aliases
+ */
+export function findSetupByName(name: string, setups: PlaybookSetup[] = playbookRegistry.get()): PlaybookSetup | undefined {
+  const key = normalizeSetupName(name);
+  if (!key) return undefined;
+  return setups.find(s => normalizeSetupName(s.name) === key || s.aliases.some(a => normalizeSetupName(a) === key));
+}
+
+/**
+ * Resolve the playbook setup for a free-text setup name (or an explicit id)
+ * @returns The setup id and the name to store on the trade
+ */
+export function resolveTradeSetup(setupName: string, setupId?: string): { setupId?: string; setupName: string } {
+  const setup = findSetupById(setupId) || findSetupByName(setupName);
+  return setup ? { setupId: setup.id, setupName: setup.name } : { setupId: undefined, setupName };
+}
+
+/**
+ * Trades taken from a setup
+ */
+export function getSetupTrades(trades: Trade[], setupId: string): Trade[] {
+  return trades.filter(t => t.setupId === setupId);
+}
+
+/**
+ * Distinct setup names of trades not linked to any setup, with counts, most used first
+ */
+export function getUnlinkedSetupNames(trades: Trade[]): { name: string; count: number }[] {
+  const counts = new Map<string, number>();
+  trades.filter(t => !t.setupId && t.setupName).forEach(t => counts.set(t.setupName, (counts.get(t.setupName) || 0) + 1));
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count);
+}
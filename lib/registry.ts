@@ -0,0 +1,56 @@
+/**
+ * Synchronous registries
+ * Plain functions such as P&L conversion, currency formatting and trade import need
+ * user data (instruments, currencies, FX rates, playbook setups, custom fields, the
+ * trading plan) but cannot call React hooks. Each of these lives in one registry,
+ * owned by the provider that loads it from IndexedDB:
+ *
+ * - the provider publishes its state while rendering (publishRegistry), so every
+ *   component below it reads the same data in the same render;
+ * - once its first load has finished the provider marks the registry loaded.
+ *
+ * Reads before that return the built-in defaults and log a warning once, so a
+ * calculation that runs too early is visible instead of silently wrong. Functions
+ * that can take the data as an argument should do so; the registry is the default.
+ */
+
+export interface Registry<T> {
+  get: () => T;
+  set: (value: T) => void;
+  markLoaded: () => void;
+  isLoaded: () => boolean;
+}
+
+export function createRegistry<T>(name: string, initial: T): Registry<T> {
+  let value = initial;
+  let loaded = false;
+  let warned = false;
+
+  return {
+    get: () => {
+      if (!loaded && !warned && typeof window !== 'undefined') {
+        warned = true;
+        console.warn(`[Registry] ${name} read before it finished loading; using defaults`);
+      }
+      return value;
+    },
+    set: next => {
+      value = next;
+    },
+    markLoaded: () => {
+      loaded = true;
+    },
+    isLoaded: () => loaded,
+  };
+}
+
+/**
+ * Publish provider state into its registry during render
+ * Deliberately not a hook or an effect: effects run after the children have rendered,
+ * and nothing re-renders them afterwards, so they would keep showing values computed
+ * from the previous data. Setting the value is idempotent (the same state always
+ * publishes the same value), so repeated or discarded renders leave nothing behind.
+ */
+export function publishRegistry<T>(registry: Registry<T>, value: T): void {
+  registry.set(value);
+}
@@ -3,8 +3,8 @@
  * Generates comprehensive monthly and weekly trading reports with analytics
  */
 
-import { Trade, Currency } from './types';
-import { getTradeBasePnL, BASE_CURRENCY, CURRENCY_SYMBOLS, formatCurrency } from './trade-utils';
+import { Trade, Currency, AccountScope } from './types';
+import { getTradeDisplayPnL, getAnalyticsTrades, BASE_CURRENCY, getCurrencySymbol, formatCurrency } from './trade-utils';
 
 export interface DailyStats {
   date: string;
@@ -23,6 +23,8 @@ export interface DailyStats {
 
 export interface WeeklyReport {
   week: string;
+  // Currency every P&L figure is expressed in
+  currency: Currency;
   startDate: string;
   endDate: string;
   dailyStats: DailyStats[];
@@ -40,6 +42,8 @@ export interface WeeklyReport {
 
 export interface MonthlyReport {
   month: string;
+  // Currency every P&L figure is expressed in
+  currency: Currency;
   year: number;
   monthNumber: number;
   weeklyReports: WeeklyReport[];
@@ -59,14 +63,18 @@ export interface MonthlyReport {
 }
 
 /**
- * Get week number from date
+ * Get ISO week and week-numbering year from date
+ * The year can differ from the calendar year around New Year (e.g. 2027-01-01 is in 2026-W53).
  */
-function getWeekNumber(date: Date): number {
+export function getISOWeek(date: Date): { year: number; week: number } {
   const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
   const dayNum = d.getUTCDay() || 7;
   d.setUTCDate(d.getUTCDate() + 4 - dayNum);
   const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-  return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
+  return {
+    year: d.getUTCFullYear(),
+    week: Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7),
+  };
 }
 
 /**
@@ -84,15 +92,37 @@ function getWeekDates(year: number, week: number): { start: Date; end: Date } {
   return { start: ISOweekStart, end: endDate };
 }
 
+/**
+ * Trade-date bounds (YYYY-MM-DD) for loading the trades of a report period
+ * Padded by a day on each side; the report itself applies the exact period
+ */
+function toQueryRange(start: Date, end: Date): { from: string; to: string } {
+  const format = (date: Date, days: number) => {
+    const d = new Date(date);
+    d.setDate(d.getDate() + days);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  };
+  return { from: format(start, -1), to: format(end, 1) };
+}
+
+export function getWeekQueryRange(year: number, week: number): { from: string; to: string } {
+  const { start, end } = getWeekDates(year, week);
+  return toQueryRange(start, end);
+}
+
+export function getMonthQueryRange(year: number, month: number): { from: string; to: string } {
+  return toQueryRange(new Date(year, month - 1, 1), new Date(year, month, 0));
+}
+
 /**
  * Generate daily statistics
  */
-function generateDailyStats(date: string, dayTrades: Trade[]): DailyStats {
-  const wins = dayTrades.filter(t => getTradeBasePnL(t) > 0);
-  const losses = dayTrades.filter(t => getTradeBasePnL(t) < 0);
-  const breakEven = dayTrades.filter(t => getTradeBasePnL(t) === 0);
+function generateDailyStats(date: string, dayTrades: Trade[], currency: Currency): DailyStats {
+  const wins = dayTrades.filter(t => getTradeDisplayPnL(t, currency) > 0);
+  const losses = dayTrades.filter(t => getTradeDisplayPnL(t, currency) < 0);
+  const breakEven = dayTrades.filter(t => getTradeDisplayPnL(t, currency) === 0);
 
-  const pnlValues = dayTrades.map(t => getTradeBasePnL(t));
+  const pnlValues = dayTrades.map(t => getTradeDisplayPnL(t, currency));
   const totalPnL = pnlValues.reduce((a, b) => a + b, 0);
 
   return {
@@ -104,8 +134,8 @@ function generateDailyStats(date: string, dayTrades: Trade[]): DailyStats {
     breakEven: breakEven.length,
     winRate: dayTrades.length > 0 ? (wins.length / dayTrades.length) * 100 : 0,
     totalPnL,
-    avgWin: wins.length > 0 ? wins.reduce((a, t) => a + getTradeBasePnL(t), 0) / wins.length : 0,
-    avgLoss: losses.length > 0 ? Math.abs(losses.reduce((a, t) => a + getTradeBasePnL(t), 0) / losses.length) : 0,
+    avgWin: wins.length > 0 ? wins.reduce((a, t) => a + getTradeDisplayPnL(t, currency), 0) / wins.length : 0,
+    avgLoss: losses.length > 0 ? Math.abs(losses.reduce((a, t) => a + getTradeDisplayPnL(t, currency), 0) / losses.length) : 0,
     bestTrade: pnlValues.length > 0 ? Math.max(...pnlValues) : 0,
     worstTrade: pnlValues.length > 0 ? Math.min(...pnlValues) : 0,
   };
@@ -113,8 +143,17 @@ function generateDailyStats(date: string, dayTrades: Trade[]): DailyStats {
 
 /**
  * Generate weekly report
+ * @param scope - Accounts to include (default: all)
+ * @param currency - Display currency; each trade converts at the rate on its exit date
  */
-export function generateWeeklyReport(trades: Trade[], year: number, week: number): WeeklyReport {
+export function generateWeeklyReport(
+  allTrades: Trade[],
+  year: number,
+  week: number,
+  scope: AccountScope = 'all',
+  currency: Currency = BASE_CURRENCY
+): WeeklyReport {
+  const trades = getAnalyticsTrades(allTrades, scope);
   const { start, end } = getWeekDates(year, week);
   const startStr = start.toISOString().split('T')[0];
   const endStr = end.toISOString().split('T')[0];
@@ -135,20 +174,20 @@ export function generateWeeklyReport(trades: Trade[], year: number, week: number
   });
 
   const dailyStats = Array.from(dailyMap.entries())
-    .map(([date, dayTrades]) => generateDailyStats(date, dayTrades))
+    .map(([date, dayTrades]) => generateDailyStats(date, dayTrades, currency))
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
-  const totalWins = weekTrades.filter(t => getTradeBasePnL(t) > 0).length;
-  const totalLosses = weekTrades.filter(t => getTradeBasePnL(t) < 0).length;
-  const totalPnL = weekTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+  const totalWins = weekTrades.filter(t => getTradeDisplayPnL(t, currency) > 0).length;
+  const totalLosses = weekTrades.filter(t => getTradeDisplayPnL(t, currency) < 0).length;
+  const totalPnL = weekTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0);
 
   // Top setups
   const setupMap = new Map<string, { trades: number; wins: number; pnl: number }>();
   weekTrades.forEach(trade => {
     const existing = setupMap.get(trade.setupName) || { trades: 0, wins: 0, pnl: 0 };
     existing.trades++;
-    if (getTradeBasePnL(trade) > 0) existing.wins++;
-    existing.pnl += getTradeBasePnL(trade);
+    if (getTradeDisplayPnL(trade, currency) > 0) existing.wins++;
+    existing.pnl += getTradeDisplayPnL(trade, currency);
     setupMap.set(trade.setupName, existing);
   });
 
@@ -166,8 +205,8 @@ export function generateWeeklyReport(trades: Trade[], year: number, week: number
   weekTrades.forEach(trade => {
     const existing = symbolMap.get(trade.symbol) || { trades: 0, wins: 0, pnl: 0 };
     existing.trades++;
-    if (getTradeBasePnL(trade) > 0) existing.wins++;
-    existing.pnl += getTradeBasePnL(trade);
+    if (getTradeDisplayPnL(trade, currency) > 0) existing.wins++;
+    existing.pnl += getTradeDisplayPnL(trade, currency);
     symbolMap.set(trade.symbol, existing);
   });
 
@@ -185,6 +224,7 @@ export function generateWeeklyReport(trades: Trade[], year: number, week: number
 
   return {
     week: `W${week}`,
+    currency,
     startDate: startStr,
     endDate: endStr,
     dailyStats,
@@ -203,9 +243,17 @@ export function generateWeeklyReport(trades: Trade[], year: number, week: number
 
 /**
  * Generate monthly report
+ * @param scope - Accounts to include (default: all)
+ * @param currency - Display currency; each trade converts at the rate on its exit date
  */
-export function generateMonthlyReport(trades: Trade[], year: number, month: number): MonthlyReport {
-  const monthTrades = trades.filter(t => {
+export function generateMonthlyReport(
+  allTrades: Trade[],
+  year: number,
+  month: number,
+  scope: AccountScope = 'all',
+  currency: Currency = BASE_CURRENCY
+): MonthlyReport {
+  const monthTrades = getAnalyticsTrades(allTrades, scope).filter(t => {
     const d = new Date(t.date);
     return d.getFullYear() === year && d.getMonth() === month - 1;
   });
@@ -221,19 +269,19 @@ export function generateMonthlyReport(trades: Trade[], year: number, month: numb
 
     const weeksInMonth = getWeekDates(year, week);
     if (weeksInMonth.start.getMonth() === month - 1 || weeksInMonth.end.getMonth() === month - 1) {
-      const report = generateWeeklyReport(monthTrades, year, week);
+      const report = generateWeeklyReport(monthTrades, year, week, 'all', currency);
       if (report.totalTrades > 0) {
         weeklyReports.push(report);
       }
     }
   }
 
-  const totalWins = monthTrades.filter(t => getTradeBasePnL(t) > 0).length;
-  const totalLosses = monthTrades.filter(t => getTradeBasePnL(t) < 0).length;
-  const totalPnL = monthTrades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+  const totalWins = monthTrades.filter(t => getTradeDisplayPnL(t, currency) > 0).length;
+  const totalLosses = monthTrades.filter(t => getTradeDisplayPnL(t, currency) < 0).length;
+  const totalPnL = monthTrades.reduce((sum, t) => sum + getTradeDisplayPnL(t, currency), 0);
 
-  const avgWin = totalWins > 0 ? monthTrades.filter(t => getTradeBasePnL(t) > 0).reduce((a, t) => a + getTradeBasePnL(t), 0) / totalWins : 0;
-  const avgLoss = totalLosses > 0 ? Math.abs(monthTrades.filter(t => getTradeBasePnL(t) < 0).reduce((a, t) => a + getTradeBasePnL(t), 0) / totalLosses) : 0;
+  const avgWin = totalWins > 0 ? monthTrades.filter(t => getTradeDisplayPnL(t, currency) > 0).reduce((a, t) => a + getTradeDisplayPnL(t, currency), 0) / totalWins : 0;
+  const avgLoss = totalLosses > 0 ? Math.abs(monthTrades.filter(t => getTradeDisplayPnL(t, currency) < 0).reduce((a, t) => a + getTradeDisplayPnL(t, currency), 0) / totalLosses) : 0;
   const profitFactor = avgLoss > 0 ? avgWin / avgLoss : 0;
 
   // Emotion analysis
@@ -246,8 +294,8 @@ export function generateMonthlyReport(trades: Trade[], year: number, month: numb
     emotions.forEach(emotion => {
       const existing = emotionMap.get(emotion) || { count: 0, wins: 0, pnl: 0 };
       existing.count++;
-      if (getTradeBasePnL(trade) > 0) existing.wins++;
-      existing.pnl += getTradeBasePnL(trade);
+      if (getTradeDisplayPnL(trade, currency) > 0) existing.wins++;
+      existing.pnl += getTradeDisplayPnL(trade, currency);
       emotionMap.set(emotion, existing);
     });
   });
@@ -266,8 +314,8 @@ export function generateMonthlyReport(trades: Trade[], year: number, month: numb
   monthTrades.forEach(trade => {
     const existing = setupMap.get(trade.setupName) || { trades: 0, wins: 0, pnl: 0 };
     existing.trades++;
-    if (getTradeBasePnL(trade) > 0) existing.wins++;
-    existing.pnl += getTradeBasePnL(trade);
+    if (getTradeDisplayPnL(trade, currency) > 0) existing.wins++;
+    existing.pnl += getTradeDisplayPnL(trade, currency);
     setupMap.set(trade.setupName, existing);
   });
 
@@ -285,8 +333,8 @@ export function generateMonthlyReport(trades: Trade[], year: number, month: numb
   monthTrades.forEach(trade => {
     const existing = symbolMap.get(trade.symbol) || { trades: 0, wins: 0, pnl: 0 };
     existing.trades++;
-    if (getTradeBasePnL(trade) > 0) existing.wins++;
-    existing.pnl += getTradeBasePnL(trade);
+    if (getTradeDisplayPnL(trade, currency) > 0) existing.wins++;
+    existing.pnl += getTradeDisplayPnL(trade, currency);
     symbolMap.set(trade.symbol, existing);
   });
 
@@ -303,14 +351,15 @@ export function generateMonthlyReport(trades: Trade[], year: number, month: numb
     const d = new Date(t.date);
     return d.getMonth() === month - 1;
   });
-  const bestDay = monthTeeds.length > 0 ? monthTeeds.reduce((a, b) => getTradeBasePnL(b) > getTradeBasePnL(a) ? b : a).date : 'N/A';
-  const worstDay = monthTeeds.length > 0 ? monthTeeds.reduce((a, b) => getTradeBasePnL(b) < getTradeBasePnL(a) ? b : a).date : 'N/A';
+  const bestDay = monthTeeds.length > 0 ? monthTeeds.reduce((a, b) => getTradeDisplayPnL(b, currency) > getTradeDisplayPnL(a, currency) ? b : a).date : 'N/A';
+  const worstDay = monthTeeds.length > 0 ? monthTeeds.reduce((a, b) => getTradeDisplayPnL(b, currency) < getTradeDisplayPnL(a, currency) ? b : a).date : 'N/A';
 
   const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
   const bestWeek = weeklyReports.length > 0 ? weeklyReports.reduce((a, b) => b.totalPnL > a.totalPnL ? b : a).week : 'N/A';
 
   return {
     month: monthNames[month - 1],
+    currency,
     year,
     monthNumber: month,
     weeklyReports,
@@ -332,9 +381,10 @@ export function generateMonthlyReport(trades: Trade[], year: number, month: numb
 
 /**
  * Export report as HTML for PDF generation
+ * Figures are already in the report's currency, so only its symbol is applied
  */
-export function generateMonthlyReportHTML(report: MonthlyReport, baseCurrency: Currency): string {
-  const symbol = CURRENCY_SYMBOLS[baseCurrency];
+export function generateMonthlyReportHTML(report: MonthlyReport): string {
+  const symbol = getCurrencySymbol(report.currency);
 
   const html = `
     <!DOCTYPE html>
@@ -0,0 +1,127 @@
+/**
+ * Revision Service
+ * Audit log for trades and ideas
+ * Every add/update/delete writes a revision with the changed fields and a snapshot,
+ * so past values can be inspected and restored.
+ */
+
+'use client';
+
+import { Revision, RevisionAction, RevisionEntityType, FieldChange } from './types';
+import { putToDB, putManyToDB, getRangeFromDB, STORE_NAMES } from './db-service';
+
+// Bookkeeping fields that change on every save and would only add noise to a diff
+const IGNORED_FIELDS = new Set(['updatedAt', 'deletedAt']);
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+function getRecordKey(entityType: RevisionEntityType, recordId: string): string {
+  return `${entityType}:${recordId}`;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  // Nested values (executions, tags, ...) compare structurally
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Field-level diff between two versions of a record
+ * A missing side (create/delete) diffs against an empty record
+ */
+export function diffRecords(before: Record<string, any> | undefined, after: Record<string, any> | undefined): FieldChange[] {
+  const oldRecord = before || {};
+  const newRecord = after || {};
+  const fields = new Set([...Object.keys(oldRecord), ...Object.keys(newRecord)]);
+  const changes: FieldChange[] = [];
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const oldValue = oldRecord[field];
+    const newValue = newRecord[field];
+    if (oldValue === undefined && newValue === undefined) return;
+    if (!isSameValue(oldValue, newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  });
+
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+/**
+ * Build a revision entry without saving it
+ * @returns undefined for updates that did not change anything
+ */
+export function buildRevision(
+  entityType: RevisionEntityType,
+  action: RevisionAction,
+  before: { id: string } | undefined,
+  after: { id: string } | undefined,
+  revertedFrom?: string
+): Revision | undefined {
+  const record = after || before;
+  if (!record) return undefined;
+
+  const changes = action === 'delete' ? [] : diffRecords(before, after);
+  if ((action === 'update' || action === 'revert') && changes.length === 0) return undefined;
+
+  return {
+    id: generateId(),
+    entityType,
+    recordId: record.id,
+    recordKey: getRecordKey(entityType, record.id),
+    action,
+    timestamp: new Date().toISOString(),
+    changes,
+    snapshot: action === 'delete' ? before : after,
+    revertedFrom,
+  };
+}
+
+/**
+ * Record a single add/update/delete
+ */
+export async function recordRevision(
+  entityType: RevisionEntityType,
+  action: RevisionAction,
+  before: { id: string } | undefined,
+  after: { id: string } | undefined,
+  revertedFrom?: string
+): Promise<Revision | undefined> {
+  const revision = buildRevision(entityType, action, before, after, revertedFrom);
+  if (!revision) return undefined;
+  await putToDB(STORE_NAMES.REVISIONS, revision);
+  return revision;
+}
+
+/**
+ * Record creation of many records at once (imports)
+ */
+export async function recordCreations(entityType: RevisionEntityType, records: { id: string }[]): Promise<void> {
+  const revisions = records
+    .map(record => buildRevision(entityType, 'create', undefined, record))
+    .filter((revision): revision is Revision => revision !== undefined);
+  await putManyToDB(STORE_NAMES.REVISIONS, revisions);
+}
+
+/**
+ * Record many updates at once (bulk edits)
+ */
+export async function recordUpdates(
+  entityType: RevisionEntityType,
+  changes: { before: { id: string } | undefined; after: { id: string } }[]
+): Promise<void> {
+  const revisions = changes
+    .map(({ before, after }) => buildRevision(entityType, 'update', before, after))
+    .filter((revision): revision is Revision => revision !== undefined);
+  await putManyToDB(STORE_NAMES.REVISIONS, revisions);
+}
+
+/**
+ * History of one record, newest first
+ */
+export async function getRevisions(entityType: RevisionEntityType, recordId: string): Promise<Revision[]> {
+  const key = getRecordKey(entityType, recordId);
+  const revisions = await getRangeFromDB<Revision>(STORE_NAMES.REVISIONS, 'recordKey', key, key);
+  return revisions.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
@@ -0,0 +1,158 @@
+/**
+ * Screenshot Annotations
+ * Vector chart markup (arrows, horizontal lines, rectangles, text) drawn over stored images.
+ * The same drawing code renders the editor and flattens images for export.
+ */
+
+'use client';
+
+import { ScreenshotAnnotation, ScreenshotRecord } from './types';
+import { loadImage, getScreenshotExtension } from './screenshot-service';
+
+export const ANNOTATION_COLORS = ['#ef4444', '#22c55e', '#3b82f6', '#eab308', '#a855f7', '#ffffff', '#000000'];
+
+// Click tolerance for picking a shape, as a fraction of the image width
+const HIT_TOLERANCE = 0.015;
+
+function getLineWidth(width: number): number {
+  return Math.max(2, Math.round(width / 400));
+}
+
+function getFontSize(width: number): number {
+  return Math.max(14, Math.round(width / 45));
+}
+
+/**
+ * Draw annotations onto a canvas already holding the image
+ * @param width - Canvas width in pixels
+ * @param height - Canvas height in pixels
+ */
+export function drawAnnotations(
+  context: CanvasRenderingContext2D,
+  annotations: ScreenshotAnnotation[],
+  width: number,
+  height: number
+): void {
+  const lineWidth = getLineWidth(width);
+  const fontSize = getFontSize(width);
+
+  for (const annotation of annotations) {
+    const x1 = annotation.x1 * width;
+    const y1 = annotation.y1 * height;
+    const x2 = annotation.x2 * width;
+    const y2 = annotation.y2 * height;
+
+    context.save();
+    context.strokeStyle = annotation.color;
+    context.fillStyle = annotation.color;
+    context.lineWidth = lineWidth;
+    context.lineCap = 'round';
+
+    switch (annotation.type) {
+      case 'arrow': {
+        const angle = Math.atan2(y2 - y1, x2 - x1);
+        const head = lineWidth * 5;
+        context.beginPath();
+        context.moveTo(x1, y1);
+        context.lineTo(x2, y2);
+        context.stroke();
+        context.beginPath();
+        context.moveTo(x2, y2);
+        context.lineTo(x2 - head * Math.cos(angle - Math.PI / 6), y2 - head * Math.sin(angle - Math.PI / 6));
+        context.lineTo(x2 - head * Math.cos(angle + Math.PI / 6), y2 - head * Math.sin(angle + Math.PI / 6));
+        context.closePath();
+        context.fill();
+        break;
+      }
+      case 'hline':
+        // Price levels span the whole chart
+        context.setLineDash([lineWidth * 4, lineWidth * 2]);
+        context.beginPath();
+        context.moveTo(0, y1);
+        context.lineTo(width, y1);
+        context.stroke();
+        if (annotation.text) {
+          context.font = `${fontSize}px sans-serif`;
+          context.fillText(annotation.text, lineWidth * 2, y1 - lineWidth * 2);
+        }
+        break;
+      case 'rect':
+        context.strokeRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+        context.globalAlpha = 0.12;
+        context.fillRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+        break;
+      case 'text':
+        if (annotation.text) {
+          context.font = `bold ${fontSize}px sans-serif`;
+          context.textBaseline = 'top';
+          // Dark halo keeps labels readable on busy charts
+          context.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+          context.lineWidth = lineWidth * 2;
+          context.strokeText(annotation.text, x1, y1);
+          context.fillText(annotation.text, x1, y1);
+        }
+        break;
+    }
+    context.restore();
+  }
+}
+
+function distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSquared));
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+}
+
+/**
+ * Topmost annotation under a point (fractional coordinates)
+ */
+export function findAnnotationAt(annotations: ScreenshotAnnotation[], x: number, y: number): ScreenshotAnnotation | undefined {
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    const a = annotations[i];
+    const hit = (() => {
+      switch (a.type) {
+        case 'arrow':
+          return distanceToSegment(x, y, a.x1, a.y1, a.x2, a.y2) <= HIT_TOLERANCE;
+        case 'hline':
+          return Math.abs(y - a.y1) <= HIT_TOLERANCE;
+        case 'rect':
+          return x >= Math.min(a.x1, a.x2) - HIT_TOLERANCE && x <= Math.max(a.x1, a.x2) + HIT_TOLERANCE &&
+            y >= Math.min(a.y1, a.y2) - HIT_TOLERANCE && y <= Math.max(a.y1, a.y2) + HIT_TOLERANCE;
+        case 'text':
+          // Labels are roughly a few percent tall; allow a generous box to the right of the anchor
+          return x >= a.x1 - HIT_TOLERANCE && x <= a.x1 + 0.02 * (a.text?.length || 1) && y >= a.y1 - HIT_TOLERANCE && y <= a.y1 + 0.05;
+      }
+    })();
+    if (hit) return a;
+  }
+  return undefined;
+}
+
+/**
+ * Render an image with its annotations baked in
+ * @returns PNG blob, or the original blob when there is nothing to draw
+ */
+export async function flattenScreenshot(record: ScreenshotRecord): Promise<Blob> {
+  if (!record.annotations || record.annotations.length === 0) return record.blob;
+
+  const image = await loadImage(record.blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) return record.blob;
+  context.drawImage(image, 0, 0);
+  drawAnnotations(context, record.annotations, canvas.width, canvas.height);
+  const flattened = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  return flattened || record.blob;
+}
+
+/**
+ * Image file to export for a screenshot - flattened when it has annotations
+ */
+export async function getExportImage(record: ScreenshotRecord): Promise<{ blob: Blob; extension: string }> {
+  const blob = await flattenScreenshot(record);
+  return { blob, extension: blob === record.blob ? getScreenshotExtension(record.mimeType) : 'png' };
+}
@@ -0,0 +1,233 @@
+/**
+ * Screenshot Service
+ * Trade images live in their own blob store, keyed by id, so trade records stay small.
+ * Each image gets a compressed thumbnail for lists; trades only hold `{ id, label }` references.
+ */
+
+'use client';
+
+import { Trade, TradeScreenshot, ScreenshotRecord, ScreenshotAnnotation, TrashItem, PlaybookSetup, Revision } from './types';
+import { initializeDB, getFromDB, putToDB, getAllFromDB, reduceFromDB, STORE_NAMES } from './db-service';
+import { LEGACY_SCREENSHOT_FIELDS, LEGACY_SCREENSHOT_LABELS } from './legacy-screenshots';
+
+const THUMBNAIL_MAX_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.7;
+// Blobs younger than this are never collected - the form that uploaded them may not be saved yet
+const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Decode an image blob
+ */
+export function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not decode image'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Scale an image down to a JPEG thumbnail
+ * Falls back to the original blob if the browser cannot draw it
+ */
+async function createThumbnail(blob: Blob): Promise<{ thumbnail: Blob; width: number; height: number }> {
+  const image = await loadImage(blob);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) return { thumbnail: blob, width, height };
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const thumbnail = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY));
+  return { thumbnail: thumbnail || blob, width, height };
+}
+
+/**
+ * Convert a data URL (legacy inline image) to a blob
+ */
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+/**
+ * Store an image and its thumbnail
+ * @returns Id of the new screenshot record
+ */
+export async function saveScreenshot(blob: Blob): Promise<string> {
+  const { thumbnail, width, height } = await createThumbnail(blob);
+  const record: ScreenshotRecord = {
+    id: generateId(),
+    blob,
+    thumbnail,
+    mimeType: blob.type || 'image/png',
+    width,
+    height,
+    createdAt: new Date().toISOString(),
+  };
+  await putToDB(STORE_NAMES.SCREENSHOTS, record);
+  return record.id;
+}
+
+/**
+ * Get a stored screenshot
+ */
+export async function getScreenshot(id: string): Promise<ScreenshotRecord | undefined> {
+  return getFromDB<ScreenshotRecord>(STORE_NAMES.SCREENSHOTS, id);
+}
+
+/**
+ * Replace the annotation layer of a stored screenshot
+ */
+export async function saveScreenshotAnnotations(id: string, annotations: ScreenshotAnnotation[]): Promise<void> {
+  const record = await getScreenshot(id);
+  if (!record) throw new Error('Screenshot not found');
+  await putToDB(STORE_NAMES.SCREENSHOTS, { ...record, annotations });
+}
+
+/**
+ * File extension for a stored image (used for export file names)
+ */
+export function getScreenshotExtension(mimeType: string): string {
+  const subtype = mimeType.split('/')[1] || 'png';
+  return subtype === 'jpeg' ? 'jpg' : subtype.replace(/\+.*$/, '');
+}
+
+/**
+ * Move inline data URLs of incoming trades (e.g. an old backup) into the blob store
+ * Stored trades were moved once by schema migration 9; this covers records that arrive later.
+ * Trades whose images cannot be decoded keep them inline.
+ */
+export async function moveInlineScreenshots(trades: Trade[]): Promise<Trade[]> {
+  return Promise.all(trades.map(async trade => {
+    if (!LEGACY_SCREENSHOT_FIELDS.some(field => trade[field])) return trade;
+    try {
+      const migrated: Trade = { ...trade };
+      const screenshots: TradeScreenshot[] = [...(trade.screenshots || [])];
+      for (const field of LEGACY_SCREENSHOT_FIELDS) {
+        const dataUrl = trade[field];
+        if (!dataUrl) continue;
+        delete migrated[field];
+        if (!dataUrl.startsWith('data:')) continue;
+        const id = await saveScreenshot(await dataUrlToBlob(dataUrl));
+        screenshots.push({ id, label: LEGACY_SCREENSHOT_LABELS[field] });
+      }
+      return { ...migrated, screenshots };
+    } catch (err) {
+      console.error(`[Screenshots] Failed to move images for trade ${trade.id}:`, err);
+      return trade;
+    }
+  }));
+}
+
+/**
+ * Give screenshots moved by schema migration 9 a real thumbnail
+ * The migration cannot draw, so those records reuse the full image and have no dimensions (width 0).
+ * @returns Number of records updated
+ */
+export async function regenerateMissingThumbnails(): Promise<number> {
+  const ids = await reduceFromDB<ScreenshotRecord, string[]>(STORE_NAMES.SCREENSHOTS, undefined, undefined, (acc, record) => {
+    if (record.width === 0) acc.push(record.id);
+    return acc;
+  }, []);
+
+  let updated = 0;
+  // One image at a time so only a single full-size picture is decoded at once
+  for (const id of ids) {
+    const record = await getScreenshot(id);
+    if (!record) continue;
+    try {
+      const { thumbnail, width, height } = await createThumbnail(record.blob);
+      await putToDB(STORE_NAMES.SCREENSHOTS, { ...record, thumbnail, width, height });
+      updated++;
+    } catch (err) {
+      console.error(`[Screenshots] Failed to create thumbnail for ${id}:`, err);
+    }
+  }
+  if (updated > 0) console.log(`[Screenshots] Created ${updated} missing thumbnails`);
+  return updated;
+}
+
+/**
+ * Ids of the screenshot references in a value, if it is a reference list
+ */
+function getScreenshotIds(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((s): s is TradeScreenshot => !!s && typeof (s as TradeScreenshot).id === 'string')
+    .map(s => s.id);
+}
+
+/**
+ * Delete blobs nothing refers to
+ * Live trades, trashed records, playbook setups and revision history all count as references,
+ * so restoring or reverting a record never leaves it pointing at a deleted image.
+ * @returns Number of deleted blobs
+ */
+export async function collectOrphanedScreenshots(): Promise<number> {
+  const referenced = new Set<string>();
+  const addReferences = (value: unknown) => getScreenshotIds(value).forEach(id => referenced.add(id));
+  const [trash, setups] = await Promise.all([
+    getAllFromDB<TrashItem>(STORE_NAMES.TRASH),
+    getAllFromDB<PlaybookSetup>(STORE_NAMES.PLAYBOOK),
+  ]);
+  trash.forEach(item => addReferences(item.record?.screenshots));
+  // Playbook example charts share the same blob store
+  setups.forEach(setup => addReferences(setup.screenshots));
+  // Trades and revisions grow with the journal, so walk them instead of loading them
+  await reduceFromDB<Trade, Set<string>>(STORE_NAMES.TRADES, undefined, undefined, (ids, trade) => {
+    addReferences(trade.screenshots);
+    return ids;
+  }, referenced);
+  await reduceFromDB<Revision, Set<string>>(STORE_NAMES.REVISIONS, undefined, undefined, (ids, revision) => {
+    addReferences(revision.snapshot?.screenshots);
+    revision.changes
+      .filter(change => change.field === 'screenshots')
+      .forEach(change => {
+        addReferences(change.oldValue);
+        addReferences(change.newValue);
+      });
+    return ids;
+  }, referenced);
+
+  const cutoff = new Date(Date.now() - ORPHAN_GRACE_PERIOD_MS).toISOString();
+  const db = await initializeDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAMES.SCREENSHOTS], 'readwrite');
+    const store = transaction.objectStore(STORE_NAMES.SCREENSHOTS);
+    // Key cursor over blobs older than the grace period, so image data is never loaded
+    const request = store.index('createdAt').openKeyCursor(IDBKeyRange.upperBound(cutoff));
+    let deleted = 0;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (!referenced.has(cursor.primaryKey as string)) {
+        store.delete(cursor.primaryKey);
+        deleted++;
+      }
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => {
+      if (deleted > 0) console.log(`[Screenshots] Collected ${deleted} orphaned images`);
+      resolve(deleted);
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
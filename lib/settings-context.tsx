@@ -1,8 +1,33 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Currency } from './types';
+import { Currency, CurrencyDefinition, TradingPlan } from './types';
 import { getFromDB, putToDB, migrateFromLocalStorage, STORE_NAMES } from './db-service';
+import { purgeExpiredTrash, DEFAULT_TRASH_RETENTION_DAYS } from './trash-service';
+import { DEFAULT_CURRENCIES, currencyRegistry, normalizeCurrencyCode, isBuiltInCurrency } from './currency-registry';
+import { DEFAULT_IDEA_SAMPLE_SIZE } from './analytics-engine';
+import { DEFAULT_TRADING_PLAN, tradingPlanRegistry } from './trading-plan';
+import { publishRegistry } from './registry';
+
+/**
+ * Persisted preferences record (settings store, key 'preferences')
+ */
+interface Preferences {
+  baseCurrency: Currency;
+  // Days deleted records stay in the trash (0 = keep forever)
+  trashRetentionDays: number;
+  // Live trades an idea needs before a validated/invalidated status is suggested
+  ideaSampleSize: number;
+  // Risk rules every trade is checked against
+  tradingPlan: TradingPlan;
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  baseCurrency: 'INR',
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  ideaSampleSize: DEFAULT_IDEA_SAMPLE_SIZE,
+  tradingPlan: DEFAULT_TRADING_PLAN,
+};
 
 /**
  * Settings Context Type
@@ -11,6 +36,15 @@ import { getFromDB, putToDB, migrateFromLocalStorage, STORE_NAMES } from './db-s
 interface SettingsContextType {
   baseCurrency: Currency;
   setBaseCurrency: (currency: Currency) => void;
+  trashRetentionDays: number;
+  setTrashRetentionDays: (days: number) => Promise<void>;
+  ideaSampleSize: number;
+  setIdeaSampleSize: (size: number) => void;
+  tradingPlan: TradingPlan;
+  setTradingPlan: (plan: TradingPlan) => void;
+  currencies: CurrencyDefinition[];
+  saveCurrency: (currency: CurrencyDefinition) => void;
+  deleteCurrency: (code: Currency) => void;
 }
 
 export const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -20,7 +54,8 @@ export const SettingsContext = createContext<SettingsContextType | undefined>(un
  * Persists base currency preference to IndexedDB
  */
 export function SettingsProvider({ children }: { children: React.ReactNode }) {
-  const [baseCurrency, setBaseCurrencyState] = useState<Currency>('INR');
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [currencies, setCurrencies] = useState<CurrencyDefinition[]>(DEFAULT_CURRENCIES);
 
   /**
    * Effect: Load settings from IndexedDB on mount
@@ -42,33 +77,133 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
         }
 
         // Load settings from IndexedDB
-        const savedSettings = await getFromDB(STORE_NAMES.SETTINGS, 'preferences');
-        if (savedSettings && (savedSettings as any).baseCurrency) {
-          setBaseCurrencyState((savedSettings as any).baseCurrency);
+        const savedSettings = await getFromDB<Partial<Preferences>>(STORE_NAMES.SETTINGS, 'preferences');
+        const loaded: Preferences = { ...DEFAULT_PREFERENCES, ...savedSettings };
+        setPreferences(loaded);
+
+        // Currency registry (settings key 'currencies'); first run starts from the built-in list
+        const savedCurrencies = await getFromDB<{ currencies: CurrencyDefinition[] }>(STORE_NAMES.SETTINGS, 'currencies');
+        if (savedCurrencies?.currencies?.length) {
+          setCurrencies(savedCurrencies.currencies);
         }
+
+        // Auto-purge trash past the retention period
+        await purgeExpiredTrash(loaded.trashRetentionDays);
       } catch (err) {
         console.error('[v0] Failed to load settings:', err);
       }
     };
 
-    initializeSettings();
+    initializeSettings().finally(() => {
+      currencyRegistry.markLoaded();
+      tradingPlanRegistry.markLoaded();
+    });
   }, []);
 
+  /**
+   * Merge changed preferences and persist the whole record to IndexedDB
+   */
+  const updatePreferences = (changes: Partial<Preferences>) => {
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    putToDB(STORE_NAMES.SETTINGS, { key: 'preferences', ...next }).catch(err => {
+      console.error('[v0] Failed to save settings:', err);
+    });
+  };
+
   /**
    * Update base currency and persist to IndexedDB
    */
   const setBaseCurrency = (currency: Currency) => {
-    setBaseCurrencyState(currency);
-    putToDB(STORE_NAMES.SETTINGS, {
-      key: 'preferences',
-      baseCurrency: currency,
-    }).catch(err => {
-      console.error('[v0] Failed to save settings:', err);
+    updatePreferences({ baseCurrency: currency });
+  };
+
+  publishRegistry(tradingPlanRegistry, preferences.tradingPlan);
+  publishRegistry(currencyRegistry, currencies);
+
+  const persistCurrencies = (next: CurrencyDefinition[]) => {
+    setCurrencies(next);
+    putToDB(STORE_NAMES.SETTINGS, { key: 'currencies', currencies: next }).catch(err => {
+      console.error('[v0] Failed to save currencies:', err);
     });
   };
 
+  /**
+   * Add a currency or replace the one with the same code
+   * @throws Error when the code, symbol or decimals are invalid
+   */
+  const saveCurrency = (currency: CurrencyDefinition) => {
+    const code = normalizeCurrencyCode(currency.code);
+    if (!code || code.length > 10) throw new Error('Currency code must be 1-10 letters or digits');
+    if (!currency.symbol.trim()) throw new Error('Currency symbol is required');
+    if (!Number.isInteger(currency.decimals) || currency.decimals < 0 || currency.decimals > 8) {
+      throw new Error('Decimals must be a whole number from 0 to 8');
+    }
+    const definition = { ...currency, code, symbol: currency.symbol.trim() };
+    const exists = currencies.some(c => c.code === code);
+    persistCurrencies(exists ? currencies.map(c => (c.code === code ? definition : c)) : [...currencies, definition]);
+  };
+
+  /**
+   * Remove a custom currency from the registry
+   * Stored trades keep their code; they format with the code as the symbol
+   */
+  const deleteCurrency = (code: Currency) => {
+    if (isBuiltInCurrency(code)) throw new Error(`${code} is built in and cannot be deleted`);
+    if (code === preferences.baseCurrency) throw new Error('Cannot delete the display currency');
+    persistCurrencies(currencies.filter(c => c.code !== code));
+  };
+
+  /**
+   * Update trash retention and purge anything already past it
+   */
+  const setTrashRetentionDays = async (days: number) => {
+    updatePreferences({ trashRetentionDays: days });
+    try {
+      await purgeExpiredTrash(days);
+    } catch (err) {
+      console.error('[v0] Failed to purge trash:', err);
+    }
+  };
+
+  /**
+   * Update the live sample size used to suggest idea statuses
+   */
+  const setIdeaSampleSize = (size: number) => {
+    updatePreferences({ ideaSampleSize: Math.max(1, Math.round(size)) });
+  };
+
+  /**
+   * Replace the trading plan; new and edited trades are checked against it from now on
+   * @throws Error when a limit is negative or the start time is not HH:MM
+   */
+  const setTradingPlan = (plan: TradingPlan) => {
+    const limits = [plan.maxRiskPercent, plan.maxTradesPerDay, plan.maxDailyLossR, plan.lossCooldownMinutes];
+    if (limits.some(limit => limit !== undefined && (!Number.isFinite(limit) || limit < 0))) {
+      throw new Error('Trading plan limits must be positive numbers');
+    }
+    if (plan.noTradingBefore && !/^\d{2}:\d{2}$/.test(plan.noTradingBefore)) {
+      throw new Error('Start time must be HH:MM');
+    }
+    updatePreferences({ tradingPlan: plan });
+  };
+
   return (
-    <SettingsContext.Provider value={{ baseCurrency, setBaseCurrency }}>
+    <SettingsContext.Provider
+      value={{
+        baseCurrency: preferences.baseCurrency,
+        setBaseCurrency,
+        trashRetentionDays: preferences.trashRetentionDays,
+        setTrashRetentionDays,
+        ideaSampleSize: preferences.ideaSampleSize,
+        setIdeaSampleSize,
+        tradingPlan: preferences.tradingPlan,
+        setTradingPlan,
+        currencies,
+        saveCurrency,
+        deleteCurrency,
+      }}
+    >
       {children}
     </SettingsContext.Provider>
   );
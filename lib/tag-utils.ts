@@ -0,0 +1,94 @@
+/**
+ * Tag Utilities
+ * Hierarchical free-form tags shared by trades and ideas. A tag is a "/"-separated
+ * path ("news/cpi", "pattern/pinbar"); parents exist implicitly and collect the
+ * results of everything beneath them.
+ */
+
+import { TagDefinition } from './types';
+
+export const TAG_SEPARATOR = '/';
+
+// Palette offered in tag settings; undefined tags get one picked from their root
+export const TAG_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#64748b'];
+
+/**
+ * Canonical form of a tag: lowercase path segments, spaces as dashes, no empty segments
+ * ("News / CPI Print" -> "news/cpi-print")
+ */
+export function normalizeTag(raw: string): string {
+  return raw
+    .split(TAG_SEPARATOR)
+    .map(segment => segment.trim().toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9._&+-]/g, ''))
+    .filter(Boolean)
+    .join(TAG_SEPARATOR);
+}
+
+/**
+ * Normalize and de-duplicate a list of tags, keeping first-seen order
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+}
+
+/**
+ * The tag and every parent above it ("news/cpi" -> ["news", "news/cpi"])
+ */
+export function getTagAncestors(tag: string): string[] {
+  const segments = tag.split(TAG_SEPARATOR);
+  return segments.map((_, i) => segments.slice(0, i + 1).join(TAG_SEPARATOR));
+}
+
+/**
+ * Whether a tag is the root itself or sits anywhere beneath it
+ */
+export function isTagWithin(tag: string, root: string): boolean {
+  return tag === root || tag.startsWith(root + TAG_SEPARATOR);
+}
+
+/**
+ * Move a tag (and its children) to a new path
+ * Merges into the target when it is already present, so no tag appears twice
+ * @returns The original array when nothing was renamed
+ */
+export function renameTagInList(tags: string[], from: string, to: string): string[] {
+  if (!tags.some(tag => isTagWithin(tag, from))) return tags;
+  return Array.from(new Set(tags.map(tag => (isTagWithin(tag, from) ? to + tag.slice(from.length) : tag))));
+}
+
+/**
+ * Colour for a tag: its own definition, else the nearest defined parent, else a
+ * palette colour picked from the root segment so siblings share a colour
+ */
+export function getTagColor(tag: string, definitions: TagDefinition[]): string {
+  const ancestors = getTagAncestors(tag).reverse();
+  for (const name of ancestors) {
+    const definition = definitions.find(d => d.name === name);
+    if (definition) return definition.color;
+  }
+  const root = ancestors[ancestors.length - 1] || '';
+  const hash = Array.from(root).reduce((sum, ch) => sum + ch.charCodeAt(0), 0);
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}
+
+/**
+ * Every tag in use or defined, with implicit parents, sorted by path
+ */
+export function collectTagNames(tagLists: (string[] | undefined)[], definitions: TagDefinition[] = []): string[] {
+  const names = new Set<string>();
+  tagLists.forEach(list => list?.forEach(tag => getTagAncestors(tag).forEach(name => names.add(name))));
+  definitions.forEach(d => getTagAncestors(d.name).forEach(name => names.add(name)));
+  return Array.from(names).sort();
+}
+
+/**
+ * How many items carry each tag, counting children towards their parents
+ */
+export function countTagUsage(tagLists: (string[] | undefined)[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  tagLists.forEach(list => {
+    const names = new Set((list || []).flatMap(getTagAncestors));
+    names.forEach(name => counts.set(name, (counts.get(name) || 0) + 1));
+  });
+  return counts;
+}
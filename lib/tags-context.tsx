@@ -0,0 +1,138 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { TagDefinition } from './types';
+import { getAllFromDB, putToDB, putManyToDB, deleteFromDB, STORE_NAMES } from './db-service';
+import { normalizeTag, isTagWithin } from './tag-utils';
+
+interface TagsContextType {
+  tagDefinitions: TagDefinition[];
+  setTagColor: (name: string, color: string) => void;
+  deleteTagDefinition: (name: string) => void;
+  renameTagDefinitions: (from: string, to: string) => Promise<void>;
+  replaceTagDefinitions: (definitions: TagDefinition[]) => Promise<void>;
+  error: string | null;
+  clearError: () => void;
+}
+
+export const TagsContext = createContext<TagsContextType | undefined>(undefined);
+
+const sortDefinitions = (definitions: TagDefinition[]) =>
+  [...definitions].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * TagsProvider - Context provider for tag definitions (colours)
+ * Tags themselves live on trades and ideas; this store only holds styling for them
+ */
+export function TagsProvider({ children }: { children: React.ReactNode }) {
+  const [tagDefinitions, setTagDefinitions] = useState<TagDefinition[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Effect: Load tag definitions from IndexedDB on mount
+   */
+  useEffect(() => {
+    const initializeTags = async () => {
+      try {
+        console.log('[TagsContext] Loading tag definitions from IndexedDB...');
+        const loaded = await getAllFromDB<TagDefinition>(STORE_NAMES.TAGS);
+        console.log('[TagsContext] Loaded', loaded?.length || 0, 'tag definitions');
+        setTagDefinitions(sortDefinitions(loaded || []));
+        setError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load tags';
+        console.error('[TagsContext] Initialization error:', message, err);
+        setError(message);
+      }
+    };
+
+    initializeTags();
+  }, []);
+
+  /**
+   * Create or recolour a tag definition
+   */
+  const setTagColor = (name: string, color: string) => {
+    const tag = normalizeTag(name);
+    if (!tag) return;
+    const now = new Date().toISOString();
+    const existing = tagDefinitions.find(d => d.name === tag);
+    const definition: TagDefinition = { name: tag, color, createdAt: existing?.createdAt || now, updatedAt: now };
+    setTagDefinitions(prev => sortDefinitions([...prev.filter(d => d.name !== tag), definition]));
+    putToDB(STORE_NAMES.TAGS, definition).catch(err => {
+      console.error('[TagsContext] Error saving tag:', err);
+      setError('Failed to save tag');
+    });
+  };
+
+  /**
+   * Drop a tag's colour; trades and ideas keep the tag itself
+   */
+  const deleteTagDefinition = (name: string) => {
+    setTagDefinitions(prev => prev.filter(d => d.name !== name));
+    deleteFromDB(STORE_NAMES.TAGS, name).catch(err => {
+      console.error('[TagsContext] Error deleting tag:', err);
+      setError('Failed to delete tag');
+    });
+  };
+
+  /**
+   * Write a full set of definitions, removing any not in the list
+   * Used to put definitions back when a rename is undone
+   */
+  const replaceTagDefinitions = async (definitions: TagDefinition[]) => {
+    try {
+      const keep = new Set(definitions.map(d => d.name));
+      const removed = tagDefinitions.filter(d => !keep.has(d.name));
+      setTagDefinitions(sortDefinitions(definitions));
+      await Promise.all(removed.map(d => deleteFromDB(STORE_NAMES.TAGS, d.name)));
+      if (definitions.length > 0) await putManyToDB(STORE_NAMES.TAGS, definitions);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save tags';
+      console.error('[TagsContext] Replace error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  /**
+   * Move definitions for a tag and its children to a new path
+   * A definition already at the target wins over the one being merged into it
+   */
+  const renameTagDefinitions = async (from: string, to: string) => {
+    const now = new Date().toISOString();
+    const next = new Map<string, TagDefinition>();
+    tagDefinitions.filter(d => !isTagWithin(d.name, from)).forEach(d => next.set(d.name, d));
+    tagDefinitions.filter(d => isTagWithin(d.name, from)).forEach(d => {
+      const name = to + d.name.slice(from.length);
+      if (!next.has(name)) next.set(name, { ...d, name, updatedAt: now });
+    });
+    await replaceTagDefinitions(Array.from(next.values()));
+  };
+
+  const clearError = () => setError(null);
+
+  return (
+    <TagsContext.Provider
+      value={{
+        tagDefinitions,
+        setTagColor,
+        deleteTagDefinition,
+        renameTagDefinitions,
+        replaceTagDefinitions,
+        error,
+        clearError,
+      }}
+    >
+      {children}
+    </TagsContext.Provider>
+  );
+}
+
+export function useTags() {
+  const context = useContext(TagsContext);
+  if (!context) {
+    throw new Error('useTags must be used within a TagsProvider');
+  }
+  return context;
+}
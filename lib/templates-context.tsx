@@ -1,14 +1,14 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { TradeFormData } from './types';
+import { TradeFormData, ChecklistItem } from './types';
 import {
   getAllFromDB,
   putToDB,
-  deleteFromDB,
   migrateFromLocalStorage,
   STORE_NAMES,
 } from './db-service';
+import { moveToTrash, restoreFromTrash } from './trash-service';
 
 export interface TradeTemplate {
   id: string;
@@ -24,15 +24,20 @@ export interface TradeTemplate {
   preNotes?: string;
   session?: string;
   marketCondition?: string;
+  // Pre-trade checklist; replaces the setup's checklist for trades started from this template
+  checklist?: ChecklistItem[];
   createdAt: string;
   updatedAt: string;
   usageCount: number; // Track how many trades used this template
+  // Set while the template sits in the trash
+  deletedAt?: string;
 }
 
 interface TemplatesContextType {
   templates: TradeTemplate[];
   addTemplate: (template: TradeTemplate) => void;
   deleteTemplate: (id: string) => void;
+  restoreTemplate: (id: string) => Promise<void>;
   updateTemplate: (id: string, template: TradeTemplate) => void;
   getTemplate: (id: string) => TradeTemplate | undefined;
   incrementUsageCount: (id: string) => void;
@@ -107,11 +112,14 @@ export function TemplatesProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Soft delete: move the template to the trash so it can be restored
+   */
   const deleteTemplate = (id: string) => {
     try {
       const updated = templates.filter(t => t.id !== id);
       setTemplates(updated);
-      deleteFromDB(STORE_NAMES.TEMPLATES, id).catch(err => {
+      moveToTrash('template', id).catch(err => {
         console.error('[TemplatesContext] Error deleting template:', err);
         setError('Failed to delete template');
       });
@@ -122,6 +130,21 @@ export function TemplatesProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Bring a template back from the trash
+   */
+  const restoreTemplate = async (id: string) => {
+    try {
+      const restored = await restoreFromTrash<TradeTemplate>('template', id);
+      if (!restored) return;
+      setTemplates(prev => [restored, ...prev.filter(item => item.id !== id)]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to restore template';
+      console.error('[TemplatesContext] Restore error:', message);
+      setError(message);
+    }
+  };
+
   const updateTemplate = (id: string, updatedTemplate: TradeTemplate) => {
     try {
       const updated = templates.map(t => (t.id === id ? updatedTemplate : t));
@@ -168,6 +191,7 @@ export function TemplatesProvider({ children }: { children: React.ReactNode }) {
         templates,
         addTemplate,
         deleteTemplate,
+        restoreTemplate,
         updateTemplate,
         getTemplate,
         incrementUsageCount,
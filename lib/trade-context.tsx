@@ -1,33 +1,122 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Trade, Currency } from './types';
-import { getExchangeRateToBase, convertToBaseCurrency } from './trade-utils';
+import { Trade, Revision, RevisionAction, AccountScope, EquityLedger } from './types';
+import { normalizeLegacyTrade, getTradeStatus, addToEquityLedger } from './trade-utils';
+import { getCustomFields, formatCustomFieldValue } from './custom-fields';
 import { 
-  getAllFromDB, 
+  getFromDB,
+  getManyFromDB,
   putToDB, 
-  deleteFromDB, 
+  putManyToDB,
+  getRangeFromDB,
+  getPageFromDB,
+  reduceFromDB,
+  countFromDB,
+  getUniqueKeysFromDB,
   migrateFromLocalStorage,
+  toKeyRange,
+  PageQuery,
+  PageResult,
   getDBSize,
   formatBytes,
-  STORE_NAMES 
+  STORE_NAMES,
+  TRADE_INDEXES
 } from './db-service';
+import { moveToTrash, restoreFromTrash } from './trash-service';
+import { recordRevision, recordCreations, recordUpdates } from './revision-service';
+import { moveInlineScreenshots, collectOrphanedScreenshots, regenerateMissingThumbnails } from './screenshot-service';
+import {
+  applyTradingPlan,
+  getTradingPlan,
+  hasActiveRules,
+  getPlanImpact,
+  getPlanReadRange,
+  isAffectedByPlanChange,
+  planResultChanged,
+  accountRegistry,
+} from './trading-plan';
+
+/**
+ * Criteria for reading trades from IndexedDB
+ * A date range walks the date index and a single account walks the account index;
+ * everything else is checked record by record on the cursor.
+ */
+export interface TradeQuery {
+  // Inclusive bounds on the trade date (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+  // Accounts to include (default: all)
+  scope?: AccountScope;
+  // Also include planned and open trades - by default only closed trades, as in analytics
+  includeOpen?: boolean;
+}
+
+/**
+ * Fold the trades matching a query into one value without holding them all
+ */
+function reduceTradesFromDB<A>(query: TradeQuery, reducer: (acc: A, trade: Trade) => A, initial: A): Promise<A> {
+  const { from, to, scope = 'all', includeOpen = false } = query;
+  if (scope !== 'all' && scope.length === 0) return Promise.resolve(initial);
+  const accountIds = scope === 'all' ? undefined : new Set(scope);
+  const matches = (trade: Trade) =>
+    (includeOpen || getTradeStatus(trade) === 'closed') &&
+    (!accountIds || (trade.accountId !== undefined && accountIds.has(trade.accountId)));
+  const byAccount = scope !== 'all' && scope.length === 1 && from === undefined && to === undefined;
+
+  return reduceFromDB<Trade, A>(
+    STORE_NAMES.TRADES,
+    byAccount ? TRADE_INDEXES.ACCOUNT : TRADE_INDEXES.DATE,
+    byAccount ? IDBKeyRange.only(scope[0]) : toKeyRange(from, to),
+    (acc, trade) => (matches(trade) ? reducer(acc, trade) : acc),
+    initial
+  );
+}
+
+const collectTrade = (trades: Trade[], trade: Trade) => {
+  trades.push(trade);
+  return trades;
+};
+
+/**
+ * Trades entered or exited within a date range (open-ended without `to`), of any status
+ * Multi-day trades are only reachable through their exit date
+ */
+async function getTradesAround(from: string, to?: string): Promise<Trade[]> {
+  const [entered, exited] = await Promise.all([
+    getRangeFromDB<Trade>(STORE_NAMES.TRADES, TRADE_INDEXES.DATE, from, to),
+    getRangeFromDB<Trade>(STORE_NAMES.TRADES, TRADE_INDEXES.EXIT_DATE, from, to),
+  ]);
+  const byId = new Map([...entered, ...exited].map(t => [t.id, t]));
+  return Array.from(byId.values());
+}
 
 /**
  * Context type for trade management
  * Provides access to trades and operations (add, delete, update, export, import)
  */
 interface TradeContextType {
-  trades: Trade[];
+  // Only open and planned trades are kept in memory; history is read through queries
+  openTrades: Trade[];
+  tradeCount: number;
   addTrade: (trade: Trade) => void;
   deleteTrade: (id: string) => void;
+  restoreTrade: (id: string) => Promise<void>;
   updateTrade: (id: string, trade: Trade) => void;
-  exportJSON: () => void;
-  exportCSV: () => void;
+  updateTrades: (trades: Trade[]) => Promise<void>;
+  revertTrade: (revision: Revision) => Promise<void>;
+  exportJSON: () => Promise<void>;
+  exportCSV: () => Promise<void>;
   importJSON: (file: File) => Promise<void>;
   error: string | null;
   clearError: () => void;
   storagePercentage: number;
+  // Bumped after every write so paged views know to re-query
+  tradesRevision: number;
+  getTradesPage: (query: PageQuery<Trade>) => Promise<PageResult<Trade>>;
+  queryTrades: (query: TradeQuery) => Promise<Trade[]>;
+  reduceTrades: <A>(query: TradeQuery, reducer: (acc: A, trade: Trade) => A, initial: A) => Promise<A>;
+  getTradeFieldValues: (index: 'symbol' | 'setupName' | 'tags') => Promise<string[]>;
 }
 
 export const TradeContext = createContext<TradeContextType | undefined>(undefined);
@@ -37,43 +126,12 @@ export const TradeContext = createContext<TradeContextType | undefined>(undefine
  * Handles IndexedDB persistence (500MB+ capacity) and provides trade management functions
  */
 export function TradeProvider({ children }: { children: React.ReactNode }) {
-  const [trades, setTrades] = useState<Trade[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [openTrades, setOpenTrades] = useState<Trade[]>([]);
+  const [tradeCount, setTradeCount] = useState(0);
+  const [tradesRevision, setTradesRevision] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [storagePercentage, setStoragePercentage] = useState(0);
 
-  /**
-   * Migrate old trades to new format with currency support
-   * - Adds currency field (defaults to INR for backwards compatibility)
-   * - Adds pnlBase (P&L in base currency)
-   * - Adds exchangeRate
-   * - Updates isWin based on P&L (auto-derived)
-   */
-  const migrateTrade = (trade: any): Trade => {
-    // If trade already has currency fields, return as-is
-    if (trade.currency && trade.pnlBase !== undefined) {
-      // Still update isWin to match P&L
-      return {
-        ...trade,
-        isWin: trade.pnl > 0,
-      };
-    }
-    
-    // Default to INR for old trades (common for Indian traders)
-    const currency: Currency = trade.currency || 'INR';
-    const exchangeRate = getExchangeRateToBase(currency);
-    const pnlBase = convertToBaseCurrency(trade.pnl, currency, exchangeRate);
-    
-    return {
-      ...trade,
-      currency,
-      pnlBase,
-      exchangeRate,
-      // Auto-derive isWin from P&L
-      isWin: trade.pnl > 0,
-    };
-  };
-
   /**
    * Effect: Initialize trades from IndexedDB on mount
    * Migrates from localStorage if this is the first load
@@ -86,31 +144,28 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
         // First, try to migrate from localStorage (one-time operation)
         const wasMigrated = await migrateFromLocalStorage(
           'trading-journal-trades',
-          STORE_NAMES.TRADES
+          STORE_NAMES.TRADES,
+          // These predate the schema migrations, so normalize them on the way in
+          (data: any) => (Array.isArray(data) ? data.map(normalizeLegacyTrade) : data)
         );
 
         if (wasMigrated) {
           console.log('[TradeContext] Data migrated from localStorage');
           // Clear old localStorage after successful migration
           localStorage.removeItem('trading-journal-trades');
+          // These arrive after the schema migrations ran, so move their inline images here
+          const inline = await reduceFromDB<Trade, Trade[]>(STORE_NAMES.TRADES, undefined, undefined, (found, t) => {
+            if (t.beforeTradeScreenshot || t.afterExitScreenshot) found.push(t);
+            return found;
+          }, []);
+          if (inline.length > 0) await putManyToDB(STORE_NAMES.TRADES, await moveInlineScreenshots(inline));
         }
 
-        // Load all trades from IndexedDB
-        console.log('[TradeContext] Loading trades from IndexedDB...');
-        const loadedTrades = await getAllFromDB<Trade>(STORE_NAMES.TRADES);
-        console.log('[TradeContext] Loaded', loadedTrades?.length || 0, 'trades');
-        
-        if (loadedTrades && loadedTrades.length > 0) {
-          // Migrate old trades to new format
-          const migratedTrades = loadedTrades.map(migrateTrade);
-          
-          // Update IndexedDB with migrated versions
-          for (const trade of migratedTrades) {
-            await putToDB(STORE_NAMES.TRADES, trade);
-          }
-          
-          setTrades(migratedTrades);
-        }
+        // Records are already in the current format - the schema migrations
+        // in db-service upgrade old trades once, when the database is opened.
+        // Only open positions and the count are loaded; views query the history they show
+        await refreshSummary();
+        setTradesRevision(revision => revision + 1);
 
         // Get storage stats
         const dbSize = await getDBSize();
@@ -121,12 +176,21 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
 
         console.log('[TradeContext] Initialization complete');
         setError(null);
+
+        // Background cleanup of images no trade refers to any more, then thumbnails
+        // for images moved out of old trades (after the cleanup so deleted blobs stay deleted)
+        collectOrphanedScreenshots()
+          .catch(err => {
+            console.error('[TradeContext] Screenshot cleanup failed:', err);
+          })
+          .then(() => regenerateMissingThumbnails())
+          .catch(err => {
+            console.error('[TradeContext] Thumbnail generation failed:', err);
+          });
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to load trades';
         console.error('[TradeContext] Initialization error:', message, err);
         setError(message);
-      } finally {
-        setIsLoading(false);
       }
     };
 
@@ -134,49 +198,153 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   /**
-   * Effect: Persist trades to IndexedDB whenever the trades array changes
-   * Only saves after initial load is complete
+   * Reload what the context keeps in memory: open and planned trades, and the trade count
    */
-  useEffect(() => {
-    if (!isLoading && trades.length > 0) {
-      const persistToDB = async () => {
-        try {
-          // Store all trades in IndexedDB
-          for (const trade of trades) {
-            await putToDB(STORE_NAMES.TRADES, trade);
-          }
-
-          // Update storage percentage
-          const dbSize = await getDBSize();
-          if (dbSize.quota > 0) {
-            setStoragePercentage(dbSize.percentage);
-          }
-
-          setError(null);
-        } catch (err) {
-          const message = err instanceof Error ? err.message : 'Failed to persist trades';
-          console.error('[v0] Persistence error:', err);
-          setError(message);
-        }
-      };
+  const refreshSummary = async () => {
+    const [open, planned, count] = await Promise.all([
+      getRangeFromDB<Trade>(STORE_NAMES.TRADES, TRADE_INDEXES.STATUS, 'open', 'open'),
+      getRangeFromDB<Trade>(STORE_NAMES.TRADES, TRADE_INDEXES.STATUS, 'planned', 'planned'),
+      countFromDB(STORE_NAMES.TRADES),
+    ]);
+    console.log('[TradeContext] Loaded', open.length + planned.length, 'open and planned of', count, 'trades');
+    setOpenTrades([...open, ...planned]);
+    setTradeCount(count);
+  };
+
+  /**
+   * Refresh the in-memory summary and storage usage, and notify views to re-query after a write
+   * Writes are diff-based: each operation only touches the records it changed
+   */
+  const handleWriteComplete = async () => {
+    await refreshSummary();
+    setTradesRevision(revision => revision + 1);
+    const dbSize = await getDBSize();
+    if (dbSize.quota > 0) {
+      setStoragePercentage(dbSize.percentage);
+    }
+  };
+
+  /**
+   * Append to the trade's audit log
+   * History is best-effort: a failed revision write never blocks the change itself
+   */
+  const logRevision = async (action: RevisionAction, before: Trade | undefined, after: Trade | undefined, revertedFrom?: string) => {
+    try {
+      await recordRevision('trade', action, before, after, revertedFrom);
+    } catch (err) {
+      console.error('[TradeContext] Failed to record revision:', err);
+    }
+  };
+
+  /**
+   * Read one page of trades straight from IndexedDB
+   * Walks the given index so large journals never have to be sorted in memory
+   */
+  const getTradesPage = (query: PageQuery<Trade>): Promise<PageResult<Trade>> => {
+    return getPageFromDB<Trade>(STORE_NAMES.TRADES, query);
+  };
+
+  /**
+   * Read every trade matching a query, in trade-date order
+   * For history views and bulk actions; the result is not kept by the context
+   */
+  const queryTrades = (query: TradeQuery): Promise<Trade[]> => {
+    return reduceTradesFromDB(query, collectTrade, []);
+  };
+
+  /**
+   * Fold the trades matching a query into one value (counts, totals) without loading them together
+   */
+  const reduceTrades = <A,>(query: TradeQuery, reducer: (acc: A, trade: Trade) => A, initial: A): Promise<A> => {
+    return reduceTradesFromDB(query, reducer, initial);
+  };
+
+  /**
+   * Distinct values of an indexed trade field (e.g., every symbol, setup or tag)
+   */
+  const getTradeFieldValues = async (index: 'symbol' | 'setupName' | 'tags'): Promise<string[]> => {
+    const keys = await getUniqueKeysFromDB(STORE_NAMES.TRADES, index);
+    return keys.map(String);
+  };
+
+  /**
+   * Check trades against the trading plan, judged alongside the other trades
+   * The day rules and the loss cooldown tie trades to their neighbours, so every trade
+   * on an affected date (and, for the risk rule, every later trade of an account whose
+   * equity moved) is judged again too. Loads only those days plus each account's realized
+   * P&L when the risk rule needs start-of-day equity. Does nothing while no plan rule is active
+   * @param changed - Trades being saved, in their new state
+   * @param previous - Stored versions of edited trades and trades being removed
+   * @returns The changed trades with violations applied, and the stored trades whose result changed
+   */
+  const checkTradingPlan = async (
+    changed: Trade[],
+    previous: Trade[] = []
+  ): Promise<{ checked: Trade[]; neighbours: { before: Trade; after: Trade }[] }> => {
+    const plan = getTradingPlan();
+    if (!hasActiveRules(plan) || changed.length + previous.length === 0) return { checked: changed, neighbours: [] };
+    const ids = new Set(changed.map(t => t.id));
+    const touched = new Set([...ids, ...previous.map(t => t.id)]);
+    const impact = getPlanImpact([...changed, ...previous], plan);
+    const range = getPlanReadRange(impact, plan);
+    const nearby = range ? (await getTradesAround(range.from, range.to)).filter(t => !touched.has(t.id)) : [];
+    const affected = nearby.filter(t => isAffectedByPlanChange(t, impact));
+
+    const accounts = accountRegistry.get();
+    let ledger: EquityLedger | undefined;
+    if (plan.maxRiskPercent !== undefined) {
+      const accountIds = Array.from(new Set([...changed, ...affected].map(t => t.accountId).filter((id): id is string => !!id)));
+      ledger = await reduceTradesFromDB<EquityLedger>(
+        { scope: accountIds },
+        (built, t) => (touched.has(t.id) ? built : addToEquityLedger(built, t, accounts)),
+        new Map()
+      );
+      changed.forEach(t => addToEquityLedger(ledger!, t, accounts));
+    }
+
+    const judged = new Set([...ids, ...affected.map(t => t.id)]);
+    const results = new Map(
+      applyTradingPlan([...nearby, ...changed], judged, plan, accounts, ledger).map(t => [t.id, t])
+    );
+    return {
+      checked: changed.map(t => results.get(t.id) || t),
+      neighbours: affected
+        .map(before => ({ before, after: results.get(before.id) || before }))
+        .filter(({ before, after }) => planResultChanged(before, after)),
+    };
+  };
 
-      persistToDB();
+  /**
+   * Save neighbours whose plan result changed, each with its own revision
+   */
+  const saveNeighbours = async (neighbours: { before: Trade; after: Trade }[]) => {
+    if (neighbours.length === 0) return;
+    await putManyToDB(STORE_NAMES.TRADES, neighbours.map(n => n.after));
+    try {
+      await recordUpdates('trade', neighbours);
+    } catch (err) {
+      console.error('[TradeContext] Failed to record revisions:', err);
     }
-  }, [trades, isLoading]);
+  };
 
-  const addTrade = (trade: Trade) => {
+  const addTrade = (newTrade: Trade) => {
     try {
-      if (!trade.id || !trade.date || !trade.symbol) {
+      if (!newTrade.id || !newTrade.date || !newTrade.symbol) {
         throw new Error('Invalid trade data: missing required fields');
       }
-      const updated = [...trades, trade];
-      setTrades(updated);
       
-      // Persist to IndexedDB immediately
-      putToDB(STORE_NAMES.TRADES, trade).catch(err => {
-        console.error('[v0] Failed to save trade to IndexedDB:', err);
-        setError('Failed to save trade');
-      });
+      // Persist to IndexedDB immediately; views re-query once the write lands
+      checkTradingPlan([newTrade])
+        .then(async ({ checked: [trade], neighbours }) => {
+          await putToDB(STORE_NAMES.TRADES, trade);
+          await logRevision('create', undefined, trade);
+          await saveNeighbours(neighbours);
+        })
+        .then(handleWriteComplete)
+        .catch(err => {
+          console.error('[v0] Failed to save trade to IndexedDB:', err);
+          setError('Failed to save trade');
+        });
       
       setError(null);
     } catch (err) {
@@ -186,17 +354,25 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Soft delete: move the trade to the trash so it can be restored
+   */
   const deleteTrade = (id: string) => {
     try {
       if (!id) throw new Error('Trade ID is required');
-      const updated = trades.filter(t => t.id !== id);
-      setTrades(updated);
       
-      // Delete from IndexedDB immediately
-      deleteFromDB(STORE_NAMES.TRADES, id).catch(err => {
-        console.error('[v0] Failed to delete trade from IndexedDB:', err);
-        setError('Failed to delete trade');
-      });
+      getFromDB<Trade>(STORE_NAMES.TRADES, id)
+        .then(async existing => {
+          const { neighbours } = await checkTradingPlan([], existing ? [existing] : []);
+          await moveToTrash('trade', id);
+          await logRevision('delete', existing, undefined);
+          await saveNeighbours(neighbours);
+        })
+        .then(handleWriteComplete)
+        .catch(err => {
+          console.error('[v0] Failed to move trade to trash:', err);
+          setError('Failed to delete trade');
+        });
       
       setError(null);
     } catch (err) {
@@ -206,20 +382,47 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const updateTrade = (id: string, updatedTrade: Trade) => {
+  /**
+   * Bring a trade back from the trash
+   */
+  const restoreTrade = async (id: string) => {
+    try {
+      const restored = await restoreFromTrash<Trade>('trade', id);
+      if (!restored) return;
+      // Judged again: the days around it may have changed while it was in the trash
+      const { checked: [trade], neighbours } = await checkTradingPlan([restored]);
+      if (planResultChanged(restored, trade)) await putToDB(STORE_NAMES.TRADES, trade);
+      await logRevision('restore', undefined, trade);
+      await saveNeighbours(neighbours);
+      await handleWriteComplete();
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to restore trade';
+      console.error('[v0] Restore trade error:', message);
+      setError(message);
+    }
+  };
+
+  const updateTrade = (id: string, editedTrade: Trade) => {
     try {
       if (!id) throw new Error('Trade ID is required');
-      if (!updatedTrade.id || !updatedTrade.date || !updatedTrade.symbol) {
+      if (!editedTrade.id || !editedTrade.date || !editedTrade.symbol) {
         throw new Error('Invalid trade data');
       }
-      const updated = trades.map(t => (t.id === id ? updatedTrade : t));
-      setTrades(updated);
       
       // Update in IndexedDB immediately
-      putToDB(STORE_NAMES.TRADES, updatedTrade).catch(err => {
-        console.error('[v0] Failed to update trade in IndexedDB:', err);
-        setError('Failed to update trade');
-      });
+      getFromDB<Trade>(STORE_NAMES.TRADES, id)
+        .then(async previous => {
+          const { checked: [updatedTrade], neighbours } = await checkTradingPlan([editedTrade], previous ? [previous] : []);
+          await putToDB(STORE_NAMES.TRADES, updatedTrade);
+          await logRevision('update', previous, updatedTrade);
+          await saveNeighbours(neighbours);
+        })
+        .then(handleWriteComplete)
+        .catch(err => {
+          console.error('[v0] Failed to update trade in IndexedDB:', err);
+          setError('Failed to update trade');
+        });
       
       setError(null);
     } catch (err) {
@@ -229,11 +432,66 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Save many edited trades in one transaction (bulk edits and recomputes)
+   * Each trade still gets its own revision. The trades are saved as given, without a plan
+   * check: callers either apply the plan themselves or only change labels and FX rates
+   */
+  const updateTrades = async (updatedTrades: Trade[]) => {
+    if (updatedTrades.length === 0) return;
+    try {
+      const previous = await getManyFromDB<Trade>(STORE_NAMES.TRADES, updatedTrades.map(t => t.id));
+      const changes = updatedTrades
+        .map((after, i) => ({ before: previous[i], after }))
+        .filter((change): change is { before: Trade; after: Trade } => change.before !== undefined);
+
+      await putManyToDB(STORE_NAMES.TRADES, updatedTrades);
+      try {
+        await recordUpdates('trade', changes);
+      } catch (err) {
+        console.error('[TradeContext] Failed to record revisions:', err);
+      }
+      await handleWriteComplete();
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update trades';
+      console.error('[v0] Bulk update error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  /**
+   * Put a trade back to the state captured in one of its revisions
+   * The revert itself is recorded, so it can be undone from the same timeline
+   */
+  const revertTrade = async (revision: Revision) => {
+    try {
+      const current = await getFromDB<Trade>(STORE_NAMES.TRADES, revision.recordId);
+      if (!current) throw new Error('Trade is in the trash - restore it before reverting');
+      if (revision.action === 'delete') throw new Error('Cannot revert to a deleted state');
+
+      const { checked: [reverted], neighbours } = await checkTradingPlan([revision.snapshot as Trade], [current]);
+      await putToDB(STORE_NAMES.TRADES, reverted);
+      await logRevision('revert', current, reverted, revision.id);
+      await saveNeighbours(neighbours);
+      await handleWriteComplete();
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to revert trade';
+      console.error('[v0] Revert trade error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
   /**
    * Export trades as JSON file with error handling
+   * Reads the full journal from IndexedDB for the download only
    */
-  const exportJSON = () => {
+  const exportJSON = async () => {
     try {
+      const trades = await queryTrades({ includeOpen: true });
       if (trades.length === 0) {
         setError('No trades to export');
         return;
@@ -261,14 +519,16 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
    * Export trades as CSV file with error handling
    * Includes currency information and auto-derived W/L
    */
-  const exportCSV = () => {
+  const exportCSV = async () => {
     try {
+      const trades = await queryTrades({ includeOpen: true });
       if (trades.length === 0) {
         setError('No trades to export');
         return;
       }
 
-      const headers = ['Date', 'Day', 'Symbol', 'Type', 'Setup', 'Position', 'Currency', 'Entry', 'Exit', 'Stop Loss', 'Quantity', 'Fees', 'P&L', 'P&L (Base)', 'R-Factor', 'Outcome', 'Confidence', 'Time Frame', 'Limit', 'Exit Level'];
+      const customFields = getCustomFields();
+      const headers = ['Date', 'Day', 'Symbol', 'Type', 'Setup', 'Position', 'Currency', 'Entry', 'Exit', 'Stop Loss', 'Quantity', 'Fees', 'P&L', 'P&L (Base)', 'R-Factor', 'Outcome', 'Confidence', 'Time Frame', 'Limit', 'Exit Level', 'Tags', ...customFields.map(f => f.name)];
       const rows = trades.map(t => {
         // Derive outcome from P&L (not deprecated isWin)
         const outcome = t.pnl > 0 ? 'Win' : t.pnl < 0 ? 'Loss' : 'Break-Even';
@@ -293,6 +553,8 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
           t.timeFrame || '',
           t.limit || '',
           t.exit || '',
+          (t.tags || []).join(';'),
+          ...customFields.map(f => formatCustomFieldValue(f, t.customFields?.[f.id])),
         ];
       });
 
@@ -337,13 +599,26 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
       }
 
       // Migrate imported trades to new format with currency support
-      const migratedTrades = validTrades.map(migrateTrade);
-      const updated = [...trades, ...migratedTrades];
-      setTrades(updated);
+      // Backups from older versions carry inline images - move them to the blob store
+      const normalizedTrades = await moveInlineScreenshots(validTrades.map(normalizeLegacyTrade));
+      // Imported ids replace any stored trade with the same id
+      const replaced = (await getManyFromDB<Trade>(STORE_NAMES.TRADES, normalizedTrades.map(t => t.id)))
+        .filter((t): t is Trade => t !== undefined);
+      const { checked: migratedTrades, neighbours } = await checkTradingPlan(normalizedTrades, replaced);
       
-      // Save all imported trades to IndexedDB
-      for (const trade of migratedTrades) {
-        await putToDB(STORE_NAMES.TRADES, trade);
+      // Save all imported trades to IndexedDB in one transaction
+      await putManyToDB(STORE_NAMES.TRADES, migratedTrades);
+      await saveNeighbours(neighbours);
+      await handleWriteComplete();
+      // Replaced trades keep their history as an update from the stored version
+      const previous = new Map(replaced.map(t => [t.id, t]));
+      try {
+        await recordCreations('trade', migratedTrades.filter(t => !previous.has(t.id)));
+        await recordUpdates('trade', migratedTrades
+          .filter(t => previous.has(t.id))
+          .map(t => ({ before: previous.get(t.id), after: t })));
+      } catch (err) {
+        console.error('[TradeContext] Failed to record revisions:', err);
       }
       
       setError(null);
@@ -358,7 +633,7 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
   const clearError = () => setError(null);
 
   return (
-    <TradeContext.Provider value={{ trades, addTrade, deleteTrade, updateTrade, exportJSON, exportCSV, importJSON, error, clearError, storagePercentage }}>
+    <TradeContext.Provider value={{ openTrades, tradeCount, addTrade, deleteTrade, restoreTrade, updateTrade, updateTrades, revertTrade, exportJSON, exportCSV, importJSON, error, clearError, storagePercentage, tradesRevision, getTradesPage, queryTrades, reduceTrades, getTradeFieldValues }}>
       {children}
     </TradeContext.Provider>
   );
@@ -371,3 +646,45 @@ export function useTrades() {
   }
   return context;
 }
+
+/**
+ * Fold the trades matching a query into one value, re-run after every write
+ * @param initial - Creates a fresh accumulator for each run
+ * @param deps - Anything else the reducer reads (e.g. the accounts it converts into)
+ * @returns undefined until the first result for this query has loaded
+ */
+export function useTradeAggregate<A>(
+  query: TradeQuery,
+  reducer: (acc: A, trade: Trade) => A,
+  initial: () => A,
+  deps: React.DependencyList = []
+): A | undefined {
+  const { reduceTrades, tradesRevision } = useTrades();
+  const key = JSON.stringify(query);
+  const [result, setResult] = useState<{ key: string; value: A }>();
+
+  useEffect(() => {
+    let cancelled = false;
+    reduceTrades(query, reducer, initial())
+      .then(value => {
+        if (!cancelled) setResult({ key, value });
+      })
+      .catch(err => console.error('[TradeContext] Trade query failed:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [key, tradesRevision, ...deps]);
+
+  return result?.key === key ? result.value : undefined;
+}
+
+const NO_TRADES: Trade[] = [];
+
+/**
+ * Trades matching a query, re-read after every write
+ * Keeps the previous result while a write is re-read, so views do not flash empty
+ */
+export function useTradeQuery(query: TradeQuery): { trades: Trade[]; isLoading: boolean } {
+  const trades = useTradeAggregate<Trade[]>(query, collectTrade, () => []);
+  return { trades: trades || NO_TRADES, isLoading: trades === undefined };
+}
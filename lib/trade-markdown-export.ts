@@ -3,12 +3,47 @@
  * Generates markdown files for individual trades with proper formatting
  */
 
-import { Trade } from './types';
+import { Trade, WeeklyReviewRecord } from './types';
+import { formatCurrency } from './trade-utils';
+import { getCustomFields, formatCustomFieldValue } from './custom-fields';
+
+/**
+ * Markdown for a trade's screenshots
+ * @param screenshotPaths - Relative file path per screenshot id, for images exported alongside the note
+ */
+function screenshotsToMarkdown(trade: Trade, screenshotPaths: Record<string, string>): string {
+  if (!trade.screenshots || trade.screenshots.length === 0) return '*No screenshots*';
+  return trade.screenshots
+    .map(screenshot => {
+      const path = screenshotPaths[screenshot.id];
+      return path ? `### ${screenshot.label}\n\n![${screenshot.label}](${path})` : `- **${screenshot.label}** (not exported)`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Markdown table of a trade's custom field values
+ */
+function customFieldsToMarkdown(trade: Trade): string {
+  const rows = getCustomFields()
+    .filter(field => trade.customFields?.[field.id] !== undefined)
+    .map(field => `| **${field.name}** | ${formatCustomFieldValue(field, trade.customFields?.[field.id])} |`);
+  if (rows.length === 0) return '*No custom fields recorded*';
+  return ['| Field | Value |', '|-------|-------|', ...rows].join('\n');
+}
+
+/**
+ * Task list of a trade's pre-trade checklist answers
+ */
+function checklistToMarkdown(trade: Trade): string {
+  if (!trade.checklist?.length) return '*No checklist recorded*';
+  return trade.checklist.map(answer => `- [${answer.checked ? 'x' : ' '}] ${answer.text}`).join('\n');
+}
 
 /**
  * Convert a trade to markdown format
  */
-export function tradeToMarkdown(trade: Trade): string {
+export function tradeToMarkdown(trade: Trade, screenshotPaths: Record<string, string> = {}): string {
   const date = new Date(trade.date);
   const formattedDate = date.toLocaleDateString('en-US', {
     weekday: 'long',
@@ -76,13 +111,25 @@ ${trade.postNotes || '*No post-trade notes recorded*'}
 | Category | Value |
 |----------|-------|
 | **Mistake Tag** | ${trade.mistakeTag || 'No mistake (good execution)'} |
+| **Tags** | ${trade.tags?.length ? trade.tags.map(tag => `\`${tag}\``).join(' ') : '-'} |
+
+---
+
+## Pre-Trade Checklist
+
+${checklistToMarkdown(trade)}
+
+---
+
+## Custom Fields
+
+${customFieldsToMarkdown(trade)}
 
 ---
 
 ## Screenshots
 
-${trade.beforeTradeScreenshot ? `- **Before Trade:** \`${trade.beforeTradeScreenshot}\`` : ''}
-${trade.afterExitScreenshot ? `- **After Exit:** \`${trade.afterExitScreenshot}\`` : ''}
+${screenshotsToMarkdown(trade, screenshotPaths)}
 
 ---
 
@@ -121,6 +168,8 @@ export function tradesToCSV(trades: Trade[]): string {
     'Limit',
     'Exit Level',
     'Mistake Tag',
+    'Tags',
+    ...getCustomFields().map(field => field.name),
   ];
 
   const rows = trades.map((t) => [
@@ -143,6 +192,8 @@ export function tradesToCSV(trades: Trade[]): string {
     t.limit || '',
     t.exit || '',
     t.mistakeTag || '',
+    (t.tags || []).join(';'),
+    ...getCustomFields().map(field => formatCustomFieldValue(field, t.customFields?.[field.id])),
   ]);
 
   const csvContent = [
@@ -221,3 +272,51 @@ export function generateMonthlySummary(
 
   return markdown;
 }
+
+/**
+ * Convert a weekly review to markdown format
+ */
+export function weeklyReviewToMarkdown(review: WeeklyReviewRecord): string {
+  const { stats } = review;
+  const actionItems = review.actionItems.length > 0
+    ? review.actionItems
+        .map(item => `- [${item.done ? 'x' : ' '}] ${item.text}${item.carriedFrom ? ` *(from ${item.carriedFrom})*` : ''}`)
+        .join('\n')
+    : '*No action items*';
+
+  return `# Weekly Review ${review.week}
+
+**Period:** ${review.startDate} to ${review.endDate}  
+**Grade:** ${review.grade || 'Not graded'}
+
+---
+
+## Week Statistics
+
+| Metric | Value |
+|--------|-------|
+| **Total Trades** | ${stats.totalTrades} |
+| **Win Rate** | ${stats.winRate.toFixed(1)}% |
+| **Total P&L** | ${formatCurrency(stats.totalPnL, stats.currency)} |
+| **Best Day** | ${stats.bestDay} |
+| **Worst Day** | ${stats.worstDay} |
+
+---
+
+## What Went Well
+
+${review.wentWell || '*Nothing recorded*'}
+
+## What to Improve
+
+${review.toImprove || '*Nothing recorded*'}
+
+## Action Items
+
+${actionItems}
+
+---
+
+*Last updated: ${new Date(review.updatedAt).toLocaleString()}*
+`;
+}
@@ -1,27 +1,15 @@
-import { Trade, TradeFormData, Currency, TradeOutcome } from './types';
-
-// Currency symbols for display
-export const CURRENCY_SYMBOLS: Record<Currency, string> = {
-  INR: '₹',
-  USD: '$',
-  EUR: '€',
-  GBP: '£',
-  JPY: '¥',
-  AUD: 'A$',
-  CAD: 'C$',
-};
-
-// Default exchange rates to INR (base currency)
-// In production, these should be fetched from an API at trade close time
-export const DEFAULT_EXCHANGE_RATES_TO_INR: Record<Currency, number> = {
-  INR: 1,
-  USD: 83.5,
-  EUR: 90.2,
-  GBP: 105.8,
-  JPY: 0.56,
-  AUD: 54.3,
-  CAD: 61.2,
-};
+import { Trade, TradeFormData, Currency, TradeOutcome, Account, AccountScope, TradeExecution, TradeExecutionFormData, ExecutionSummary, ExecutionLegResult, TradeStatus, OpenPositionValuation, PositionSize, TradeIdea, EquityLedger } from './types';
+import { getPointValue } from './instrument-registry';
+import { parseOptionPosition } from './options-utils';
+import { findFxRate } from './fx-rates';
+import { getCurrencySymbol, getCurrency } from './currency-registry';
+import { normalizeTags } from './tag-utils';
+import { parseCustomFieldValues } from './custom-fields';
+import { resolveTradeSetup } from './playbook';
+import { deriveRuleFollowed } from './checklist';
+
+// Display symbol per currency code, read from the currency registry
+export { getCurrencySymbol };
 
 // Default base currency for summaries
 export const BASE_CURRENCY: Currency = 'INR';
@@ -57,12 +45,33 @@ export function isTradeLoss(trade: Trade): boolean {
 
 /**
  * Get exchange rate for converting currency to base currency (INR)
- * In production, this should fetch live rates from an API
+ * Uses the stored historical rate for the date, falling back to the currency's default rate
  * @param currency - Source currency
+ * @param date - Date of the conversion (YYYY-MM-DD); omit for the latest rate
  * @returns Exchange rate to INR
  */
-export function getExchangeRateToBase(currency: Currency): number {
-  return DEFAULT_EXCHANGE_RATES_TO_INR[currency] || 1;
+export function getExchangeRateToBase(currency: Currency, date?: string): number {
+  if (currency === BASE_CURRENCY) return 1;
+  return findFxRate(currency, BASE_CURRENCY, date)?.rate || getCurrency(currency)?.defaultRate || 1;
+}
+
+/**
+ * Date the trade was closed (exit date for overnight trades, otherwise the trade date)
+ */
+export function getTradeExitDate(trade: Trade): string {
+  return trade.exitDate || trade.date;
+}
+
+/**
+ * Re-derive the exchange rate and base-currency P&L from the rate on the exit date
+ * @returns The updated trade, or the same object when nothing changed
+ */
+export function recomputeTradeExchangeRate(trade: Trade): Trade {
+  const currency = trade.currency || 'INR';
+  const exchangeRate = getExchangeRateToBase(currency, getTradeExitDate(trade));
+  const pnlBase = convertToBaseCurrency(trade.pnl, currency, exchangeRate);
+  if (trade.exchangeRate === exchangeRate && trade.pnlBase === pnlBase) return trade;
+  return { ...trade, exchangeRate, pnlBase };
 }
 
 /**
@@ -77,16 +86,105 @@ export function convertToBaseCurrency(pnl: number, currency: Currency, exchangeR
   return pnl * rate;
 }
 
+/**
+ * Check whether execution legs describe a complete round trip
+ * Needs at least one entry and one exit leg with positive quantity
+ */
+export function hasExecutionLegs(executions?: TradeExecution[]): executions is TradeExecution[] {
+  if (!executions || executions.length === 0) return false;
+  const hasEntry = executions.some(e => e.side === 'entry' && e.quantity > 0);
+  const hasExit = executions.some(e => e.side === 'exit' && e.quantity > 0);
+  return hasEntry && hasExit;
+}
+
+/**
+ * Weighted average fill price for one side of the execution legs
+ * @returns 0 when there are no legs on that side
+ */
+export function getWeightedAveragePrice(executions: TradeExecution[], side: 'entry' | 'exit'): number {
+  const legs = executions.filter(e => e.side === side && e.quantity > 0);
+  const quantity = legs.reduce((sum, e) => sum + e.quantity, 0);
+  if (quantity === 0) return 0;
+  return legs.reduce((sum, e) => sum + e.price * e.quantity, 0) / quantity;
+}
+
+/**
+ * Summarize execution legs into average prices and realized P&L per leg
+ * Legs are processed in order; each exit realizes against the average cost of
+ * the position built up so far, so adds after a partial exit are handled correctly.
+ * @param executions - Entry and exit legs in the order they were filled
+ * @param position - Buy or Sell position
+ * @param pointValue - Contract multiplier of the instrument
+ * @returns Averages, quantities and per-leg realized P&L (in trade currency)
+ */
+export function summarizeExecutions(executions: TradeExecution[], position: 'Buy' | 'Sell', pointValue: number = 1): ExecutionSummary {
+  const direction = position === 'Buy' ? 1 : -1;
+  let openQuantity = 0;
+  let averageCost = 0;
+  let grossPnL = 0;
+  let fees = 0;
+  const legs: ExecutionLegResult[] = [];
+
+  for (const execution of executions) {
+    if (!(execution.quantity > 0)) continue;
+    const legFees = execution.fees || 0;
+    fees += legFees;
+
+    if (execution.side === 'entry') {
+      averageCost = (averageCost * openQuantity + execution.price * execution.quantity) / (openQuantity + execution.quantity);
+      openQuantity += execution.quantity;
+      legs.push({ execution, averageCost, realizedPnL: -legFees });
+    } else {
+      // Exits beyond the open quantity are ignored rather than flipping the position
+      const closedQuantity = Math.min(execution.quantity, openQuantity);
+      const legGross = (execution.price - averageCost) * closedQuantity * direction * pointValue;
+      grossPnL += legGross;
+      openQuantity -= closedQuantity;
+      legs.push({ execution, averageCost, realizedPnL: legGross - legFees });
+    }
+  }
+
+  const entryQuantity = executions.filter(e => e.side === 'entry').reduce((sum, e) => sum + (e.quantity || 0), 0);
+  const exitQuantity = executions.filter(e => e.side === 'exit').reduce((sum, e) => sum + (e.quantity || 0), 0);
+
+  return {
+    averageEntry: getWeightedAveragePrice(executions, 'entry'),
+    averageExit: getWeightedAveragePrice(executions, 'exit'),
+    entryQuantity,
+    exitQuantity,
+    openQuantity,
+    grossPnL,
+    fees,
+    realizedPnL: grossPnL - fees,
+    legs,
+  };
+}
+
+/**
+ * Get the total fees recorded on a trade's execution legs
+ */
+export function getExecutionFees(executions?: TradeExecution[]): number {
+  if (!executions) return 0;
+  return executions.reduce((sum, e) => sum + (e.fees || 0), 0);
+}
+
 /**
  * Calculate Profit/Loss for a trade
+ * When execution legs are provided they take precedence over the single entry/exit prices
  * @param entryPrice - Entry price of the trade
  * @param exitPrice - Exit price of the trade
  * @param quantity - Quantity/shares traded
  * @param position - Buy or Sell position
  * @param fees - Trading fees incurred
+ * @param executions - Optional scaled entry/exit legs
+ * @param pointValue - Contract multiplier from the instrument registry (money per point per unit)
  * @returns Net P&L after fees
  */
-export function calculatePnL(entryPrice: number, exitPrice: number, quantity: number, position: 'Buy' | 'Sell', fees: number): number {
+export function calculatePnL(entryPrice: number, exitPrice: number, quantity: number, position: 'Buy' | 'Sell', fees: number, executions?: TradeExecution[], pointValue: number = 1): number {
+  if (hasExecutionLegs(executions)) {
+    // Leg fees are already deducted per leg; `fees` covers any trade-level charges
+    return summarizeExecutions(executions, position, pointValue).realizedPnL - fees;
+  }
   let grossPnL = 0;
   if (position === 'Buy') {
     grossPnL = (exitPrice - entryPrice) * quantity;
@@ -94,30 +192,75 @@ export function calculatePnL(entryPrice: number, exitPrice: number, quantity: nu
     // Sell position: profit if exit < entry
     grossPnL = (entryPrice - exitPrice) * quantity;
   }
-  return grossPnL - fees;
+  return grossPnL * pointValue - fees;
 }
 
 /**
  * Calculate Risk-Reward Factor (R-Factor)
  * Ratio of profit/loss to risk taken
+ * With execution legs, risk is the full entered size at the average entry against the initial stop
  * @param pnl - Total profit/loss
- * @param stopLoss - Stop loss price level
+ * @param stopLoss - Stop loss price level (initial stop)
  * @param entryPrice - Entry price
  * @param position - Buy or Sell
  * @param quantity - Trade quantity
+ * @param executions - Optional scaled entry/exit legs
+ * @param pointValue - Contract multiplier from the instrument registry
  * @returns R-Factor (positive = reward multiple, negative = risk multiple)
  */
-export function calculateRFactor(pnl: number, stopLoss: number, entryPrice: number, position: 'Buy' | 'Sell', quantity: number): number {
+export function calculateRFactor(pnl: number, stopLoss: number, entryPrice: number, position: 'Buy' | 'Sell', quantity: number, executions?: TradeExecution[], pointValue: number = 1): number {
+  if (hasExecutionLegs(executions)) {
+    entryPrice = getWeightedAveragePrice(executions, 'entry');
+    quantity = executions.filter(e => e.side === 'entry').reduce((sum, e) => sum + (e.quantity || 0), 0);
+  }
   let risk = 0;
   if (position === 'Buy') {
     risk = Math.abs(entryPrice - stopLoss) * quantity;
   } else {
     risk = Math.abs(stopLoss - entryPrice) * quantity;
   }
+  risk *= pointValue;
   if (risk === 0) return 0;
   return pnl / risk;
 }
 
+/**
+ * Size a position so that a stop-out loses the given share of equity
+ * @param equity - Account equity in the trade currency
+ * @param riskPercent - Share of equity to risk (e.g. 1 for 1%)
+ * @param entryPrice - Planned entry price
+ * @param stopLoss - Stop loss price level
+ * @param position - Buy or Sell
+ * @param lotSize - Quantity step from the instrument registry
+ * @param pointValue - Contract multiplier from the instrument registry
+ * @param plannedR - Optional reward multiple for the target price
+ * @returns Null when the inputs cannot be sized (no risk budget, stop on the wrong side of entry)
+ */
+export function calculatePositionSize(
+  equity: number,
+  riskPercent: number,
+  entryPrice: number,
+  stopLoss: number,
+  position: 'Buy' | 'Sell',
+  lotSize: number = 1,
+  pointValue: number = 1,
+  plannedR?: number
+): PositionSize | null {
+  const stopDistance = position === 'Buy' ? entryPrice - stopLoss : stopLoss - entryPrice;
+  if (!(equity > 0) || !(riskPercent > 0) || !(stopDistance > 0) || !(lotSize > 0)) return null;
+
+  const riskPerUnit = stopDistance * pointValue;
+  const budget = equity * riskPercent / 100;
+  // Small epsilon so budgets that land exactly on a lot are not rounded down by float error
+  const lots = Math.floor(budget / (riskPerUnit * lotSize) + 1e-9);
+  const quantity = Number((lots * lotSize).toFixed(10));
+  const targetPrice = plannedR !== undefined && plannedR > 0
+    ? entryPrice + (position === 'Buy' ? 1 : -1) * plannedR * stopDistance
+    : undefined;
+
+  return { quantity, riskAmount: quantity * riskPerUnit, riskPerUnit, targetPrice };
+}
+
 /**
  * Get day of week from date string
  * @param dateString - Date in YYYY-MM-DD format
@@ -138,19 +281,27 @@ export function getDayOfWeek(dateString: string): string {
  * @returns Complete Trade object with all metrics calculated
  */
 export function convertFormToTrade(formData: TradeFormData): Trade {
+  const status = formData.status || 'closed';
+  if (status !== 'closed') return convertFormToOpenTrade(formData, status);
+
   const stopLoss = parseFloat(formData.stopLoss);
-  const quantity = parseFloat(formData.quantity);
-  const brokerage = parseFloat(formData.brokerage || '0') || 0;
-  const exchangeCharges = parseFloat(formData.exchangeCharges || '0') || 0;
-  const taxes = parseFloat(formData.taxes || '0') || 0;
-  const fees = brokerage + exchangeCharges + taxes;
+  const pointValue = getPointValue(formData.symbol);
+  const executions = parseExecutionRows(formData.executions);
+  const summary = hasExecutionLegs(executions) ? summarizeExecutions(executions, formData.position, pointValue) : null;
+  const quantity = summary ? summary.entryQuantity : parseFloat(formData.quantity);
+  const { brokerage, exchangeCharges, taxes, total: charges } = parseFormCharges(formData);
+  const fees = charges + (summary ? summary.fees : 0);
   // User enters gross P&L; net P&L = gross - brokerage/charges
-  const grossPnl = parseFloat(formData.manualProfit || '0');
+  // With execution legs the gross P&L is realized from the legs instead
+  const grossPnl = summary ? summary.grossPnL : parseFloat(formData.manualProfit || '0');
   const pnl = grossPnl - fees;
   const currency = formData.currency || 'INR';
   
   // Parse R-Factor and ensure it has correct sign based on P&L
-  let rFactor = parseFloat(formData.exitRFactor || '0');
+  // Legs measure R against the initial stop
+  let rFactor = summary
+    ? calculateRFactor(pnl, stopLoss, summary.averageEntry, formData.position, quantity, executions, pointValue)
+    : parseFloat(formData.exitRFactor || '0');
   // Ensure R-multiple sign matches P&L sign (loss should be negative R)
   if (pnl < 0 && rFactor > 0) {
     rFactor = -Math.abs(rFactor);
@@ -158,12 +309,13 @@ export function convertFormToTrade(formData: TradeFormData): Trade {
     rFactor = Math.abs(rFactor);
   }
 
-  // Only parse prices if they are provided
-  const entryPrice = formData.entryPrice ? parseFloat(formData.entryPrice) : undefined;
-  const exitPrice = formData.exitPrice ? parseFloat(formData.exitPrice) : undefined;
+  // Only parse prices if they are provided (legs supply weighted averages)
+  const entryPrice = summary ? summary.averageEntry : formData.entryPrice ? parseFloat(formData.entryPrice) : undefined;
+  const exitPrice = summary ? summary.averageExit : formData.exitPrice ? parseFloat(formData.exitPrice) : undefined;
 
-  // Get exchange rate at trade close time and convert to base currency
-  const exchangeRate = getExchangeRateToBase(currency);
+  // Get exchange rate on the exit date and convert to base currency
+  const exitDate = formData.exitDate && formData.exitDate !== formData.date ? formData.exitDate : undefined;
+  const exchangeRate = getExchangeRateToBase(currency, exitDate || formData.date);
   const pnlBase = convertToBaseCurrency(pnl, currency, exchangeRate);
 
   // Auto-derive isWin from P&L (for backwards compatibility with existing code)
@@ -171,11 +323,14 @@ export function convertFormToTrade(formData: TradeFormData): Trade {
 
   return {
     id: Date.now().toString(),
+    status,
+    accountId: formData.accountId || undefined,
     date: formData.date,
+    exitDate,
     dayOfWeek: getDayOfWeek(formData.date),
     symbol: formData.symbol.toUpperCase(),
     tradeType: formData.tradeType,
-    setupName: formData.setupName,
+    ...resolveTradeSetup(formData.setupName, formData.setupId),
     position: formData.position,
     entryPrice,
     exitPrice,
@@ -190,18 +345,19 @@ export function convertFormToTrade(formData: TradeFormData): Trade {
     pnlBase,
     exchangeRate,
     rFactor,
-    exitRFactor: formData.exitRFactor ? parseFloat(formData.exitRFactor) : undefined,
+    exitRFactor: summary ? rFactor : formData.exitRFactor ? parseFloat(formData.exitRFactor) : undefined,
     isWin, // Auto-derived from P&L
     confidence: parseInt(formData.confidence),
     preNotes: formData.preNotes,
     postNotes: formData.postNotes,
-    beforeTradeScreenshot: formData.beforeTradeScreenshot,
-    afterExitScreenshot: formData.afterExitScreenshot,
+    screenshots: formData.screenshots?.length ? formData.screenshots : undefined,
     mistakeTag: formData.mistakeTag,
     timeFrame: formData.timeFrame,
     limit: formData.limit,
     exit: formData.exit,
-    ruleFollowed: formData.ruleFollowed ?? true,
+    ruleFollowed: deriveRuleFollowed(formData.checklist, formData.ruleFollowed ?? true),
+    checklist: formData.checklist?.length ? formData.checklist : undefined,
+    ideaIds: formData.ideaIds?.length ? formData.ideaIds : undefined,
     ruleViolations: formData.ruleViolations,
     session: formData.session,
     entryTime: formData.entryTime,
@@ -210,21 +366,301 @@ export function convertFormToTrade(formData: TradeFormData): Trade {
     emotionEntry: formData.emotionEntry,
     emotionExit: formData.emotionExit,
     plannedRTarget: formData.plannedRTarget ? parseFloat(formData.plannedRTarget) : undefined,
-    isScaledEntry: false,
-    isScaledExit: false,
+    targetPrice: formData.targetPrice ? parseFloat(formData.targetPrice) : undefined,
+    plannedRiskAmount: formData.plannedRiskAmount ? parseFloat(formData.plannedRiskAmount) : undefined,
+    isScaledEntry: executions.filter(e => e.side === 'entry').length > 1,
+    isScaledExit: executions.filter(e => e.side === 'exit').length > 1,
+    executions: executions.length > 0 ? executions : undefined,
+    options: parseOptionPosition(formData.options, formData.symbol),
+    tags: formData.tags?.length ? normalizeTags(formData.tags) : undefined,
+    customFields: parseCustomFieldValues(formData.customFields),
+  };
+}
+
+/**
+ * Trade-level charges entered on the form (leg fees are not included)
+ * Shared by the saved trade and the form's live preview so both deduct the same amounts
+ */
+export function parseFormCharges(formData: Pick<TradeFormData, 'brokerage' | 'exchangeCharges' | 'taxes'>) {
+  const brokerage = parseFloat(formData.brokerage || '0') || 0;
+  const exchangeCharges = parseFloat(formData.exchangeCharges || '0') || 0;
+  const taxes = parseFloat(formData.taxes || '0') || 0;
+  return { brokerage, exchangeCharges, taxes, total: brokerage + exchangeCharges + taxes };
+}
+
+/**
+ * Convert form data for a planned or still-running trade
+ * Nothing is realized yet, so P&L and R stay at zero until the position is closed
+ */
+function convertFormToOpenTrade(formData: TradeFormData, status: TradeStatus): Trade {
+  const executions = parseExecutionRows(formData.executions);
+  const entryLegs = executions.filter(e => e.side === 'entry' && e.quantity > 0);
+  const { brokerage, exchangeCharges, taxes } = parseFormCharges(formData);
+  const currency = formData.currency || 'INR';
+
+  return {
+    id: Date.now().toString(),
+    status,
+    accountId: formData.accountId || undefined,
+    date: formData.date,
+    dayOfWeek: getDayOfWeek(formData.date),
+    symbol: formData.symbol.toUpperCase(),
+    tradeType: formData.tradeType,
+    ...resolveTradeSetup(formData.setupName, formData.setupId),
+    position: formData.position,
+    entryPrice: entryLegs.length > 0
+      ? getWeightedAveragePrice(executions, 'entry')
+      : formData.entryPrice ? parseFloat(formData.entryPrice) : undefined,
+    stopLoss: parseFloat(formData.stopLoss),
+    quantity: entryLegs.length > 0 ? entryLegs.reduce((sum, e) => sum + e.quantity, 0) : parseFloat(formData.quantity),
+    fees: brokerage + exchangeCharges + taxes + getExecutionFees(executions),
+    brokerage: brokerage || undefined,
+    exchangeCharges: exchangeCharges || undefined,
+    taxes: taxes || undefined,
+    pnl: 0,
+    currency,
+    pnlBase: 0,
+    exchangeRate: getExchangeRateToBase(currency, formData.date),
+    rFactor: 0,
+    isWin: false,
+    confidence: parseInt(formData.confidence),
+    preNotes: formData.preNotes,
+    postNotes: formData.postNotes,
+    screenshots: formData.screenshots?.length ? formData.screenshots : undefined,
+    mistakeTag: formData.mistakeTag,
+    timeFrame: formData.timeFrame,
+    limit: formData.limit,
+    exit: formData.exit,
+    ruleFollowed: deriveRuleFollowed(formData.checklist, formData.ruleFollowed ?? true),
+    checklist: formData.checklist?.length ? formData.checklist : undefined,
+    ideaIds: formData.ideaIds?.length ? formData.ideaIds : undefined,
+    ruleViolations: formData.ruleViolations,
+    session: formData.session,
+    entryTime: formData.entryTime,
+    marketCondition: formData.marketCondition,
+    emotionEntry: formData.emotionEntry,
+    plannedRTarget: formData.plannedRTarget ? parseFloat(formData.plannedRTarget) : undefined,
+    targetPrice: formData.targetPrice ? parseFloat(formData.targetPrice) : undefined,
+    plannedRiskAmount: formData.plannedRiskAmount ? parseFloat(formData.plannedRiskAmount) : undefined,
+    isScaledEntry: entryLegs.length > 1,
+    executions: executions.length > 0 ? executions : undefined,
+    options: parseOptionPosition(formData.options, formData.symbol),
+    tags: formData.tags?.length ? normalizeTags(formData.tags) : undefined,
+    customFields: parseCustomFieldValues(formData.customFields),
+  };
+}
+
+/**
+ * Trade form values taken from a trade idea ("take this trade")
+ * The idea's setup is mapped to its playbook setup when one matches.
+ */
+export function ideaToTradeFormData(idea: TradeIdea): Partial<TradeFormData> {
+  const preNotes = [
+    idea.reasoning,
+    idea.entryLogic && `Entry: ${idea.entryLogic}`,
+    idea.stopLossLogic && `Stop: ${idea.stopLossLogic}`,
+    idea.exitLogic && `Exit: ${idea.exitLogic}`,
+  ].filter(Boolean).join('\n');
+
+  return {
+    symbol: idea.symbol?.toUpperCase() || '',
+    ...resolveTradeSetup(idea.setup),
+    timeFrame: idea.timeFrame || '',
+    preNotes,
+    tags: idea.tags || [],
+    ideaIds: [idea.id],
+  };
+}
+
+/**
+ * Lifecycle status of a trade (legacy trades without one are closed)
+ */
+export function getTradeStatus(trade: Trade): TradeStatus {
+  return trade.status || 'closed';
+}
+
+/**
+ * Only closed trades have realized results
+ */
+export function getClosedTrades(trades: Trade[]): Trade[] {
+  return trades.filter(t => getTradeStatus(t) === 'closed');
+}
+
+/**
+ * Trades that feed performance analytics
+ * Planned and open trades are left out by default - they have no realized P&L yet
+ * @param trades - Array of all trades
+ * @param scope - Accounts to include
+ * @param includeOpen - Also include planned and open trades
+ */
+export function getAnalyticsTrades(trades: Trade[], scope: AccountScope = 'all', includeOpen = false): Trade[] {
+  const scoped = filterTradesByAccount(trades, scope);
+  return includeOpen ? scoped : getClosedTrades(scoped);
+}
+
+/**
+ * Initial risk of a trade in its own currency: full entered size against the initial stop
+ */
+export function getInitialRisk(trade: Trade): number {
+  const entries = trade.executions?.filter(e => e.side === 'entry' && e.quantity > 0) || [];
+  const entryPrice = entries.length > 0 ? getWeightedAveragePrice(entries, 'entry') : trade.entryPrice || 0;
+  const quantity = entries.length > 0 ? entries.reduce((sum, e) => sum + e.quantity, 0) : trade.quantity;
+  return Math.abs(entryPrice - trade.stopLoss) * quantity * getPointValue(trade.symbol);
+}
+
+/**
+ * Value an open position at a mark price
+ * Partial exits recorded as legs are realized; the remaining quantity is marked to market
+ * @param trade - Open trade
+ * @param markPrice - Current price of the instrument
+ */
+export function valueOpenPosition(trade: Trade, markPrice: number): OpenPositionValuation {
+  const direction = trade.position === 'Buy' ? 1 : -1;
+  const pointValue = getPointValue(trade.symbol);
+  let averageEntry = trade.entryPrice || 0;
+  let openQuantity = trade.quantity;
+  let realizedPnL = 0;
+
+  if (trade.executions && trade.executions.length > 0) {
+    const summary = summarizeExecutions(trade.executions, trade.position, pointValue);
+    openQuantity = summary.openQuantity;
+    realizedPnL = summary.grossPnL;
+    // Cost basis of what is still open is the running average of the last leg
+    averageEntry = summary.legs.length > 0 ? summary.legs[summary.legs.length - 1].averageCost : averageEntry;
+  }
+
+  const unrealizedPnL = (markPrice - averageEntry) * openQuantity * direction * pointValue;
+  realizedPnL -= getTradeCharges(trade);
+  const risk = getInitialRisk(trade);
+
+  return {
+    openQuantity,
+    averageEntry,
+    realizedPnL,
+    unrealizedPnL,
+    unrealizedR: risk > 0 ? (realizedPnL + unrealizedPnL) / risk : 0,
+  };
+}
+
+/**
+ * Close an open position at an exit price
+ * Fills the exit fields and computes realized P&L, R and base-currency P&L.
+ * With execution legs, the remaining quantity is closed with a final exit leg.
+ * @param trade - Open trade to close
+ * @param close - Exit price, date and time plus any exit charges
+ * @returns The closed trade
+ */
+export function closeTrade(
+  trade: Trade,
+  close: { exitPrice: number; exitDate: string; exitTime?: string; exitFees?: number }
+): Trade {
+  const exitFees = close.exitFees || 0;
+  // Exit charges join the brokerage breakdown so getTradeCharges keeps counting them
+  const breakdown = (trade.brokerage || 0) + (trade.exchangeCharges || 0) + (trade.taxes || 0);
+  const brokerage = breakdown > 0 || getExecutionFees(trade.executions) > 0
+    ? (trade.brokerage || 0) + exitFees
+    : trade.fees + exitFees;
+  const fees = trade.fees + exitFees;
+
+  let executions = trade.executions;
+  if (executions && executions.some(e => e.side === 'entry')) {
+    const { openQuantity } = summarizeExecutions(executions, trade.position);
+    if (openQuantity > 0) {
+      executions = [
+        ...executions,
+        { id: `${Date.now()}-close`, side: 'exit', price: close.exitPrice, quantity: openQuantity, time: close.exitTime, fees: 0 },
+      ];
+    }
+  }
+
+  const legFees = getExecutionFees(executions);
+  const tradeLevelFees = fees - legFees;
+  const entryPrice = trade.entryPrice || 0;
+  const pointValue = getPointValue(trade.symbol);
+  const pnl = calculatePnL(entryPrice, close.exitPrice, trade.quantity, trade.position, tradeLevelFees, executions, pointValue);
+  const rFactor = calculateRFactor(pnl, trade.stopLoss, entryPrice, trade.position, trade.quantity, executions, pointValue);
+  const exchangeRate = getExchangeRateToBase(trade.currency, close.exitDate);
+  const summary = hasExecutionLegs(executions) ? summarizeExecutions(executions, trade.position) : null;
+
+  return {
+    ...trade,
+    status: 'closed',
+    exitPrice: summary ? summary.averageExit : close.exitPrice,
+    exitDate: close.exitDate !== trade.date ? close.exitDate : undefined,
+    exitTime: close.exitTime || trade.exitTime,
+    markPrice: undefined,
+    markedAt: undefined,
+    fees,
+    brokerage: brokerage || undefined,
+    pnl,
+    pnlBase: convertToBaseCurrency(pnl, trade.currency, exchangeRate),
+    exchangeRate,
+    rFactor,
+    exitRFactor: rFactor,
+    isWin: pnl > 0,
+    isScaledExit: executions ? executions.filter(e => e.side === 'exit').length > 1 : trade.isScaledExit,
+    executions,
+  };
+}
+
+/**
+ * Parse the leg editor rows of the trade form into executions
+ * Rows without a valid price or quantity are dropped
+ */
+export function parseExecutionRows(rows: TradeExecutionFormData[] = []): TradeExecution[] {
+  return rows
+    .map(row => ({
+      id: row.id,
+      side: row.side,
+      price: parseFloat(row.price),
+      quantity: parseFloat(row.quantity),
+      time: row.time || undefined,
+      fees: parseFloat(row.fees || '0') || 0,
+    }))
+    .filter(e => !isNaN(e.price) && e.quantity > 0);
+}
+
+/**
+ * Bring a trade saved by an older version up to the current format
+ * - Adds currency field (defaults to INR for backwards compatibility)
+ * - Adds pnlBase (P&L in base currency) and exchangeRate
+ * - Updates isWin based on P&L (auto-derived)
+ * Used by the schema migration and when importing JSON
+ */
+export function normalizeLegacyTrade(trade: any): Trade {
+  // If trade already has currency fields, only re-derive isWin
+  if (trade.currency && trade.pnlBase !== undefined) {
+    return {
+      ...trade,
+      isWin: trade.pnl > 0,
+    };
+  }
+
+  // Default to INR for old trades (common for Indian traders)
+  const currency: Currency = trade.currency || 'INR';
+  const exchangeRate = getExchangeRateToBase(currency, trade.exitDate || trade.date);
+  const pnlBase = convertToBaseCurrency(trade.pnl, currency, exchangeRate);
+
+  return {
+    ...trade,
+    currency,
+    pnlBase,
+    exchangeRate,
+    // Auto-derive isWin from P&L
+    isWin: trade.pnl > 0,
   };
 }
 
 /**
  * Get total charges for a trade
- * Returns the sum of brokerage, exchange charges, and taxes
+ * Returns the sum of brokerage, exchange charges, taxes and execution leg fees
  * Falls back to `fees` field for backward compatibility
  */
 export function getTradeCharges(trade: Trade): number {
   const brokerage = trade.brokerage || 0;
   const exchangeCharges = trade.exchangeCharges || 0;
   const taxes = trade.taxes || 0;
-  const totalBreakdown = brokerage + exchangeCharges + taxes;
+  const totalBreakdown = brokerage + exchangeCharges + taxes + getExecutionFees(trade.executions);
   // If breakdown is available, use it; otherwise use legacy fees field
   return totalBreakdown > 0 ? totalBreakdown : (trade.fees || 0);
 }
@@ -253,14 +689,97 @@ export function getTradeBasePnL(trade: Trade): number {
   return convertToBaseCurrency(trade.pnl, currency);
 }
 
+/**
+ * Convert an amount from the base currency (INR) into another currency
+ * @param amount - Amount in base currency
+ * @param currency - Target currency
+ * @param date - Date whose rate applies (YYYY-MM-DD); omit for the latest rate
+ * @returns Amount in the target currency
+ */
+export function convertFromBaseCurrency(amount: number, currency: Currency, date?: string): number {
+  return amount / getExchangeRateToBase(currency, date);
+}
+
+/**
+ * Convert an amount in the trade's own currency into the display currency
+ * Goes through the trade's stored rate to the base currency, then the display
+ * currency's rate on the trade's exit date
+ * @param amount - Amount in the trade currency (e.g. charges or gross P&L)
+ * @param trade - Trade the amount belongs to
+ * @param displayCurrency - Currency to show (default: base currency)
+ * @returns Amount in the display currency
+ */
+export function convertTradeAmount(amount: number, trade: Trade, displayCurrency: Currency = BASE_CURRENCY): number {
+  const currency = trade.currency || 'INR';
+  if (currency === displayCurrency) return amount;
+  const baseAmount = convertToBaseCurrency(amount, currency, trade.exchangeRate);
+  if (displayCurrency === BASE_CURRENCY) return baseAmount;
+  return convertFromBaseCurrency(baseAmount, displayCurrency, getTradeExitDate(trade));
+}
+
+/**
+ * Get P&L of a trade in the user's display currency
+ * Trades already in the display currency use their native P&L; others convert the
+ * stored base-currency P&L at the display currency's rate on the exit date
+ * @param trade - Trade object
+ * @param displayCurrency - Currency to show (default: base currency)
+ * @returns P&L in the display currency
+ */
+export function getTradeDisplayPnL(trade: Trade, displayCurrency: Currency = BASE_CURRENCY): number {
+  const currency = trade.currency || 'INR';
+  if (currency === displayCurrency) return trade.pnl;
+  if (displayCurrency === BASE_CURRENCY) return getTradeBasePnL(trade);
+  return convertFromBaseCurrency(getTradeBasePnL(trade), displayCurrency, getTradeExitDate(trade));
+}
+
+/**
+ * Restrict trades to the accounts in scope
+ * Trades logged before accounts existed have no accountId and only appear in the 'all' scope
+ * @param trades - Array of all trades
+ * @param scope - 'all' or the list of selected account IDs
+ * @returns Trades belonging to the selected accounts
+ */
+export function filterTradesByAccount(trades: Trade[], scope: AccountScope = 'all'): Trade[] {
+  if (scope === 'all') return trades;
+  const accountIds = new Set(scope);
+  return trades.filter(t => t.accountId !== undefined && accountIds.has(t.accountId));
+}
+
+/**
+ * Book a closed trade's P&L into an equity ledger, in its account's currency
+ * Shaped as a reducer so the ledger can be built by walking the trade store
+ */
+export function addToEquityLedger(ledger: EquityLedger, trade: Trade, accounts: Account[]): EquityLedger {
+  const account = accounts.find(a => a.id === trade.accountId);
+  if (!account || getTradeStatus(trade) !== 'closed') return ledger;
+  const entries = ledger.get(account.id) || [];
+  // Same-currency trades use their native P&L; others go through the base currency
+  entries.push({ exitDate: getTradeExitDate(trade), pnl: getTradeDisplayPnL(trade, account.currency) });
+  ledger.set(account.id, entries);
+  return ledger;
+}
+
+/**
+ * Account equity from a ledger: starting capital plus the P&L booked before a date
+ * @param before - Exclusive cutoff date (default: every booked trade)
+ */
+export function getLedgerEquity(account: Account, ledger: EquityLedger, before?: string): number {
+  return (ledger.get(account.id) || [])
+    .filter(entry => before === undefined || entry.exitDate < before)
+    .reduce((equity, entry) => equity + entry.pnl, account.startingCapital);
+}
+
 /**
  * Calculate comprehensive account statistics
- * Uses base currency (INR) for all P&L calculations to avoid mixing currencies
+ * Converts every trade into the display currency (at the rate on its exit date) to avoid mixing currencies
  * W/L is derived from P&L (not the deprecated isWin field)
- * @param trades - Array of all trades
+ * @param allTrades - Array of all trades
+ * @param scope - Accounts to include (default: all)
+ * @param displayCurrency - Currency for P&L and drawdown (default: base currency)
  * @returns Account statistics including win rate, P&L, drawdown, and best/worst setups
  */
-export function getAccountStats(trades: Trade[]) {
+export function getAccountStats(allTrades: Trade[], scope: AccountScope = 'all', displayCurrency: Currency = BASE_CURRENCY) {
+  const trades = getAnalyticsTrades(allTrades, scope);
   if (trades.length === 0) {
     return {
       totalTrades: 0,
@@ -277,16 +796,16 @@ export function getAccountStats(trades: Trade[]) {
   const wins = trades.filter(t => t.pnl > 0).length;
   const winRate = (wins / trades.length) * 100;
   
-  // Use base currency P&L for totals to avoid mixing currencies
-  const totalPnL = trades.reduce((sum, t) => sum + getTradeBasePnL(t), 0);
+  // Use display currency P&L for totals to avoid mixing currencies
+  const totalPnL = trades.reduce((sum, t) => sum + getTradeDisplayPnL(t, displayCurrency), 0);
   const averageR = trades.reduce((sum, t) => sum + t.rFactor, 0) / trades.length;
 
-  // Calculate maximum drawdown using base currency P&L
+  // Calculate maximum drawdown using display currency P&L
   let maxDrawdown = 0;
   let runningMax = 0;
   let cumulativePnL = 0;
   for (const trade of trades) {
-    cumulativePnL += getTradeBasePnL(trade);
+    cumulativePnL += getTradeDisplayPnL(trade, displayCurrency);
     if (cumulativePnL > runningMax) {
       runningMax = cumulativePnL;
     }
@@ -294,14 +813,14 @@ export function getAccountStats(trades: Trade[]) {
     maxDrawdown = Math.max(maxDrawdown, drawdown);
   }
 
-  // Identify best and worst performing trading setups using base currency
+  // Identify best and worst performing trading setups using display currency
   const setupStats = new Map<string, { wins: number; losses: number; pnl: number }>();
   for (const trade of trades) {
     const stats = setupStats.get(trade.setupName) || { wins: 0, losses: 0, pnl: 0 };
     // Derive win/loss from P&L, not deprecated isWin
     if (trade.pnl > 0) stats.wins++;
     else if (trade.pnl < 0) stats.losses++;
-    stats.pnl += getTradeBasePnL(trade);
+    stats.pnl += getTradeDisplayPnL(trade, displayCurrency);
     setupStats.set(trade.setupName, stats);
   }
 
@@ -397,17 +916,19 @@ export function getRecoveryFactor(trades: Trade[], initialCapital: number = 1000
 
 /**
  * Format a value with the appropriate currency symbol
+ * Symbol, placement and default decimals come from the currency registry
  * @param value - Numeric value to format
  * @param currency - Target currency
- * @param decimals - Number of decimal places (default: 2)
+ * @param decimals - Number of decimal places (default: the currency's decimals)
  * @returns Formatted string with currency symbol
  */
-export function formatCurrency(value: number, currency: Currency, decimals: number = 2): string {
-  const symbol = CURRENCY_SYMBOLS[currency];
-  const formatted = value.toFixed(decimals);
+export function formatCurrency(value: number, currency: Currency, decimals?: number): string {
+  const definition = getCurrency(currency);
+  const symbol = definition?.symbol ?? currency;
+  const formatted = value.toFixed(decimals ?? definition?.decimals ?? 2);
   
-  // For currencies with symbols after the number (JPY, AUD, CAD)
-  if (['JPY', 'AUD', 'CAD'].includes(currency)) {
+  // For currencies with symbols after the number (e.g. JPY, AUD, CAD)
+  if (!definition || definition.placement === 'after') {
     return `${formatted} ${symbol}`;
   }
   
@@ -416,19 +937,24 @@ export function formatCurrency(value: number, currency: Currency, decimals: numb
 }
 
 /**
- * Get cumulative P&L in base currency for equity curve display
- * Accounts for different currencies by using pnlBase
+ * Get cumulative P&L in the display currency for equity curve display
+ * Accounts for different currencies by converting the stored base P&L
  * @param trades - Array of trades sorted by date
  * @param baseCurrency - The user's selected base currency for display
+ * @param scope - Accounts to include (default: all)
  * @returns Array of cumulative balance points for equity curve
  */
-export function getEquityCurveInBaseCurrency(trades: Trade[], baseCurrency: Currency = BASE_CURRENCY): Array<{ date: string; balance: number }> {
+export function getEquityCurveInBaseCurrency(
+  trades: Trade[],
+  baseCurrency: Currency = BASE_CURRENCY,
+  scope: AccountScope = 'all'
+): Array<{ date: string; balance: number }> {
   let cumulativeBalance = 0;
-  return trades
+  return [...getAnalyticsTrades(trades, scope)]
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
     .map(trade => {
-      // Use pnlBase to properly account for different trade currencies
-      cumulativeBalance += getTradeBasePnL(trade);
+      // Convert each trade at its own date so past trades keep their historical value
+      cumulativeBalance += getTradeDisplayPnL(trade, baseCurrency);
       return {
         date: trade.date,
         balance: parseFloat(cumulativeBalance.toFixed(2)),
@@ -440,22 +966,24 @@ export function getEquityCurveInBaseCurrency(trades: Trade[], baseCurrency: Curr
  * Get total P&L across all trades in base currency
  * Properly handles multi-currency trades by using pnlBase
  * @param trades - Array of all trades
+ * @param displayCurrency - Currency to total in (default: base currency)
  * @returns Total P&L in base currency
  */
-export function getTotalPnLInBaseCurrency(trades: Trade[]): number {
-  return trades.reduce((sum, trade) => sum + getTradeBasePnL(trade), 0);
+export function getTotalPnLInBaseCurrency(trades: Trade[], displayCurrency: Currency = BASE_CURRENCY): number {
+  return trades.reduce((sum, trade) => sum + getTradeDisplayPnL(trade, displayCurrency), 0);
 }
 
 /**
  * Get average daily P&L in base currency
  * @param trades - Array of all trades
+ * @param displayCurrency - Currency to average in (default: base currency)
  * @returns Average daily P&L in base currency
  */
-export function getAverageDailyPnLInBaseCurrency(trades: Trade[]): number {
+export function getAverageDailyPnLInBaseCurrency(trades: Trade[], displayCurrency: Currency = BASE_CURRENCY): number {
   if (trades.length === 0) return 0;
   
   const uniqueDates = new Set(trades.map(t => t.date));
-  const totalPnL = getTotalPnLInBaseCurrency(trades);
+  const totalPnL = getTotalPnLInBaseCurrency(trades, displayCurrency);
   
   return totalPnL / uniqueDates.size;
 }
@@ -0,0 +1,303 @@
+/**
+ * Trading plan rules
+ * Checks each trade against the configured risk rules in the context of the
+ * trades around it, and records what was broken and why on the trade.
+ */
+
+import { Trade, Account, TradingPlan, PlanViolation, EquityLedger } from './types';
+import {
+  getTradeStatus,
+  getTradeExitDate,
+  getInitialRisk,
+  convertTradeAmount,
+  addToEquityLedger,
+  getLedgerEquity,
+  formatCurrency,
+} from './trade-utils';
+import { deriveRuleFollowed } from './checklist';
+import { createRegistry } from './registry';
+
+export const DEFAULT_TRADING_PLAN: TradingPlan = { enabled: false };
+
+const MS_PER_MINUTE = 60000;
+
+// Published by the settings and accounts contexts (see registry.ts)
+export const tradingPlanRegistry = createRegistry<TradingPlan>('Trading plan', DEFAULT_TRADING_PLAN);
+export const accountRegistry = createRegistry<Account[]>('Accounts', []);
+
+export function getTradingPlan(): TradingPlan {
+  return tradingPlanRegistry.get();
+}
+
+/**
+ * Whether any rule of the plan is switched on
+ */
+export function hasActiveRules(plan: TradingPlan): boolean {
+  return plan.enabled && (
+    plan.maxRiskPercent !== undefined ||
+    plan.maxTradesPerDay !== undefined ||
+    plan.maxDailyLossR !== undefined ||
+    !!plan.noTradingBefore ||
+    plan.lossCooldownMinutes !== undefined
+  );
+}
+
+/**
+ * Local timestamp of a date and HH:MM time
+ */
+function toTimestamp(date: string, time?: string): number | undefined {
+  if (!time) return undefined;
+  const value = new Date(`${date}T${time}`).getTime();
+  return Number.isNaN(value) ? undefined : value;
+}
+
+/**
+ * Order within a day: by entry time, trades without one last, then by id
+ */
+const tradeOrderKey = (trade: Trade) => `${trade.entryTime || '~'} ${trade.id}`;
+
+interface PlanIndex {
+  // Executed trades per entry date, in order
+  byDate: Map<string, Trade[]>;
+  // Closed trades per exit date
+  byExitDate: Map<string, Trade[]>;
+  ledger: EquityLedger;
+}
+
+function groupBy(trades: Trade[], getKey: (trade: Trade) => string | undefined): Map<string, Trade[]> {
+  const groups = new Map<string, Trade[]>();
+  for (const trade of trades) {
+    const key = getKey(trade);
+    if (key === undefined) continue;
+    const group = groups.get(key) || [];
+    group.push(trade);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+function buildPlanIndex(trades: Trade[], accounts: Account[], ledger?: EquityLedger): PlanIndex {
+  const executed = trades.filter(t => getTradeStatus(t) !== 'planned');
+  const closed = executed.filter(t => getTradeStatus(t) === 'closed');
+  const byDate = groupBy(executed, t => t.date);
+  byDate.forEach(day => day.sort((a, b) => tradeOrderKey(a).localeCompare(tradeOrderKey(b))));
+  return {
+    byDate,
+    byExitDate: groupBy(closed, getTradeExitDate),
+    ledger: ledger || closed.reduce((built, t) => addToEquityLedger(built, t, accounts), new Map() as EquityLedger),
+  };
+}
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Whole days the loss cooldown can reach back from an entry
+ */
+function getCooldownDays(plan: TradingPlan): number {
+  return plan.lossCooldownMinutes !== undefined ? Math.ceil(plan.lossCooldownMinutes / 1440) : 0;
+}
+
+/**
+ * What a change to some trades can alter in the plan's verdict on the others
+ */
+export interface PlanImpact {
+  // Entry dates whose trades share a day with a changed trade or fall in its loss cooldown
+  dates: Set<string>;
+  // Per account, the earliest exit whose P&L changed; trades entered after it see different equity
+  equityFrom: Map<string, string>;
+}
+
+/**
+ * Work out which other trades need judging again after these trades were added,
+ * edited or removed - pass both the old and new version of an edited trade
+ */
+export function getPlanImpact(trades: Trade[], plan: TradingPlan = tradingPlanRegistry.get()): PlanImpact {
+  const dates = new Set<string>();
+  const equityFrom = new Map<string, string>();
+  for (const trade of trades) {
+    dates.add(trade.date);
+    if (getTradeStatus(trade) !== 'closed') continue;
+    const exitDate = getTradeExitDate(trade);
+    if (plan.lossCooldownMinutes !== undefined) {
+      for (let offset = 0; offset <= getCooldownDays(plan); offset++) dates.add(shiftDate(exitDate, offset));
+    }
+    if (plan.maxRiskPercent !== undefined && trade.accountId) {
+      const current = equityFrom.get(trade.accountId);
+      if (current === undefined || exitDate < current) equityFrom.set(trade.accountId, exitDate);
+    }
+  }
+  return { dates, equityFrom };
+}
+
+/**
+ * Whether the plan may judge a trade differently after a change
+ */
+export function isAffectedByPlanChange(trade: Trade, impact: PlanImpact): boolean {
+  if (impact.dates.has(trade.date)) return true;
+  const equityFrom = trade.accountId ? impact.equityFrom.get(trade.accountId) : undefined;
+  return equityFrom !== undefined && trade.date > equityFrom;
+}
+
+/**
+ * Trade dates to read for judging the affected trades: reaching back over the loss
+ * cooldown, and open-ended when equity changed for every later trade of an account
+ * @returns undefined when no date is affected (e.g. only planned trades changed)
+ */
+export function getPlanReadRange(impact: PlanImpact, plan: TradingPlan = tradingPlanRegistry.get()): { from: string; to?: string } | undefined {
+  const dates = Array.from(impact.dates).sort();
+  if (dates.length === 0) return undefined;
+  return {
+    from: shiftDate(dates[0], -getCooldownDays(plan)),
+    to: impact.equityFrom.size > 0 ? undefined : dates[dates.length - 1],
+  };
+}
+
+function evaluateWithIndex(trade: Trade, index: PlanIndex, plan: TradingPlan, accounts: Account[]): PlanViolation[] {
+  if (!plan.enabled || getTradeStatus(trade) === 'planned') return [];
+  const violations: PlanViolation[] = [];
+  const day = index.byDate.get(trade.date) || [trade];
+  const earlier = day.slice(0, Math.max(0, day.findIndex(t => t.id === trade.id)));
+  const entryAt = toTimestamp(trade.date, trade.entryTime);
+
+  if (plan.maxRiskPercent !== undefined) {
+    const account = accounts.find(a => a.id === trade.accountId);
+    const equity = account ? getLedgerEquity(account, index.ledger, trade.date) : 0;
+    // Without equity to measure against the rule cannot pass, so say why instead
+    const unchecked = !trade.accountId ? 'the trade has no account'
+      : !account ? 'its account no longer exists'
+      : equity <= 0 ? `the account's equity was ${formatCurrency(equity, account.currency)}`
+      : undefined;
+    if (unchecked || !account) {
+      violations.push({
+        rule: 'maxRiskPercent',
+        violation: 'Risk_Unchecked',
+        message: `Risk % could not be checked: ${unchecked}`,
+      });
+    } else {
+      const risk = convertTradeAmount(getInitialRisk(trade), trade, account.currency);
+      const riskPercent = (risk / equity) * 100;
+      if (riskPercent > plan.maxRiskPercent) {
+        violations.push({
+          rule: 'maxRiskPercent',
+          violation: 'Over_Risked',
+          message: `Risked ${riskPercent.toFixed(2)}% of equity (${formatCurrency(risk, account.currency)} of ${formatCurrency(equity, account.currency)}); the plan allows ${plan.maxRiskPercent}%`,
+        });
+      }
+    }
+  }
+
+  if (plan.maxTradesPerDay !== undefined && earlier.length + 1 > plan.maxTradesPerDay) {
+    violations.push({
+      rule: 'maxTradesPerDay',
+      violation: 'Over_Traded',
+      message: `Trade ${earlier.length + 1} of the day; the plan allows ${plan.maxTradesPerDay}`,
+    });
+  }
+
+  if (plan.maxDailyLossR !== undefined) {
+    // Only losses already booked when this trade was opened count
+    const dayR = earlier
+      .filter(t => getTradeStatus(t) === 'closed' && getTradeExitDate(t) === trade.date)
+      .filter(t => {
+        const exitAt = toTimestamp(getTradeExitDate(t), t.exitTime);
+        return entryAt === undefined || exitAt === undefined || exitAt <= entryAt;
+      })
+      .reduce((sum, t) => sum + t.rFactor, 0);
+    if (dayR <= -plan.maxDailyLossR) {
+      violations.push({
+        rule: 'maxDailyLossR',
+        violation: 'Daily_Loss_Exceeded',
+        message: `Opened after the day's closed trades had lost ${Math.abs(dayR).toFixed(2)}R; the daily limit is ${plan.maxDailyLossR}R`,
+      });
+    }
+  }
+
+  if (plan.noTradingBefore && trade.entryTime && trade.entryTime.padStart(5, '0') < plan.noTradingBefore.padStart(5, '0')) {
+    violations.push({
+      rule: 'noTradingBefore',
+      violation: 'Before_Start_Time',
+      message: `Entered at ${trade.entryTime}, before the ${plan.noTradingBefore} start time`,
+    });
+  }
+
+  if (plan.lossCooldownMinutes !== undefined && entryAt !== undefined) {
+    const cooldownMs = plan.lossCooldownMinutes * MS_PER_MINUTE;
+    const daysBack = getCooldownDays(plan);
+    let lastLoss: { trade: Trade; exitAt: number } | undefined;
+    for (let offset = 0; offset <= daysBack; offset++) {
+      for (const t of index.byExitDate.get(shiftDate(trade.date, -offset)) || []) {
+        const exitAt = toTimestamp(getTradeExitDate(t), t.exitTime);
+        if (t.id === trade.id || t.pnl >= 0 || exitAt === undefined || exitAt > entryAt) continue;
+        if (!lastLoss || exitAt > lastLoss.exitAt) lastLoss = { trade: t, exitAt };
+      }
+    }
+    if (lastLoss && entryAt - lastLoss.exitAt < cooldownMs) {
+      const minutes = Math.round((entryAt - lastLoss.exitAt) / MS_PER_MINUTE);
+      violations.push({
+        rule: 'lossCooldownMinutes',
+        violation: 'Revenge_Trade',
+        message: `Entered ${minutes} min after a losing ${lastLoss.trade.symbol} trade closed at ${lastLoss.trade.exitTime}; the cooldown is ${plan.lossCooldownMinutes} min`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Record plan violations on a trade
+ * Violations entered by hand are kept; ruleFollowed is cleared while any plan rule is broken
+ * and restored from the checklist once the plan no longer flags the trade.
+ */
+export function applyPlanViolations(trade: Trade, violations: PlanViolation[]): Trade {
+  const previous = (trade.planViolations || []).map(v => v.violation);
+  const manual = (trade.ruleViolations || []).filter(v => !previous.includes(v));
+  const ruleViolations = Array.from(new Set([...manual, ...violations.map(v => v.violation)]));
+
+  let ruleFollowed = trade.ruleFollowed;
+  if (violations.length > 0) {
+    ruleFollowed = false;
+  } else if (previous.length > 0) {
+    ruleFollowed = deriveRuleFollowed(trade.checklist, manual.every(v => v === 'None'));
+  }
+
+  return {
+    ...trade,
+    ruleFollowed,
+    ruleViolations: ruleViolations.length > 0 ? ruleViolations : undefined,
+    planViolations: violations.length > 0 ? violations : undefined,
+  };
+}
+
+/**
+ * Evaluate trades against the plan
+ * @param trades - Every trade; each is judged alongside the others
+ * @param ids - Only return these trades (default: all)
+ * @param ledger - Realized P&L for start-of-day equity when `trades` is only a window of the journal (default: built from `trades`)
+ * @returns The requested trades with violations applied
+ */
+export function applyTradingPlan(
+  trades: Trade[],
+  ids?: Set<string>,
+  plan: TradingPlan = tradingPlanRegistry.get(),
+  accounts: Account[] = accountRegistry.get(),
+  ledger?: EquityLedger
+): Trade[] {
+  const index = buildPlanIndex(trades, accounts, ledger);
+  return trades
+    .filter(t => !ids || ids.has(t.id))
+    .map(t => applyPlanViolations(t, evaluateWithIndex(t, index, plan, accounts)));
+}
+
+/**
+ * Whether re-evaluating a trade changed what is recorded on it
+ */
+export function planResultChanged(before: Trade, after: Trade): boolean {
+  return before.ruleFollowed !== after.ruleFollowed ||
+    JSON.stringify(before.ruleViolations || []) !== JSON.stringify(after.ruleViolations || []) ||
+    JSON.stringify(before.planViolations || []) !== JSON.stringify(after.planViolations || []);
+}
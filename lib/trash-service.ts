@@ -0,0 +1,174 @@
+/**
+ * Trash Service
+ * Soft delete for trades, ideas, goals and templates
+ * Deleted records move to the trash store (stamped with `deletedAt`) so the rest of
+ * the app never sees them, and can be restored until they are purged.
+ */
+
+'use client';
+
+import { TrashItem, TrashItemType } from './types';
+import { initializeDB, getAllFromDB, deleteFromDB, STORE_NAMES } from './db-service';
+
+// Store each record type lives in while it is not deleted
+const SOURCE_STORES: Record<TrashItemType, string> = {
+  trade: STORE_NAMES.TRADES,
+  idea: STORE_NAMES.IDEAS,
+  goal: STORE_NAMES.GOALS,
+  template: STORE_NAMES.TEMPLATES,
+};
+
+// Default number of days deleted records are kept before auto-purge
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Build the trash key for a record
+ */
+export function getTrashId(type: TrashItemType, recordId: string): string {
+  return `${type}:${recordId}`;
+}
+
+/**
+ * Describe a record for the Trash view
+ */
+function getTrashLabel(type: TrashItemType, record: any): string {
+  switch (type) {
+    case 'trade':
+      return `${record.symbol} ${record.position} · ${record.date}`;
+    case 'idea':
+      return record.name;
+    case 'goal':
+      return record.title;
+    case 'template':
+      return record.name;
+  }
+}
+
+/**
+ * Move a record into the trash
+ * Both stores are updated in one transaction, so a record is never lost or duplicated
+ * @returns The trashed item, or undefined if the record did not exist
+ */
+export async function moveToTrash(type: TrashItemType, recordId: string): Promise<TrashItem | undefined> {
+  const store = SOURCE_STORES[type];
+  const db = await initializeDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([store, STORE_NAMES.TRASH], 'readwrite');
+    const getRequest = transaction.objectStore(store).get(recordId);
+    let item: TrashItem | undefined;
+
+    getRequest.onsuccess = () => {
+      const record = getRequest.result;
+      if (!record) return;
+      const deletedAt = new Date().toISOString();
+      item = {
+        id: getTrashId(type, recordId),
+        type,
+        recordId,
+        label: getTrashLabel(type, record),
+        deletedAt,
+        record: { ...record, deletedAt },
+      };
+      transaction.objectStore(STORE_NAMES.TRASH).put(item);
+      transaction.objectStore(store).delete(recordId);
+    };
+
+    transaction.oncomplete = () => {
+      console.log(`[Trash] Moved ${type} ${recordId} to trash`);
+      resolve(item);
+    };
+    transaction.onerror = () => {
+      console.error(`[Trash] Failed to move ${type} ${recordId} to trash:`, transaction.error);
+      reject(transaction.error);
+    };
+  });
+}
+
+/**
+ * Move a record out of the trash back into its store
+ * @returns The restored record (without `deletedAt`), or undefined if it was not in the trash
+ */
+export async function restoreFromTrash<T>(type: TrashItemType, recordId: string): Promise<T | undefined> {
+  const store = SOURCE_STORES[type];
+  const db = await initializeDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([store, STORE_NAMES.TRASH], 'readwrite');
+    const trashStore = transaction.objectStore(STORE_NAMES.TRASH);
+    const getRequest = trashStore.get(getTrashId(type, recordId));
+    let restored: T | undefined;
+
+    getRequest.onsuccess = () => {
+      const item = getRequest.result as TrashItem | undefined;
+      if (!item) return;
+      const { deletedAt, ...record } = item.record;
+      restored = record as T;
+      transaction.objectStore(store).put(record);
+      trashStore.delete(item.id);
+    };
+
+    transaction.oncomplete = () => {
+      console.log(`[Trash] Restored ${type} ${recordId}`);
+      resolve(restored);
+    };
+    transaction.onerror = () => {
+      console.error(`[Trash] Failed to restore ${type} ${recordId}:`, transaction.error);
+      reject(transaction.error);
+    };
+  });
+}
+
+/**
+ * Get everything in the trash, most recently deleted first
+ */
+export async function getTrashItems(): Promise<TrashItem[]> {
+  const items = await getAllFromDB<TrashItem>(STORE_NAMES.TRASH);
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * Permanently delete an item from the trash
+ */
+export async function purgeTrashItem(id: string): Promise<void> {
+  await deleteFromDB(STORE_NAMES.TRASH, id);
+}
+
+/**
+ * Permanently delete items that have been in the trash longer than the retention period
+ * @param retentionDays - Days to keep deleted records (0 keeps them forever)
+ * @returns Number of purged items
+ */
+export async function purgeExpiredTrash(retentionDays: number): Promise<number> {
+  if (!retentionDays || retentionDays <= 0) return 0;
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const db = await initializeDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAMES.TRASH], 'readwrite');
+    const index = transaction.objectStore(STORE_NAMES.TRASH).index('deletedAt');
+    const request = index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+    let purged = 0;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.delete();
+      purged++;
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => {
+      if (purged > 0) console.log(`[Trash] Auto-purged ${purged} items older than ${retentionDays} days`);
+      resolve(purged);
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Days left before an item is auto-purged
+ * @returns null when retention is disabled
+ */
+export function getDaysUntilPurge(item: TrashItem, retentionDays: number): number | null {
+  if (!retentionDays || retentionDays <= 0) return null;
+  const elapsed = (Date.now() - new Date(item.deletedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(0, Math.ceil(retentionDays - elapsed));
+}
@@ -1,5 +1,19 @@
-// Supported currencies
-export type Currency = 'INR' | 'USD' | 'EUR' | 'GBP' | 'JPY' | 'AUD' | 'CAD';
+// Currency code (e.g. INR, USD, USDT) - the supported list lives in the currency registry
+export type Currency = string;
+
+// Where the symbol goes relative to the amount (₹100 vs 100 ¥)
+export type CurrencySymbolPlacement = 'before' | 'after';
+
+export interface CurrencyDefinition {
+  code: Currency;
+  name: string;
+  symbol: string;
+  // Decimal places used when formatting amounts
+  decimals: number;
+  placement: CurrencySymbolPlacement;
+  // Rate to INR used when no dated FX rate is stored
+  defaultRate?: number;
+}
 
 // Trade outcome derived from P&L
 export type TradeOutcome = 'W' | 'L' | 'BE'; // Win, Loss, Break-Even
@@ -22,21 +36,75 @@ export type RuleViolation =
   | 'Revenge_Trade' 
   | 'FOMO_Entry' 
   | 'No_Setup'
+  | 'Over_Traded'
+  | 'Daily_Loss_Exceeded'
+  | 'Before_Start_Time'
+  | 'Risk_Unchecked'
   | 'Multiple';
 
 // Emotional state during trade for psychology tracking
 export type EmotionTag = 'Calm' | 'Confident' | 'Anxious' | 'Fearful' | 'Greedy' | 'Frustrated' | 'Revenge' | 'FOMO' | 'Neutral';
 
+// Execution legs for scaled entries/exits
+// 'entry' legs add to the position, 'exit' legs reduce it (direction comes from Trade.position)
+export type ExecutionSide = 'entry' | 'exit';
+
+export interface TradeExecution {
+  id: string;
+  side: ExecutionSide;
+  price: number;
+  quantity: number;
+  // Time of the fill (24hr format, e.g., "09:30")
+  time?: string;
+  fees: number;
+}
+
+// Realized result of a single leg, in trade currency
+export interface ExecutionLegResult {
+  execution: TradeExecution;
+  // Average cost of the open position when this leg was filled
+  averageCost: number;
+  // Realized P&L of the leg after its own fees (entry legs only realize their fees)
+  realizedPnL: number;
+}
+
+export interface ExecutionSummary {
+  averageEntry: number;
+  averageExit: number;
+  entryQuantity: number;
+  exitQuantity: number;
+  // Quantity still held when exits don't cover all entries
+  openQuantity: number;
+  grossPnL: number;
+  fees: number;
+  realizedPnL: number;
+  legs: ExecutionLegResult[];
+}
+
+// Lifecycle of a trade: planned (not entered yet), open (still running) or closed
+export type TradeStatus = 'planned' | 'open' | 'closed';
+
 export interface Trade {
   id: string;
+  // Undefined for trades logged before lifecycle tracking - those are all closed
+  status?: TradeStatus;
+  // Account the trade was executed in (undefined for trades logged before accounts existed)
+  accountId?: string;
   date: string;
   dayOfWeek: string;
   symbol: string;
   tradeType: 'Intraday' | 'Swing' | 'Scalping' | 'Positional';
+  // Playbook setup the trade was taken from; setupName mirrors its name
+  setupId?: string;
   setupName: string;
   position: 'Buy' | 'Sell';
   entryPrice?: number;
   exitPrice?: number;
+  // Date the position was closed, when it differs from the entry date
+  exitDate?: string;
+  // Manual mark-to-market price for open positions
+  markPrice?: number;
+  markedAt?: string;
   stopLoss: number;
   quantity: number;
   fees: number;
@@ -59,6 +127,9 @@ export interface Trade {
   confidence: number;
   preNotes: string;
   postNotes: string;
+  // Labelled images in the screenshots blob store
+  screenshots?: TradeScreenshot[];
+  // DEPRECATED: legacy inline data URLs - moved into the screenshots store on load
   beforeTradeScreenshot?: string;
   afterExitScreenshot?: string;
   mistakeTag?: 'Overtrading' | 'Early exit' | 'Late entry' | 'SL hunt fear' | 'Greed' | 'No mistake (good loss)';
@@ -83,6 +154,9 @@ export interface Trade {
   
   // Specific rule violations if any
   ruleViolations?: RuleViolation[];
+
+  // Violations found by the trading plan evaluator, with the reason for each
+  planViolations?: PlanViolation[];
   
   // Emotional state during trade entry
   emotionEntry?: EmotionTag;
@@ -92,16 +166,46 @@ export interface Trade {
   
   // Planned R target (for comparing actual vs planned)
   plannedRTarget?: number;
+
+  // Price the trade aims to exit at, and the amount planned to lose at the stop
+  targetPrice?: number;
+  plannedRiskAmount?: number;
   
   // Was this trade part of a scaling in/out strategy
   isScaledEntry?: boolean;
   isScaledExit?: boolean;
+
+  // Individual fills; when present, prices/quantity above are derived from them
+  executions?: TradeExecution[];
+
+  // Option contracts traded (one leg for a single option, several for a spread)
+  options?: OptionPosition;
+
+  // Free-form hierarchical tags, e.g. "news/cpi", "pattern/pinbar"
+  tags?: string[];
+
+  // Values of user-defined fields, keyed by CustomFieldDefinition.id
+  customFields?: Record<string, CustomFieldValue>;
+
+  // Pre-trade checklist answers from the setup or template; when present they decide ruleFollowed
+  checklist?: ChecklistAnswer[];
+
+  // Trade ideas this trade executed (TradeIdea.id)
+  ideaIds?: string[];
+
+  // Set while the trade sits in the trash
+  deletedAt?: string;
 }
 
 export interface TradeFormData {
+  status?: TradeStatus;
+  accountId?: string;
   date: string;
+  // Closing date when the trade was held overnight (blank = same day)
+  exitDate?: string;
   symbol: string;
   tradeType: 'Intraday' | 'Swing' | 'Scalping' | 'Positional';
+  setupId?: string;
   setupName: string;
   position: 'Buy' | 'Sell';
   entryPrice: string;
@@ -118,8 +222,7 @@ export interface TradeFormData {
   confidence: string;
   preNotes: string;
   postNotes: string;
-  beforeTradeScreenshot?: string;
-  afterExitScreenshot?: string;
+  screenshots?: TradeScreenshot[];
   mistakeTag?: 'Overtrading' | 'Early exit' | 'Late entry' | 'SL hunt fear' | 'Greed' | 'No mistake (good loss)';
   exitRFactor?: string;
   timeFrame: string;
@@ -138,6 +241,365 @@ export interface TradeFormData {
   emotionEntry?: EmotionTag;
   emotionExit?: EmotionTag;
   plannedRTarget?: string;
+  targetPrice?: string;
+  plannedRiskAmount?: string;
+  executions?: TradeExecutionFormData[];
+  options?: OptionPositionFormData;
+  tags?: string[];
+  // Raw inputs per custom field id (numbers stay strings until submit)
+  customFields?: Record<string, CustomFieldFormValue>;
+  checklist?: ChecklistAnswer[];
+  ideaIds?: string[];
+}
+
+export interface TradeExecutionFormData {
+  id: string;
+  side: ExecutionSide;
+  price: string;
+  quantity: string;
+  time: string;
+  fees: string;
+}
+
+// Unrealized result of an open position at its mark price
+export interface OpenPositionValuation {
+  openQuantity: number;
+  averageEntry: number;
+  // Realized from partial exits so far, after fees
+  realizedPnL: number;
+  unrealizedPnL: number;
+  // (realized + unrealized) against the initial risk
+  unrealizedR: number;
+}
+
+// Position sized from a risk budget against the stop
+export interface PositionSize {
+  // Rounded down to whole lots; 0 when the budget does not cover one lot
+  quantity: number;
+  // Loss at the stop for that quantity, in the trade currency
+  riskAmount: number;
+  riskPerUnit: number;
+  // Price at the planned R multiple, when one is given
+  targetPrice?: number;
+}
+
+// ============================================
+// Options
+// ============================================
+
+export type OptionType = 'call' | 'put';
+
+export type OptionStrategyType =
+  | 'single'
+  | 'vertical_spread'
+  | 'straddle'
+  | 'strangle'
+  | 'iron_condor'
+  | 'iron_butterfly'
+  | 'butterfly'
+  | 'calendar'
+  | 'custom';
+
+// One option contract of a trade
+export interface OptionLeg {
+  id: string;
+  optionType: OptionType;
+  side: 'Buy' | 'Sell';
+  strike: number;
+  // Expiry date (YYYY-MM-DD)
+  expiry: string;
+  // Premium per unit paid or received
+  premium: number;
+  quantity: number;
+}
+
+export interface OptionPosition {
+  underlying: string;
+  strategy: OptionStrategyType;
+  legs: OptionLeg[];
+}
+
+export interface OptionLegFormData {
+  id: string;
+  optionType: OptionType;
+  side: 'Buy' | 'Sell';
+  strike: string;
+  expiry: string;
+  premium: string;
+  quantity: string;
+}
+
+export interface OptionPositionFormData {
+  underlying: string;
+  // Empty = detect from the legs
+  strategy: OptionStrategyType | '';
+  legs: OptionLegFormData[];
+}
+
+// Payoff at expiry of an option position; null means unlimited
+export interface OptionRiskProfile {
+  maxRisk: number | null;
+  maxReward: number | null;
+  breakevens: number[];
+  // Premium paid (positive) or received (negative) to open the position
+  netDebit: number;
+}
+
+// ============================================
+// Screenshots
+// ============================================
+
+// Reference from a trade to an image in the screenshots store
+export interface TradeScreenshot {
+  id: string;
+  label: string;
+}
+
+// Image stored as a blob, with a compressed thumbnail for lists
+export interface ScreenshotRecord {
+  id: string;
+  blob: Blob;
+  thumbnail: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+  createdAt: string;
+  // Vector markup drawn over the image, editable later
+  annotations?: ScreenshotAnnotation[];
+}
+
+export type AnnotationTool = 'arrow' | 'hline' | 'rect' | 'text';
+
+// One chart markup shape
+// Coordinates are fractions (0-1) of the image size so they survive any display scale
+export interface ScreenshotAnnotation {
+  id: string;
+  type: AnnotationTool;
+  color: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  text?: string;
+}
+
+// ============================================
+// Trash (soft delete)
+// ============================================
+
+export type TrashItemType = 'trade' | 'idea' | 'goal' | 'template';
+
+// A deleted record parked in the trash store until it is restored or purged
+export interface TrashItem {
+  // `${type}:${recordId}`
+  id: string;
+  type: TrashItemType;
+  recordId: string;
+  // Short human-readable description for the Trash view
+  label: string;
+  deletedAt: string;
+  // The record as it was, with `deletedAt` set
+  record: any;
+}
+
+// ============================================
+// Revision History
+// ============================================
+
+export type RevisionEntityType = 'trade' | 'idea';
+
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore' | 'revert';
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// One entry in a record's audit log
+export interface Revision {
+  id: string;
+  entityType: RevisionEntityType;
+  recordId: string;
+  // `${entityType}:${recordId}` - indexed so a record's history is one range query
+  recordKey: string;
+  action: RevisionAction;
+  timestamp: string;
+  changes: FieldChange[];
+  // Full record after the change (before it, for deletes) - used to revert
+  snapshot: any;
+  // Revision id this entry reverted to
+  revertedFrom?: string;
+}
+
+// ============================================
+// Trading Plan
+// ============================================
+
+// Risk rules checked against every trade; a blank limit switches its rule off
+export interface TradingPlan {
+  enabled: boolean;
+  // Initial risk as % of account equity before the trade
+  maxRiskPercent?: number;
+  maxTradesPerDay?: number;
+  // Stop opening trades once the day's closed trades have lost this many R
+  maxDailyLossR?: number;
+  // Earliest entry time (24hr format, e.g., "09:30")
+  noTradingBefore?: string;
+  // Minutes to wait after a losing trade closes
+  lossCooldownMinutes?: number;
+}
+
+export type TradingPlanRule = 'maxRiskPercent' | 'maxTradesPerDay' | 'maxDailyLossR' | 'noTradingBefore' | 'lossCooldownMinutes';
+
+export interface PlanViolation {
+  rule: TradingPlanRule;
+  violation: RuleViolation;
+  message: string;
+}
+
+// ============================================
+// Trading Accounts
+// ============================================
+
+export interface Account {
+  id: string;
+  name: string;
+  broker: string;
+  currency: Currency;
+  startingCapital: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Which accounts analytics are scoped to: every account, or an explicit selection
+export type AccountScope = 'all' | string[];
+
+// Realized P&L per account id, in the account currency, with the date it was booked
+export type EquityLedger = Map<string, { exitDate: string; pnl: number }[]>;
+
+// ============================================
+// Instruments
+// ============================================
+
+export type AssetClass = 'index' | 'equity' | 'futures' | 'options' | 'crypto' | 'forex' | 'commodity';
+
+export interface Instrument {
+  id: string;
+  symbol: string;
+  name?: string;
+  assetClass: AssetClass;
+  exchange: string;
+  currency: Currency;
+  // Quantity step, in the same units the quantity is logged in (e.g. 65 for a NIFTY lot)
+  lotSize: number;
+  // Minimum price increment
+  tickSize: number;
+  // Money value of a 1.0 price move per unit of logged quantity (contract multiplier)
+  pointValue: number;
+  // Other names the instrument is logged under (e.g. NIFTY50, SOLUSDT)
+  aliases: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Historical exchange rate: 1 unit of `from` is worth `rate` units of `to` on `date`
+export interface FxRate {
+  // Pair and date, e.g. "USDINR:2025-03-14"
+  id: string;
+  date: string;
+  from: Currency;
+  to: Currency;
+  rate: number;
+  source: 'manual' | 'csv';
+  updatedAt: string;
+}
+
+// ============================================
+// Playbook
+// ============================================
+
+// A named, rule-based setup; trades reference it by id so spelling variants share stats
+export interface PlaybookSetup {
+  id: string;
+  name: string;
+  description: string;
+  entryCriteria: string;
+  exitCriteria: string;
+  stopCriteria: string;
+  idealConditions: MarketCondition[];
+  targetR?: number;
+  // Example charts in the screenshots blob store
+  screenshots?: TradeScreenshot[];
+  // Other names the setup was logged under (e.g. "0.382 fib", "Fib 382")
+  aliases: string[];
+  // Conditions to confirm in the trade form before a trade is saved
+  checklist?: ChecklistItem[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+}
+
+// The item text is copied so answers stay readable after the checklist is edited
+export interface ChecklistAnswer {
+  itemId: string;
+  text: string;
+  checked: boolean;
+}
+
+// ============================================
+// Custom Fields
+// ============================================
+
+export type CustomFieldType = 'number' | 'select' | 'multi-select' | 'boolean' | 'text';
+
+// Trader-defined trade attribute such as "VIX level" or "From watchlist"
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  // Choices for select and multi-select fields
+  options?: string[];
+  // Number fields: width of the ranges used when grouping (blank = each value on its own)
+  bucketSize?: number;
+  // Show as a column in the trade log
+  showInLog: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CustomFieldValue = number | string | string[] | boolean;
+export type CustomFieldFormValue = string | string[] | boolean;
+
+// Criterion on one custom field inside a saved filter
+export interface CustomFieldFilter {
+  fieldId: string;
+  // Select / multi-select / text: matches any of these (text matches by substring)
+  values?: string[];
+  // Number: inclusive range
+  min?: number;
+  max?: number;
+  // Boolean: required value
+  equals?: boolean;
+}
+
+// ============================================
+// Tags
+// ============================================
+
+// Styling for a tag shared by trades and ideas; the name is a "/"-separated path
+// such as "news/cpi". Tags without a definition inherit their parent's colour.
+export interface TagDefinition {
+  name: string;
+  color: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 // ============================================
@@ -167,6 +629,76 @@ export interface TradeIdea {
   backtestWinRate?: number;
   backtestSampleSize?: number;
   tags?: string[];
+  // Set while the idea sits in the trash
+  deletedAt?: string;
+}
+
+// One simulated trade recorded while backtesting an idea; results are in R only
+export interface BacktestTrade {
+  id: string;
+  ideaId: string;
+  date: string;
+  direction: 'Buy' | 'Sell';
+  rResult: number;
+  notes: string;
+  createdAt: string;
+}
+
+// ============================================
+// Daily Journal
+// ============================================
+
+export type MarketBias = 'Bullish' | 'Bearish' | 'Neutral';
+
+// One entry per calendar day, kept whether or not any trades were taken
+export interface DailyJournal {
+  date: string; // YYYY-MM-DD, the store key
+  preMarketPlan: string;
+  keyLevels: string;
+  bias?: MarketBias;
+  postMarketReview: string;
+  lessons: string;
+  mood?: number; // 1-5
+  energy?: number; // 1-5
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ============================================
+// Weekly Review
+// ============================================
+
+export type ReviewGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface ReviewActionItem {
+  id: string;
+  text: string;
+  done: boolean;
+  // ISO week the item was first written in, when carried over
+  carriedFrom?: string;
+}
+
+// Figures from the weekly report at the time the review was started
+export interface WeeklyReviewStats {
+  totalTrades: number;
+  winRate: number;
+  totalPnL: number;
+  currency: Currency;
+  bestDay: string;
+  worstDay: string;
+}
+
+export interface WeeklyReviewRecord {
+  week: string; // ISO week, e.g. 2026-W07; the store key
+  startDate: string;
+  endDate: string;
+  wentWell: string;
+  toImprove: string;
+  actionItems: ReviewActionItem[];
+  grade?: ReviewGrade;
+  stats: WeeklyReviewStats;
+  createdAt: string;
+  updatedAt: string;
 }
 
 // ============================================
@@ -189,6 +721,8 @@ export interface TradingGoal {
   progress: number; // 0-100
   createdAt: string;
   updatedAt: string;
+  // Set while the goal sits in the trash
+  deletedAt?: string;
 }
 
 // ============================================
@@ -214,6 +748,7 @@ export interface TradeFilter {
   ruleFollowedOnly?: boolean;
   emotionTags?: EmotionTag[];
   sessions?: MarketSession[];
+  customFields?: CustomFieldFilter[];
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,33 @@
+/**
+ * Undo Toast
+ * Short-lived sonner toast offering to reverse a delete or bulk edit
+ */
+
+'use client';
+
+import { toast } from 'sonner';
+
+// How long the undo action stays available
+const UNDO_TOAST_DURATION = 8000;
+
+/**
+ * Show a toast with an Undo action
+ * @param message - What just happened, e.g. "Trade moved to trash"
+ * @param onUndo - Reverses the change; failures are reported in a follow-up toast
+ */
+export function showUndoToast(message: string, onUndo: () => void | Promise<void>): void {
+  toast(message, {
+    duration: UNDO_TOAST_DURATION,
+    action: {
+      label: 'Undo',
+      onClick: async () => {
+        try {
+          await onUndo();
+        } catch (err) {
+          console.error('[UndoToast] Undo failed:', err);
+          toast.error('Could not undo the last change');
+        }
+      },
+    },
+  });
+}
@@ -1,4 +1,5 @@
 import { TradeFormData } from './types';
+import { validateCustomFieldValues } from './custom-fields';
 
 /**
  * Sanitize string input to prevent XSS and injection attacks.
@@ -93,6 +94,32 @@ export function validateGitHubCredentials(
 export function validateTradeForm(formData: TradeFormData): Record<string, string> {
   const errors: Record<string, string> = {};
 
+  // Execution legs: every filled row needs a valid price and a positive quantity.
+  // A complete set (at least one entry and one exit) supplies quantity, P&L and R.
+  const legs = (formData.executions || []).filter(leg => leg.price || leg.quantity);
+  if (legs.some(leg => validateNumber(leg.price) === null || validatePositiveNumber(leg.quantity) === null)) {
+    errors.executions = 'Each leg needs a valid price and a positive quantity';
+  } else if (legs.some(leg => leg.fees && validateNumber(leg.fees) === null)) {
+    errors.executions = 'Leg fees must be a valid number';
+  }
+  // Option legs: strike, expiry and quantity are needed for the payoff
+  const optionLegs = (formData.options?.legs || []).filter(leg => leg.strike || leg.premium || leg.quantity);
+  if (optionLegs.some(leg => validatePositiveNumber(leg.strike) === null || validatePositiveNumber(leg.quantity) === null || !leg.expiry)) {
+    errors.options = 'Each option leg needs a strike, expiry and positive quantity';
+  } else if (optionLegs.some(leg => leg.premium && validateNumber(leg.premium) === null)) {
+    errors.options = 'Option premium must be a valid number';
+  }
+
+  const hasEntryLegs = legs.some(leg => leg.side === 'entry');
+  const hasLegs = hasEntryLegs && legs.some(leg => leg.side === 'exit');
+  // Planned and open trades have no exit yet
+  const isClosed = (formData.status || 'closed') === 'closed';
+
+  // Exit date cannot precede the trade date
+  if (isClosed && formData.exitDate && formData.exitDate < formData.date) {
+    errors.exitDate = 'Exit date cannot be before the trade date';
+  }
+
   // Symbol validation
   if (!formData.symbol) {
     errors.symbol = 'Symbol is required';
@@ -122,7 +149,7 @@ export function validateTradeForm(formData: TradeFormData): Record<string, strin
 
   // Exit (Fibonacci) validation
   if (!formData.exit) {
-    errors.exit = 'Exit level is required';
+    if (isClosed) errors.exit = 'Exit level is required';
   } else if (!validFibLevels.includes(formData.exit)) {
     errors.exit = 'Invalid Fibonacci level';
   }
@@ -138,7 +165,9 @@ export function validateTradeForm(formData: TradeFormData): Record<string, strin
   }
 
   // Quantity validation
-  if (!formData.quantity) {
+  if (hasLegs || (!isClosed && hasEntryLegs)) {
+    // Quantity comes from the entry legs
+  } else if (!formData.quantity) {
     errors.quantity = 'Quantity is required';
   } else {
     const qty = validatePositiveNumber(formData.quantity);
@@ -148,7 +177,11 @@ export function validateTradeForm(formData: TradeFormData): Record<string, strin
   }
 
   // P&L validation
-  if (!formData.manualProfit) {
+  if (hasLegs) {
+    // P&L is realized from the legs
+  } else if (!isClosed) {
+    // Nothing is realized until the position is closed
+  } else if (!formData.manualProfit) {
     errors.manualProfit = 'P&L is required';
   } else {
     const pnl = validateNumber(formData.manualProfit);
@@ -158,7 +191,11 @@ export function validateTradeForm(formData: TradeFormData): Record<string, strin
   }
 
   // R Factor validation
-  if (formData.exitRFactor === undefined || formData.exitRFactor === '') {
+  if (hasLegs) {
+    // R is measured from the legs against the initial stop
+  } else if (!isClosed) {
+    // R is measured when the position is closed
+  } else if (formData.exitRFactor === undefined || formData.exitRFactor === '') {
     errors.exitRFactor = 'R Factor is required';
   } else {
     const rFactor = validateNumber(formData.exitRFactor);
@@ -181,6 +218,9 @@ export function validateTradeForm(formData: TradeFormData): Record<string, strin
   // Optional entry price validation
   if (formData.entryPrice && validateNumber(formData.entryPrice) === null) {
     errors.entryPrice = 'Entry price must be a valid number';
+  } else if (formData.status === 'open' && !formData.entryPrice && !hasEntryLegs) {
+    // Open positions are marked to market against their entry
+    errors.entryPrice = 'Entry price is required for an open position';
   }
 
   // Optional exit price validation
@@ -188,5 +228,11 @@ export function validateTradeForm(formData: TradeFormData): Record<string, strin
     errors.exitPrice = 'Exit price must be a valid number';
   }
 
+  // Custom fields: only number inputs can be malformed
+  const customFieldErrors = Object.values(validateCustomFieldValues(formData.customFields));
+  if (customFieldErrors.length > 0) {
+    errors.customFields = customFieldErrors[0];
+  }
+
   return errors;
 }
@@ -0,0 +1,105 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { WeeklyReviewRecord } from './types';
+import { getAllFromDB, putToDB, deleteFromDB, STORE_NAMES } from './db-service';
+import { parseWeekKey } from './weekly-review';
+
+interface WeeklyReviewContextType {
+  reviews: WeeklyReviewRecord[];
+  getReview: (week: string) => WeeklyReviewRecord | undefined;
+  saveReview: (review: WeeklyReviewRecord) => void;
+  deleteReview: (week: string) => void;
+  error: string | null;
+  clearError: () => void;
+}
+
+export const WeeklyReviewContext = createContext<WeeklyReviewContextType | undefined>(undefined);
+
+// Newest week first
+const sortReviews = (reviews: WeeklyReviewRecord[]) =>
+  [...reviews].sort((a, b) => b.week.localeCompare(a.week));
+
+/**
+ * WeeklyReviewProvider - Context provider for weekly reviews
+ * Persists one review per ISO week to IndexedDB
+ */
+export function WeeklyReviewProvider({ children }: { children: React.ReactNode }) {
+  const [reviews, setReviews] = useState<WeeklyReviewRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Effect: Load reviews from IndexedDB on mount
+   */
+  useEffect(() => {
+    const initializeReviews = async () => {
+      try {
+        console.log('[WeeklyReviewContext] Loading weekly reviews from IndexedDB...');
+        const loaded = await getAllFromDB<WeeklyReviewRecord>(STORE_NAMES.WEEKLY_REVIEWS);
+        console.log('[WeeklyReviewContext] Loaded', loaded?.length || 0, 'weekly reviews');
+        setReviews(sortReviews(loaded || []));
+        setError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load weekly reviews';
+        console.error('[WeeklyReviewContext] Initialization error:', message, err);
+        setError(message);
+      }
+    };
+
+    initializeReviews();
+  }, []);
+
+  const getReview = (week: string) => reviews.find(r => r.week === week);
+
+  /**
+   * Create or replace the review for its week
+   */
+  const saveReview = (review: WeeklyReviewRecord) => {
+    try {
+      parseWeekKey(review.week);
+      setReviews(prev => sortReviews([...prev.filter(r => r.week !== review.week), review]));
+      putToDB(STORE_NAMES.WEEKLY_REVIEWS, review).catch(err => {
+        console.error('[WeeklyReviewContext] Error saving review:', err);
+        setError('Failed to save weekly review');
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save weekly review';
+      console.error('[WeeklyReviewContext] Save error:', message);
+      setError(message);
+      throw err;
+    }
+  };
+
+  const deleteReview = (week: string) => {
+    setReviews(prev => prev.filter(r => r.week !== week));
+    deleteFromDB(STORE_NAMES.WEEKLY_REVIEWS, week).catch(err => {
+      console.error('[WeeklyReviewContext] Error deleting review:', err);
+      setError('Failed to delete weekly review');
+    });
+  };
+
+  const clearError = () => setError(null);
+
+  return (
+    <WeeklyReviewContext.Provider
+      value={{
+        reviews,
+        getReview,
+        saveReview,
+        deleteReview,
+        error,
+        clearError,
+      }}
+    >
+      {children}
+    </WeeklyReviewContext.Provider>
+  );
+}
+
+export function useWeeklyReviews() {
+  const context = useContext(WeeklyReviewContext);
+  if (!context) {
+    throw new Error('useWeeklyReviews must be used within a WeeklyReviewProvider');
+  }
+  return context;
+}
@@ -0,0 +1,99 @@
+/**
+ * Weekly reviews
+ * Written reflections keyed by ISO week (e.g. 2026-W07), started from the
+ * weekly report's figures and carrying over unfinished action items.
+ */
+
+import { WeeklyReviewRecord, ReviewActionItem } from './types';
+import { WeeklyReport, getISOWeek } from './reports-generator';
+import { formatCurrency } from './trade-utils';
+
+const WEEK_KEY = /^(\d{4})-W(\d{2})$/;
+
+/**
+ * Format an ISO week as its review key
+ */
+export function formatWeekKey(year: number, week: number): string {
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Split a review key into ISO year and week
+ */
+export function parseWeekKey(key: string): { year: number; week: number } {
+  const match = WEEK_KEY.exec(key);
+  if (!match) throw new Error(`Invalid week: ${key}`);
+  return { year: Number(match[1]), week: Number(match[2]) };
+}
+
+export function getWeekKey(date: Date = new Date()): string {
+  const { year, week } = getISOWeek(date);
+  return formatWeekKey(year, week);
+}
+
+/**
+ * Move a review key by whole weeks
+ */
+export function shiftWeekKey(key: string, weeks: number): string {
+  const { year, week } = parseWeekKey(key);
+  // January 4th is always in ISO week 1
+  const jan4 = new Date(year, 0, 4);
+  const monday = new Date(year, 0, 4 - ((jan4.getDay() + 6) % 7) + (week - 1 + weeks) * 7);
+  return getWeekKey(monday);
+}
+
+/**
+ * Most recent review before a week
+ */
+export function findPreviousReview(reviews: WeeklyReviewRecord[], week: string): WeeklyReviewRecord | undefined {
+  return reviews
+    .filter(r => r.week < week)
+    .sort((a, b) => b.week.localeCompare(a.week))[0];
+}
+
+/**
+ * Unfinished action items of a review, marked with the week they came from
+ */
+export function carryOverActionItems(previous?: WeeklyReviewRecord): ReviewActionItem[] {
+  if (!previous) return [];
+  return previous.actionItems
+    .filter(item => !item.done)
+    .map(item => ({ ...item, carriedFrom: item.carriedFrom || previous.week }));
+}
+
+/**
+ * Start a review for a week from its report
+ * Winning setups seed "went well", losing setups and the worst day seed "to improve".
+ */
+export function createWeeklyReview(week: string, report: WeeklyReport, previous?: WeeklyReviewRecord): WeeklyReviewRecord {
+  const now = new Date().toISOString();
+  const format = (value: number) => formatCurrency(value, report.currency);
+  const describeSetup = (s: WeeklyReport['topSetups'][number]) =>
+    `- ${s.setup || 'No setup'}: ${s.trades} trade(s), ${s.winRate.toFixed(0)}% win rate, ${format(s.pnl)}`;
+
+  const wentWell = report.topSetups.filter(s => s.pnl > 0).map(describeSetup);
+  const toImprove = report.topSetups.filter(s => s.pnl < 0).map(describeSetup);
+  const bestDay = report.dailyStats.find(d => d.date === report.bestDay);
+  const worstDay = report.dailyStats.find(d => d.date === report.worstDay);
+  if (bestDay && bestDay.totalPnL > 0) wentWell.unshift(`- Best day ${bestDay.date}: ${format(bestDay.totalPnL)}`);
+  if (worstDay && worstDay.totalPnL < 0) toImprove.unshift(`- Worst day ${worstDay.date}: ${format(worstDay.totalPnL)}`);
+
+  return {
+    week,
+    startDate: report.startDate,
+    endDate: report.endDate,
+    wentWell: wentWell.join('\n'),
+    toImprove: toImprove.join('\n'),
+    actionItems: carryOverActionItems(previous),
+    stats: {
+      totalTrades: report.totalTrades,
+      winRate: report.winRate,
+      totalPnL: report.totalPnL,
+      currency: report.currency,
+      bestDay: report.bestDay,
+      worstDay: report.worstDay,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
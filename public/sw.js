@@ -102,12 +102,19 @@ self.addEventListener('sync', (event) => {
 async function syncOfflineTrades() {
   try {
     const db = new Promise((resolve, reject) => {
-      const request = indexedDB.open('trading-journal-db', 2);
+      // No version: the app owns the schema (see lib/db-service.ts migrations)
+      const request = indexedDB.open('trading-journal-db');
       request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
+      request.onsuccess = () => {
+        const database = request.result;
+        // Don't block the app from upgrading the schema
+        database.onversionchange = () => database.close();
+        resolve(database);
+      };
     });
 
     const database = await db;
+    if (!database.objectStoreNames.contains('pending-trades')) return;
     const tx = database.transaction(['pending-trades'], 'readonly');
     const store = tx.objectStore('pending-trades');
     const trades = await new Promise((resolve, reject) => {
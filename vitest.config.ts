@@ -0,0 +1,14 @@
+import { defineConfig, configDefaults } from 'vitest/config';
+import { fileURLToPath } from 'url';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['__tests__/**/*.test.ts'],
+    // Written against the old trade shape (direction, stopLossPrice, ...) and never wired to a runner
+    exclude: [...configDefaults.exclude, '__tests__/utils.test.ts'],
+  },
+});